@@ -0,0 +1,67 @@
+// __tests__/amount.test.ts
+import {
+  addAmounts,
+  compareAmounts,
+  fitsDecimals,
+  fromBaseUnits,
+  parseAmount,
+  roundAmount,
+  splitAmount,
+  subtractAmounts,
+  toBaseUnits,
+} from '../src/utils/amount';
+
+describe('Amounts', () => {
+  it('should parse decimals to their canonical form', () => {
+    expect(parseAmount('0.1')).toBe('0.1');
+    expect(parseAmount(' 007.500 ')).toBe('7.5');
+    expect(parseAmount('.25')).toBe('0.25');
+    expect(parseAmount('-0.0')).toBe('0');
+    expect(() => parseAmount('1e3')).toThrow('Invalid amount: 1e3');
+    expect(() => parseAmount('abc')).toThrow('Invalid amount');
+    expect(() => parseAmount('.')).toThrow('Invalid amount');
+  });
+
+  it('should read numbers from older records without float noise', () => {
+    expect(parseAmount(0.1)).toBe('0.1');
+    expect(parseAmount(1e-7)).toBe('0.0000001');
+    expect(parseAmount(1.5e21)).toBe('1500000000000000000000');
+  });
+
+  it('should convert to and from base units exactly', () => {
+    expect(toBaseUnits('0.1', 9)).toBe(BigInt(100_000_000));
+    expect(toBaseUnits('0.3', 6)).toBe(BigInt(300_000));
+    expect(toBaseUnits('12345678.123456789', 9)).toBe(BigInt('12345678123456789'));
+    expect(toBaseUnits('1.0000001', 6)).toBe(BigInt(1_000_000));
+    expect(fromBaseUnits(BigInt(1), 9)).toBe('0.000000001');
+    expect(fromBaseUnits('3500000', 6)).toBe('3.5');
+    expect(fromBaseUnits(-1_500, 3)).toBe('-1.5');
+  });
+
+  it('should tell amounts a token cannot represent', () => {
+    expect(fitsDecimals('1.000001', 6)).toBe(true);
+    expect(fitsDecimals('1.0000001', 6)).toBe(false);
+    expect(fitsDecimals('5', 0)).toBe(true);
+  });
+
+  it('should add, subtract and compare without rounding', () => {
+    expect(addAmounts('0.1', '0.2')).toBe('0.3');
+    expect(subtractAmounts('0.3', '0.1')).toBe('0.2');
+    expect(subtractAmounts('1', '1.5')).toBe('-0.5');
+    expect(compareAmounts('0.30', '0.3')).toBe(0);
+    expect(compareAmounts('0.1', '0.10000001')).toBe(-1);
+    expect(compareAmounts('10', '9.99')).toBe(1);
+  });
+
+  it('should split by weight into shares that add up to the amount', () => {
+    expect(splitAmount('500', [60, 25, 15], 6)).toEqual(['300', '125', '75']);
+    expect(splitAmount('10', [33.33, 33.33, 33.34], 6)).toEqual(['3.333', '3.333', '3.334']);
+    expect(splitAmount('1', [50, 50], 0)).toEqual(['0', '1']);
+    expect(splitAmount('0.1234567', [50, 50], 6)).toEqual(['0.061728', '0.0617287']);
+  });
+
+  it('should round computed amounts to the token decimals', () => {
+    expect(roundAmount(14.0000004, 6)).toBe('14');
+    expect(roundAmount(-3, 6)).toBe('0');
+  });
+});
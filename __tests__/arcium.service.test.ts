@@ -152,7 +152,7 @@ describe('ArciumService', () => {
   describe('encryptAmount', () => {
     it('should return null when SDK is not initialized', () => {
       // Service just constructed, not initialized
-      const result = service.encryptAmount(100);
+      const result = service.encryptAmount(BigInt(100_000_000));
 
       expect(result).toBeNull();
     });
@@ -169,7 +169,7 @@ describe('ArciumService', () => {
 
       await service.initialize();
 
-      const result = service.encryptAmount(50.5);
+      const result = service.encryptAmount(BigInt(50_500_000));
 
       expect(result).not.toBeNull();
       expect(result).toContain('[RESCUE: 0x');
@@ -187,7 +187,7 @@ describe('ArciumService', () => {
 
       await service.initialize();
 
-      const result = service.encryptAmount(100);
+      const result = service.encryptAmount(BigInt(100_000_000));
 
       expect(result).toBeNull();
     });
@@ -204,7 +204,7 @@ describe('ArciumService', () => {
 
       await service.initialize();
 
-      const result = service.encryptAmount(0);
+      const result = service.encryptAmount(BigInt(0));
 
       expect(result).not.toBeNull();
       expect(result).toContain('[RESCUE: 0x');
@@ -279,7 +279,7 @@ describe('ArciumService', () => {
 
   describe('ArciumSimulated', () => {
     it('should return simulated encryption result', async () => {
-      const result = await ArciumSimulated.simulateEncrypt(42);
+      const result = await ArciumSimulated.simulateEncrypt('42');
 
       expect(result.message).toBe('Encrypted 42');
       expect(result.ciphertext).toContain('[RESCUE: 0x');
@@ -0,0 +1,219 @@
+// __tests__/confidential-transfer.service.test.ts
+// Tests for Token-2022 confidential deposits: account configuration, instruction encodings, key checks
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  AccountType,
+  ExtensionType,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TokenInstruction,
+} from '@solana/spl-token';
+import {
+  ConfidentialTransferService,
+  ZK_ELGAMAL_PROOF_PROGRAM_ID,
+} from '../src/services/confidential-transfer.service';
+import { TokenMintInfo, TokenProgramService } from '../src/services/token-program.service';
+import { KeypairSigner } from '../src/utils/signer';
+
+// @ts-ignore - the SDK's subpath exports need a newer moduleResolution for its types
+import * as zk from '@solana/zk-sdk/node';
+
+const mintInfo = (overrides: Partial<TokenMintInfo> = {}): TokenMintInfo => ({
+  address: Keypair.generate().publicKey,
+  programId: TOKEN_2022_PROGRAM_ID,
+  decimals: 6,
+  transferFee: null,
+  transferHookProgram: null,
+  confidentialTransfer: { authority: null, autoApproveNewAccounts: true },
+  accountSize: ACCOUNT_SIZE,
+  ...overrides,
+});
+
+/** Token-2022 account data, with a ConfidentialTransferAccount extension when configured */
+const tokenAccountData = (
+  mint: PublicKey,
+  owner: PublicKey,
+  confidential?: { elgamalPubkey: Uint8Array; decryptableAvailableBalance: Uint8Array; pendingCredits: number }
+) => {
+  const base = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode(
+    {
+      mint,
+      owner,
+      amount: BigInt(5_000_000),
+      delegateOption: 0,
+      delegate: PublicKey.default,
+      state: AccountState.Initialized,
+      isNativeOption: 0,
+      isNative: BigInt(0),
+      delegatedAmount: BigInt(0),
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default,
+    },
+    base
+  );
+  if (!confidential) return base;
+
+  const value = Buffer.alloc(295);
+  value[0] = 1;
+  Buffer.from(confidential.elgamalPubkey).copy(value, 1);
+  Buffer.from(confidential.decryptableAvailableBalance).copy(value, 225);
+  value.writeBigUInt64LE(BigInt(confidential.pendingCredits), 263);
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(ExtensionType.ConfidentialTransferAccount, 0);
+  header.writeUInt16LE(value.length, 2);
+  return Buffer.concat([base, Buffer.from([AccountType.Account]), header, value]);
+};
+
+describe('ConfidentialTransferService', () => {
+  const owner = new KeypairSigner(Keypair.generate());
+  const account = Keypair.generate().publicKey;
+  const mockGetAccountInfo = jest.fn();
+  const mockSendRawTransaction = jest.fn();
+  let mint: TokenMintInfo;
+  let service: ConfidentialTransferService;
+
+  /** Transactions sent so far, in order */
+  const sent = () => mockSendRawTransaction.mock.calls.map(([raw]) => Transaction.from(raw));
+  /** The keys the service derives for the owner's account */
+  const keys = () => (service as any).deriveKeys(zk, owner, account);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mint = mintInfo();
+    mockGetAccountInfo.mockResolvedValue({
+      data: tokenAccountData(mint.address, owner.publicKey),
+      owner: TOKEN_2022_PROGRAM_ID,
+      lamports: 2_039_280,
+      executable: false,
+    });
+    mockSendRawTransaction.mockImplementation(() => Promise.resolve(`signature-${mockSendRawTransaction.mock.calls.length}`));
+
+    const tokenPrograms = {
+      getMint: jest.fn().mockImplementation(() => Promise.resolve(mint)),
+      getAssociatedAddress: jest.fn().mockResolvedValue(account),
+    } as unknown as TokenProgramService;
+    service = new ConfidentialTransferService({
+      getAccountInfo: mockGetAccountInfo,
+      getLatestBlockhash: jest.fn().mockResolvedValue({ blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 100 }),
+      sendRawTransaction: mockSendRawTransaction,
+      confirmTransaction: jest.fn().mockResolvedValue({ value: { err: null } }),
+    } as unknown as Connection, tokenPrograms);
+  });
+
+  const configuredWith = (confidential: Parameters<typeof tokenAccountData>[2]) =>
+    mockGetAccountInfo.mockResolvedValue({
+      data: tokenAccountData(mint.address, owner.publicKey, confidential),
+      owner: TOKEN_2022_PROGRAM_ID,
+      lamports: 2_039_280,
+      executable: false,
+    });
+
+  describe('supportsMint', () => {
+    it('should need Token-2022 with auto-approved accounts', () => {
+      expect(ConfidentialTransferService.supportsMint(mintInfo())).toBe(true);
+      expect(ConfidentialTransferService.supportsMint(mintInfo({ programId: TOKEN_PROGRAM_ID }))).toBe(false);
+      expect(ConfidentialTransferService.supportsMint(mintInfo({ confidentialTransfer: null }))).toBe(false);
+      expect(
+        ConfidentialTransferService.supportsMint(
+          mintInfo({ confidentialTransfer: { authority: Keypair.generate().publicKey, autoApproveNewAccounts: false } })
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('checkAvailability', () => {
+    it('should load the Solana ZK SDK', async () => {
+      expect(await service.checkAvailability()).toEqual({ available: true });
+    });
+  });
+
+  describe('deposit', () => {
+    it('should configure the account, then deposit and apply', async () => {
+      const result = await service.deposit(owner, mint.address.toBase58(), '1.5');
+
+      expect(result).toEqual({
+        account: account.toBase58(),
+        rawAmount: '1500000',
+        configureSignature: 'signature-1',
+        signature: 'signature-2',
+        applied: true,
+      });
+
+      const [configure, deposit] = sent();
+      const [reallocate, configureAccount, proof] = configure.instructions;
+      expect(reallocate.data[0]).toBe(TokenInstruction.Reallocate);
+      expect(configureAccount.data.subarray(0, 2)).toEqual(
+        Buffer.from([TokenInstruction.ConfidentialTransferExtension, 2])
+      );
+      // The proof is read from the next instruction
+      expect(configureAccount.data[configureAccount.data.length - 1]).toBe(1);
+      expect(proof.programId).toEqual(ZK_ELGAMAL_PROOF_PROGRAM_ID);
+      expect(proof.data[0]).toBe(4);
+      expect(proof.data.subarray(1, 33)).toEqual(Buffer.from((await keys()).elgamal.pubkey().toBytes()));
+
+      const [depositIx, apply] = deposit.instructions;
+      expect(depositIx.data[1]).toBe(5);
+      expect(depositIx.data.readBigUInt64LE(2)).toBe(BigInt(1_500_000));
+      expect(depositIx.data[10]).toBe(6);
+      expect(apply.data[1]).toBe(8);
+      expect(apply.data.readBigUInt64LE(2)).toBe(BigInt(1));
+    });
+
+    it('should add the deposit to the decryptable available balance', async () => {
+      const { elgamal, ae } = await keys();
+      configuredWith({
+        elgamalPubkey: elgamal.pubkey().toBytes(),
+        decryptableAvailableBalance: ae.encrypt(BigInt(2_000_000)).toBytes(),
+        pendingCredits: 0,
+      });
+
+      const result = await service.deposit(owner, mint.address.toBase58(), '1');
+
+      expect(result.configureSignature).toBeUndefined();
+      expect(result.applied).toBe(true);
+      const [apply] = sent()[0].instructions.slice(1);
+      const balance = zk.AeCiphertext.fromBytes(apply.data.subarray(10, 46))!.decrypt(ae);
+      expect(balance).toBe(BigInt(3_000_000));
+    });
+
+    it('should leave the deposit pending next to other pending credits', async () => {
+      const { elgamal, ae } = await keys();
+      configuredWith({
+        elgamalPubkey: elgamal.pubkey().toBytes(),
+        decryptableAvailableBalance: ae.encrypt(BigInt(0)).toBytes(),
+        pendingCredits: 2,
+      });
+
+      const result = await service.deposit(owner, mint.address.toBase58(), '1');
+
+      expect(result.applied).toBe(false);
+      expect(sent()[0].instructions).toHaveLength(1);
+    });
+
+    it('should refuse an account configured with another key', async () => {
+      const other = new zk.ElGamalKeypair();
+      configuredWith({
+        elgamalPubkey: other.pubkey().toBytes(),
+        decryptableAvailableBalance: Buffer.alloc(36),
+        pendingCredits: 0,
+      });
+
+      await expect(service.deposit(owner, mint.address.toBase58(), '1')).rejects.toThrow(
+        'is configured for confidential transfers with another key'
+      );
+      expect(mockSendRawTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse mints that need approval', async () => {
+      mint = mintInfo({ confidentialTransfer: { authority: Keypair.generate().publicKey, autoApproveNewAccounts: false } });
+
+      await expect(service.deposit(owner, mint.address.toBase58(), '1')).rejects.toThrow(
+        'does not support confidential transfers without approval'
+      );
+    });
+  });
+});
@@ -0,0 +1,164 @@
+// __tests__/daemon.service.test.ts
+import { DaemonService } from '../src/services/daemon.service';
+import { SchedulerService } from '../src/services/scheduler.service';
+import { DCASchedule } from '../src/types/index';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+// Capture cron callbacks so tests can fire them manually
+const cronCallbacks: Array<() => Promise<void>> = [];
+jest.mock('node-cron', () => ({
+  schedule: jest.fn().mockImplementation((_expr: string, cb: () => Promise<void>) => {
+    cronCallbacks.push(cb);
+    return { start: jest.fn(), stop: jest.fn() };
+  }),
+}));
+
+describe('DaemonService', () => {
+  let dataDir: string;
+  let scheduler: SchedulerService;
+
+  const makeSchedule = (id: string, overrides: Partial<DCASchedule> = {}): DCASchedule => ({
+    id,
+    fromToken: 'USDC',
+    toToken: 'SOL',
+    amountPerExecution: '5',
+    frequency: 'daily',
+    isPrivate: false,
+    useEphemeral: true,
+    screenAddresses: false,
+    slippageBps: 50,
+    executedCount: 0,
+    createdAt: new Date().toISOString(),
+    active: true,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cronCallbacks.length = 0;
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-dca-daemon-'));
+    scheduler = new SchedulerService(dataDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('lock', () => {
+    it('should write a PID file on acquire and remove it on release', () => {
+      const daemon = new DaemonService(scheduler, jest.fn(), dataDir);
+      daemon.acquireLock();
+
+      const pidFile = DaemonService.getPidFilePath(dataDir);
+      expect(JSON.parse(fs.readFileSync(pidFile, 'utf-8')).pid).toBe(process.pid);
+      expect(DaemonService.getStatus(dataDir)).toMatchObject({ running: true, pid: process.pid });
+
+      daemon.releaseLock();
+      expect(fs.existsSync(pidFile)).toBe(false);
+      expect(DaemonService.getStatus(dataDir).running).toBe(false);
+    });
+
+    it('should refuse to start when another live daemon holds the lock', () => {
+      // The parent process is guaranteed to be alive
+      fs.writeFileSync(
+        DaemonService.getPidFilePath(dataDir),
+        JSON.stringify({ pid: process.ppid, startedAt: new Date().toISOString() })
+      );
+
+      const daemon = new DaemonService(scheduler, jest.fn(), dataDir);
+      expect(() => daemon.acquireLock()).toThrow(`Daemon already running (PID ${process.ppid})`);
+    });
+
+    it('should replace a stale PID file', () => {
+      fs.writeFileSync(
+        DaemonService.getPidFilePath(dataDir),
+        JSON.stringify({ pid: 2 ** 22 + 1, startedAt: new Date().toISOString() })
+      );
+      expect(DaemonService.getStatus(dataDir).running).toBe(false);
+
+      const daemon = new DaemonService(scheduler, jest.fn(), dataDir);
+      daemon.acquireLock();
+      expect(DaemonService.getStatus(dataDir).pid).toBe(process.pid);
+      daemon.releaseLock();
+    });
+  });
+
+  describe('start / reload / stop', () => {
+    it('should restore active schedules and pick up new ones from the file', async () => {
+      scheduler.saveSchedulesToFile([
+        makeSchedule('active-1'),
+        makeSchedule('paused-1', { active: false }),
+      ]);
+
+      const daemon = new DaemonService(scheduler, jest.fn().mockResolvedValue(undefined), dataDir);
+      daemon.start();
+      expect(scheduler.getSchedules().map((s) => s.id)).toEqual(['active-1']);
+
+      // Another CLI invocation adds a schedule and pauses the first one
+      scheduler.saveSchedulesToFile([
+        makeSchedule('active-1', { active: false }),
+        makeSchedule('paused-1', { active: false }),
+        makeSchedule('new-1'),
+      ]);
+      daemon.reload();
+      expect(scheduler.getSchedules().map((s) => s.id)).toEqual(['new-1']);
+
+      await daemon.stop();
+      expect(scheduler.getSchedules()).toEqual([]);
+      expect(fs.existsSync(DaemonService.getPidFilePath(dataDir))).toBe(false);
+    });
+
+    it('should preserve paused schedules in the file', async () => {
+      scheduler.saveSchedulesToFile([makeSchedule('active-1'), makeSchedule('paused-1', { active: false })]);
+
+      const daemon = new DaemonService(scheduler, jest.fn(), dataDir);
+      daemon.start();
+      await daemon.stop();
+
+      expect(scheduler.loadSchedules().map((s) => s.id)).toEqual(['active-1', 'paused-1']);
+    });
+
+    it('should wait for in-flight executions before releasing the lock', async () => {
+      scheduler.saveSchedulesToFile([makeSchedule('active-1')]);
+
+      let finish!: () => void;
+      const executor = jest.fn().mockImplementation(
+        () => new Promise<void>((resolve) => { finish = resolve; })
+      );
+      const daemon = new DaemonService(scheduler, executor, dataDir);
+      daemon.start();
+
+      const firing = cronCallbacks[0]();
+      expect(executor).toHaveBeenCalledTimes(1);
+      expect(daemon.getInFlightCount()).toBe(1);
+
+      let stopped = false;
+      const stopping = daemon.stop().then(() => { stopped = true; });
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(stopped).toBe(false);
+      expect(fs.existsSync(DaemonService.getPidFilePath(dataDir))).toBe(true);
+
+      finish();
+      await firing;
+      await stopping;
+      expect(stopped).toBe(true);
+      expect(fs.existsSync(DaemonService.getPidFilePath(dataDir))).toBe(false);
+      expect(scheduler.getExecutions('active-1')).toHaveLength(1);
+    });
+
+    it('should record failed executions', async () => {
+      scheduler.saveSchedulesToFile([makeSchedule('active-1')]);
+
+      const daemon = new DaemonService(scheduler, jest.fn().mockRejectedValue(new Error('boom')), dataDir);
+      daemon.start();
+      await cronCallbacks[0]();
+      await daemon.stop();
+
+      const [execution] = scheduler.getExecutions('active-1');
+      expect(execution.success).toBe(false);
+      expect(execution.error).toBe('boom');
+    });
+  });
+});
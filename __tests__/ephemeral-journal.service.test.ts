@@ -0,0 +1,118 @@
+// __tests__/ephemeral-journal.service.test.ts
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Keypair } from '@solana/web3.js';
+import { EphemeralJournalService } from '../src/services/ephemeral-journal.service';
+import { KeypairSigner, Signer } from '../src/utils/signer';
+
+describe('EphemeralJournalService', () => {
+  let dataDir: string;
+  let journal: EphemeralJournalService;
+  const owner = new KeypairSigner(Keypair.generate());
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-dca-journal-'));
+    journal = new EphemeralJournalService(owner, dataDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip an ephemeral keypair without storing the secret in plaintext', async () => {
+    const ephemeral = Keypair.generate();
+    await journal.record(ephemeral);
+
+    const [entry] = journal.getUnfinished();
+    expect(entry.publicKey).toBe(ephemeral.publicKey.toBase58());
+    expect(Buffer.from((await journal.decrypt(entry)).secretKey)).toEqual(Buffer.from(ephemeral.secretKey));
+
+    const raw = fs.readFileSync(journal.getJournalFilePath(), 'utf-8');
+    expect(raw).not.toContain(Buffer.from(ephemeral.secretKey).toString('base64'));
+    expect(raw).not.toContain(JSON.stringify(Array.from(ephemeral.secretKey)));
+  });
+
+  it('should write the journal owner-only', async () => {
+    await journal.record(Keypair.generate());
+
+    expect(fs.statSync(journal.getJournalFilePath()).mode & 0o777).toBe(0o600);
+  });
+
+  it('should persist steps across instances and forget completed entries', async () => {
+    const id = await journal.record(Keypair.generate());
+    journal.markStep(id, 'funded');
+    journal.markStep(id, 'funded');
+    journal.markStep(id, 'swapped');
+
+    const reopened = new EphemeralJournalService(owner, dataDir);
+    expect(reopened.getUnfinished()[0].steps).toEqual(['funded', 'swapped']);
+
+    reopened.complete(id);
+    expect(journal.getUnfinished()).toEqual([]);
+  });
+
+  it('should hide and refuse to decrypt other wallets\' entries', async () => {
+    await journal.record(Keypair.generate());
+    const other = new EphemeralJournalService(new KeypairSigner(Keypair.generate()), dataDir);
+
+    expect(other.getUnfinished()).toEqual([]);
+    await expect(other.decrypt(journal.getUnfinished()[0])).rejects.toThrow('belongs to another wallet');
+  });
+
+  it('should reject a tampered ciphertext', async () => {
+    await journal.record(Keypair.generate());
+    const [entry] = journal.getUnfinished();
+    const ciphertext = Buffer.from(entry.ciphertext, 'base64');
+    ciphertext[0] ^= 0xff;
+
+    await expect(journal.decrypt({ ...entry, ciphertext: ciphertext.toString('base64') })).rejects.toThrow();
+  });
+
+  it('should open entries sealed with the pre-signer key and re-seal them', async () => {
+    // Entries used to be sealed with a key derived from the owner's secret key
+    const ephemeral = Keypair.generate();
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = Buffer.from(
+      crypto.hkdfSync('sha256', Buffer.from(owner.getKeypair().secretKey), salt, 'private-dca ephemeral journal v1', 32)
+    );
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(ephemeral.secretKey), cipher.final()]);
+    fs.writeFileSync(journal.getJournalFilePath(), JSON.stringify([{
+      id: 'legacy',
+      owner: owner.publicKey.toBase58(),
+      publicKey: ephemeral.publicKey.toBase58(),
+      purpose: 'swap',
+      createdAt: new Date().toISOString(),
+      steps: ['funded'],
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    }]));
+
+    const [entry] = journal.getUnfinished();
+    expect((await journal.decrypt(entry)).publicKey.equals(ephemeral.publicKey)).toBe(true);
+
+    // Re-sealed under the signature-derived key, which a remote signer can open too
+    const [resealed] = journal.getUnfinished();
+    expect(resealed.ciphertext).not.toBe(entry.ciphertext);
+    expect(resealed.steps).toEqual(['funded']);
+    const remote: Signer = {
+      publicKey: owner.publicKey,
+      signTransaction: (tx) => owner.signTransaction(tx),
+      signMessage: (message) => owner.signMessage(message),
+    };
+    const viaRemote = new EphemeralJournalService(remote, dataDir);
+    expect((await viaRemote.decrypt(resealed)).publicKey.equals(ephemeral.publicKey)).toBe(true);
+  });
+
+  it('should refuse to overwrite a corrupt journal', async () => {
+    fs.writeFileSync(journal.getJournalFilePath(), '{not json');
+
+    await expect(journal.record(Keypair.generate())).rejects.toThrow('Failed to read ephemeral journal');
+    expect(fs.readFileSync(journal.getJournalFilePath(), 'utf-8')).toBe('{not json');
+  });
+});
@@ -2,6 +2,7 @@
 // Tests for security-critical ephemeral wallet methods: fundEphemeral, sendToDestination, recoverSol
 import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { EphemeralService } from '../src/services/ephemeral.service';
+import { KeypairSigner } from '../src/utils/signer';
 
 // Mock connection methods
 const mockSendRawTransaction = jest.fn().mockResolvedValue('mockSendSig');
@@ -11,10 +12,11 @@ const mockGetLatestBlockhash = jest.fn().mockResolvedValue({
   lastValidBlockHeight: 999,
 });
 const mockGetBalance = jest.fn().mockResolvedValue(10_000_000); // 0.01 SOL
+const mockGetAccountInfo = jest.fn();
 
-// Mock Transaction so sign()/serialize() don't do real crypto with fake blockhash
+// Mock Transaction so partialSign()/serialize() don't do real crypto with fake blockhash
 const mockTransactionAdd = jest.fn().mockReturnThis();
-const mockTransactionSign = jest.fn();
+const mockTransactionPartialSign = jest.fn();
 const mockTransactionSerialize = jest.fn().mockReturnValue(Buffer.from('mockSerialized'));
 
 jest.mock('@solana/web3.js', () => {
@@ -26,10 +28,11 @@ jest.mock('@solana/web3.js', () => {
       sendRawTransaction: mockSendRawTransaction,
       confirmTransaction: mockConfirmTransaction,
       getLatestBlockhash: mockGetLatestBlockhash,
+      getAccountInfo: mockGetAccountInfo,
     })),
     Transaction: jest.fn().mockImplementation(() => ({
       add: mockTransactionAdd,
-      sign: mockTransactionSign,
+      partialSign: mockTransactionPartialSign,
       serialize: mockTransactionSerialize,
       recentBlockhash: '',
       feePayer: null,
@@ -53,30 +56,43 @@ const mockCreateTransferInstruction = jest.fn().mockReturnValue({
 });
 
 jest.mock('@solana/spl-token', () => ({
+  ...jest.requireActual('@solana/spl-token'),
   getAssociatedTokenAddress: (...args: any[]) => mockGetAssociatedTokenAddress(...args),
   getAccount: (...args: any[]) => mockGetAccount(...args),
   createAssociatedTokenAccountInstruction: (...args: any[]) => mockCreateAssociatedTokenAccountInstruction(...args),
   createTransferInstruction: (...args: any[]) => mockCreateTransferInstruction(...args),
-  TOKEN_PROGRAM_ID: new (jest.requireActual('@solana/web3.js').PublicKey)('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
 }));
 
-jest.mock('../src/types/index', () => ({
-  TOKEN_DECIMALS: {
-    SOL: 9,
-    USDC: 6,
-    USDT: 6,
-    BONK: 5,
-    WIF: 6,
-    JUP: 6,
-    UNKNOWN: 9,
-  },
-  TOKEN_MINTS: {},
-}));
+/** Classic SPL mint accounts by address, with their decimals */
+const MINT_DECIMALS: Record<string, number> = {
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 6,
+  '11111111111111111111111111111111': 9,
+};
+const mintAccount = (decimals: number) => {
+  const { MINT_SIZE, MintLayout, TOKEN_PROGRAM_ID } = jest.requireActual('@solana/spl-token');
+  const { PublicKey: RealPublicKey } = jest.requireActual('@solana/web3.js');
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: RealPublicKey.default,
+      supply: BigInt(0),
+      decimals,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: RealPublicKey.default,
+    },
+    data
+  );
+  return { data, owner: TOKEN_PROGRAM_ID, lamports: 1_461_600, executable: false };
+};
+
 
 describe('EphemeralService - Critical Methods', () => {
   let service: EphemeralService;
   let mockConnection: Connection;
   let userKeypair: Keypair;
+  let user: KeypairSigner;
   let ephemeralKeypair: Keypair;
 
   beforeEach(() => {
@@ -86,6 +102,7 @@ describe('EphemeralService - Critical Methods', () => {
 
     // Generate real keypairs for testing
     userKeypair = jest.requireActual('@solana/web3.js').Keypair.generate();
+    user = new KeypairSigner(userKeypair);
     ephemeralKeypair = jest.requireActual('@solana/web3.js').Keypair.generate();
 
     // Default mock for getAssociatedTokenAddress
@@ -93,6 +110,9 @@ describe('EphemeralService - Critical Methods', () => {
     mockGetAssociatedTokenAddress.mockResolvedValue(
       new realPublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL')
     );
+    mockGetAccountInfo.mockImplementation(async (address: PublicKey) =>
+      address.toBase58() in MINT_DECIMALS ? mintAccount(MINT_DECIMALS[address.toBase58()]) : null
+    );
     // Default: ATA exists
     mockGetAccount.mockResolvedValue({ amount: BigInt(1000000), decimals: 6 });
   });
@@ -104,14 +124,14 @@ describe('EphemeralService - Critical Methods', () => {
       const ephemeralPubkey = ephemeralKeypair.publicKey;
 
       const result = await service.fundEphemeral(
-        userKeypair,
+        user,
         ephemeralPubkey,
-        0.01
+        '0.01'
       );
 
       expect(result).toEqual({
         signature: 'mockSendSig',
-        solAmount: 0.01,
+        solAmount: '0.01',
         tokenAmount: undefined,
         tokenMint: undefined,
       });
@@ -127,7 +147,7 @@ describe('EphemeralService - Critical Methods', () => {
     it('should add SystemProgram.transfer instruction to the transaction', async () => {
       const ephemeralPubkey = ephemeralKeypair.publicKey;
 
-      await service.fundEphemeral(userKeypair, ephemeralPubkey, 0.01);
+      await service.fundEphemeral(user, ephemeralPubkey, '0.01');
 
       // Transaction.add should have been called with a SystemProgram.transfer instruction
       expect(mockTransactionAdd).toHaveBeenCalled();
@@ -138,15 +158,15 @@ describe('EphemeralService - Critical Methods', () => {
       const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
 
       const result = await service.fundEphemeral(
-        userKeypair,
+        user,
         ephemeralPubkey,
-        0.01,
+        '0.01',
         usdcMint,
-        100 // 100 USDC
+        '100' // 100 USDC
       );
 
       expect(result.tokenMint).toBe(usdcMint);
-      expect(result.tokenAmount).toBe(100);
+      expect(result.tokenAmount).toBe('100');
       expect(result.signature).toBe('mockSendSig');
 
       // Should have looked up ATAs for user and ephemeral
@@ -165,11 +185,11 @@ describe('EphemeralService - Critical Methods', () => {
       mockGetAccount.mockRejectedValueOnce(new Error('Account not found'));
 
       const result = await service.fundEphemeral(
-        userKeypair,
+        user,
         ephemeralPubkey,
-        0.01,
+        '0.01',
         usdcMint,
-        50
+        '50'
       );
 
       expect(result.signature).toBe('mockSendSig');
@@ -183,14 +203,14 @@ describe('EphemeralService - Critical Methods', () => {
       const ephemeralPubkey = ephemeralKeypair.publicKey;
 
       const result = await service.fundEphemeral(
-        userKeypair,
+        user,
         ephemeralPubkey,
-        0.01,
+        '0.01',
         'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-        0 // zero amount
+        '0' // zero amount
       );
 
-      expect(result.tokenAmount).toBe(0);
+      expect(result.tokenAmount).toBe('0');
       // Should NOT have called spl-token functions for token transfer
       expect(mockGetAssociatedTokenAddress).not.toHaveBeenCalled();
       expect(mockCreateTransferInstruction).not.toHaveBeenCalled();
@@ -199,7 +219,7 @@ describe('EphemeralService - Critical Methods', () => {
     it('should not add token instructions when tokenMint is undefined', async () => {
       const ephemeralPubkey = ephemeralKeypair.publicKey;
 
-      await service.fundEphemeral(userKeypair, ephemeralPubkey, 0.005);
+      await service.fundEphemeral(user, ephemeralPubkey, '0.005');
 
       expect(mockGetAssociatedTokenAddress).not.toHaveBeenCalled();
       expect(mockCreateTransferInstruction).not.toHaveBeenCalled();
@@ -209,7 +229,7 @@ describe('EphemeralService - Critical Methods', () => {
       mockSendRawTransaction.mockRejectedValueOnce(new Error('Network error'));
 
       await expect(
-        service.fundEphemeral(userKeypair, ephemeralKeypair.publicKey, 0.01)
+        service.fundEphemeral(user, ephemeralKeypair.publicKey, '0.01')
       ).rejects.toThrow('Network error');
     });
 
@@ -217,18 +237,18 @@ describe('EphemeralService - Critical Methods', () => {
       mockConfirmTransaction.mockRejectedValueOnce(new Error('Timeout'));
 
       await expect(
-        service.fundEphemeral(userKeypair, ephemeralKeypair.publicKey, 0.01)
+        service.fundEphemeral(user, ephemeralKeypair.publicKey, '0.01')
       ).rejects.toThrow('Timeout');
     });
 
     it('should sign the transaction with the user keypair', async () => {
-      await service.fundEphemeral(userKeypair, ephemeralKeypair.publicKey, 0.01);
+      await service.fundEphemeral(user, ephemeralKeypair.publicKey, '0.01');
 
-      expect(mockTransactionSign).toHaveBeenCalledWith(userKeypair);
+      expect(mockTransactionPartialSign).toHaveBeenCalledWith(userKeypair);
     });
 
     it('should send serialized transaction with skipPreflight false and maxRetries 3', async () => {
-      await service.fundEphemeral(userKeypair, ephemeralKeypair.publicKey, 0.01);
+      await service.fundEphemeral(user, ephemeralKeypair.publicKey, '0.01');
 
       expect(mockSendRawTransaction).toHaveBeenCalledWith(
         expect.any(Buffer),
@@ -249,12 +269,12 @@ describe('EphemeralService - Critical Methods', () => {
         ephemeralKeypair,
         destination,
         usdcMint,
-        50
+        '50'
       );
 
       expect(result).toEqual({
         signature: 'mockSendSig',
-        amount: 50,
+        amount: '50',
         mint: usdcMint,
         destination: destination.toBase58(),
       });
@@ -278,7 +298,7 @@ describe('EphemeralService - Critical Methods', () => {
         ephemeralKeypair,
         destination,
         usdcMint,
-        25
+        '25'
       );
 
       expect(result.signature).toBe('mockSendSig');
@@ -292,7 +312,7 @@ describe('EphemeralService - Critical Methods', () => {
       // Destination ATA exists
       mockGetAccount.mockResolvedValueOnce({ amount: BigInt(0) });
 
-      await service.sendToDestination(ephemeralKeypair, destination, usdcMint, 10);
+      await service.sendToDestination(ephemeralKeypair, destination, usdcMint, '10');
 
       expect(mockCreateAssociatedTokenAccountInstruction).not.toHaveBeenCalled();
       expect(mockCreateTransferInstruction).toHaveBeenCalledTimes(1);
@@ -303,7 +323,7 @@ describe('EphemeralService - Critical Methods', () => {
       mockSendRawTransaction.mockRejectedValueOnce(new Error('Send failed'));
 
       await expect(
-        service.sendToDestination(ephemeralKeypair, destination, usdcMint, 10)
+        service.sendToDestination(ephemeralKeypair, destination, usdcMint, '10')
       ).rejects.toThrow('Send failed');
     });
 
@@ -311,35 +331,45 @@ describe('EphemeralService - Critical Methods', () => {
       const destination = jest.requireActual('@solana/web3.js').Keypair.generate().publicKey;
 
       // USDC has 6 decimals, so 50 USDC = 50_000_000 raw
-      await service.sendToDestination(ephemeralKeypair, destination, usdcMint, 50);
+      await service.sendToDestination(ephemeralKeypair, destination, usdcMint, '50');
 
       // Verify createTransferInstruction was called with correct raw amount
       const callArgs = mockCreateTransferInstruction.mock.calls[0];
-      expect(callArgs[3]).toBe(50_000_000); // 50 * 10^6
+      expect(callArgs[3]).toBe(BigInt(50_000_000)); // 50 * 10^6
     });
 
-    it('should default to 9 decimals for unknown token mints', async () => {
+    it('should use the on-chain decimals of mints outside the token list', async () => {
       const destination = jest.requireActual('@solana/web3.js').Keypair.generate().publicKey;
       const unknownMint = '11111111111111111111111111111111';
 
-      await service.sendToDestination(ephemeralKeypair, destination, unknownMint, 1);
+      await service.sendToDestination(ephemeralKeypair, destination, unknownMint, '1');
 
       const callArgs = mockCreateTransferInstruction.mock.calls[0];
-      expect(callArgs[3]).toBe(1_000_000_000); // 1 * 10^9
+      expect(callArgs[3]).toBe(BigInt(1_000_000_000)); // 1 * 10^9
+    });
+
+    it('should reject a mint that does not exist', async () => {
+      const destination = jest.requireActual('@solana/web3.js').Keypair.generate().publicKey;
+      const missingMint = jest.requireActual('@solana/web3.js').Keypair.generate().publicKey.toBase58();
+
+      await expect(
+        service.sendToDestination(ephemeralKeypair, destination, missingMint, '1')
+      ).rejects.toThrow(`Mint ${missingMint} not found`);
+      expect(mockSendRawTransaction).not.toHaveBeenCalled();
     });
 
     it('should sign the transaction with the ephemeral keypair', async () => {
       const destination = jest.requireActual('@solana/web3.js').Keypair.generate().publicKey;
 
-      await service.sendToDestination(ephemeralKeypair, destination, usdcMint, 10);
+      await service.sendToDestination(ephemeralKeypair, destination, usdcMint, '10');
 
-      expect(mockTransactionSign).toHaveBeenCalledWith(ephemeralKeypair);
+      expect(mockTransactionPartialSign).toHaveBeenCalledWith(ephemeralKeypair);
     });
 
     it('should return destination as base58 string', async () => {
       const destination = jest.requireActual('@solana/web3.js').Keypair.generate().publicKey;
 
-      const result = await service.sendToDestination(ephemeralKeypair, destination, usdcMint, 1);
+      const result = await service.sendToDestination(ephemeralKeypair, destination, usdcMint, '1');
 
       // Verify the destination in the result is a proper base58 string
       expect(result.destination).toBe(destination.toBase58());
@@ -437,7 +467,7 @@ describe('EphemeralService - Critical Methods', () => {
         .mockRejectedValueOnce(blockHeightError)
         .mockResolvedValueOnce({ value: { err: null } });
 
-      const result = await service.fundEphemeral(userKeypair, ephemeralPubkey, 0.01);
+      const result = await service.fundEphemeral(user, ephemeralPubkey, '0.01');
 
       expect(result.signature).toBe('mockSendSig');
       // Should have been called twice (retry)
@@ -451,7 +481,7 @@ describe('EphemeralService - Critical Methods', () => {
       mockConfirmTransaction.mockRejectedValueOnce(new Error('Simulation failed'));
 
       await expect(
-        service.fundEphemeral(userKeypair, ephemeralPubkey, 0.01)
+        service.fundEphemeral(user, ephemeralPubkey, '0.01')
       ).rejects.toThrow('Simulation failed');
 
       // Should NOT retry
@@ -468,7 +498,7 @@ describe('EphemeralService - Critical Methods', () => {
         .mockRejectedValueOnce(blockHeightError);
 
       await expect(
-        service.fundEphemeral(userKeypair, ephemeralPubkey, 0.01)
+        service.fundEphemeral(user, ephemeralPubkey, '0.01')
       ).rejects.toThrow('block height exceeded');
 
       // 3 attempts (default maxAttempts)
@@ -1,7 +1,46 @@
 // __tests__/ephemeral.service.test.ts
-import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  LAMPORTS_PER_SOL,
+  ComputeBudgetProgram,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { MINT_SIZE, MintLayout, TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import { EphemeralService } from '../src/services/ephemeral.service';
 
+/** Account of a classic SPL mint with the given decimals */
+const mintAccount = (decimals: number) => {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: BigInt(0),
+      decimals,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    data
+  );
+  return { data, owner: TOKEN_PROGRAM_ID, lamports: 1_461_600, executable: false };
+};
+
+const MINTS: Record<string, number> = {
+  So11111111111111111111111111111111111111112: 9,
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 6,
+  JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN: 6,
+};
+
+/** Resolves mints from MINTS and every other account to `other` */
+const accountsWith = (other: unknown) => async (address: PublicKey) =>
+  address.toBase58() in MINTS ? mintAccount(MINTS[address.toBase58()]) : other;
+
 // Mock the entire @solana/web3.js module
 jest.mock('@solana/web3.js', () => {
   const actual = jest.requireActual('@solana/web3.js');
@@ -12,33 +51,22 @@ jest.mock('@solana/web3.js', () => {
       sendAndConfirmTransaction: jest.fn().mockResolvedValue('mockSignature'),
       getLatestBlockhash: jest.fn().mockResolvedValue({ blockhash: 'mockBlockhash', lastValidBlockHeight: 123 }),
       confirmTransaction: jest.fn().mockResolvedValue({ value: { err: null } }),
+      getMinimumBalanceForRentExemption: jest.fn().mockResolvedValue(2039280),
+      getAccountInfo: jest.fn().mockResolvedValue(null),
+      getParsedTokenAccountsByOwner: jest.fn().mockResolvedValue({ value: [] }),
     })),
   };
 });
 
 // Mock @solana/spl-token
 jest.mock('@solana/spl-token', () => ({
+  ...jest.requireActual('@solana/spl-token'),
   getAssociatedTokenAddress: jest.fn().mockResolvedValue(new (jest.requireActual('@solana/web3.js').PublicKey)('mockAtaAddress11111111111111111111111111111')),
   getAccount: jest.fn().mockResolvedValue({ amount: BigInt(0), decimals: 9 }),
   createAssociatedTokenAccountInstruction: jest.fn().mockReturnValue({ keys: [], programId: 'mockProgramId', data: Buffer.from([]) }),
   createTransferInstruction: jest.fn().mockReturnValue({ keys: [], programId: 'mockProgramId', data: Buffer.from([]) }),
-  TOKEN_PROGRAM_ID: new (jest.requireActual('@solana/web3.js').PublicKey)('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
 }));
 
-// Mock ../types/index
-jest.mock('../src/types/index', () => ({
-  TOKEN_DECIMALS: {
-    SOL: 9,
-    USDC: 6,
-    USDT: 6,
-    BONK: 5,
-    WIF: 1,
-    JUP: 6,
-    ORCA: 6,
-    UNKNOWN: 9,
-  },
-  TOKEN_MINTS: {},
-}));
 
 describe('EphemeralService', () => {
   let ephemeralService: EphemeralService;
@@ -47,6 +75,7 @@ describe('EphemeralService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockConnection = new Connection('https://mock.solana.com');
+    (mockConnection.getAccountInfo as jest.Mock).mockImplementation(accountsWith(null));
     ephemeralService = new EphemeralService(mockConnection);
   });
 
@@ -66,10 +95,124 @@ describe('EphemeralService', () => {
     });
   });
 
-  describe('getRecommendedSolFunding', () => {
-    it('should return the correct recommended SOL amount', () => {
-      const recommended = ephemeralService.getRecommendedSolFunding();
-      expect(recommended).toBe(0.01);
+  describe('estimateEphemeralFunding', () => {
+    const SOL = 'So11111111111111111111111111111111111111112';
+    const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+    const RENT = 2039280;
+    const payer = Keypair.generate().publicKey;
+    const destination = Keypair.generate().publicKey;
+
+    const swapTransaction = (budget: TransactionInstruction[]) =>
+      new VersionedTransaction(
+        new TransactionMessage({
+          payerKey: payer,
+          recentBlockhash: PublicKey.default.toBase58(),
+          instructions: [
+            ...budget,
+            SystemProgram.transfer({ fromPubkey: payer, toPubkey: destination, lamports: 1 }),
+          ],
+        }).compileToV0Message()
+      );
+
+    it('prices a fresh wallet from the swap compute budget and missing token accounts', async () => {
+      const estimate = await ephemeralService.estimateEphemeralFunding({
+        destination,
+        inputMint: SOL,
+        outputMint: USDC,
+        swapTransaction: swapTransaction([
+          ComputeBudgetProgram.setComputeUnitLimit({ units: 300_000 }),
+          ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 10_000 }),
+        ]),
+      });
+
+      expect(estimate.swapFeeLamports).toBe(5000 + 3000);
+      expect(estimate.transferFeeLamports).toBe(5000);
+      expect(estimate.closeFeeLamports).toBe(5000);
+      expect(estimate.recoveryFeeLamports).toBe(5000);
+      // Destination account; wSOL rent comes back within the swap, the output account's when it is closed
+      expect(estimate.rentLamports).toBe(RENT);
+      expect(estimate.transientRentLamports).toBe(2 * RENT);
+      expect(estimate.marginLamports).toBe(Math.ceil(23_000 * 0.25));
+      expect(estimate.expectedSol).toBe((23_000 + RENT) / LAMPORTS_PER_SOL);
+      expect(estimate.totalSol).toBe((23_000 + 3 * RENT + 5750) / LAMPORTS_PER_SOL);
+      // The output mint, then only the destination: a fresh wallet has no accounts
+      expect(mockConnection.getAccountInfo).toHaveBeenCalledTimes(2);
+    });
+
+    it('skips rent for token accounts that already exist', async () => {
+      (mockConnection.getAccountInfo as jest.Mock).mockImplementation(accountsWith({ lamports: RENT }));
+
+      const estimate = await ephemeralService.estimateEphemeralFunding({
+        ephemeral: Keypair.generate().publicKey,
+        destination,
+        inputMint: USDC,
+        outputMint: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN',
+        swapTransaction: swapTransaction([]),
+      });
+
+      expect(estimate.rentLamports).toBe(0);
+      expect(estimate.transientRentLamports).toBe(0);
+      // A pooled wallet keeps its token accounts
+      expect(estimate.closeFeeLamports).toBe(0);
+      expect(mockConnection.getAccountInfo).toHaveBeenCalledTimes(3);
+    });
+
+    it('needs no output transfer for SOL output', async () => {
+      const estimate = await ephemeralService.estimateEphemeralFunding({
+        destination,
+        inputMint: USDC,
+        outputMint: SOL,
+        swapTransaction: swapTransaction([]),
+      });
+
+      // No compute unit price: base fee only
+      expect(estimate.swapFeeLamports).toBe(5000);
+      expect(estimate.transferFeeLamports).toBe(0);
+      expect(estimate.rentLamports).toBe(0);
+      expect(estimate.transientRentLamports).toBe(RENT);
+      expect(mockConnection.getAccountInfo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closeEmptyTokenAccounts', () => {
+    const RENT = 2039280;
+    const holding = (mint: string, amount: string, lamports: number) => ({
+      pubkey: Keypair.generate().publicKey,
+      account: { lamports, data: { parsed: { info: { mint, tokenAmount: { amount } } } } },
+    });
+
+    it('closes empty and wrapped SOL accounts and reports their rent', async () => {
+      const usdc = holding('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', '0', RENT);
+      const wsol = holding('So11111111111111111111111111111111111111112', '1000', RENT + 1000);
+      const jup = holding('JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN', '5', RENT);
+      // Both token programs are queried; these accounts are all classic SPL
+      (mockConnection.getParsedTokenAccountsByOwner as jest.Mock).mockImplementation(
+        async (_owner: PublicKey, { programId }: { programId: PublicKey }) =>
+          ({ value: programId.equals(TOKEN_PROGRAM_ID) ? [usdc, wsol, jup] : [] })
+      );
+      const send = jest.spyOn(ephemeralService as any, 'sendTransaction').mockResolvedValue('close-signature');
+
+      const result = await ephemeralService.closeEmptyTokenAccounts(Keypair.generate());
+
+      expect(result).toEqual({
+        signature: 'close-signature',
+        accounts: [
+          { mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', rentLamports: RENT },
+          { mint: 'So11111111111111111111111111111111111111112', rentLamports: RENT },
+        ],
+      });
+      const closed = (send.mock.calls[0][0] as any).instructions.map((ix: TransactionInstruction) => ix.keys[0].pubkey);
+      expect(closed).toEqual([usdc.pubkey, wsol.pubkey]);
+    });
+
+    it('sends nothing when every account holds tokens', async () => {
+      (mockConnection.getParsedTokenAccountsByOwner as jest.Mock).mockResolvedValue({
+        value: [holding('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', '5', RENT)],
+      });
+      const send = jest.spyOn(ephemeralService as any, 'sendTransaction');
+
+      expect(await ephemeralService.closeEmptyTokenAccounts(Keypair.generate())).toBeNull();
+      expect(send).not.toHaveBeenCalled();
     });
   });
 
@@ -132,7 +275,20 @@ describe('EphemeralService', () => {
         mockPubkey,
         'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' // USDC mint
       );
-      expect(balance).toBe(0);
+      expect(balance).toBe('0');
+    });
+  });
+
+  describe('getSpendableBalance', () => {
+    it('should keep the fee reserve back from SOL', async () => {
+      const owner = Keypair.generate().publicKey;
+      const solMint = 'So11111111111111111111111111111111111111112';
+
+      (mockConnection.getBalance as jest.Mock).mockResolvedValue(1.25 * LAMPORTS_PER_SOL);
+      expect(await ephemeralService.getSpendableBalance(owner, solMint)).toBe('1.2');
+
+      (mockConnection.getBalance as jest.Mock).mockResolvedValue(0.01 * LAMPORTS_PER_SOL);
+      expect(await ephemeralService.getSpendableBalance(owner, solMint)).toBe('0');
     });
   });
 });
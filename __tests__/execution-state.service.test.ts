@@ -0,0 +1,126 @@
+// __tests__/execution-state.service.test.ts
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { ExecutionStateService, newExecutionId } from '../src/services/execution-state.service';
+import { SwapExecutionParams } from '../src/services/swap-executor.service';
+
+describe('ExecutionStateService', () => {
+  let dataDir: string;
+  let states: ExecutionStateService;
+  const owner = Keypair.generate().publicKey;
+
+  const params: SwapExecutionParams = {
+    fromToken: 'USDC',
+    toToken: 'SOL',
+    amount: '100',
+    slippageBps: 50,
+    useEphemeral: true,
+    useZk: false,
+    isPrivate: false,
+    shouldScreen: false,
+  };
+
+  // A PID no live process has
+  const DEAD_PID = 2 ** 22 + 1;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-dca-state-'));
+    states = new ExecutionStateService(dataDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should persist params without secrets and the pooled wallet by address', () => {
+    const pooledWallet = Keypair.generate();
+    states.start('exec-1', owner, { ...params, pooledWallet, rangeApiKey: 'secret-key', scheduleId: 'schedule-1' });
+
+    const raw = fs.readFileSync(states.getStateFilePath(), 'utf-8');
+    expect(raw).not.toContain('secret-key');
+    expect(fs.statSync(states.getStateFilePath()).mode & 0o777).toBe(0o600);
+
+    const state = states.find('exec-1')!;
+    expect(state.scheduleId).toBe('schedule-1');
+    expect(state.params).toMatchObject({ fromToken: 'USDC', amount: '100', pooledWallet: pooledWallet.publicKey.toBase58() });
+  });
+
+  it('should read amounts of states written as numbers', () => {
+    states.start('exec-1', owner, params);
+    const raw = JSON.parse(fs.readFileSync(states.getStateFilePath(), 'utf-8'));
+    raw[0].params.amount = 1e-7;
+    fs.writeFileSync(states.getStateFilePath(), JSON.stringify(raw));
+
+    expect(new ExecutionStateService(dataDir).find('exec-1')!.params.amount).toBe('0.0000001');
+  });
+
+  it('should record phase signatures and outputs across instances', () => {
+    const state = states.start('exec-1', owner, params);
+    states.completePhase(state, 'quote', { outputs: { quotedOutput: 0.5 } });
+    states.completePhase(state, 'swap', { signature: 'swap-signature' });
+
+    const { phases } = new ExecutionStateService(dataDir).find('exec-1')!;
+    expect(phases.quote!.outputs).toEqual({ quotedOutput: 0.5 });
+    expect(phases.swap!.signature).toBe('swap-signature');
+  });
+
+  it('should offer failed executions and those whose process died, not running ones', () => {
+    const running = states.start('exec-running', owner, params);
+    const failed = states.start('exec-failed', owner, { ...params, scheduleId: 'schedule-1' });
+    const crashed = states.start('exec-crashed', owner, params);
+
+    states.fail(failed, 'send-output', 'blockhash expired');
+    crashed.pid = DEAD_PID;
+    states.completePhase(crashed, 'ephemeral-gen');
+
+    expect(states.getResumable(owner).map((s) => s.id)).toEqual(['exec-failed', 'exec-crashed']);
+    expect(states.getResumable(owner, 'schedule-1').map((s) => s.id)).toEqual(['exec-failed']);
+    expect(states.getResumable(Keypair.generate().publicKey)).toEqual([]);
+    expect(() => states.claim(running.id, owner)).toThrow('is still running');
+  });
+
+  it('should let only the owner claim an interrupted execution', () => {
+    const state = states.start('exec-1', owner, params);
+    states.fail(state, 'swap', 'RPC timeout');
+
+    expect(() => states.claim('exec-1', Keypair.generate().publicKey)).toThrow('belongs to another wallet');
+    expect(() => states.claim('exec-2', owner)).toThrow('No interrupted execution exec-2');
+
+    const claimed = states.claim('exec-1', owner);
+    expect(claimed.status).toBe('running');
+    expect(claimed.pid).toBe(process.pid);
+    expect(states.getResumable(owner)).toEqual([]);
+  });
+
+  it('should not bring back a finished execution', () => {
+    const state = states.start('exec-1', owner, params);
+    states.finish('exec-1');
+    states.completePhase(state, 'swap', { signature: 'swap-signature' });
+
+    expect(states.find('exec-1')).toBeUndefined();
+  });
+
+  it('should find executions by unique ID prefix', () => {
+    states.start('exec-100-aaaa', owner, params);
+    states.start('exec-100-bbbb', owner, params);
+
+    expect(states.find('exec-100-b')!.id).toBe('exec-100-bbbb');
+    expect(states.find('exec-100')).toBeUndefined();
+  });
+
+  it('should refuse to overwrite a corrupt state file', () => {
+    fs.writeFileSync(states.getStateFilePath(), '{not json');
+
+    expect(() => states.start('exec-1', owner, params)).toThrow('Failed to read execution state');
+    expect(fs.readFileSync(states.getStateFilePath(), 'utf-8')).toBe('{not json');
+  });
+
+  it('should generate distinct IDs within the same millisecond', () => {
+    const ids = new Set(Array.from({ length: 20 }, () => newExecutionId()));
+
+    expect(ids.size).toBe(20);
+    expect([...ids][0]).toMatch(/^exec-\d+-[0-9a-f]{8}$/);
+  });
+});
@@ -0,0 +1,172 @@
+// __tests__/export.service.test.ts
+import { ExportService, EXPORT_COLUMNS, REDACTED } from '../src/services/export.service';
+import { DCASchedule, DCAExecution } from '../src/types/index';
+
+describe('ExportService', () => {
+  const schedule: DCASchedule = {
+    id: 'schedule-1',
+    fromToken: 'USDC',
+    toToken: 'SOL',
+    amountPerExecution: '100',
+    frequency: 'daily',
+    isPrivate: false,
+    screenAddresses: false,
+    slippageBps: 50,
+    executedCount: 0,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    active: true,
+  };
+
+  const execution = (overrides: Partial<DCAExecution>): DCAExecution => ({
+    id: 'exec-1',
+    scheduleId: 'schedule-1',
+    executedAt: '2026-02-01T09:00:05.000Z',
+    success: true,
+    status: 'success',
+    fromToken: 'USDC',
+    toToken: 'SOL',
+    inputAmount: '100',
+    outputAmount: '0.5',
+    inputValueUsd: 100,
+    signature: 'swap-sig',
+    ephemeralAddress: 'Eph1111',
+    costs: { feesSol: 0.0001, rentSol: 0.002, unrecoveredSol: 0, totalSol: 0.0021 },
+    ...overrides,
+  });
+
+  const executions: DCAExecution[] = [
+    execution({ id: 'exec-3', executedAt: '2026-03-01T09:00:00.000Z' }),
+    execution({ id: 'exec-1' }),
+    execution({ id: 'exec-2', executedAt: '2026-02-15T09:00:00.000Z', success: false, status: 'failed' }),
+    execution({ id: 'exec-4', executedAt: '2026-02-20T09:00:00.000Z', success: false, status: 'skipped' }),
+  ];
+
+  describe('buildLots', () => {
+    it('should emit successful acquisitions oldest first', () => {
+      const lots = ExportService.buildLots(executions, [schedule]);
+
+      expect(lots.map((l) => l.execution_id)).toEqual(['exec-1', 'exec-3']);
+      expect(lots[0]).toEqual({
+        date: '2026-02-01T09:00:05.000Z',
+        execution_id: 'exec-1',
+        schedule_id: 'schedule-1',
+        asset: 'SOL',
+        quantity: '0.5',
+        source_token: 'USDC',
+        cost: '100',
+        cost_usd: 100,
+        fees_sol: 0.0021,
+        tx_signature: 'swap-sig',
+        ephemeral_address: 'Eph1111',
+      });
+    });
+
+    it('should filter by inclusive date range', () => {
+      const lots = ExportService.buildLots(executions, [schedule], {
+        from: ExportService.parseDate('2026-02-02'),
+        to: ExportService.parseDate('2026-03-01', true),
+      });
+
+      expect(lots.map((l) => l.execution_id)).toEqual(['exec-3']);
+    });
+
+    it('should redact every on-chain identifier', () => {
+      const lots = ExportService.buildLots(executions, [schedule], { redactAddresses: true });
+
+      expect(lots.every((l) => l.ephemeral_address === REDACTED && l.tx_signature === REDACTED)).toBe(true);
+      const exported = ExportService.toCsv(lots) + ExportService.toJson(lots);
+      for (const e of executions) {
+        for (const identifier of [e.signature, e.ephemeralAddress].filter(Boolean)) {
+          expect(exported).not.toContain(identifier);
+        }
+      }
+    });
+
+    it('should fall back to the schedule pair and leave unknown fields empty', () => {
+      const legacy: DCAExecution = {
+        id: 'exec-old',
+        scheduleId: 'schedule-1',
+        executedAt: '2026-01-05T09:00:00.000Z',
+        success: true,
+      };
+
+      const [lot] = ExportService.buildLots([legacy], [schedule]);
+
+      expect(lot.asset).toBe('SOL');
+      expect(lot.source_token).toBe('USDC');
+      expect(lot.quantity).toBeNull();
+      expect(lot.ephemeral_address).toBeNull();
+    });
+
+    it('should emit a lot for each swap of a rebalance', () => {
+      const trade = { fromToken: 'SOL', fromMint: 'mint-sol', toToken: 'JUP', toMint: 'mint-jup', amount: '0.5', value: 40 };
+      const rebalance = execution({
+        id: 'exec-rebalance',
+        signature: 'sig-1',
+        trades: [
+          { ...trade, signature: 'sig-1', outputAmount: '40', ephemeralAddress: 'Eph2222' },
+          { ...trade, toToken: 'USDC', toMint: 'mint-usdc', error: 'Skipped: Insufficient funds' },
+        ],
+      });
+
+      const lots = ExportService.buildLots([rebalance], [schedule], { redactAddresses: true });
+
+      expect(lots).toEqual([expect.objectContaining({
+        execution_id: 'exec-rebalance',
+        asset: 'JUP',
+        quantity: '40',
+        source_token: 'SOL',
+        cost: '0.5',
+        cost_usd: null,
+        fees_sol: null,
+        tx_signature: REDACTED,
+        ephemeral_address: REDACTED,
+      })]);
+    });
+
+    it('should keep the swaps a failed rebalance made before its failure', () => {
+      const trade = { fromToken: 'SOL', fromMint: 'mint-sol', toToken: 'JUP', toMint: 'mint-jup', amount: '0.5', value: 40 };
+      const failed = execution({
+        id: 'exec-partial',
+        success: false,
+        status: 'failed',
+        error: 'Swap failed',
+        signature: 'sig-1',
+        trades: [
+          { ...trade, signature: 'sig-1', outputAmount: '40' },
+          { ...trade, toToken: 'USDC', toMint: 'mint-usdc', error: 'Swap failed' },
+        ],
+      });
+
+      const lots = ExportService.buildLots([failed, execution({ id: 'exec-failed', success: false, status: 'failed' })], [schedule]);
+
+      expect(lots.map((lot) => [lot.execution_id, lot.asset, lot.tx_signature])).toEqual([['exec-partial', 'JUP', 'sig-1']]);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should write the documented header and escape fields', () => {
+      const lots = ExportService.buildLots([execution({ signature: 'a,"b"' })], [schedule]);
+      const lines = ExportService.toCsv(lots).trimEnd().split('\n');
+
+      expect(lines[0]).toBe(EXPORT_COLUMNS.join(','));
+      expect(lines[0]).toBe(
+        'date,execution_id,schedule_id,asset,quantity,source_token,cost,cost_usd,fees_sol,tx_signature,ephemeral_address'
+      );
+      expect(lines[1]).toBe(
+        '2026-02-01T09:00:05.000Z,exec-1,schedule-1,SOL,0.5,USDC,100,100,0.0021,"a,""b""",Eph1111'
+      );
+    });
+  });
+
+  describe('parseDate', () => {
+    it('should cover the whole day for date-only upper bounds', () => {
+      expect(ExportService.parseDate('2026-03-01', true).toISOString()).toBe('2026-03-01T23:59:59.999Z');
+      expect(ExportService.parseDate('2026-03-01').toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => ExportService.parseDate('March 1st')).toThrow('Invalid date');
+    });
+  });
+});
@@ -1,6 +1,7 @@
 // __tests__/jupiter.service.test.ts
 import { Connection, Keypair, PublicKey, VersionedTransaction, TransactionSignature } from '@solana/web3.js';
 import { JupiterService } from '../src/services/jupiter.service';
+import { KeypairSigner } from '../src/utils/signer';
 
 // Mocking global fetch
 const mockFetch = jest.fn();
@@ -15,6 +16,7 @@ const mockConnection = {
 
 // Mock VersionedTransaction
 const mockVersionedTransaction = {
+  version: 0,
   serialize: jest.fn(),
   sign: jest.fn(),
   message: { recentBlockhash: 'mockBlockhash' },
@@ -79,7 +81,7 @@ describe('JupiterService', () => {
         json: () => Promise.resolve(mockQuoteResponse),
       });
 
-      const quote = await jupiterService.getQuote('SOL', 'USDC', 1000000000);
+      const quote = await jupiterService.getQuote('SOL', 'USDC', BigInt(1_000_000_000));
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
       expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining('/quote?'));
@@ -92,7 +94,7 @@ describe('JupiterService', () => {
         text: () => Promise.resolve('API error'),
       });
 
-      await expect(jupiterService.getQuote('SOL', 'USDC', 1000000000))
+      await expect(jupiterService.getQuote('SOL', 'USDC', BigInt(1_000_000_000)))
         .rejects
         .toThrow('Jupiter quote failed: API error');
     });
@@ -139,7 +141,7 @@ describe('JupiterService', () => {
       mockVersionedTransaction.sign.mockImplementation(() => {});
       (mockConnection.sendRawTransaction as jest.Mock).mockResolvedValue(mockSignature);
 
-      const signature = await jupiterService.executeSwap(mockQuoteResponse, mockUserKeypair);
+      const signature = await jupiterService.executeSwap(mockQuoteResponse, new KeypairSigner(mockUserKeypair));
 
       expect(mockFetch).toHaveBeenCalledTimes(1);
       expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining('/swap'), expect.any(Object));
@@ -162,7 +164,7 @@ describe('JupiterService', () => {
         text: () => Promise.resolve('API error'),
       });
 
-      await expect(jupiterService.executeSwap(mockQuoteResponse, mockUserKeypair))
+      await expect(jupiterService.executeSwap(mockQuoteResponse, new KeypairSigner(mockUserKeypair)))
         .rejects
         .toThrow('Jupiter swap failed: API error');
     });
@@ -183,7 +185,7 @@ describe('JupiterService', () => {
 
       (mockConnection.confirmTransaction as jest.Mock).mockResolvedValue({ value: { err: 'TransactionFailed' } });
 
-      await expect(jupiterService.executeSwap(mockQuoteResponse, mockUserKeypair))
+      await expect(jupiterService.executeSwap(mockQuoteResponse, new KeypairSigner(mockUserKeypair)))
         .rejects
         .toThrow('Transaction failed: "TransactionFailed"');
     });
@@ -0,0 +1,44 @@
+// __tests__/keystore.test.ts
+import { Keypair } from '@solana/web3.js';
+import { encryptKeystore, decryptKeystore, isKeystore, KEYSTORE_TYPE } from '../src/utils/keystore';
+
+describe('Keystore', () => {
+  const keypair = Keypair.generate();
+  // Cheap scrypt parameters keep the tests fast
+  const params = { n: 2 ** 10, r: 8, p: 1 };
+
+  it('should round-trip a keypair without storing the secret in clear', () => {
+    const keystore = encryptKeystore(keypair, 'correct horse', params);
+
+    expect(isKeystore(keystore)).toBe(true);
+    expect(keystore.type).toBe(KEYSTORE_TYPE);
+    expect(keystore.publicKey).toBe(keypair.publicKey.toBase58());
+    expect(JSON.stringify(keystore)).not.toContain(Buffer.from(keypair.secretKey).toString('base64'));
+    expect(Buffer.from(decryptKeystore(keystore, 'correct horse').secretKey)).toEqual(Buffer.from(keypair.secretKey));
+  });
+
+  it('should use a fresh salt and IV every time', () => {
+    const a = encryptKeystore(keypair, 'correct horse', params);
+    const b = encryptKeystore(keypair, 'correct horse', params);
+
+    expect(a.kdfParams.salt).not.toBe(b.kdfParams.salt);
+    expect(a.ciphertext).not.toBe(b.ciphertext);
+  });
+
+  it('should reject short passphrases', () => {
+    expect(() => encryptKeystore(keypair, 'short', params)).toThrow('at least 8 characters');
+  });
+
+  it('should reject a tampered keystore', () => {
+    const keystore = encryptKeystore(keypair, 'correct horse', params);
+    const tampered = { ...keystore, publicKey: Keypair.generate().publicKey.toBase58() };
+
+    expect(() => decryptKeystore(tampered, 'correct horse')).toThrow('does not match');
+    expect(() => decryptKeystore({ ...keystore, version: 2 as 1 }, 'correct horse')).toThrow('Unsupported keystore');
+  });
+
+  it('should not mistake plaintext keypairs for keystores', () => {
+    expect(isKeystore(Array.from(keypair.secretKey))).toBe(false);
+    expect(isKeystore(null)).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+// __tests__/pool-keystore.service.test.ts
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { PoolKeystore } from '../src/services/pool-keystore.service';
+import { KeypairSigner } from '../src/utils/signer';
+
+describe('PoolKeystore', () => {
+  let dataDir: string;
+  let poolFile: string;
+  const owner = new KeypairSigner(Keypair.generate());
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-dca-keystore-'));
+    poolFile = path.join(dataDir, 'wallet-pool.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should store pooled keys encrypted and owner-only', async () => {
+    const keystore = new PoolKeystore(owner, poolFile);
+    const wallet = Keypair.generate();
+    await keystore.add('schedule-1', wallet);
+
+    const restored = await new PoolKeystore(owner, poolFile).get(wallet.publicKey.toBase58());
+    expect(Buffer.from(restored!.secretKey)).toEqual(Buffer.from(wallet.secretKey));
+    expect(fs.readFileSync(poolFile, 'utf-8')).not.toContain(JSON.stringify(Array.from(wallet.secretKey)));
+    expect(fs.statSync(poolFile).mode & 0o777).toBe(0o600);
+  });
+
+  it('should not expose another wallet\'s pooled keys', async () => {
+    const wallet = Keypair.generate();
+    await new PoolKeystore(owner, poolFile).add('schedule-1', wallet);
+
+    const other = new PoolKeystore(new KeypairSigner(Keypair.generate()), poolFile);
+    expect(other.list()).toEqual([]);
+    expect(await other.get(wallet.publicKey.toBase58())).toBeNull();
+  });
+
+  it('should forget removed wallets', async () => {
+    const keystore = new PoolKeystore(owner, poolFile);
+    const wallet = Keypair.generate();
+    await keystore.add('schedule-1', wallet);
+    keystore.remove(wallet.publicKey.toBase58());
+
+    expect(await keystore.get(wallet.publicKey.toBase58())).toBeNull();
+  });
+});
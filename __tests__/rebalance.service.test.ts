@@ -0,0 +1,175 @@
+// __tests__/rebalance.service.test.ts
+// Tests for rebalance planning: valuation of holdings, drift and the swaps that restore target weights
+import { Connection, PublicKey } from '@solana/web3.js';
+import { RebalanceService } from '../src/services/rebalance.service';
+import { RebalanceHolding, SOL_MINT } from '../src/types/index';
+import { Signer } from '../src/utils/signer';
+
+const mockGetQuote = jest.fn();
+jest.mock('../src/services/jupiter.service', () => ({
+  JupiterService: jest.fn().mockImplementation(() => ({ getQuote: mockGetQuote })),
+}));
+
+const mockGetSpendableBalance = jest.fn();
+jest.mock('../src/services/ephemeral.service', () => ({
+  EphemeralService: jest.fn().mockImplementation(() => ({ getSpendableBalance: mockGetSpendableBalance })),
+}));
+
+const mockExecute = jest.fn();
+jest.mock('../src/services/swap-executor.service', () => ({
+  SwapExecutorService: jest.fn().mockImplementation(() => ({ execute: mockExecute })),
+}));
+
+// Built-in tokens with their on-chain decimals
+const mockTokens: Record<string, { mint: string; symbol: string; decimals: number; programId: string }> = {};
+for (const [symbol, decimals] of [['SOL', 9], ['USDC', 6], ['JUP', 6]] as const) {
+  const mint = jest.requireActual('../src/services/token-registry.service').getBuiltinMint(symbol);
+  mockTokens[symbol] = mockTokens[mint] = { mint, symbol, decimals, programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' };
+}
+jest.mock('../src/services/token-registry.service', () => ({
+  ...jest.requireActual('../src/services/token-registry.service'),
+  TokenRegistryService: jest.fn().mockImplementation(() => ({
+    resolve: (token: string) => Promise.resolve(mockTokens[token]),
+  })),
+}));
+
+describe('RebalanceService', () => {
+  const owner = PublicKey.default;
+  const { SOL, USDC, JUP } = mockTokens;
+  const targets = [
+    { token: 'SOL', mint: SOL.mint, weight: 50 },
+    { token: 'USDC', mint: USDC.mint, weight: 30 },
+    { token: 'JUP', mint: JUP.mint, weight: 20 },
+  ];
+  let service: RebalanceService;
+
+  // Spendable balances in whole tokens; SOL trades at 80 USDC and JUP at 1 USDC
+  const holding = (balances: { sol: number; usdc: number; jup: number }) => {
+    mockGetSpendableBalance.mockImplementation((_owner: PublicKey, mint: string) =>
+      Promise.resolve(String(mint === SOL.mint ? balances.sol : mint === USDC.mint ? balances.usdc : balances.jup))
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetQuote.mockImplementation((inputMint: string, _outputMint: string, amount: bigint) =>
+      Promise.resolve({ outAmount: String(inputMint === SOL_MINT ? (amount * BigInt(80)) / BigInt(1000) : amount) })
+    );
+    service = new RebalanceService({} as Connection);
+  });
+
+  describe('parseThreshold', () => {
+    it('should accept percentages with or without a sign', () => {
+      expect(RebalanceService.parseThreshold('5%')).toBe(5);
+      expect(RebalanceService.parseThreshold('2.5')).toBe(2.5);
+      expect(() => RebalanceService.parseThreshold('0%')).toThrow('Invalid threshold: 0%');
+      expect(() => RebalanceService.parseThreshold('five')).toThrow('Use a percentage, e.g. 5%');
+    });
+  });
+
+  describe('plan', () => {
+    it('should value holdings and sell the overweight token into the underweight ones', async () => {
+      // 2 SOL: 160 of 200 USDC
+      holding({ sol: 2, usdc: 20, jup: 20 });
+
+      const plan = await service.plan(owner, targets, 5);
+
+      expect(plan.totalValue).toBe(200);
+      expect(plan.holdings.map((h) => [h.token, h.balance, h.value, h.weight, h.drift])).toEqual([
+        ['SOL', '2', 160, 80, 30],
+        ['USDC', '20', 20, 10, -20],
+        ['JUP', '20', 20, 10, -10],
+      ]);
+      expect(plan.maxDrift).toBe(30);
+      expect(plan.trades).toEqual([
+        { fromToken: 'SOL', fromMint: SOL.mint, toToken: 'USDC', toMint: USDC.mint, amount: '0.5', value: 40 },
+        { fromToken: 'SOL', fromMint: SOL.mint, toToken: 'JUP', toMint: JUP.mint, amount: '0.25', value: 20 },
+      ]);
+      expect(mockGetQuote).toHaveBeenCalledWith(SOL.mint, USDC.mint, BigInt(2_000_000_000));
+    });
+
+    it('should not trade while every target is within the threshold', async () => {
+      holding({ sol: 1.3, usdc: 56, jup: 40 });
+
+      const plan = await service.plan(owner, targets, 5);
+
+      expect(plan.maxDrift).toBeCloseTo(2);
+      expect(plan.trades).toEqual([]);
+    });
+
+    it('should fail when nothing is held or a holding cannot be valued', async () => {
+      holding({ sol: 0, usdc: 0, jup: 0 });
+      await expect(service.plan(owner, targets, 5)).rejects.toThrow('None of the target tokens are held');
+
+      holding({ sol: 1, usdc: 0, jup: 0 });
+      mockGetQuote.mockRejectedValue(new Error('No route found'));
+      await expect(service.plan(owner, targets, 5)).rejects.toThrow("Can't value SOL: No route found");
+    });
+  });
+
+  describe('planTrades', () => {
+    const holdings = (values: number[]): RebalanceHolding[] => {
+      const total = values.reduce((sum, value) => sum + value, 0);
+      return values.map((value, i) => ({
+        token: `T${i}`,
+        mint: `mint-${i}`,
+        decimals: 6,
+        balance: String(value),
+        value,
+        weight: (value / total) * 100,
+        targetWeight: 25,
+        drift: (value / total) * 100 - 25,
+      }));
+    };
+
+    it('should settle every target with at most one swap less than there are targets', () => {
+      const trades = RebalanceService.planTrades(holdings([70, 30, 0, 0]), 5);
+
+      expect(trades.map((t) => [t.fromToken, t.toToken, t.value])).toEqual([
+        ['T0', 'T2', 25],
+        ['T0', 'T3', 20],
+        ['T1', 'T3', 5],
+      ]);
+    });
+
+    it('should leave out trades too small to pay their fees', () => {
+      const trades = RebalanceService.planTrades(holdings([140, 100.5, 100, 59.5]), 5);
+
+      expect(trades.map((t) => [t.fromToken, t.toToken, t.value])).toEqual([['T0', 'T3', 40]]);
+    });
+  });
+
+  describe('executeTrades', () => {
+    const trade = (toToken: 'USDC' | 'JUP', amount: string) =>
+      ({ fromToken: 'SOL', fromMint: SOL.mint, toToken, toMint: mockTokens[toToken].mint, amount, value: 20 });
+    const signer = { publicKey: owner } as Signer;
+    const swap = { slippageBps: 50, useEphemeral: true, useZk: false, isPrivate: false, shouldScreen: false };
+
+    it('should keep the swaps before a failure with their results', async () => {
+      mockExecute
+        .mockResolvedValueOnce({ success: true, signature: 'sig-1', outputAmount: '40', costs: { totalSol: 0.002 } })
+        .mockRejectedValueOnce(new Error('Swap transaction failed'));
+
+      const run = await service.executeTrades(signer, [trade('USDC', '0.5'), trade('JUP', '0.25'), trade('JUP', '0.1')], swap);
+
+      expect(run.error).toBe('Swap transaction failed');
+      expect(run.trades).toHaveLength(2);
+      expect(run.trades[0]).toMatchObject({ signature: 'sig-1', outputAmount: '40', costs: { totalSol: 0.002 } });
+      expect(run.trades[1]).toMatchObject({ toToken: 'JUP', error: 'Swap transaction failed' });
+      expect(run.failedExecutionId).toBe(mockExecute.mock.calls[1][1].executionId);
+      expect(mockExecute).toHaveBeenCalledTimes(2);
+      expect(mockExecute.mock.calls[0][1]).toMatchObject({ fromToken: SOL.mint, toToken: USDC.mint, amount: '0.5', useEphemeral: true });
+    });
+
+    it('should go on past a skipped swap', async () => {
+      mockExecute
+        .mockResolvedValueOnce({ success: true, skipped: true, skipReason: 'Insufficient funds' })
+        .mockResolvedValueOnce({ success: true, signature: 'sig-2', outputAmount: '20' });
+
+      const run = await service.executeTrades(signer, [trade('USDC', '0.5'), trade('JUP', '0.25')], swap);
+
+      expect(run.error).toBeUndefined();
+      expect(run.trades.map((t) => t.signature ?? t.error)).toEqual(['Skipped: Insufficient funds', 'sig-2']);
+    });
+  });
+});
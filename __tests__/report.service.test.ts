@@ -0,0 +1,173 @@
+// __tests__/report.service.test.ts
+import { Connection } from '@solana/web3.js';
+import { ReportService } from '../src/services/report.service';
+import { DCASchedule, DCAExecution, SOL_MINT } from '../src/types/index';
+import { getBuiltinMint } from '../src/services/token-registry.service';
+
+const mockGetQuote = jest.fn();
+jest.mock('../src/services/jupiter.service', () => ({
+  JupiterService: jest.fn().mockImplementation(() => ({ getQuote: mockGetQuote })),
+}));
+
+// Built-in tokens with their on-chain decimals
+const mockTokens: Record<string, { mint: string; symbol: string; decimals: number; programId: string }> = {};
+for (const [symbol, decimals] of [['SOL', 9], ['USDC', 6], ['JUP', 6]] as const) {
+  const mint = jest.requireActual('../src/services/token-registry.service').getBuiltinMint(symbol);
+  mockTokens[symbol] = mockTokens[mint] = { mint, symbol, decimals, programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' };
+}
+jest.mock('../src/services/token-registry.service', () => ({
+  ...jest.requireActual('../src/services/token-registry.service'),
+  TokenRegistryService: jest.fn().mockImplementation(() => ({
+    resolve: (token: string) => Promise.resolve(mockTokens[token]),
+  })),
+}));
+
+describe('ReportService', () => {
+  const schedule: DCASchedule = {
+    id: 'schedule-1',
+    fromToken: 'USDC',
+    toToken: 'SOL',
+    amountPerExecution: '100',
+    frequency: 'daily',
+    isPrivate: false,
+    screenAddresses: false,
+    slippageBps: 50,
+    executedCount: 0,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    active: true,
+  };
+
+  const execution = (overrides: Partial<DCAExecution>): DCAExecution => ({
+    id: `exec-${Math.random()}`,
+    scheduleId: 'schedule-1',
+    executedAt: '2026-01-02T09:00:00.000Z',
+    success: true,
+    status: 'success',
+    ...overrides,
+  });
+
+  // Bought 1 SOL at 100 and 2 SOL at 50: spent 200 for 3 SOL
+  const history: DCAExecution[] = [
+    execution({ executedAt: '2026-01-02T09:00:00.000Z', inputAmount: '100', outputAmount: '1', costs: { feesSol: 0.001, rentSol: 0.002, unrecoveredSol: 0, totalSol: 0.003 } }),
+    execution({ executedAt: '2026-01-03T09:00:00.000Z', inputAmount: '100', outputAmount: '2', costs: { feesSol: 0.001, rentSol: 0, unrecoveredSol: 0, totalSol: 0.001 } }),
+    execution({ success: false, status: 'failed', inputAmount: '100', error: 'boom' }),
+    execution({ success: false, status: 'skipped', inputAmount: '0' }),
+    execution({ success: false, status: 'missed' }),
+    execution({ scheduleId: 'other', inputAmount: '999', outputAmount: '999' }),
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('summarize', () => {
+    it('should aggregate only successful executions of the schedule', () => {
+      const report = ReportService.summarize(schedule, history);
+
+      expect(report.executions).toBe(2);
+      expect(report.totalSpent).toBe(200);
+      expect(report.totalAcquired).toBe(3);
+      expect(report.averageEntryPrice).toBeCloseTo(66.6667, 4);
+      expect(report.feesSol).toBeCloseTo(0.004);
+      expect(report.firstExecution).toBe('2026-01-02T09:00:00.000Z');
+      expect(report.lastExecution).toBe('2026-01-03T09:00:00.000Z');
+    });
+
+    it('should exclude older executions recorded without amounts', () => {
+      const report = ReportService.summarize(schedule, [...history, execution({})]);
+
+      expect(report.executions).toBe(2);
+      expect(report.untrackedExecutions).toBe(1);
+      expect(report.totalSpent).toBe(200);
+    });
+
+    it('should leave the entry price undefined without acquisitions', () => {
+      const report = ReportService.summarize(schedule, []);
+
+      expect(report.executions).toBe(0);
+      expect(report.averageEntryPrice).toBeUndefined();
+    });
+  });
+
+  describe('report', () => {
+    it('should value the position and fee drag at current quotes', async () => {
+      mockGetQuote.mockImplementation((inputMint: string, _outputMint: string, amount: bigint) => {
+        // SOL trades at 80 USDC
+        expect(inputMint).toBe(SOL_MINT);
+        return Promise.resolve({ outAmount: String(Math.round((Number(amount) / 1e9) * 80 * 1e6)) });
+      });
+
+      const report = await new ReportService({} as Connection).report(schedule, history);
+
+      expect(mockGetQuote).toHaveBeenCalledWith(SOL_MINT, getBuiltinMint('USDC'), BigInt(3_000_000_000));
+      expect(report.currentValue).toBe(240);
+      expect(report.currentPrice).toBe(80);
+      expect(report.unrealizedPnl).toBe(40);
+      expect(report.unrealizedPnlPct).toBe(20);
+      expect(report.feeDrag).toBeCloseTo(0.32);
+      expect(report.feeDragPct).toBeCloseTo(0.16);
+    });
+
+    it('should leave valuation undefined when quoting fails', async () => {
+      mockGetQuote.mockRejectedValue(new Error('Jupiter quote failed'));
+
+      const report = await new ReportService({} as Connection).report(schedule, history);
+
+      expect(report.totalSpent).toBe(200);
+      expect(report.currentValue).toBeUndefined();
+      expect(report.unrealizedPnl).toBeUndefined();
+      expect(report.feeDrag).toBeUndefined();
+    });
+  });
+
+  describe('basketDrift', () => {
+    const SOL = getBuiltinMint('SOL')!;
+    const JUP = getBuiltinMint('JUP')!;
+    const basket: DCASchedule = {
+      ...schedule,
+      toToken: 'SOL/JUP',
+      basket: [
+        { token: 'SOL', mint: SOL, weight: 60 },
+        { token: 'JUP', mint: JUP, weight: 40 },
+      ],
+    };
+    // Spent 120 on 1 SOL and 80 on 120 JUP
+    const legs = [
+      execution({ toMint: SOL, inputAmount: '120', outputAmount: '1' }),
+      execution({ toMint: JUP, inputAmount: '80', outputAmount: '120' }),
+    ];
+
+    it('should report each leg and compare its share of the value to its weight', async () => {
+      // SOL trades at 80 USDC, JUP at 1 USDC
+      mockGetQuote.mockImplementation((inputMint: string, _outputMint: string, amount: bigint) =>
+        Promise.resolve({ outAmount: String(inputMint === SOL ? (amount * BigInt(80)) / BigInt(1000) : amount) })
+      );
+      const service = new ReportService({} as Connection);
+
+      const reports = await service.reportLegs(basket, legs);
+      const drift = await service.basketDrift(basket, legs);
+
+      expect(reports.map((report) => [report.toToken, report.totalSpent, report.currentValue])).toEqual([
+        ['SOL', 120, 80],
+        ['JUP', 80, 120],
+      ]);
+      expect(drift).toEqual([
+        { token: 'SOL', targetWeight: 60, value: 80, weight: 40, drift: -20 },
+        { token: 'JUP', targetWeight: 40, value: 120, weight: 60, drift: 20 },
+      ]);
+    });
+
+    it('should leave shares undefined when a target cannot be valued', async () => {
+      mockGetQuote.mockImplementation((inputMint: string) =>
+        inputMint === SOL ? Promise.reject(new Error('Jupiter quote failed')) : Promise.resolve({ outAmount: '120000000' })
+      );
+
+      const drift = await new ReportService({} as Connection).basketDrift(basket, legs);
+
+      expect(drift.map((target) => [target.value, target.weight, target.drift])).toEqual([
+        [undefined, undefined, undefined],
+        [120, undefined, undefined],
+      ]);
+    });
+  });
+});
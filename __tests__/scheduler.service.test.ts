@@ -11,6 +11,7 @@ jest.mock('node-cron', () => ({
     start: jest.fn(),
     stop: jest.fn(),
   }),
+  validate: jest.requireActual('node-cron').validate,
 }));
 
 // Mock fs module
@@ -27,7 +28,7 @@ describe('SchedulerService', () => {
     id: 'test-schedule-1',
     fromToken: 'SOL',
     toToken: 'USDC',
-    amountPerExecution: 0.1,
+    amountPerExecution: '0.1',
     frequency: 'daily',
     active: true,
     createdAt: new Date().toISOString(),
@@ -196,6 +197,551 @@ describe('SchedulerService', () => {
     });
   });
 
+  describe('syncSchedules', () => {
+    it('should start new active schedules and stop removed ones', () => {
+      const onExecute = jest.fn().mockResolvedValue(undefined);
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify([mockSchedule]));
+      schedulerService.restoreSchedules(onExecute);
+      expect(schedulerService.getSchedules().map((s) => s.id)).toEqual([mockSchedule.id]);
+
+      (fs.readFileSync as jest.Mock).mockReturnValue(
+        JSON.stringify([{ ...mockSchedule, id: 'test-schedule-2' }])
+      );
+      schedulerService.syncSchedules(onExecute);
+
+      expect(schedulerService.getSchedules().map((s) => s.id)).toEqual(['test-schedule-2']);
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should not restart unchanged schedules', () => {
+      const cron = require('node-cron');
+      const onExecute = jest.fn().mockResolvedValue(undefined);
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify([mockSchedule]));
+      schedulerService.restoreSchedules(onExecute);
+      schedulerService.syncSchedules(onExecute);
+
+      expect(cron.schedule).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // Route fs reads/writes to an in-memory schedules/executions store
+  let schedulesOnDisk: DCASchedule[];
+  let executionsOnDisk: any[];
+  const useStore = (schedule: DCASchedule) => {
+    schedulesOnDisk = [schedule];
+    executionsOnDisk = [];
+    (fs.existsSync as jest.Mock).mockReturnValue(true);
+    (fs.readFileSync as jest.Mock).mockImplementation((file: string) =>
+      JSON.stringify(file.endsWith('executions.json') ? executionsOnDisk : schedulesOnDisk)
+    );
+    (fs.writeFileSync as jest.Mock).mockImplementation((file: string, data: string) => {
+      if (file.endsWith('executions.json')) executionsOnDisk = JSON.parse(data);
+      else schedulesOnDisk = JSON.parse(data);
+    });
+  };
+  const resetStore = () => {
+    (fs.readFileSync as jest.Mock).mockReset().mockReturnValue('[]');
+    (fs.writeFileSync as jest.Mock).mockReset();
+    (fs.existsSync as jest.Mock).mockReturnValue(false);
+  };
+
+  describe('missed executions', () => {
+
+    // Daily at 9 AM: created 4 days ago at 8 AM, so 5 slots passed by 10 AM today
+    const now = new Date();
+    now.setHours(10, 0, 0, 0);
+    const created = new Date(now);
+    created.setDate(created.getDate() - 4);
+    created.setHours(8, 0, 0, 0);
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate'] });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      resetStore();
+    });
+
+    it('should compute slots since creation', () => {
+      const schedule = { ...mockSchedule, createdAt: created.toISOString() };
+      useStore(schedule);
+
+      const slots = schedulerService.getMissedSlots(schedule, now);
+
+      expect(slots).toHaveLength(5);
+      expect(slots.every((d) => d.getHours() === 9)).toBe(true);
+    });
+
+    it('should only enumerate the newest slots after long downtime', () => {
+      const yearAgo = new Date(now);
+      yearAgo.setFullYear(yearAgo.getFullYear() - 1);
+      const schedule: DCASchedule = { ...mockSchedule, frequency: 'hourly', createdAt: yearAgo.toISOString() };
+      useStore(schedule);
+
+      const slots = schedulerService.getMissedSlots(schedule, now);
+
+      expect(slots).toHaveLength(1000);
+      expect(slots[0] < slots[slots.length - 1]).toBe(true);
+      expect(now.getTime() - slots[slots.length - 1].getTime()).toBeLessThan(60 * 60 * 1000);
+    });
+
+    it('should record manual runs without counting them toward limits or slots', () => {
+      const schedule = { ...mockSchedule, createdAt: created.toISOString() };
+      useStore(schedule);
+
+      schedulerService.recordManualExecution('exec-manual', schedule.id, { signature: 'sig-manual', outputAmount: '0.5' });
+
+      expect(schedulerService.getExecutions(schedule.id)).toEqual([
+        expect.objectContaining({ id: 'exec-manual', success: true, status: 'success', manual: true, signature: 'sig-manual' }),
+      ]);
+      expect(schedulerService.countExecutions(schedule.id)).toBe(0);
+      expect(schedulerService.getMissedSlots(schedule, now)).toHaveLength(5);
+    });
+
+    it('should compute slots since the last execution', () => {
+      const schedule = { ...mockSchedule, createdAt: created.toISOString() };
+      useStore(schedule);
+      const lastRun = new Date(now);
+      lastRun.setDate(lastRun.getDate() - 1);
+      lastRun.setHours(9, 0, 30, 0);
+      executionsOnDisk.push({ id: 'e1', scheduleId: schedule.id, executedAt: lastRun.toISOString(), success: true });
+
+      expect(schedulerService.getMissedSlots(schedule, now)).toHaveLength(1);
+    });
+
+    it('should record all slots as missed with the default skip policy', async () => {
+      const schedule = { ...mockSchedule, createdAt: created.toISOString() };
+      useStore(schedule);
+      const onExecute = jest.fn().mockResolvedValue(undefined);
+
+      await schedulerService.restoreSchedules(onExecute);
+
+      expect(onExecute).not.toHaveBeenCalled();
+      expect(executionsOnDisk).toHaveLength(5);
+      expect(executionsOnDisk.every((e) => e.status === 'missed' && e.scheduledFor)).toBe(true);
+      expect(schedulerService.countExecutions(schedule.id)).toBe(0);
+      // Nothing left to catch up on the next restore
+      expect(schedulerService.getMissedSlots(schedule, now)).toEqual([]);
+    });
+
+    it('should execute once for the latest slot with run-once', async () => {
+      const schedule: DCASchedule = { ...mockSchedule, createdAt: created.toISOString(), missedExecutionPolicy: 'run-once' };
+      useStore(schedule);
+      const onExecute = jest.fn().mockResolvedValue(undefined);
+
+      await schedulerService.restoreSchedules(onExecute);
+
+      expect(onExecute).toHaveBeenCalledTimes(1);
+      expect(executionsOnDisk.filter((e) => e.status === 'missed')).toHaveLength(4);
+      const [run] = executionsOnDisk.filter((e) => e.status === 'success');
+      expect(new Date(run.scheduledFor).getDate()).toBe(now.getDate());
+    });
+
+    it('should cap catch-up executions with run-all', async () => {
+      const schedule: DCASchedule = {
+        ...mockSchedule,
+        createdAt: created.toISOString(),
+        missedExecutionPolicy: 'run-all',
+        maxCatchUpExecutions: 2,
+      };
+      useStore(schedule);
+      const onExecute = jest.fn().mockResolvedValue(undefined);
+
+      await schedulerService.restoreSchedules(onExecute);
+
+      expect(onExecute).toHaveBeenCalledTimes(2);
+      expect(executionsOnDisk.filter((e) => e.status === 'missed')).toHaveLength(3);
+      expect(schedulerService.countExecutions(schedule.id)).toBe(2);
+    });
+
+    it('should not treat time spent paused as missed', () => {
+      const resumed = new Date(now);
+      resumed.setHours(9, 30, 0, 0);
+      const schedule = { ...mockSchedule, createdAt: created.toISOString(), resumedAt: resumed.toISOString() };
+      useStore(schedule);
+
+      expect(schedulerService.getMissedSlots(schedule, now)).toEqual([]);
+    });
+  });
+
+  describe('execution reports', () => {
+    afterEach(() => {
+      resetStore();
+    });
+
+    const fire = async () => {
+      const cron = require('node-cron');
+      const callback = (cron.schedule as jest.Mock).mock.calls[0][1];
+      await callback();
+    };
+
+    it('should merge the executor report into the execution record', async () => {
+      useStore(mockSchedule);
+      const strategy = { type: 'dip-weighted' as const, baseAmount: '0.1', amount: '0.14', price: 80, multiplier: 1.4 };
+      schedulerService.addSchedule(mockSchedule, jest.fn().mockResolvedValue({
+        signature: 'sig-1',
+        inputAmount: '0.14',
+        outputAmount: '11.2',
+        strategy,
+      }));
+
+      await fire();
+
+      const [execution] = executionsOnDisk;
+      expect(execution).toMatchObject({
+        success: true,
+        status: 'success',
+        signature: 'sig-1',
+        inputAmount: '0.14',
+        outputAmount: '11.2',
+        strategy,
+      });
+    });
+
+    it('should record skipped executions without counting them', async () => {
+      useStore(mockSchedule);
+      schedulerService.addSchedule(mockSchedule, jest.fn().mockResolvedValue({
+        status: 'skipped',
+        skipReason: 'Position already at or above target value',
+      }));
+
+      await fire();
+
+      expect(executionsOnDisk[0]).toMatchObject({ success: false, status: 'skipped' });
+      expect(executionsOnDisk[0].error).toBeUndefined();
+      expect(schedulerService.countExecutions(mockSchedule.id)).toBe(0);
+    });
+
+    it('should record a failed report with the swaps it made', async () => {
+      useStore(mockSchedule);
+      const trades = [
+        { fromToken: 'SOL', fromMint: 'mint-sol', toToken: 'USDC', toMint: 'mint-usdc', amount: '0.5', value: 40, signature: 'sig-1' },
+        { fromToken: 'SOL', fromMint: 'mint-sol', toToken: 'JUP', toMint: 'mint-jup', amount: '0.25', value: 20, error: 'Swap failed' },
+      ];
+      schedulerService.addSchedule(mockSchedule, jest.fn().mockResolvedValue({
+        status: 'failed',
+        error: 'Swap failed',
+        signature: 'sig-1',
+        trades,
+      }));
+
+      await fire();
+
+      expect(executionsOnDisk[0]).toMatchObject({ success: false, status: 'failed', error: 'Swap failed', signature: 'sig-1', trades });
+    });
+
+    it('should complete a sell-down once its balance is used up', async () => {
+      const sellDown = { ...mockSchedule, amountMode: { type: 'until-depleted' as const } };
+      useStore(sellDown);
+      const strategy = { type: 'fixed' as const, baseAmount: '0.1', amount: '0.04', balance: '0.04', depleted: true };
+      schedulerService.addSchedule(sellDown, jest.fn().mockResolvedValue({ signature: 'sig-1', inputAmount: '0.04', strategy }));
+
+      await fire();
+
+      expect(executionsOnDisk[0]).toMatchObject({ success: true, inputAmount: '0.04' });
+      expect(schedulesOnDisk[0].active).toBe(false);
+    });
+
+    it('should keep a sell-down running when a guard skips its last sale', async () => {
+      const sellDown = { ...mockSchedule, amountMode: { type: 'until-depleted' as const } };
+      useStore(sellDown);
+      const strategy = { type: 'fixed' as const, baseAmount: '0.1', amount: '0.04', balance: '0.04', depleted: true };
+      schedulerService.addSchedule(sellDown, jest.fn().mockResolvedValue({
+        status: 'skipped',
+        skipReason: 'Price impact 2% exceeds 1%',
+        inputAmount: '0',
+        strategy,
+      }));
+
+      await fire();
+
+      expect(executionsOnDisk[0]).toMatchObject({ status: 'skipped' });
+      expect(schedulesOnDisk[0].active).toBe(true);
+    });
+
+    it('should read amounts of files written as numbers', () => {
+      useStore({ ...mockSchedule, amountPerExecution: 0.1 as any });
+      executionsOnDisk = [{ id: 'exec-1', scheduleId: mockSchedule.id, inputAmount: 0.1, outputAmount: 1e-7 }];
+
+      expect(schedulerService.loadSchedules()[0].amountPerExecution).toBe('0.1');
+      expect(schedulerService.getExecutions(mockSchedule.id)[0]).toMatchObject({ inputAmount: '0.1', outputAmount: '0.0000001' });
+    });
+  });
+
+  describe('custom timing', () => {
+    it('should build cron expressions from time-of-day and day options', () => {
+      expect(SchedulerService.buildCronExpression('daily', { at: '14:30' })).toBe('30 14 * * *');
+      expect(SchedulerService.buildCronExpression('hourly', { at: '14:15' })).toBe('15 * * * *');
+      expect(SchedulerService.buildCronExpression('weekly', { at: '07:05', dayOfWeek: 5 })).toBe('5 7 * * 5');
+      expect(SchedulerService.buildCronExpression('monthly', { dayOfMonth: 15 })).toBe('0 9 15 * *');
+    });
+
+    it('should parse days of week by number or name', () => {
+      expect(SchedulerService.parseDayOfWeek('0')).toBe(0);
+      expect(SchedulerService.parseDayOfWeek('fri')).toBe(5);
+      expect(SchedulerService.parseDayOfWeek('Wednesday')).toBe(3);
+      expect(() => SchedulerService.parseDayOfWeek('funday')).toThrow('Invalid day of week');
+    });
+
+    it('should resolve and validate timing options', () => {
+      expect(SchedulerService.resolveTiming({ cron: '*/15 9-17 * * 1-5' })).toEqual({
+        frequency: 'custom',
+        cronExpression: '*/15 9-17 * * 1-5',
+      });
+      expect(SchedulerService.resolveTiming({ frequency: 'Weekly', dayOfWeek: 3, at: '18:00' })).toEqual({
+        frequency: 'weekly',
+        cronExpression: '0 18 * * 3',
+      });
+
+      expect(() => SchedulerService.resolveTiming({ cron: 'not a cron' })).toThrow('Invalid cron expression');
+      expect(() => SchedulerService.resolveTiming({ cron: '0 9 * * *', frequency: 'daily' })).toThrow('cannot be combined');
+      expect(() => SchedulerService.resolveTiming({ frequency: 'daily', at: '25:00' })).toThrow('Invalid time');
+      expect(() => SchedulerService.resolveTiming({ frequency: 'daily', dayOfWeek: 1 })).toThrow('requires weekly');
+      expect(() => SchedulerService.resolveTiming({ frequency: 'monthly', dayOfMonth: 31 })).toThrow('1-28');
+      expect(() => SchedulerService.resolveTiming({ frequency: 'daily', timezone: 'Mars/Olympus' })).toThrow('Invalid timezone');
+    });
+
+    it('should schedule the stored expression in the stored timezone', () => {
+      const cron = require('node-cron');
+      const onExecute = jest.fn().mockResolvedValue(undefined);
+
+      schedulerService.addSchedule(
+        { ...mockSchedule, frequency: 'custom', cronExpression: '30 14 * * 1-5', timezone: 'Europe/Berlin' },
+        onExecute
+      );
+
+      expect(cron.schedule).toHaveBeenCalledWith('30 14 * * 1-5', expect.any(Function), { timezone: 'Europe/Berlin' });
+    });
+
+    it('should compute the next hourly execution at the top of the hour', () => {
+      const onExecute = jest.fn().mockResolvedValue(undefined);
+      schedulerService.addSchedule({ ...mockSchedule, frequency: 'hourly' }, onExecute);
+
+      const now = Date.now();
+      const nextExec = schedulerService.getNextExecution(mockSchedule.id)!;
+
+      expect(nextExec.getMinutes()).toBe(0);
+      expect(nextExec.getTime()).toBeGreaterThan(now);
+      expect(nextExec.getTime() - now).toBeLessThanOrEqual(60 * 60 * 1000);
+    });
+
+    it('should compute the next execution in the schedule timezone', () => {
+      const schedule: DCASchedule = { ...mockSchedule, cronExpression: '0 9 * * *', timezone: 'Asia/Tokyo' };
+
+      // 09:00 in Tokyo (UTC+9, no DST) is 00:00 UTC
+      expect(schedulerService.getNextFireTime(schedule).getUTCHours()).toBe(0);
+    });
+  });
+
+  describe('jitter', () => {
+    const now = new Date('2026-03-02T06:00:00.000Z');
+    const jittered: DCASchedule = {
+      ...mockSchedule,
+      cronExpression: '0 12 * * *',
+      timezone: 'UTC',
+      timingJitterMinutes: 180,
+      amountJitterPct: 10,
+      createdAt: now.toISOString(),
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now });
+    });
+
+    afterEach(() => {
+      schedulerService.stopAll();
+      jest.useRealTimers();
+      resetStore();
+    });
+
+    it('should parse jitter durations', () => {
+      expect(SchedulerService.parseDurationMinutes('3h')).toBe(180);
+      expect(SchedulerService.parseDurationMinutes('90m')).toBe(90);
+      expect(SchedulerService.parseDurationMinutes('1h30m')).toBe(90);
+      expect(SchedulerService.parseDurationMinutes('45')).toBe(45);
+      expect(() => SchedulerService.parseDurationMinutes('soon')).toThrow('Invalid duration');
+    });
+
+    it('should reject jitter windows wider than half the interval', () => {
+      expect(() => SchedulerService.validateJitter('0 * * * *', undefined, 45)).toThrow('too wide');
+      expect(() => SchedulerService.validateJitter('0 9 * * *', undefined, 180)).not.toThrow();
+      expect(() => SchedulerService.validateJitter('0 9 * * *', undefined, undefined, 80)).toThrow('Amount jitter');
+    });
+
+    it('should persist a plan within the jitter window instead of using cron', () => {
+      const cron = require('node-cron');
+      useStore({ ...jittered });
+
+      schedulerService.restoreSchedules(jest.fn());
+
+      expect(cron.schedule).not.toHaveBeenCalled();
+      const plan = schedulesOnDisk[0].jitterPlan!;
+      expect(plan.slot).toBe('2026-03-02T12:00:00.000Z');
+      const offset = new Date(plan.runAt).getTime() - new Date(plan.slot).getTime();
+      expect(Math.abs(offset)).toBeLessThanOrEqual(180 * 60_000);
+      expect(Math.abs(Number(plan.amount) - 0.1)).toBeLessThanOrEqual(0.01 + 1e-9);
+    });
+
+    it('should execute at the planned time with the planned amount and plan the next slot', async () => {
+      const plan = { slot: '2026-03-02T12:00:00.000Z', runAt: '2026-03-02T10:17:00.000Z', amount: '0.093' };
+      useStore({ ...jittered, jitterPlan: plan });
+      const onExecute = jest.fn().mockResolvedValue(undefined);
+
+      await schedulerService.restoreSchedules(onExecute);
+      await jest.advanceTimersByTimeAsync(new Date(plan.runAt).getTime() - now.getTime() - 1000);
+      expect(onExecute).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(onExecute).toHaveBeenCalledTimes(1);
+      expect(onExecute.mock.calls[0][0].amountPerExecution).toBe('0.093');
+
+      const [execution] = executionsOnDisk;
+      expect(execution).toMatchObject({ scheduledFor: plan.slot, startedAt: plan.runAt, inputAmount: '0.093' });
+      // Recorded under the ID the executor persisted its state with
+      expect(execution.id).toBe(onExecute.mock.calls[0][1]);
+      expect(schedulesOnDisk[0].jitterPlan!.slot).toBe('2026-03-03T12:00:00.000Z');
+    });
+
+    it('should re-arm the persisted plan after a restart instead of re-rolling', async () => {
+      const plan = { slot: '2026-03-02T12:00:00.000Z', runAt: '2026-03-02T13:30:00.000Z', amount: '0.105' };
+      useStore({ ...jittered, jitterPlan: plan });
+
+      await schedulerService.restoreSchedules(jest.fn());
+
+      expect(schedulesOnDisk[0].jitterPlan).toEqual(plan);
+      expect(schedulerService.getNextExecution(jittered.id)!.toISOString()).toBe(plan.runAt);
+    });
+
+    it('should not report a slot as missed while its jittered run is pending', () => {
+      const plan = { slot: '2026-03-02T05:00:00.000Z', runAt: '2026-03-02T07:00:00.000Z', amount: '0.1' };
+      const schedule = { ...jittered, cronExpression: '0 5 * * *', createdAt: '2026-03-01T06:00:00.000Z', jitterPlan: plan };
+      useStore(schedule);
+
+      expect(schedulerService.getMissedSlots(schedule, now)).toEqual([]);
+    });
+  });
+
+  describe('baskets', () => {
+    const now = new Date('2026-03-02T06:00:00.000Z');
+    const basketSchedule: DCASchedule = {
+      ...mockSchedule,
+      fromToken: 'USDC',
+      toToken: 'SOL/JUP',
+      amountPerExecution: '500',
+      cronExpression: '0 12 * * *',
+      timezone: 'UTC',
+      createdAt: now.toISOString(),
+      basket: [
+        { token: 'SOL', mint: 'mint-sol', weight: 60 },
+        { token: 'JUP', mint: 'mint-jup', weight: 40 },
+      ],
+      legStaggerMinutes: 60,
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now });
+    });
+
+    afterEach(() => {
+      schedulerService.stopAll();
+      jest.useRealTimers();
+      resetStore();
+    });
+
+    it('should parse and validate basket weights', () => {
+      expect(SchedulerService.parseBasket('SOL=60, JUP=25%,BONK=15')).toEqual([
+        { token: 'SOL', weight: 60 },
+        { token: 'JUP', weight: 25 },
+        { token: 'BONK', weight: 15 },
+      ]);
+      expect(() => SchedulerService.parseBasket('SOL:60')).toThrow('Invalid target "SOL:60"');
+      expect(() => SchedulerService.validateBasket([{ token: 'SOL', weight: 33.33 }, { token: 'JUP', weight: 66.67 }])).not.toThrow();
+      expect(() => SchedulerService.validateBasket([{ token: 'SOL', weight: 100 }])).toThrow('At least two targets');
+      expect(() => SchedulerService.validateBasket([{ token: 'SOL', weight: 60 }, { token: 'JUP', weight: 30 }])).toThrow(
+        'Weights must add up to 100 (got 90)'
+      );
+      expect(() => SchedulerService.validateBasket([{ token: 'SOL', weight: 60.001 }, { token: 'JUP', weight: 39.999 }])).toThrow(
+        'Invalid weight for SOL'
+      );
+      expect(() => SchedulerService.validateBasket(basketSchedule.basket!, { strategy: { type: 'dip-weighted' } })).toThrow(
+        'fixed strategy'
+      );
+      expect(() => SchedulerService.validateBasket(basketSchedule.basket!, { maxPrice: 100 })).toThrow('Price bands');
+    });
+
+    it('should fit the leg stagger next to the timing jitter', () => {
+      expect(SchedulerService.resolveLegStagger('0 12 * * *', 'UTC')).toBe(60);
+      expect(SchedulerService.resolveLegStagger('0 * * * *', 'UTC')).toBe(29);
+      expect(SchedulerService.resolveLegStagger('0 12 * * *', 'UTC', 180, 500)).toBe(500);
+      expect(() => SchedulerService.resolveLegStagger('0 12 * * *', 'UTC', 180, 600)).toThrow(
+        'too wide for this schedule (max 539m with this timing jitter)'
+      );
+    });
+
+    it('should split the amount into one leg per target', () => {
+      const legs = SchedulerService.getLegs(basketSchedule, '100.5');
+
+      expect(legs.map((leg) => [leg.toToken, leg.toMint, leg.amountPerExecution])).toEqual([
+        ['SOL', 'mint-sol', '60.3'],
+        ['JUP', 'mint-jup', '40.2'],
+      ]);
+      expect(legs.every((leg) => leg.id === basketSchedule.id && !leg.basket)).toBe(true);
+      expect(SchedulerService.getLegs(mockSchedule)).toEqual([mockSchedule]);
+    });
+
+    it('should plan each leg at its own time within the stagger window', () => {
+      useStore({ ...basketSchedule });
+
+      schedulerService.restoreSchedules(jest.fn());
+
+      const plan = schedulesOnDisk[0].jitterPlan!;
+      expect(plan.slot).toBe('2026-03-02T12:00:00.000Z');
+      expect(plan.legs!.map((leg) => leg.mint).sort()).toEqual(['mint-jup', 'mint-sol']);
+      for (const leg of plan.legs!) {
+        const offset = new Date(leg.runAt).getTime() - new Date(plan.slot).getTime();
+        expect(offset).toBeGreaterThanOrEqual(0);
+        expect(offset).toBeLessThanOrEqual(60 * 60_000);
+      }
+      expect(plan.runAt).toBe(plan.legs![0].runAt);
+    });
+
+    it('should run the legs as separate swaps and count the slot once', async () => {
+      const plan = {
+        slot: '2026-03-02T12:00:00.000Z',
+        runAt: '2026-03-02T12:10:00.000Z',
+        amount: '500',
+        legs: [
+          { mint: 'mint-jup', runAt: '2026-03-02T12:10:00.000Z' },
+          { mint: 'mint-sol', runAt: '2026-03-02T12:40:00.000Z' },
+        ],
+      };
+      useStore({ ...basketSchedule, jitterPlan: plan });
+      const onExecute = jest.fn().mockResolvedValue(undefined);
+
+      await schedulerService.restoreSchedules(onExecute);
+      await jest.advanceTimersByTimeAsync(new Date(plan.legs[0].runAt).getTime() - now.getTime());
+      expect(onExecute).toHaveBeenCalledTimes(1);
+      expect(onExecute.mock.calls[0][0]).toMatchObject({ toToken: 'JUP', toMint: 'mint-jup', amountPerExecution: '200' });
+      // The slot stays planned until its last leg ran
+      expect(schedulesOnDisk[0].jitterPlan).toEqual(plan);
+      expect(schedulerService.getNextExecution(basketSchedule.id)!.toISOString()).toBe(plan.legs[1].runAt);
+
+      await jest.advanceTimersByTimeAsync(30 * 60_000);
+      expect(onExecute).toHaveBeenCalledTimes(2);
+      expect(onExecute.mock.calls[1][0]).toMatchObject({ toToken: 'SOL', toMint: 'mint-sol', amountPerExecution: '300' });
+
+      expect(executionsOnDisk.map((e) => [e.toMint, e.scheduledFor, e.inputAmount])).toEqual([
+        ['mint-jup', plan.slot, '200'],
+        ['mint-sol', plan.slot, '300'],
+      ]);
+      expect(schedulerService.countExecutions(basketSchedule.id)).toBe(1);
+      expect(schedulesOnDisk[0].jitterPlan!.slot).toBe('2026-03-03T12:00:00.000Z');
+    });
+  });
+
   describe('frequencyToCron', () => {
     it('should convert frequencies correctly', async () => {
       const cron = require('node-cron');
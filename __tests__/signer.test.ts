@@ -0,0 +1,152 @@
+// __tests__/signer.test.ts
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { KeypairSigner, RemoteSigner, verifySignature, isSignableMessage, KEY_DERIVATION_PREFIX } from '../src/utils/signer';
+import { sealWithWallet, openWithWallet } from '../src/utils/secure-store';
+
+const BLOCKHASH = '11111111111111111111111111111111';
+const TOKEN = 'test-token';
+
+/**
+ * Minimal remote signer service, as an HSM or signing daemon would expose it
+ */
+function startStubSigner(keypair: Keypair, signWith: Keypair = keypair): Promise<http.Server> {
+  const signer = new KeypairSigner(signWith);
+  const server = http.createServer((req, res) => {
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+      res.writeHead(401).end('unauthorized');
+      return;
+    }
+    if (req.method === 'GET' && req.url === '/public-key') {
+      res.writeHead(200).end(JSON.stringify({ publicKey: keypair.publicKey.toBase58() }));
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      const { kind, message } = JSON.parse(body);
+      const bytes = Buffer.from(message, 'base64');
+      // A real service would apply its transaction policy here
+      if (kind === 'message' && !isSignableMessage(bytes)) {
+        res.writeHead(403).end('not a key-derivation message');
+        return;
+      }
+      const signature = await signer.signMessage(bytes);
+      res.writeHead(200).end(JSON.stringify({ signature: Buffer.from(signature).toString('base64') }));
+    });
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function urlOf(server: http.Server): string {
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function transfer(from: PublicKey, to: PublicKey): Transaction {
+  const transaction = new Transaction().add(SystemProgram.transfer({ fromPubkey: from, toPubkey: to, lamports: 1000 }));
+  transaction.recentBlockhash = BLOCKHASH;
+  transaction.feePayer = from;
+  return transaction;
+}
+
+describe('Signers', () => {
+  const wallet = Keypair.generate();
+
+  describe('KeypairSigner', () => {
+    const signer = new KeypairSigner(wallet);
+
+    it('should sign legacy transactions without dropping co-signatures', async () => {
+      const ephemeral = Keypair.generate();
+      const transaction = transfer(wallet.publicKey, ephemeral.publicKey);
+      transaction.add(SystemProgram.transfer({ fromPubkey: ephemeral.publicKey, toPubkey: wallet.publicKey, lamports: 1 }));
+      transaction.partialSign(ephemeral);
+
+      await signer.signTransaction(transaction);
+
+      expect(transaction.verifySignatures()).toBe(true);
+    });
+
+    it('should produce verifiable message signatures', async () => {
+      const message = Buffer.from('hello');
+      const signature = await signer.signMessage(message);
+
+      expect(verifySignature(wallet.publicKey, message, signature)).toBe(true);
+      expect(verifySignature(Keypair.generate().publicKey, message, signature)).toBe(false);
+    });
+  });
+
+  describe('RemoteSigner', () => {
+    let server: http.Server;
+
+    beforeAll(async () => {
+      server = await startStubSigner(wallet);
+    });
+
+    afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    it('should learn the public key from the service', async () => {
+      const signer = await RemoteSigner.connect(urlOf(server), TOKEN);
+
+      expect(signer.publicKey.equals(wallet.publicKey)).toBe(true);
+    });
+
+    it('should sign legacy and versioned transactions', async () => {
+      const signer = await RemoteSigner.connect(urlOf(server), TOKEN);
+      const legacy = transfer(wallet.publicKey, Keypair.generate().publicKey);
+      await signer.signTransaction(legacy);
+      expect(legacy.verifySignatures()).toBe(true);
+
+      const versioned = new VersionedTransaction(
+        new TransactionMessage({
+          payerKey: wallet.publicKey,
+          recentBlockhash: BLOCKHASH,
+          instructions: transfer(wallet.publicKey, Keypair.generate().publicKey).instructions,
+        }).compileToV0Message()
+      );
+      await signer.signTransaction(versioned);
+      expect(
+        verifySignature(wallet.publicKey, versioned.message.serialize(), versioned.signatures[0])
+      ).toBe(true);
+    });
+
+    it('should derive the same storage keys as the local keypair', async () => {
+      const signer = await RemoteSigner.connect(urlOf(server), TOKEN);
+      const sealed = await sealWithWallet(new KeypairSigner(wallet), Buffer.from('secret'), 'test context');
+
+      expect((await openWithWallet(signer, sealed, 'test context')).toString()).toBe('secret');
+    });
+
+    it('should reject signatures from the wrong key', async () => {
+      const impostor = await startStubSigner(wallet, Keypair.generate());
+      try {
+        const signer = await RemoteSigner.connect(urlOf(impostor), TOKEN);
+        await expect(signer.signMessage(Buffer.from(`${KEY_DERIVATION_PREFIX}test`))).rejects.toThrow('invalid signature');
+      } finally {
+        await new Promise<void>((resolve) => impostor.close(() => resolve()));
+      }
+    });
+
+    it('should only sign key-derivation messages outside transactions', async () => {
+      const signer = await RemoteSigner.connect(urlOf(server), TOKEN);
+      const transactionMessage = transfer(wallet.publicKey, Keypair.generate().publicKey).serializeMessage();
+
+      expect(isSignableMessage(transactionMessage)).toBe(false);
+      expect(isSignableMessage(Buffer.from('hello'))).toBe(false);
+      expect(isSignableMessage(Buffer.concat([Buffer.from('AeKey'), wallet.publicKey.toBuffer()]))).toBe(true);
+      await expect(signer.signMessage(transactionMessage)).rejects.toThrow('Refusing');
+    });
+
+    it('should surface HTTP errors', async () => {
+      await expect(RemoteSigner.connect(urlOf(server), 'wrong-token')).rejects.toThrow('(401)');
+    });
+  });
+});
@@ -0,0 +1,296 @@
+// __tests__/strategy.service.test.ts
+import { Connection, PublicKey } from '@solana/web3.js';
+import { StrategyService, describeDecision } from '../src/services/strategy.service';
+import { DCASchedule, DCAExecution, SOL_MINT } from '../src/types/index';
+
+const mockGetQuote = jest.fn();
+jest.mock('../src/services/jupiter.service', () => ({
+  JupiterService: jest.fn().mockImplementation(() => ({ getQuote: mockGetQuote })),
+}));
+
+const mockGetSpendableBalance = jest.fn();
+jest.mock('../src/services/ephemeral.service', () => ({
+  EphemeralService: jest.fn().mockImplementation(() => ({ getSpendableBalance: mockGetSpendableBalance })),
+}));
+
+// Built-in tokens with their on-chain decimals
+const mockTokens: Record<string, { mint: string; symbol: string; decimals: number; programId: string }> = {};
+for (const [symbol, decimals] of [['SOL', 9], ['USDC', 6]] as const) {
+  const mint = jest.requireActual('../src/services/token-registry.service').getBuiltinMint(symbol);
+  mockTokens[symbol] = mockTokens[mint] = { mint, symbol, decimals, programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' };
+}
+jest.mock('../src/services/token-registry.service', () => ({
+  ...jest.requireActual('../src/services/token-registry.service'),
+  TokenRegistryService: jest.fn().mockImplementation(() => ({
+    resolve: (token: string) => Promise.resolve(mockTokens[token]),
+  })),
+}));
+
+// Quote helper: SOL trades at `solUsd` USDC
+const quoteAt = (solUsd: number) => (inputMint: string, _outputMint: string, amount: bigint) => {
+  if (inputMint === SOL_MINT) {
+    // amount is in lamports, output in USDC base units
+    return Promise.resolve({ outAmount: String(Math.round((Number(amount) / 1e9) * solUsd * 1e6)) });
+  }
+  // USDC -> SOL
+  return Promise.resolve({ outAmount: String(Math.round((Number(amount) / 1e6 / solUsd) * 1e9)) });
+};
+
+describe('StrategyService', () => {
+  let service: StrategyService;
+
+  const makeSchedule = (overrides: Partial<DCASchedule> = {}): DCASchedule => ({
+    id: 'schedule-1',
+    fromToken: 'USDC',
+    toToken: 'SOL',
+    amountPerExecution: '10',
+    frequency: 'daily',
+    isPrivate: false,
+    screenAddresses: false,
+    slippageBps: 50,
+    executedCount: 0,
+    createdAt: new Date().toISOString(),
+    active: true,
+    ...overrides,
+  });
+
+  const execution = (overrides: Partial<DCAExecution>): DCAExecution => ({
+    id: `exec-${Math.random()}`,
+    scheduleId: 'schedule-1',
+    executedAt: new Date().toISOString(),
+    success: true,
+    status: 'success',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new StrategyService({} as Connection);
+  });
+
+  describe('validate', () => {
+    it('should accept fixed without parameters', () => {
+      expect(() => StrategyService.validate({ type: 'fixed' })).not.toThrow();
+    });
+
+    it('should reject unknown strategies', () => {
+      expect(() => StrategyService.validate({ type: 'martingale' as any })).toThrow('Invalid strategy');
+    });
+
+    it('should require a target increment for value averaging', () => {
+      expect(() => StrategyService.validate({ type: 'value-averaging' })).toThrow('target increment');
+      expect(() => StrategyService.validate({ type: 'value-averaging', targetIncrementUsd: 50 })).not.toThrow();
+    });
+
+    it('should reject a tiny moving average window and inverted bounds', () => {
+      expect(() => StrategyService.validate({ type: 'dip-weighted', movingAverageWindow: 1 })).toThrow('window');
+      expect(() =>
+        StrategyService.validate({ type: 'dip-weighted', minMultiplier: 2, maxMultiplier: 1 })
+      ).toThrow('Multiplier bounds');
+    });
+  });
+
+  describe('fixed', () => {
+    it('should return the base amount without quoting', async () => {
+      const decision = await service.decide(makeSchedule(), []);
+
+      expect(decision).toEqual({ type: 'fixed', baseAmount: '10', amount: '10' });
+      expect(mockGetQuote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('value-averaging', () => {
+    const strategy = { type: 'value-averaging' as const, targetIncrementUsd: 10 };
+
+    it('should buy the shortfall to the target value', async () => {
+      mockGetQuote.mockImplementation(quoteAt(100));
+      // Two periods done, holding 0.15 SOL = $15; target after this period is $30
+      const history = [execution({ outputAmount: '0.1' }), execution({ outputAmount: '0.05' })];
+
+      const decision = await service.decide(makeSchedule({ strategy }), history);
+
+      expect(decision.targetValueUsd).toBe(30);
+      expect(decision.currentValueUsd).toBeCloseTo(15);
+      expect(Number(decision.amount)).toBeCloseTo(15);
+      expect(decision.price).toBeCloseTo(100);
+    });
+
+    it('should cap the amount at the max multiplier', async () => {
+      mockGetQuote.mockImplementation(quoteAt(10));
+      const history = [execution({ outputAmount: '0.1' }), execution({ outputAmount: '0.1' })];
+
+      const decision = await service.decide(makeSchedule({ strategy: { ...strategy, maxMultiplier: 2 } }), history);
+
+      expect(decision.amount).toBe('20');
+      expect(decision.reason).toBe('Capped at max multiplier');
+    });
+
+    it('should skip when the position is already above target', async () => {
+      mockGetQuote.mockImplementation(quoteAt(500));
+      const history = [execution({ outputAmount: '0.1' })];
+
+      const decision = await service.decide(makeSchedule({ strategy }), history);
+
+      expect(decision.amount).toBe('0');
+      expect(decision.reason).toContain('above target');
+    });
+
+    it('should count skipped, failed and missed periods toward the target', async () => {
+      mockGetQuote.mockImplementation(quoteAt(100));
+      const history = [
+        execution({ outputAmount: '0.1', scheduledFor: '2026-01-01T09:00:00.000Z' }),
+        execution({ success: false, status: 'failed', scheduledFor: '2026-01-02T09:00:00.000Z' }),
+        execution({ success: false, status: 'missed', scheduledFor: '2026-01-03T09:00:00.000Z' }),
+      ];
+
+      const decision = await service.decide(makeSchedule({ strategy }), history);
+
+      // Four periods including this one: $40 target, $10 held
+      expect(decision.targetValueUsd).toBe(40);
+      expect(Number(decision.amount)).toBeCloseTo(30);
+    });
+
+    it('should keep raising the target after a period skipped above it', async () => {
+      // Holding 0.1 SOL at $500 = $50: above the $20 target, so this period is skipped
+      mockGetQuote.mockImplementation(quoteAt(500));
+      const history = [execution({ outputAmount: '0.1', scheduledFor: '2026-01-01T09:00:00.000Z' })];
+      const skipped = await service.decide(makeSchedule({ strategy }), history);
+      expect(skipped.amount).toBe('0');
+      expect(skipped.targetValueUsd).toBe(20);
+
+      // Price falls back to $100 ($10 held): the skipped period still counts
+      history.push(execution({
+        success: false,
+        status: 'skipped',
+        scheduledFor: '2026-01-02T09:00:00.000Z',
+        strategy: skipped,
+      }));
+      mockGetQuote.mockImplementation(quoteAt(100));
+      const decision = await service.decide(makeSchedule({ strategy }), history);
+
+      expect(decision.targetValueUsd).toBe(30);
+      expect(Number(decision.amount)).toBeCloseTo(20);
+    });
+
+    it('should count a manual buy toward the position but not as a period', async () => {
+      mockGetQuote.mockImplementation(quoteAt(100));
+      const history = [
+        execution({ outputAmount: '0.1', scheduledFor: '2026-01-01T09:00:00.000Z' }),
+        execution({ outputAmount: '0.05', manual: true }),
+      ];
+
+      const decision = await service.decide(makeSchedule({ strategy }), history);
+
+      // Two periods: $20 target, $15 held
+      expect(decision.targetValueUsd).toBe(20);
+      expect(Number(decision.amount)).toBeCloseTo(5);
+    });
+  });
+
+  describe('dip-weighted', () => {
+    const strategy = { type: 'dip-weighted' as const, movingAverageWindow: 3, sensitivity: 2 };
+    const priced = (price: number) => execution({ strategy: { type: 'dip-weighted', baseAmount: '10', amount: '10', price } });
+
+    it('should use the base amount until there is price history', async () => {
+      mockGetQuote.mockImplementation(quoteAt(100));
+
+      const decision = await service.decide(makeSchedule({ strategy }), []);
+
+      expect(decision.amount).toBe('10');
+      expect(decision.multiplier).toBe(1);
+      expect(decision.price).toBeCloseTo(100);
+    });
+
+    it('should buy more when the price is below its moving average', async () => {
+      mockGetQuote.mockImplementation(quoteAt(80));
+
+      // MA of [110, 110, 80] = 100, deviation 20% -> 1.4x
+      const decision = await service.decide(makeSchedule({ strategy }), [priced(50), priced(110), priced(110)]);
+
+      expect(decision.movingAverage).toBeCloseTo(100);
+      expect(Number(decision.amount)).toBeCloseTo(14);
+      expect(decision.multiplier).toBeCloseTo(1.4);
+    });
+
+    it('should buy less when the price is above its moving average', async () => {
+      mockGetQuote.mockImplementation(quoteAt(120));
+
+      // MA of [90, 90, 120] = 100, deviation -20% -> 0.6x
+      const decision = await service.decide(makeSchedule({ strategy }), [priced(90), priced(90)]);
+
+      expect(Number(decision.amount)).toBeCloseTo(6);
+    });
+
+    it('should clamp to the multiplier bounds', async () => {
+      mockGetQuote.mockImplementation(quoteAt(10));
+
+      const decision = await service.decide(
+        makeSchedule({ strategy: { ...strategy, maxMultiplier: 1.5 } }),
+        [priced(100), priced(100)]
+      );
+
+      expect(decision.amount).toBe('15');
+    });
+  });
+
+  describe('sell-down', () => {
+    const owner = PublicKey.default;
+    const percent = { type: 'percent-of-balance' as const, balancePercent: 5 };
+    const sellDown = (overrides: Partial<DCASchedule>) => makeSchedule({ fromToken: 'SOL', toToken: 'USDC', ...overrides });
+
+    it('should validate the mode against the rest of the schedule', () => {
+      expect(() => StrategyService.validateAmountMode(percent)).not.toThrow();
+      expect(() => StrategyService.validateAmountMode({ type: 'percent-of-balance', balancePercent: 0 })).toThrow('Percent of balance');
+      expect(() => StrategyService.validateAmountMode({ type: 'sell-all' as any })).toThrow('Invalid amount mode');
+      expect(() =>
+        StrategyService.validateAmountMode({ type: 'until-depleted' }, { strategy: { type: 'dip-weighted' } })
+      ).toThrow('fixed strategy');
+      expect(() => StrategyService.validateAmountMode(percent, { basket: [] })).toThrow('not a basket');
+    });
+
+    it('should sell a share of the balance at fire time, at least the smallest sale', async () => {
+      mockGetSpendableBalance.mockResolvedValue('12.5');
+
+      const decision = await service.decide(sellDown({ amountMode: percent, amountPerExecution: '0' }), [], owner);
+      expect(decision).toEqual({ type: 'fixed', baseAmount: '0', amount: '0.625', balance: '12.5' });
+      expect(mockGetSpendableBalance).toHaveBeenCalledWith(owner, SOL_MINT);
+
+      const floored = await service.decide(sellDown({ amountMode: percent, amountPerExecution: '1' }), [], owner);
+      expect(floored.amount).toBe('1');
+    });
+
+    it('should sell the rest of the balance on the last run and mark it depleted', async () => {
+      const schedule = sellDown({ amountMode: { type: 'until-depleted' }, amountPerExecution: '2' });
+
+      mockGetSpendableBalance.mockResolvedValue('5');
+      expect(await service.decide(schedule, [], owner)).toMatchObject({ amount: '2', balance: '5' });
+
+      mockGetSpendableBalance.mockResolvedValue('1.5');
+      expect(await service.decide(schedule, [], owner)).toMatchObject({ amount: '1.5', depleted: true });
+
+      mockGetSpendableBalance.mockResolvedValue('0');
+      expect(await service.decide(schedule, [], owner)).toMatchObject({ amount: '0', depleted: true, reason: 'No SOL left to sell' });
+    });
+
+    it('should finish once a share rounds to nothing', async () => {
+      mockGetSpendableBalance.mockResolvedValue('0.00000001');
+
+      const decision = await service.decide(sellDown({ amountMode: percent, amountPerExecution: '0' }), [], owner);
+
+      expect(decision).toMatchObject({ amount: '0', depleted: true });
+      expect(decision.reason).toContain('too small to sell');
+    });
+
+    it('should need the wallet whose balance is sold', async () => {
+      await expect(service.decide(sellDown({ amountMode: percent }), [])).rejects.toThrow('Sell-down amounts need the wallet');
+    });
+  });
+
+  describe('describeDecision', () => {
+    it('should summarize the inputs', () => {
+      expect(
+        describeDecision({ type: 'dip-weighted', baseAmount: '10', amount: '14', price: 80, movingAverage: 100, multiplier: 1.4 })
+      ).toBe('dip-weighted, 1.40x, price 80.0000, MA 100.000');
+    });
+  });
+});
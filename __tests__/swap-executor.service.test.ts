@@ -0,0 +1,797 @@
+// __tests__/swap-executor.service.test.ts
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  SwapExecutorService,
+  SwapExecutionParams,
+  checkPriceGuard,
+  validatePriceGuard,
+  getPriceGuard,
+  getReceivedAmount,
+  getLowBalanceWarning,
+  describeEphemeralFunding,
+} from '../src/services/swap-executor.service';
+import { EphemeralJournalService } from '../src/services/ephemeral-journal.service';
+import { ExecutionStateService } from '../src/services/execution-state.service';
+import { KeypairSigner, RemoteSigner } from '../src/utils/signer';
+import { getBuiltinMint } from '../src/services/token-registry.service';
+import { SOL_MINT, TokenInfo } from '../src/types/index';
+
+const USDC_MINT = getBuiltinMint('USDC')!;
+
+const mockGetQuote = jest.fn();
+const mockExecuteSwap = jest.fn();
+const mockBuildSwapTransaction = jest.fn();
+jest.mock('../src/services/jupiter.service', () => ({
+  MAX_PRIORITY_FEE_LAMPORTS: 1_000_000,
+  JupiterService: jest.fn().mockImplementation(() => ({
+    getQuote: mockGetQuote,
+    executeSwap: mockExecuteSwap,
+    buildSwapTransaction: mockBuildSwapTransaction,
+  })),
+}));
+
+const mockFundEphemeral = jest.fn();
+const mockCheckSufficientBalance = jest.fn();
+const mockGetTokenBalance = jest.fn();
+const mockEstimateFunding = jest.fn();
+const mockSendToDestination = jest.fn();
+const mockCloseAccounts = jest.fn();
+const mockHasTokenAccount = jest.fn();
+// Plain SOL transfers stand in for the real funding / output transactions
+const transferFrom = (from: PublicKey) => {
+  const web3 = jest.requireActual('@solana/web3.js');
+  return new web3.Transaction().add(
+    web3.SystemProgram.transfer({ fromPubkey: from, toPubkey: web3.Keypair.generate().publicKey, lamports: 1 })
+  );
+};
+jest.mock('../src/services/ephemeral.service', () => ({
+  RECOVERY_FEE_LAMPORTS: 5000,
+  EphemeralService: jest.fn().mockImplementation(() => ({
+    generateEphemeralWallet: jest.fn().mockImplementation(() => {
+      const keypair = jest.requireActual('@solana/web3.js').Keypair.generate();
+      return { keypair, publicKey: keypair.publicKey.toBase58() };
+    }),
+    estimateEphemeralFunding: mockEstimateFunding,
+    fundEphemeral: mockFundEphemeral,
+    buildFundingTransaction: jest.fn().mockImplementation((user: PublicKey) => Promise.resolve(transferFrom(user))),
+    buildDestinationTransfer: jest.fn().mockImplementation((ephemeral: PublicKey) => Promise.resolve(transferFrom(ephemeral))),
+    checkSufficientBalance: mockCheckSufficientBalance,
+    getEphemeralTokenBalance: mockGetTokenBalance,
+    estimateTransactionFeeLamports: jest.fn().mockResolvedValue(5000),
+    sendToDestination: mockSendToDestination,
+    closeEmptyTokenAccounts: mockCloseAccounts,
+    buildCloseAccountsTransaction: jest.fn().mockImplementation((ephemeral: PublicKey) => Promise.resolve(transferFrom(ephemeral))),
+    recoverSol: jest.fn().mockResolvedValue('recover-signature'),
+    hasTokenAccount: mockHasTokenAccount,
+    getTokenAccountAddress: jest.fn().mockImplementation((mint: string, owner: PublicKey) =>
+      Promise.resolve(jest.requireActual('@solana/spl-token').getAssociatedTokenAddressSync(new PublicKey(mint), owner, true))
+    ),
+    getTokenAccountRent: jest.fn().mockResolvedValue(2_039_280),
+    getAmountWithTransferFee: jest.fn().mockImplementation((_mint: string, amount: string) => Promise.resolve(amount)),
+  })),
+}));
+
+const mockGetMint = jest.fn();
+jest.mock('../src/services/token-program.service', () => ({
+  TokenProgramService: jest.fn().mockImplementation(() => ({ getMint: mockGetMint })),
+}));
+
+// Tokens the registry resolves, by symbol and by mint
+const mockTokens: Record<string, TokenInfo> = {};
+for (const token of [
+  { mint: 'So11111111111111111111111111111111111111112', symbol: 'SOL', decimals: 9 },
+  { mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC', decimals: 6 },
+  { mint: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN', symbol: 'JUP', decimals: 6 },
+]) {
+  const info = { ...token, programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' };
+  mockTokens[token.symbol] = mockTokens[token.mint] = info;
+}
+jest.mock('../src/services/token-registry.service', () => ({
+  ...jest.requireActual('../src/services/token-registry.service'),
+  TokenRegistryService: jest.fn().mockImplementation(() => ({
+    resolve: (token: string) =>
+      mockTokens[token] ? Promise.resolve(mockTokens[token]) : Promise.reject(new Error(`Unknown token ${token}`)),
+  })),
+}));
+
+const mockSupportsMint = jest.fn();
+const mockCheckConfidential = jest.fn();
+const mockDeposit = jest.fn();
+jest.mock('../src/services/confidential-transfer.service', () => ({
+  ConfidentialTransferService: Object.assign(
+    jest.fn().mockImplementation(() => ({ checkAvailability: mockCheckConfidential, deposit: mockDeposit })),
+    { supportsMint: (...args: unknown[]) => mockSupportsMint(...args) }
+  ),
+}));
+
+// Keeps the real Arcium SDK out of the --private runs
+jest.mock('../src/services/arcium.service', () => ({
+  ArciumService: jest.fn().mockImplementation(() => ({
+    checkAvailability: jest.fn().mockResolvedValue({ available: true }),
+    encryptAmount: jest.fn().mockReturnValue(null),
+  })),
+  ArciumSimulated: {},
+}));
+
+describe('SwapExecutorService', () => {
+  let executor: SwapExecutorService;
+  const signer = new KeypairSigner(Keypair.generate());
+
+  // 100 USDC -> 0.5 SOL, i.e. 200 USDC per SOL
+  const quote = { outAmount: '500000000', priceImpactPct: '0.4' };
+
+  const params = (overrides: Partial<SwapExecutionParams> = {}): SwapExecutionParams => ({
+    fromToken: 'USDC',
+    toToken: 'SOL',
+    amount: '100',
+    slippageBps: 50,
+    useEphemeral: true,
+    useZk: false,
+    isPrivate: false,
+    shouldScreen: false,
+    ...overrides,
+  });
+
+  const mockGetTransaction = jest.fn();
+  const mockGetBalance = jest.fn();
+  // Balances of the user's wallet; other addresses (ephemerals) come from mockGetBalance
+  let walletLamports: number;
+  let walletUsdc: string;
+  const mockSimulateTransaction = jest.fn();
+  const mockGetAccountInfo = jest.fn();
+  let dataDir: string;
+
+  const swapTransactionFor = (payer: PublicKey) => ({
+    transaction: new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: '11111111111111111111111111111111',
+        instructions: [SystemProgram.transfer({ fromPubkey: payer, toPubkey: Keypair.generate().publicKey, lamports: 1 })],
+      }).compileToV0Message()
+    ),
+    lastValidBlockHeight: 100,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-dca-executor-'));
+    mockGetQuote.mockResolvedValue(quote);
+    mockExecuteSwap.mockResolvedValue('swap-signature');
+    mockFundEphemeral.mockResolvedValue({ signature: 'funding-signature', solAmount: 0.01 });
+    mockEstimateFunding.mockResolvedValue({ expectedSol: 0.006, totalSol: 0.01 });
+    mockSendToDestination.mockResolvedValue({ signature: 'send-signature' });
+    mockCloseAccounts.mockResolvedValue(null);
+    mockGetTransaction.mockResolvedValue(null);
+    mockGetBalance.mockResolvedValue(0);
+    walletLamports = 1_000_000_000;
+    walletUsdc = '1000';
+    mockGetTokenBalance.mockImplementation((owner: PublicKey) =>
+      Promise.resolve(owner.equals(signer.publicKey) ? walletUsdc : '0')
+    );
+    mockBuildSwapTransaction.mockImplementation((_quote: unknown, payer: PublicKey) => Promise.resolve(swapTransactionFor(payer)));
+    mockCheckSufficientBalance.mockResolvedValue(undefined);
+    mockSimulateTransaction.mockResolvedValue({ value: { err: null, unitsConsumed: 180_000, logs: [] } });
+    mockGetAccountInfo.mockResolvedValue(null);
+    mockHasTokenAccount.mockResolvedValue(false);
+    mockGetMint.mockResolvedValue({ decimals: 6 });
+    mockSupportsMint.mockReturnValue(false);
+    mockCheckConfidential.mockResolvedValue({ available: true });
+    mockDeposit.mockResolvedValue({ account: 'confidential-account', rawAmount: '500000000', signature: 'deposit-signature', applied: true });
+    executor = new SwapExecutorService({
+      rpcEndpoint: 'http://localhost',
+      getTransaction: mockGetTransaction,
+      getBalance: (key: PublicKey) =>
+        key.equals(signer.publicKey) ? Promise.resolve(walletLamports) : mockGetBalance(key),
+      getLatestBlockhash: jest.fn().mockResolvedValue({ blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 100 }),
+      getMinimumBalanceForRentExemption: jest.fn().mockResolvedValue(2_039_280),
+      getFeeForMessage: jest.fn().mockResolvedValue({ value: 5000 }),
+      getAccountInfo: mockGetAccountInfo,
+      simulateTransaction: mockSimulateTransaction,
+    } as unknown as Connection, dataDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('price guard', () => {
+    it('should skip above max price without funding the ephemeral wallet', async () => {
+      const result = await executor.execute(signer, params({ priceGuard: { maxPrice: 150 } }));
+
+      expect(result.success).toBe(false);
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toContain('above max 150');
+      expect(mockFundEphemeral).not.toHaveBeenCalled();
+      expect(mockExecuteSwap).not.toHaveBeenCalled();
+    });
+
+    it('should skip when price impact exceeds the limit', async () => {
+      const result = await executor.execute(signer, params({ priceGuard: { maxPriceImpactPct: 0.1 } }));
+
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toContain('Price impact 0.4%');
+      expect(mockFundEphemeral).not.toHaveBeenCalled();
+    });
+
+    it('should quote once and swap with that quote when inside the band', async () => {
+      const result = await executor.execute(
+        signer,
+        params({ priceGuard: { minPrice: 150, maxPrice: 250, maxPriceImpactPct: 1 } })
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.outputAmount).toBe('0.5');
+      expect(mockGetQuote).toHaveBeenCalledTimes(1);
+      expect(mockGetQuote.mock.invocationCallOrder[0]).toBeLessThan(mockFundEphemeral.mock.invocationCallOrder[0]);
+      expect(mockExecuteSwap).toHaveBeenCalledWith(quote, expect.anything());
+    });
+  });
+
+  describe('token resolution', () => {
+    const mint = Keypair.generate().publicKey.toBase58();
+
+    beforeEach(() => {
+      mockTokens[mint] = { mint, symbol: 'XYZ', decimals: 8, programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' };
+    });
+
+    afterEach(() => {
+      delete mockTokens[mint];
+    });
+
+    it('should swap into a mint address using its on-chain decimals', async () => {
+      const result = await executor.execute(
+        signer,
+        params({ fromToken: 'SOL', toToken: mint, amount: '0.5', useEphemeral: false })
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockGetQuote).toHaveBeenCalledWith(SOL_MINT, mint, BigInt(500_000_000), 50);
+      // 500000000 raw units at 8 decimals
+      expect(result.quotedOutputAmount).toBe('5');
+      expect(result.outputToken).toBe('XYZ');
+    });
+
+    it('should stop before quoting when a token does not resolve', async () => {
+      await expect(executor.execute(signer, params({ toToken: 'NOPE' }))).rejects.toThrow('Unknown token NOPE');
+
+      expect(mockGetQuote).not.toHaveBeenCalled();
+      expect(mockFundEphemeral).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('execution record', () => {
+    // Swap tx: SOL output lands in the signer; a new token account locks rent
+    const swapMeta = {
+      fee: 10000,
+      preBalances: [20_000_000, 0],
+      postBalances: [20_000_000 + 495_000_000 - 10000 - 2_039_280, 2_039_280],
+      preTokenBalances: [],
+      postTokenBalances: [
+        { accountIndex: 1, mint: 'USDC', owner: 'x', uiTokenAmount: { amount: '0' } },
+      ],
+    };
+    const simpleMeta = { fee: 5000, preBalances: [1], postBalances: [1], preTokenBalances: [], postTokenBalances: [] };
+
+    it('should record every signature, actual vs quoted output and SOL costs', async () => {
+      mockGetTransaction.mockImplementation((signature: string) =>
+        Promise.resolve({ meta: signature === 'swap-signature' ? swapMeta : simpleMeta })
+      );
+      mockGetBalance.mockResolvedValue(5000);
+
+      const result = await executor.execute(signer, params());
+
+      expect(result.signatures).toEqual({
+        funding: 'funding-signature',
+        swap: 'swap-signature',
+        sendOutput: undefined,
+        recoverSol: 'recover-signature',
+      });
+      expect(result.quotedOutputAmount).toBe('0.5');
+      // Fee and rent paid by the signer count as costs, not as less output
+      expect(result.outputAmount).toBe('0.495');
+      expect(result.ephemeralAddress).toBeDefined();
+      expect(result.costs).toEqual({
+        feesSol: 0.00002,
+        rentSol: 0.00203928,
+        reclaimedRentSol: 0,
+        unrecoveredSol: 0.000005,
+        totalSol: 0.00206428,
+      });
+    });
+
+    it('should close the ephemeral\'s token accounts and net their rent out of the costs', async () => {
+      mockGetTransaction.mockImplementation((signature: string) =>
+        Promise.resolve({ meta: signature === 'swap-signature' ? swapMeta : simpleMeta })
+      );
+      mockGetBalance.mockResolvedValue(5000);
+      // The USDC input account, opened by the wallet's funding transaction
+      mockCloseAccounts.mockResolvedValue({
+        signature: 'close-signature',
+        accounts: [{ mint: USDC_MINT, rentLamports: 2_039_280 }],
+      });
+      const events: string[] = [];
+
+      const result = await executor.execute(signer, params(), (event) => events.push(event.message));
+
+      expect(result.signatures!.closeAccounts).toBe('close-signature');
+      expect(events).toContain('Closed 1 token account(s), reclaimed 0.002039 SOL rent');
+      expect(result.costs).toEqual({
+        feesSol: 0.000025,
+        rentSol: 0.00203928,
+        reclaimedRentSol: 0.00203928,
+        unrecoveredSol: 0.000005,
+        totalSol: 0.00003,
+      });
+      // The input account's rent wasn't the ephemeral's to spend
+      expect(result.ephemeralFunding!.spentSol).toBeCloseTo(0.00205928, 9);
+    });
+
+    it('should fall back to the quote and omit costs when transactions cannot be fetched', async () => {
+      const result = await executor.execute(signer, params());
+
+      expect(result.outputAmount).toBe('0.5');
+      expect(result.costs).toBeUndefined();
+      expect(result.ephemeralFunding).toEqual({ estimatedSol: 0.006, reserveSol: 0.01 });
+    });
+
+    it('should size the ephemeral funding from the route and report what it spent', async () => {
+      mockGetTransaction.mockImplementation((signature: string) =>
+        Promise.resolve({ meta: signature === 'swap-signature' ? swapMeta : simpleMeta })
+      );
+      const progress = jest.fn();
+
+      const result = await executor.execute(signer, params(), progress);
+
+      expect(mockEstimateFunding).toHaveBeenCalledWith(expect.objectContaining({
+        ephemeral: undefined,
+        destination: signer.publicKey,
+        inputMint: USDC_MINT,
+        outputMint: SOL_MINT,
+      }));
+      // Jupiter sizes the compute budget by simulating, so the swap is built for the funded wallet
+      expect(mockBuildSwapTransaction).toHaveBeenCalledWith(quote, signer.publicKey);
+      expect(mockFundEphemeral).toHaveBeenCalledWith(signer, expect.any(PublicKey), '0.01', USDC_MINT, '100');
+      // Ephemeral-paid: swap fee + new account rent, recovery fee (not the wallet's funding tx)
+      expect(result.ephemeralFunding).toEqual({
+        estimatedSol: 0.006,
+        reserveSol: 0.01,
+        spentSol: 0.00205428,
+        surplusSol: 0.00794572,
+      });
+      expect(progress).toHaveBeenCalledWith(expect.objectContaining({
+        phase: 'recover-sol',
+        message: 'Ephemeral funding: 0.010000 SOL reserve, spent 0.002054 SOL (0.007946 SOL over)',
+      }));
+    });
+
+    it('should describe underfunding', () => {
+      expect(describeEphemeralFunding({ estimatedSol: 0.001, reserveSol: 0.002, spentSol: 0.0025, surplusSol: -0.0005 }))
+        .toBe('Ephemeral funding: 0.002000 SOL reserve, spent 0.002500 SOL (0.000500 SOL under)');
+    });
+
+    it('should measure SPL output for the signer only', () => {
+      const owner = 'owner-1';
+      const meta = {
+        fee: 5000,
+        preBalances: [],
+        postBalances: [],
+        preTokenBalances: [
+          { accountIndex: 2, mint: USDC_MINT, owner, uiTokenAmount: { amount: '1000000' } },
+        ],
+        postTokenBalances: [
+          { accountIndex: 2, mint: USDC_MINT, owner, uiTokenAmount: { amount: '3500000' } },
+          { accountIndex: 3, mint: USDC_MINT, owner: 'pool', uiTokenAmount: { amount: '99000000' } },
+        ],
+      };
+
+      expect(getReceivedAmount(meta as any, owner, mockTokens.USDC)).toBe('2.5');
+    });
+  });
+
+  describe('ephemeral journal', () => {
+    const journal = () => new EphemeralJournalService(signer, dataDir);
+
+    it('should drop the journal entry once the ephemeral is swept', async () => {
+      await executor.execute(signer, params());
+
+      expect(journal().getUnfinished()).toEqual([]);
+    });
+
+    it('should keep the decryptable key when the swap dies after funding', async () => {
+      mockExecuteSwap.mockRejectedValue(new Error('RPC timeout'));
+
+      await expect(executor.execute(signer, params())).rejects.toThrow('RPC timeout');
+
+      const [entry] = journal().getUnfinished();
+      expect(entry.steps).toEqual(['funded']);
+      expect((await journal().decrypt(entry)).publicKey.toBase58()).toBe(entry.publicKey);
+    });
+
+    it('should keep the entry when SOL is left in the ephemeral', async () => {
+      mockGetBalance.mockResolvedValue(2_000_000);
+
+      await executor.execute(signer, params());
+
+      const [entry] = journal().getUnfinished();
+      expect(entry.steps).toEqual(['funded', 'swapped', 'output-sent', 'recovered']);
+    });
+
+    it('should reuse a pooled wallet without journaling it and only top up its fee reserve', async () => {
+      const pooledWallet = Keypair.generate();
+      mockGetBalance.mockResolvedValue(4_000_000);
+
+      const result = await executor.execute(signer, params({ pooledWallet }));
+
+      expect(result.ephemeralAddress).toBe(pooledWallet.publicKey.toBase58());
+      expect(mockFundEphemeral).toHaveBeenCalledWith(signer, pooledWallet.publicKey, '0.006', USDC_MINT, '100');
+      expect(mockEstimateFunding).toHaveBeenCalledWith(expect.objectContaining({ ephemeral: pooledWallet.publicKey }));
+      expect(result.ephemeralFunding!.reserveSol).toBe(0.01);
+      expect(journal().getUnfinished()).toEqual([]);
+      // Its token accounts stay open for the next swap
+      expect(mockCloseAccounts).not.toHaveBeenCalled();
+    });
+
+    it('should keep the entry when token accounts could not be closed', async () => {
+      mockCloseAccounts.mockRejectedValue(new Error('non-native account has balance'));
+
+      const result = await executor.execute(signer, params());
+
+      expect(result.success).toBe(true);
+      expect(journal().getUnfinished()[0].steps).toContain('recovered');
+    });
+
+    it('should refuse ZK mode when the wallet is behind a remote signer', async () => {
+      const remote = new RemoteSigner('http://localhost:0', signer.publicKey);
+
+      await expect(executor.execute(remote, params({ useZk: true }))).rejects.toThrow('ZK mode needs a local wallet');
+      expect(mockFundEphemeral).not.toHaveBeenCalled();
+    });
+
+    it('should not journal anything when the price guard skips', async () => {
+      await executor.execute(signer, params({ priceGuard: { maxPrice: 150 } }));
+
+      expect(journal().getUnfinished()).toEqual([]);
+    });
+  });
+
+  describe('resume', () => {
+    const states = () => new ExecutionStateService(dataDir);
+    // Whatever the ephemeral holds of each token
+    const ephemeralHolds = (amount: string) =>
+      mockGetTokenBalance.mockImplementation((owner: PublicKey) =>
+        Promise.resolve(owner.equals(signer.publicKey) ? walletUsdc : amount)
+      );
+
+    it('should send the output of a finished swap without funding or swapping again', async () => {
+      ephemeralHolds('50');
+      mockSendToDestination.mockRejectedValueOnce(new Error('blockhash expired'));
+
+      await expect(
+        executor.execute(signer, params({ fromToken: 'SOL', toToken: 'USDC', amount: '0.1', executionId: 'exec-1' }))
+      ).rejects.toThrow('blockhash expired');
+
+      const state = states().find('exec-1')!;
+      expect(state).toMatchObject({ status: 'failed', failedPhase: 'send-output', error: 'blockhash expired' });
+      expect(state.phases.swap!.signature).toBe('swap-signature');
+      expect(state.phases['ephemeral-fund']!.outputs!.reserveLamports).toBe(10_000_000);
+
+      const result = await executor.resume(signer, 'exec-1');
+
+      expect(result.success).toBe(true);
+      expect(result.executionId).toBe('exec-1');
+      expect(mockGetQuote).toHaveBeenCalledTimes(1);
+      expect(mockFundEphemeral).toHaveBeenCalledTimes(1);
+      expect(mockExecuteSwap).toHaveBeenCalledTimes(1);
+      expect(mockSendToDestination).toHaveBeenLastCalledWith(expect.anything(), signer.publicKey, USDC_MINT, '50');
+      expect(result.signatures).toMatchObject({ funding: 'funding-signature', swap: 'swap-signature', sendOutput: 'send-signature' });
+      // The quote is kept from the first attempt
+      expect(result.quotedOutputAmount).toBe('500');
+      expect(states().find('exec-1')).toBeUndefined();
+      expect(new EphemeralJournalService(signer, dataDir).getUnfinished()).toEqual([]);
+    });
+
+    it('should not fund twice when the failed funding landed anyway', async () => {
+      mockFundEphemeral.mockRejectedValueOnce(new Error('confirmation timeout'));
+
+      await expect(executor.execute(signer, params({ executionId: 'exec-1' }))).rejects.toThrow('confirmation timeout');
+      expect(states().find('exec-1')!.failedPhase).toBe('ephemeral-fund');
+
+      ephemeralHolds('100');
+      const result = await executor.resume(signer, 'exec-1');
+
+      expect(result.success).toBe(true);
+      expect(mockFundEphemeral).toHaveBeenCalledTimes(1);
+      expect(mockExecuteSwap).toHaveBeenCalledTimes(1);
+      expect(result.signatures!.funding).toBeUndefined();
+    });
+
+    it('should skip the price guard and balance check once funds have moved', async () => {
+      mockExecuteSwap.mockRejectedValueOnce(new Error('RPC timeout'));
+      await expect(
+        executor.execute(signer, params({ executionId: 'exec-1', priceGuard: { maxPrice: 250 } }))
+      ).rejects.toThrow('RPC timeout');
+
+      // The price moved out of the band and the wallet was emptied meanwhile
+      mockGetQuote.mockResolvedValue({ outAmount: '400000000', priceImpactPct: '0.4' });
+      walletUsdc = '0';
+      ephemeralHolds('100');
+      const result = await executor.resume(signer, 'exec-1');
+
+      expect(result.success).toBe(true);
+      expect(result.skipped).toBeUndefined();
+      expect(mockExecuteSwap).toHaveBeenCalledTimes(2);
+    });
+
+    it('should forget executions that failed before any funds moved', async () => {
+      mockGetQuote.mockRejectedValueOnce(new Error('Jupiter down'));
+
+      await expect(executor.execute(signer, params({ executionId: 'exec-1' }))).rejects.toThrow('Jupiter down');
+      await executor.execute(signer, params({ executionId: 'exec-2', priceGuard: { maxPrice: 150 } }));
+
+      expect(states().find('exec-1')).toBeUndefined();
+      expect(states().find('exec-2')).toBeUndefined();
+      await expect(executor.resume(signer, 'exec-1')).rejects.toThrow('No interrupted execution exec-1');
+    });
+
+    it('should not record a simulated ZK flow as deposited', async () => {
+      // Privacy Cash needs Node 24+, so the ZK flow is simulated here
+      mockExecuteSwap.mockRejectedValueOnce(new Error('RPC timeout'));
+
+      await expect(executor.execute(signer, params({ useZk: true, executionId: 'exec-1' }))).rejects.toThrow('RPC timeout');
+
+      const state = states().find('exec-1')!;
+      expect(state.failedPhase).toBe('swap');
+      expect(state.phases['zk-deposit']).toBeUndefined();
+      expect(state.phases['zk-withdraw']).toBeUndefined();
+    });
+
+    it('should need the pooled wallet an execution ran from', async () => {
+      const pooledWallet = Keypair.generate();
+      mockExecuteSwap.mockRejectedValueOnce(new Error('RPC timeout'));
+      await expect(executor.execute(signer, params({ pooledWallet, executionId: 'exec-1' }))).rejects.toThrow();
+
+      ephemeralHolds('100');
+      await expect(executor.resume(signer, 'exec-1')).rejects.toThrow('not available');
+
+      const result = await executor.resume(signer, 'exec-1', undefined, { pooledWallet });
+      expect(result.ephemeralAddress).toBe(pooledWallet.publicKey.toBase58());
+      expect(mockFundEphemeral).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('pre-flight check', () => {
+    it('should skip before creating or funding anything when tokens are short', async () => {
+      walletUsdc = '40';
+
+      const result = await executor.execute(signer, params());
+
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toBe('Insufficient funds: need 100 USDC, have 40 USDC');
+      expect(result.preflight!.tokenBalance).toBe('40');
+      expect(mockFundEphemeral).not.toHaveBeenCalled();
+      expect(new EphemeralJournalService(signer, dataDir).getUnfinished()).toEqual([]);
+    });
+
+    it('should count the swap amount, ephemeral funding, rent and fees in the SOL needed', async () => {
+      walletLamports = 500_000_000;
+
+      const result = await executor.execute(signer, params({ fromToken: 'SOL', toToken: 'USDC', amount: '0.49' }));
+
+      // 0.49 swap + 0.01 funding + 0.000005 fee > 0.5
+      expect(result.skipped).toBe(true);
+      expect(result.preflight).toMatchObject({ ephemeralFundingSol: 0.01, ataRentSol: 0, executionsCovered: 0 });
+      expect(result.preflight!.solNeeded).toBeCloseTo(0.500005, 9);
+      expect(result.skipReason).toContain('need 0.500005 SOL, have 0.500000 SOL');
+    });
+
+    it('should charge ZK mode for the deposit as well as the funding', async () => {
+      walletUsdc = '150';
+
+      const short = await executor.execute(signer, params({ useZk: true }));
+
+      expect(short.skipped).toBe(true);
+      expect(short.preflight!.inputAmount).toBe('200');
+      expect(short.preflight!.zkFeesSol).toBeGreaterThan(0);
+    });
+
+    it('should report how many executions the balances cover', async () => {
+      walletUsdc = '450';
+
+      const result = await executor.execute(signer, params());
+
+      expect(result.success).toBe(true);
+      expect(result.preflight!.executionsCovered).toBe(4);
+    });
+  });
+
+  describe('getLowBalanceWarning', () => {
+    const schedule = {
+      fromToken: 'USDC',
+      toToken: 'SOL',
+      executedCount: 0,
+    } as any;
+
+    it('should stay quiet while the balance covers the threshold', () => {
+      expect(getLowBalanceWarning(schedule, 4, 0)).toBeNull();
+    });
+
+    it('should warn N executions ahead', () => {
+      expect(getLowBalanceWarning(schedule, 3, 0)).toBe('Low balance: the wallet covers only 2 more USDC→SOL execution(s)');
+      expect(getLowBalanceWarning(schedule, 1, 0)).toBe("Low balance: the wallet can't fund the next USDC→SOL execution");
+      expect(getLowBalanceWarning({ ...schedule, lowBalanceWarning: 10 }, 6, 0)).not.toBeNull();
+    });
+
+    it('should not warn when the schedule ends before the money runs out', () => {
+      expect(getLowBalanceWarning({ ...schedule, totalExecutions: 3 }, 2, 1)).toBeNull();
+    });
+
+    it('should count the recorded executions, not the schedule\'s stored count', () => {
+      // 8 of 10 done: this run and one more are left, and the balance covers both
+      const limited = { ...schedule, totalExecutions: 10, executedCount: 0 };
+
+      expect(getLowBalanceWarning(limited, 2, 8)).toBeNull();
+      expect(getLowBalanceWarning(limited, 1, 8)).toBe("Low balance: the wallet can't fund the next USDC→SOL execution");
+    });
+  });
+
+  describe('dry run', () => {
+    it('should simulate without signing, sending or journaling anything', async () => {
+      const result = await executor.execute(signer, params({ dryRun: true }));
+
+      expect(mockFundEphemeral).not.toHaveBeenCalled();
+      expect(mockExecuteSwap).not.toHaveBeenCalled();
+      expect(new EphemeralJournalService(signer, dataDir).getUnfinished()).toEqual([]);
+
+      const report = result.dryRun!;
+      expect(result.outputAmount).toBe('0.5');
+      expect(report.transactions.map((t) => t.phase)).toEqual(['ephemeral-fund', 'swap', 'close-accounts', 'recover-sol']);
+      expect(report.transactions[0].signers).toEqual([signer.publicKey.toBase58()]);
+      expect(report.transactions[0].simulated).toBe(true);
+      // The ephemeral signs the swap; compute units come from the stand-in simulation
+      expect(report.transactions[1].signers).not.toContain(signer.publicKey.toBase58());
+      expect(report.transactions[1].unitsConsumed).toBe(180_000);
+      expect(report.ephemeralFundingSol).toBe(0.01);
+      expect(report.feesSol).toBeCloseTo(0.00002);
+      expect(report.warnings).toEqual([]);
+    });
+
+    it('should list the output transfer and the rent of missing token accounts', async () => {
+      const result = await executor.execute(signer, params({ fromToken: 'SOL', toToken: 'USDC', amount: '1', dryRun: true }));
+
+      const report = result.dryRun!;
+      expect(report.transactions.map((t) => t.phase)).toEqual(['ephemeral-fund', 'swap', 'send-output', 'close-accounts', 'recover-sol']);
+      expect(report.transactions[1].rentSol).toBeCloseTo(0.00203928);
+      expect(mockCheckSufficientBalance).toHaveBeenCalledWith(signer, expect.closeTo(1.010005, 6), undefined, undefined);
+    });
+
+    it('should simulate a direct swap as the wallet itself', async () => {
+      mockHasTokenAccount.mockResolvedValue(true);
+
+      const result = await executor.execute(signer, params({ useEphemeral: false, toToken: 'JUP', dryRun: true }));
+
+      const [swap] = result.dryRun!.transactions;
+      expect(result.dryRun!.transactions).toHaveLength(1);
+      expect(swap.simulated).toBe(true);
+      expect(swap.signers).toEqual([signer.publicKey.toBase58()]);
+      expect(swap.rentSol).toBe(0);
+      expect(mockBuildSwapTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report failing simulations and insufficient balance as warnings', async () => {
+      mockSimulateTransaction.mockResolvedValue({ value: { err: { InstructionError: [0, 'Custom'] }, unitsConsumed: 0 } });
+      mockCheckSufficientBalance.mockRejectedValue(new Error('Insufficient USDC balance: have 0 USDC, need 100.000000 USDC'));
+
+      const result = await executor.execute(signer, params({ dryRun: true }));
+
+      expect(result.success).toBe(true);
+      expect(result.dryRun!.warnings).toEqual([
+        'ephemeral-fund would fail: {"InstructionError":[0,"Custom"]}',
+        'swap would fail: {"InstructionError":[0,"Custom"]}',
+        'Insufficient USDC balance: have 0 USDC, need 100.000000 USDC',
+      ]);
+    });
+
+    it('should still refuse ZK mode with a remote signer', async () => {
+      const remote = new RemoteSigner('http://localhost:0', signer.publicKey);
+
+      await expect(executor.execute(remote, params({ useZk: true, dryRun: true }))).rejects.toThrow('ZK mode needs a local wallet');
+    });
+  });
+
+  describe('confidential deposit', () => {
+    const privateBuy = (overrides: Partial<SwapExecutionParams> = {}) =>
+      params({ fromToken: 'SOL', toToken: 'USDC', amount: '0.5', isPrivate: true, ...overrides });
+
+    beforeEach(() => {
+      // The swap leaves 500 USDC in the ephemeral
+      mockGetTokenBalance.mockImplementation((owner: PublicKey) =>
+        Promise.resolve(owner.equals(signer.publicKey) ? walletUsdc : '500')
+      );
+    });
+
+    it('should deposit the output into a confidential balance instead of Arcium', async () => {
+      mockSupportsMint.mockReturnValue(true);
+      mockSendToDestination.mockResolvedValue({ signature: 'send-signature', amount: 500, fee: 2 });
+      const events: string[] = [];
+
+      const result = await executor.execute(signer, privateBuy(), (event) => events.push(event.phase));
+
+      // The fee withheld on the way to the wallet never reached it
+      expect(mockDeposit).toHaveBeenCalledWith(signer, USDC_MINT, '498');
+      expect(result.signatures!.confidentialDeposit).toBe('deposit-signature');
+      expect(events).toContain('confidential');
+      expect(events).not.toContain('arcium');
+    });
+
+    it('should fall back to Arcium for mints without confidential transfers', async () => {
+      const events: string[] = [];
+
+      const result = await executor.execute(signer, privateBuy(), (event) => events.push(event.phase));
+
+      expect(mockDeposit).not.toHaveBeenCalled();
+      expect(result.signatures!.confidentialDeposit).toBeUndefined();
+      expect(events).toContain('arcium');
+    });
+
+    it('should fall back to Arcium when the output goes to another wallet', async () => {
+      mockSupportsMint.mockReturnValue(true);
+      const events: string[] = [];
+
+      await executor.execute(
+        signer,
+        privateBuy({ customDestination: Keypair.generate().publicKey.toBase58() }),
+        (event) => events.push(event.phase)
+      );
+
+      expect(mockDeposit).not.toHaveBeenCalled();
+      expect(events).toContain('arcium');
+    });
+
+    it('should fall back to Arcium when the deposit fails', async () => {
+      mockSupportsMint.mockReturnValue(true);
+      mockDeposit.mockRejectedValue(new Error('Solana ZK SDK not installed'));
+      const messages: string[] = [];
+
+      const result = await executor.execute(signer, privateBuy(), (event) => messages.push(event.message));
+
+      expect(result.success).toBe(true);
+      expect(messages).toContain('Confidential deposit failed: Solana ZK SDK not installed');
+      expect(result.signatures!.confidentialDeposit).toBeUndefined();
+    });
+  });
+
+  describe('checkPriceGuard', () => {
+    it('should return null inside the limits', () => {
+      expect(checkPriceGuard({ minPrice: 100, maxPrice: 200, maxPriceImpactPct: 1 }, 150, 0.5, 'USDC/SOL')).toBeNull();
+    });
+
+    it('should report prices below the minimum', () => {
+      expect(checkPriceGuard({ minPrice: 100 }, 90, 0, 'USDC/SOL')).toBe('Price 90.0000 USDC/SOL below min 100');
+    });
+  });
+
+  describe('validatePriceGuard', () => {
+    it('should reject inverted bands and invalid impact limits', () => {
+      expect(() => validatePriceGuard({ minPrice: 200, maxPrice: 100 })).toThrow('Min price must not exceed max price');
+      expect(() => validatePriceGuard({ maxPrice: -1 })).toThrow('Max price');
+      expect(() => validatePriceGuard({ maxPriceImpactPct: 150 })).toThrow('between 0 and 100');
+    });
+  });
+
+  describe('getPriceGuard', () => {
+    it('should return undefined when no limits are set', () => {
+      expect(getPriceGuard({})).toBeUndefined();
+      expect(getPriceGuard({ maxPrice: 10 })).toEqual({ maxPrice: 10, minPrice: undefined, maxPriceImpactPct: undefined });
+    });
+  });
+});
@@ -0,0 +1,245 @@
+// __tests__/token-program.service.test.ts
+// Tests for per-mint token program handling: mint parsing, transfer fees, hooks, closes
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountType,
+  ExtensionType,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TokenInstruction,
+  TransferFeeConfigLayout,
+  TransferHookLayout,
+  getExtraAccountMetaAddress,
+} from '@solana/spl-token';
+import { TokenProgramService } from '../src/services/token-program.service';
+
+/** Mint account data; Token-2022 mints get their extensions as TLV entries */
+const mintData = (decimals: number, extensions: Array<[ExtensionType, Buffer]> = []) => {
+  const base = Buffer.alloc(extensions.length ? ACCOUNT_SIZE : MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: BigInt(0),
+      decimals,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    base
+  );
+  if (!extensions.length) return base;
+
+  const tlv = extensions.map(([type, value]) => {
+    const header = Buffer.alloc(4);
+    header.writeUInt16LE(type, 0);
+    header.writeUInt16LE(value.length, 2);
+    return Buffer.concat([header, value]);
+  });
+  return Buffer.concat([base, Buffer.from([AccountType.Mint]), ...tlv]);
+};
+
+const transferFee = (basisPoints: number, maximumFee: bigint) => {
+  const fee = { epoch: BigInt(0), maximumFee, transferFeeBasisPoints: basisPoints };
+  const value = Buffer.alloc(TransferFeeConfigLayout.span);
+  TransferFeeConfigLayout.encode(
+    {
+      transferFeeConfigAuthority: PublicKey.default,
+      withdrawWithheldAuthority: PublicKey.default,
+      withheldAmount: BigInt(0),
+      olderTransferFee: fee,
+      newerTransferFee: fee,
+    },
+    value
+  );
+  return [ExtensionType.TransferFeeConfig, value] as [ExtensionType, Buffer];
+};
+
+const transferHook = (programId: PublicKey) => {
+  const value = Buffer.alloc(TransferHookLayout.span);
+  TransferHookLayout.encode({ authority: PublicKey.default, programId }, value);
+  return [ExtensionType.TransferHook, value] as [ExtensionType, Buffer];
+};
+
+describe('TokenProgramService', () => {
+  const mockGetAccountInfo = jest.fn();
+  let service: TokenProgramService;
+  let accounts: Map<string, { data: Buffer; owner: PublicKey }>;
+
+  const addMint = (data: Buffer, owner: PublicKey = TOKEN_2022_PROGRAM_ID) => {
+    const address = Keypair.generate().publicKey;
+    accounts.set(address.toBase58(), { data, owner });
+    return address;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    accounts = new Map();
+    mockGetAccountInfo.mockImplementation(async (address: PublicKey) => {
+      const account = accounts.get(address.toBase58());
+      return account ? { ...account, lamports: 1_461_600, executable: false } : null;
+    });
+    service = new TokenProgramService({
+      getAccountInfo: mockGetAccountInfo,
+      getEpochInfo: jest.fn().mockResolvedValue({ epoch: 700 }),
+      getMinimumBalanceForRentExemption: jest.fn().mockImplementation((size: number) => Promise.resolve(size * 10)),
+    } as unknown as Connection);
+  });
+
+  // ─── getMint ──────────────────────────────────────────────────────────
+
+  describe('getMint', () => {
+    it('should read a classic mint', async () => {
+      const address = addMint(mintData(6), TOKEN_PROGRAM_ID);
+
+      const mint = await service.getMint(address.toBase58());
+
+      expect(mint.programId).toEqual(TOKEN_PROGRAM_ID);
+      expect(mint.decimals).toBe(6);
+      expect(mint.transferFee).toBeNull();
+      expect(mint.transferHookProgram).toBeNull();
+      expect(mint.confidentialTransfer).toBeNull();
+      expect(mint.accountSize).toBe(ACCOUNT_SIZE);
+    });
+
+    it('should read Token-2022 extensions and size accounts for them', async () => {
+      const hookProgram = Keypair.generate().publicKey;
+      const address = addMint(mintData(9, [transferFee(50, BigInt(1000)), transferHook(hookProgram)]));
+
+      const mint = await service.getMint(address);
+
+      expect(mint.programId).toEqual(TOKEN_2022_PROGRAM_ID);
+      expect(mint.decimals).toBe(9);
+      expect(mint.transferFee!.newerTransferFee.transferFeeBasisPoints).toBe(50);
+      expect(mint.transferHookProgram).toEqual(hookProgram);
+      // Account type, TransferFeeAmount and TransferHookAccount entries
+      expect(mint.accountSize).toBe(ACCOUNT_SIZE + 1 + (4 + 8) + (4 + 1));
+    });
+
+    it('should read confidential transfer settings', async () => {
+      const value = Buffer.alloc(65);
+      value[32] = 1;
+      const address = addMint(mintData(6, [[ExtensionType.ConfidentialTransferMint, value]]));
+
+      expect((await service.getMint(address)).confidentialTransfer).toEqual({
+        authority: null,
+        autoApproveNewAccounts: true,
+      });
+    });
+
+    it('should cache mints', async () => {
+      const address = addMint(mintData(6), TOKEN_PROGRAM_ID);
+
+      await service.getMint(address);
+      await service.getMint(address.toBase58());
+
+      expect(mockGetAccountInfo).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject missing accounts and accounts of other programs', async () => {
+      const missing = Keypair.generate().publicKey;
+      const other = addMint(mintData(6), Keypair.generate().publicKey);
+
+      await expect(service.getMint(missing)).rejects.toThrow(`Mint ${missing.toBase58()} not found`);
+      await expect(service.getMint(other)).rejects.toThrow(`${other.toBase58()} is not a token mint`);
+    });
+  });
+
+  // ─── transfer fees ────────────────────────────────────────────────────
+
+  describe('getAmountBeforeFee', () => {
+    it('should gross up an amount so the recipient gets it after the fee', async () => {
+      // 1%, rounded up: sending 1011 withholds 11
+      const mint = await service.getMint(addMint(mintData(6, [transferFee(100, BigInt(1_000_000))])));
+
+      expect(await service.getAmountBeforeFee(mint, BigInt(1000))).toBe(BigInt(1011));
+      expect(await service.getTransferFee(mint, BigInt(1011))).toBe(BigInt(11));
+    });
+
+    it('should add a capped fee', async () => {
+      const mint = await service.getMint(addMint(mintData(6, [transferFee(100, BigInt(5))])));
+
+      expect(await service.getAmountBeforeFee(mint, BigInt(1000))).toBe(BigInt(1005));
+    });
+
+    it('should leave amounts of mints without fees unchanged', async () => {
+      const mint = await service.getMint(addMint(mintData(6), TOKEN_PROGRAM_ID));
+
+      expect(await service.getAmountBeforeFee(mint, BigInt(1000))).toBe(BigInt(1000));
+      expect(await service.getTransferFee(mint, BigInt(1000))).toBe(BigInt(0));
+    });
+  });
+
+  // ─── instructions ─────────────────────────────────────────────────────
+
+  describe('createTransferInstruction', () => {
+    const source = Keypair.generate().publicKey;
+    const destination = Keypair.generate().publicKey;
+    const owner = Keypair.generate().publicKey;
+
+    it('should use a plain transfer for classic mints', async () => {
+      const mint = await service.getMint(addMint(mintData(6), TOKEN_PROGRAM_ID));
+
+      const instruction = await service.createTransferInstruction(mint, source, destination, owner, 1000);
+
+      expect(instruction.programId).toEqual(TOKEN_PROGRAM_ID);
+      expect(instruction.data[0]).toBe(TokenInstruction.Transfer);
+    });
+
+    it('should use a checked transfer for Token-2022 mints', async () => {
+      const mint = await service.getMint(addMint(mintData(6, [transferFee(100, BigInt(5))])));
+
+      const instruction = await service.createTransferInstruction(mint, source, destination, owner, 1000);
+
+      expect(instruction.programId).toEqual(TOKEN_2022_PROGRAM_ID);
+      expect(instruction.data[0]).toBe(TokenInstruction.TransferChecked);
+      expect(instruction.keys[1].pubkey).toEqual(mint.address);
+    });
+
+    it('should resolve the accounts of a transfer hook', async () => {
+      const hookProgram = Keypair.generate().publicKey;
+      const mint = await service.getMint(addMint(mintData(6, [transferHook(hookProgram)])));
+
+      const instruction = await service.createTransferInstruction(mint, source, destination, owner, 1000);
+
+      expect(instruction.data[0]).toBe(TokenInstruction.TransferChecked);
+      expect(mockGetAccountInfo).toHaveBeenCalledWith(getExtraAccountMetaAddress(mint.address, hookProgram), 'confirmed');
+    });
+  });
+
+  describe('createCloseInstructions', () => {
+    const account = Keypair.generate().publicKey;
+    const owner = Keypair.generate().publicKey;
+
+    it('should harvest withheld fees to the mint before closing', async () => {
+      const mint = await service.getMint(addMint(mintData(6, [transferFee(100, BigInt(5))])));
+
+      const [harvest, close] = service.createCloseInstructions(mint, account, owner, owner);
+
+      expect(harvest.data[0]).toBe(TokenInstruction.TransferFeeExtension);
+      expect(harvest.keys.map((key) => key.pubkey)).toEqual([mint.address, account]);
+      expect(close.data[0]).toBe(TokenInstruction.CloseAccount);
+      expect(close.programId).toEqual(TOKEN_2022_PROGRAM_ID);
+    });
+
+    it('should only close accounts of mints without fees', async () => {
+      const mint = await service.getMint(addMint(mintData(6), TOKEN_PROGRAM_ID));
+
+      const instructions = service.createCloseInstructions(mint, account, owner, owner);
+
+      expect(instructions).toHaveLength(1);
+      expect(instructions[0].programId).toEqual(TOKEN_PROGRAM_ID);
+    });
+  });
+
+  describe('getAccountRent', () => {
+    it('should price the account size of the mint', async () => {
+      const mint = await service.getMint(addMint(mintData(6), TOKEN_PROGRAM_ID));
+
+      expect(await service.getAccountRent(mint)).toBe(ACCOUNT_SIZE * 10);
+    });
+  });
+});
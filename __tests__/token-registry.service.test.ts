@@ -0,0 +1,273 @@
+// __tests__/token-registry.service.test.ts
+// Tests for token resolution: symbols, aliases, mint addresses, metadata and the tokens.json cache
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { MINT_SIZE, MintLayout, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { TokenRegistryService, getBuiltinMint, isMintAddress } from '../src/services/token-registry.service';
+import { DCASchedule } from '../src/types/index';
+
+const METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+const mintData = (decimals: number) => {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: BigInt(0),
+      decimals,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    data
+  );
+  return data;
+};
+
+/** Metaplex metadata account: key, update authority, mint, then NUL-padded name and symbol */
+const metadataData = (mint: PublicKey, name: string, symbol: string) => {
+  const borsh = (value: string, size: number) => {
+    const bytes = Buffer.alloc(4 + size);
+    bytes.writeUInt32LE(size, 0);
+    Buffer.from(value).copy(bytes, 4);
+    return bytes;
+  };
+  return Buffer.concat([Buffer.from([4]), PublicKey.default.toBuffer(), mint.toBuffer(), borsh(name, 32), borsh(symbol, 10)]);
+};
+
+const metadataAddress = (mint: PublicKey) =>
+  PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    METADATA_PROGRAM_ID
+  )[0];
+
+describe('TokenRegistryService', () => {
+  const USDC = getBuiltinMint('USDC')!;
+  const mockGetAccountInfo = jest.fn();
+  let accounts: Map<string, { data: Buffer; owner: PublicKey }>;
+  let dataDir: string;
+  let registry: TokenRegistryService;
+
+  const addMint = (decimals: number, metadata?: { name: string; symbol: string }) => {
+    const mint = Keypair.generate().publicKey;
+    accounts.set(mint.toBase58(), { data: mintData(decimals), owner: TOKEN_PROGRAM_ID });
+    if (metadata) {
+      accounts.set(metadataAddress(mint).toBase58(), {
+        data: metadataData(mint, metadata.name, metadata.symbol),
+        owner: METADATA_PROGRAM_ID,
+      });
+    }
+    return mint.toBase58();
+  };
+
+  const stored = () => JSON.parse(fs.readFileSync(path.join(dataDir, 'tokens.json'), 'utf-8'));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-dca-tokens-'));
+    accounts = new Map([[USDC, { data: mintData(6), owner: TOKEN_PROGRAM_ID }]]);
+    mockGetAccountInfo.mockImplementation(async (address: PublicKey) => {
+      const account = accounts.get(address.toBase58());
+      return account ? { ...account, lamports: 1_461_600, executable: false } : null;
+    });
+    registry = new TokenRegistryService({ getAccountInfo: mockGetAccountInfo } as unknown as Connection, dataDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('resolve', () => {
+    it('should resolve built-in symbols with the decimals of the mint account', async () => {
+      const token = await registry.resolve('usdc');
+
+      expect(token).toEqual({
+        mint: USDC,
+        symbol: 'USDC',
+        name: 'USD Coin',
+        decimals: 6,
+        programId: TOKEN_PROGRAM_ID.toBase58(),
+      });
+      expect(stored()[USDC].decimals).toBe(6);
+    });
+
+    it('should serve cached tokens without RPC calls', async () => {
+      await registry.resolve('USDC');
+      mockGetAccountInfo.mockClear();
+
+      const cached = new TokenRegistryService(undefined, dataDir);
+
+      expect((await cached.resolve(USDC)).decimals).toBe(6);
+      expect(mockGetAccountInfo).not.toHaveBeenCalled();
+    });
+
+    it('should resolve any mint address, named by its Metaplex metadata', async () => {
+      const mint = addMint(8, { name: 'Some Token', symbol: 'SOME' });
+
+      const token = await registry.resolve(mint);
+
+      expect(token).toMatchObject({ mint, symbol: 'SOME', name: 'Some Token', decimals: 8 });
+      // Metadata symbols name the mint but don't resolve to it
+      await expect(registry.resolve('SOME')).rejects.toThrow('Unknown token SOME');
+    });
+
+    it('should shorten the mint address of tokens without metadata', async () => {
+      const mint = addMint(0);
+
+      expect((await registry.resolve(mint)).symbol).toBe(`${mint.slice(0, 4)}...${mint.slice(-4)}`);
+    });
+
+    it('should not let metadata claim the symbol of another mint', async () => {
+      const mint = addMint(6, { name: 'Fake USD', symbol: 'USDC' });
+
+      expect((await registry.resolve(mint)).symbol).not.toBe('USDC');
+    });
+
+    it('should suggest an alias for unknown symbols', async () => {
+      await expect(registry.resolve('nope')).rejects.toThrow(
+        'Unknown token nope. Use a mint address, or add an alias: private-dca token add <mint> --symbol NOPE'
+      );
+    });
+
+    it('should reject mints that do not exist', async () => {
+      const missing = Keypair.generate().publicKey.toBase58();
+
+      await expect(registry.resolve(missing)).rejects.toThrow(`Mint ${missing} not found`);
+    });
+  });
+
+  describe('add', () => {
+    it('should make an alias resolve to its mint', async () => {
+      const mint = addMint(9);
+
+      await registry.add(mint, 'mytok');
+
+      expect(await registry.resolve('MYTOK')).toMatchObject({ mint, symbol: 'MYTOK', decimals: 9 });
+      expect(registry.getSymbol(mint)).toBe('MYTOK');
+    });
+
+    it('should keep an alias when the mint is refreshed', async () => {
+      const mint = addMint(9, { name: 'Some Token', symbol: 'SOME' });
+      await registry.add(mint, 'MINE');
+
+      expect((await registry.resolve(mint, true)).symbol).toBe('MINE');
+    });
+
+    it('should reject symbols naming another mint', async () => {
+      const mint = addMint(9);
+      const other = addMint(9);
+      await registry.add(other, 'TAKEN');
+
+      await expect(registry.add(mint, 'usdc')).rejects.toThrow(`USDC already refers to ${USDC}`);
+      await expect(registry.add(mint, 'TAKEN')).rejects.toThrow(`TAKEN already refers to ${other}`);
+      await expect(registry.add(mint, 'bad symbol')).rejects.toThrow('Invalid symbol');
+    });
+
+    it('should reject invalid mint addresses', async () => {
+      await expect(registry.add('not-a-mint', 'X')).rejects.toThrow('Invalid mint address: not-a-mint');
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove aliases, but not built-in tokens', async () => {
+      const mint = addMint(9);
+      await registry.add(mint, 'GONE');
+      await registry.resolve('USDC');
+
+      expect(registry.remove('gone')).toBe(true);
+      await expect(registry.resolve('GONE')).rejects.toThrow('Unknown token GONE');
+      expect(() => registry.remove('USDC')).toThrow("USDC is a built-in token and can't be removed");
+      expect(registry.remove('GONE')).toBe(false);
+    });
+  });
+
+  describe('list', () => {
+    it('should list built-ins, aliases and resolved mints', async () => {
+      const aliased = addMint(9);
+      const resolved = addMint(4);
+      await registry.add(aliased, 'ALIASED');
+      await registry.resolve(resolved);
+      await registry.resolve('USDC');
+
+      const listed = registry.list();
+
+      expect(listed.find((token) => token.symbol === 'USDC')).toMatchObject({ source: 'builtin', decimals: 6 });
+      expect(listed.find((token) => token.symbol === 'SOL')).toMatchObject({ source: 'builtin', unresolved: true });
+      expect(listed.find((token) => token.mint === aliased)).toMatchObject({ source: 'alias', symbol: 'ALIASED' });
+      expect(listed.find((token) => token.mint === resolved)).toMatchObject({ source: 'resolved', decimals: 4 });
+    });
+  });
+
+  describe('getSymbol', () => {
+    it('should name mints offline', () => {
+      const unknown = Keypair.generate().publicKey.toBase58();
+
+      expect(registry.getSymbol(USDC)).toBe('USDC');
+      expect(registry.getSymbol(unknown)).toBe(`${unknown.slice(0, 4)}...${unknown.slice(-4)}`);
+      // Older records store symbols
+      expect(registry.getSymbol('JUP')).toBe('JUP');
+    });
+  });
+
+  describe('resolveSchedule', () => {
+    const schedule = (overrides: Partial<DCASchedule>): DCASchedule => ({
+      id: 'schedule-1',
+      fromToken: 'USDC',
+      toToken: 'SOME',
+      amountPerExecution: '10',
+      frequency: 'daily',
+      isPrivate: false,
+      screenAddresses: false,
+      slippageBps: 50,
+      executedCount: 0,
+      createdAt: new Date().toISOString(),
+      active: true,
+      ...overrides,
+    });
+
+    it('should resolve the schedule\'s mints from chain', async () => {
+      const mint = addMint(8, { name: 'Some Token', symbol: 'SOME' });
+
+      const { input, output } = await registry.resolveSchedule(schedule({ fromMint: USDC, toMint: mint }));
+
+      expect(input.mint).toBe(USDC);
+      expect(output).toMatchObject({ mint, decimals: 8 });
+    });
+
+    it('should fail when a mint no longer resolves, even if it is cached', async () => {
+      const mint = addMint(8);
+      await registry.resolve(mint);
+      accounts.delete(mint);
+      const later = new TokenRegistryService({ getAccountInfo: mockGetAccountInfo } as unknown as Connection, dataDir);
+
+      await expect(later.resolveSchedule(schedule({ fromMint: USDC, toMint: mint }))).rejects.toThrow(
+        `Schedule schedule-1: token ${mint} no longer resolves: Mint ${mint} not found`
+      );
+    });
+  });
+
+  describe('resolveBasket', () => {
+    it('should resolve each target and reject the same mint twice', async () => {
+      const mint = addMint(8, { name: 'Some Token', symbol: 'SOME' });
+
+      expect(await registry.resolveBasket([{ token: 'usdc', weight: 50 }, { token: mint, weight: 50 }])).toEqual([
+        { token: 'USDC', mint: USDC, weight: 50 },
+        { token: 'SOME', mint, weight: 50 },
+      ]);
+      await expect(registry.resolveBasket([{ token: 'USDC', weight: 50 }, { token: USDC, weight: 50 }])).rejects.toThrow(
+        `${USDC} and USDC are the same token`
+      );
+    });
+  });
+
+  describe('isMintAddress', () => {
+    it('should tell mint addresses from symbols', () => {
+      expect(isMintAddress(USDC)).toBe(true);
+      expect(isMintAddress('USDC')).toBe(false);
+      expect(isMintAddress('0OIl0OIl0OIl0OIl0OIl0OIl0OIl0OIl')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+// __tests__/wallet-pool.service.test.ts
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Connection, Keypair } from '@solana/web3.js';
+import { WalletPoolService } from '../src/services/wallet-pool.service';
+import { EphemeralService } from '../src/services/ephemeral.service';
+import { PoolKeystore } from '../src/services/pool-keystore.service';
+import { SchedulerService } from '../src/services/scheduler.service';
+import { DCASchedule } from '../src/types/index';
+import { KeypairSigner } from '../src/utils/signer';
+
+describe('WalletPoolService', () => {
+  const owner = new KeypairSigner(Keypair.generate());
+  const mockGetBalance = jest.fn();
+  const connection = { rpcEndpoint: 'http://localhost', getBalance: mockGetBalance } as unknown as Connection;
+
+  let dataDir: string;
+  let poolFile: string;
+  let scheduler: SchedulerService;
+  let pool: WalletPoolService;
+  let closeSpy: jest.SpyInstance;
+
+  const schedule = (overrides: Partial<DCASchedule> = {}): DCASchedule => ({
+    id: 'schedule-1',
+    fromToken: 'USDC',
+    toToken: 'SOL',
+    amountPerExecution: '10',
+    frequency: 'daily',
+    isPrivate: false,
+    useEphemeral: true,
+    usePooledWallet: true,
+    screenAddresses: false,
+    slippageBps: 50,
+    executedCount: 0,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    active: true,
+    ...overrides,
+  });
+
+  const saved = (): DCASchedule => scheduler.loadSchedules()[0];
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'private-dca-pool-'));
+    poolFile = path.join(dataDir, 'wallet-pool.json');
+    scheduler = new SchedulerService(dataDir);
+    pool = new WalletPoolService(connection, owner, scheduler, poolFile);
+    mockGetBalance.mockReset().mockResolvedValue(0);
+    closeSpy = jest
+      .spyOn(EphemeralService.prototype, 'closePooledWallet')
+      .mockResolvedValue({ tokens: [], closedAccounts: 2, solSignature: 'close-signature' });
+  });
+
+  afterEach(() => {
+    closeSpy.mockRestore();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('acquire', () => {
+    it('should persist a new pooled wallet and reuse it on the next execution', async () => {
+      scheduler.saveSchedulesToFile([schedule()]);
+
+      const first = await pool.acquire(schedule());
+      expect(saved().ephemeralWalletAddress).toBe(first.publicKey.toBase58());
+      expect(saved().ephemeralWalletUses).toBe(0);
+      expect(new PoolKeystore(owner, poolFile).list()).toHaveLength(1);
+
+      const second = await pool.acquire(schedule());
+      expect(second.publicKey.equals(first.publicKey)).toBe(true);
+      expect(Buffer.from(second.secretKey)).toEqual(Buffer.from(first.secretKey));
+    });
+
+    it('should close the old wallet and start a new one when rotation is due', async () => {
+      scheduler.saveSchedulesToFile([schedule({ poolMaxUses: 2 })]);
+      const first = await pool.acquire(schedule());
+      scheduler.recordPooledWalletUse('schedule-1');
+      scheduler.recordPooledWalletUse('schedule-1');
+
+      const second = await pool.acquire(schedule());
+
+      expect(closeSpy).toHaveBeenCalledWith(expect.any(Keypair), owner);
+      expect(second.publicKey.equals(first.publicKey)).toBe(false);
+      expect(new PoolKeystore(owner, poolFile).list().map((e) => e.publicKey)).toEqual([
+        second.publicKey.toBase58(),
+      ]);
+    });
+
+    it('should replace a recorded address whose key is not in the keystore', async () => {
+      scheduler.saveSchedulesToFile([schedule({ ephemeralWalletAddress: 'pool_schedule_1700000000000' })]);
+
+      const wallet = await pool.acquire(saved());
+
+      expect(saved().ephemeralWalletAddress).toBe(wallet.publicKey.toBase58());
+    });
+  });
+
+  describe('afterExecution', () => {
+    it('should count uses and close the wallet on the final execution', async () => {
+      scheduler.saveSchedulesToFile([schedule({ totalExecutions: 1 })]);
+      await pool.acquire(schedule());
+
+      await pool.afterExecution(schedule({ totalExecutions: 1 }));
+
+      expect(closeSpy).toHaveBeenCalledTimes(1);
+      expect(saved().ephemeralWalletAddress).toBeUndefined();
+      expect(new PoolKeystore(owner, poolFile).list()).toEqual([]);
+    });
+
+    it('should close the wallet after the last sale of a sell-down', async () => {
+      scheduler.saveSchedulesToFile([schedule()]);
+      await pool.acquire(schedule());
+
+      await pool.afterExecution(schedule(), true);
+
+      expect(closeSpy).toHaveBeenCalledTimes(1);
+      expect(saved().ephemeralWalletAddress).toBeUndefined();
+    });
+
+    it('should keep the wallet while executions remain', async () => {
+      scheduler.saveSchedulesToFile([schedule({ totalExecutions: 5 })]);
+      await pool.acquire(schedule());
+
+      await pool.afterExecution(schedule({ totalExecutions: 5 }));
+
+      expect(closeSpy).not.toHaveBeenCalled();
+      expect(saved().ephemeralWalletUses).toBe(1);
+    });
+  });
+
+  describe('release', () => {
+    it('should keep the key when SOL is still left after closing', async () => {
+      scheduler.saveSchedulesToFile([schedule()]);
+      const wallet = await pool.acquire(schedule());
+      mockGetBalance.mockResolvedValue(5_000_000);
+
+      await expect(pool.release(schedule())).rejects.toThrow('its key was kept');
+
+      expect(await new PoolKeystore(owner, poolFile).get(wallet.publicKey.toBase58())).not.toBeNull();
+      expect(saved().ephemeralWalletAddress).toBe(wallet.publicKey.toBase58());
+    });
+
+    it('should do nothing without a pooled wallet', async () => {
+      expect(await pool.release(schedule())).toBeNull();
+      expect(closeSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isRotationDue', () => {
+    const now = new Date('2026-03-10T00:00:00.000Z');
+
+    it('should rotate after max uses or max age', () => {
+      const pooled = { ephemeralWalletAddress: 'addr', ephemeralWalletCreatedAt: '2026-03-09T00:00:00.000Z' };
+
+      expect(WalletPoolService.isRotationDue(schedule({ ...pooled, ephemeralWalletUses: 9 }), now)).toBe(false);
+      expect(WalletPoolService.isRotationDue(schedule({ ...pooled, ephemeralWalletUses: 10 }), now)).toBe(true);
+      expect(WalletPoolService.isRotationDue(schedule({ ...pooled, poolMaxAgeDays: 1 }), now)).toBe(true);
+      expect(WalletPoolService.isRotationDue(schedule(), now)).toBe(false);
+    });
+  });
+
+  describe('validateRotation', () => {
+    it('should reject non-positive limits', () => {
+      expect(() => WalletPoolService.validateRotation(0)).toThrow('positive integer');
+      expect(() => WalletPoolService.validateRotation(2.5)).toThrow('positive integer');
+      expect(() => WalletPoolService.validateRotation(undefined, -1)).toThrow('positive number of days');
+      expect(() => WalletPoolService.validateRotation(5, 0.5)).not.toThrow();
+    });
+  });
+});
@@ -4,6 +4,7 @@ import { Keypair } from '@solana/web3.js';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import { PassThrough } from 'stream';
 
 // Must mock fs before importing the module under test
 jest.mock('fs');
@@ -13,9 +14,18 @@ import {
   loadKeypair,
   loadConfig,
   saveConfig,
+  loadConfigFile,
+  setProfileOverride,
+  getSelectedProfile,
   ensureConfigDir,
+  getWalletPublicKey,
+  isEncryptedWallet,
   WalletConfig,
+  PASSPHRASE_ENV,
+  sendUnlockedWallets,
+  receiveUnlockedWallets,
 } from '../src/utils/wallet';
+import { encryptKeystore } from '../src/utils/keystore';
 
 const mockFs = fs as jest.Mocked<typeof fs>;
 
@@ -94,6 +104,78 @@ describe('Wallet Utilities', () => {
     });
   });
 
+  // ─── encrypted keystores ──────────────────────────────────────────────
+
+  describe('encrypted keystores', () => {
+    const keypair = Keypair.generate();
+    // Cheap scrypt parameters keep the tests fast
+    const keystore = encryptKeystore(keypair, 'correct horse', { n: 2 ** 10, r: 8, p: 1 });
+
+    beforeEach(() => {
+      delete process.env[PASSPHRASE_ENV];
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(keystore));
+    });
+
+    afterAll(() => {
+      delete process.env[PASSPHRASE_ENV];
+    });
+
+    it('should unlock with an explicit passphrase', () => {
+      const loaded = loadKeypair('/keys/wallet.keystore.json', 'correct horse');
+
+      expect(loaded.publicKey.toBase58()).toBe(keypair.publicKey.toBase58());
+    });
+
+    it('should unlock with PRIVATE_DCA_PASSPHRASE for unattended runs', () => {
+      process.env[PASSPHRASE_ENV] = 'correct horse';
+
+      expect(loadKeypair('/keys/wallet.keystore.json').publicKey.equals(keypair.publicKey)).toBe(true);
+    });
+
+    it('should explain how to unlock when no passphrase is available', () => {
+      expect(() => loadKeypair('/keys/wallet.keystore.json')).toThrow(`Set ${PASSPHRASE_ENV}`);
+    });
+
+    it('should reject a wrong passphrase', () => {
+      expect(() => loadKeypair('/keys/wallet.keystore.json', 'battery staple')).toThrow('Incorrect passphrase');
+    });
+
+    it('should read the public key without unlocking', () => {
+      expect(getWalletPublicKey('/keys/wallet.keystore.json').toBase58()).toBe(keypair.publicKey.toBase58());
+      expect(isEncryptedWallet('/keys/wallet.keystore.json')).toBe(true);
+    });
+
+    it('should still treat Solana CLI arrays as plaintext wallets', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(Array.from(keypair.secretKey)));
+
+      expect(isEncryptedWallet('/keys/id.json')).toBe(false);
+      expect(getWalletPublicKey('/keys/id.json').equals(keypair.publicKey)).toBe(true);
+    });
+
+    // Last: received passphrases stay unlocked for the rest of the process
+    it('should hand unlocked wallets to a child over a pipe that is closed after reading', async () => {
+      const pipe = new PassThrough();
+      pipe.end(JSON.stringify({ '/keys/wallet.keystore.json': 'correct horse' }));
+
+      await receiveUnlockedWallets(pipe);
+
+      expect(pipe.destroyed).toBe(true);
+      expect(loadKeypair('/keys/wallet.keystore.json').publicKey.equals(keypair.publicKey)).toBe(true);
+
+      const out = new PassThrough();
+      sendUnlockedWallets(out);
+      expect(JSON.parse(out.read().toString())).toEqual({ '/keys/wallet.keystore.json': 'correct horse' });
+    });
+
+    it('should reject a pipe that does not carry the unlocked wallets', async () => {
+      const pipe = new PassThrough();
+      pipe.end('');
+
+      await expect(receiveUnlockedWallets(pipe)).rejects.toThrow('Unlocked wallets were not received');
+    });
+  });
+
   // ─── ensureConfigDir ──────────────────────────────────────────────────
 
   describe('ensureConfigDir', () => {
@@ -176,7 +258,10 @@ describe('Wallet Utilities', () => {
 
   describe('saveConfig', () => {
     it('should write config to file as formatted JSON', () => {
-      mockFs.existsSync.mockReturnValue(true); // dir exists
+      mockFs.existsSync
+        .mockReturnValueOnce(true)   // config dir exists
+        .mockReturnValueOnce(false)  // no config file yet
+        .mockReturnValue(true);
 
       const config: WalletConfig = {
         walletPath: '~/.config/solana/id.json',
@@ -189,7 +274,7 @@ describe('Wallet Utilities', () => {
 
       expect(mockFs.writeFileSync).toHaveBeenCalledWith(
         CONFIG_FILE,
-        JSON.stringify(config, null, 2)
+        JSON.stringify({ activeProfile: 'default', profiles: { default: config } }, null, 2)
       );
     });
 
@@ -209,7 +294,7 @@ describe('Wallet Utilities', () => {
     });
 
     it('should persist all config fields including optional ones', () => {
-      mockFs.existsSync.mockReturnValue(true);
+      mockFs.existsSync.mockReturnValueOnce(true).mockReturnValueOnce(false).mockReturnValue(true);
 
       const config: WalletConfig = {
         walletPath: '~/wallet.json',
@@ -221,7 +306,7 @@ describe('Wallet Utilities', () => {
       saveConfig(config);
 
       const writtenData = (mockFs.writeFileSync as jest.Mock).mock.calls[0][1];
-      const parsed = JSON.parse(writtenData);
+      const parsed = JSON.parse(writtenData).profiles.default;
 
       expect(parsed.walletPath).toBe('~/wallet.json');
       expect(parsed.rpcUrl).toBe('https://rpc.example.com');
@@ -229,4 +314,62 @@ describe('Wallet Utilities', () => {
       expect(parsed.rangeApiKey).toBe('my-api-key');
     });
   });
+
+  // ─── profiles ─────────────────────────────────────────────────────────
+
+  describe('profiles', () => {
+    const personal: WalletConfig = {
+      walletPath: '~/personal.json',
+      rpcUrl: 'https://api.devnet.solana.com',
+      network: 'devnet',
+    };
+    const treasury: WalletConfig = {
+      walletPath: '',
+      signerUrl: 'https://signer.internal',
+      rpcUrl: 'https://api.mainnet-beta.solana.com',
+      network: 'mainnet-beta',
+    };
+
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({ activeProfile: 'personal', profiles: { personal, treasury } })
+      );
+    });
+
+    afterEach(() => {
+      setProfileOverride(undefined);
+    });
+
+    it('should read a pre-profiles config as the default profile', () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(personal));
+
+      expect(loadConfigFile()).toEqual({ activeProfile: 'default', profiles: { default: personal } });
+      expect(getSelectedProfile()).toBe('default');
+    });
+
+    it('should load the active profile by default', () => {
+      expect(getSelectedProfile()).toBe('personal');
+      expect(loadConfig()).toEqual(personal);
+      expect(loadConfig('treasury')).toEqual(treasury);
+      expect(loadConfig('missing')).toBeNull();
+    });
+
+    it('should let --profile override the active profile', () => {
+      setProfileOverride('treasury');
+
+      expect(getSelectedProfile()).toBe('treasury');
+      expect(loadConfig()).toEqual(treasury);
+    });
+
+    it('should save into the selected profile and keep the others', () => {
+      setProfileOverride('treasury');
+      saveConfig({ ...treasury, rangeApiKey: 'key' });
+
+      const written = JSON.parse((mockFs.writeFileSync as jest.Mock).mock.calls[0][1]);
+      expect(written.activeProfile).toBe('personal');
+      expect(written.profiles.personal).toEqual(personal);
+      expect(written.profiles.treasury.rangeApiKey).toBe('key');
+    });
+  });
 });
@@ -3,7 +3,14 @@
 import { Command } from 'commander';
 import { configCommand } from './commands/config';
 import { dcaCommand } from './commands/dca';
+import { daemonCommand } from './commands/daemon';
+import { exportCommand } from './commands/export';
+import { rebalanceCommand } from './commands/rebalance';
+import { recoverCommand } from './commands/recover';
 import { swapCommand } from './commands/swap';
+import { tokenCommand } from './commands/token';
+import { walletCommand } from './commands/wallet';
+import { setProfileOverride } from './utils/wallet';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -13,11 +20,22 @@ const program = new Command();
 program
   .name('private-dca')
   .description('Private DCA toolkit for Solana with Arcium confidential transfers')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--profile <name>', 'Config profile to use instead of the active one');
+
+program.hook('preAction', () => {
+  setProfileOverride(program.opts().profile);
+});
 
 // Register commands
 program.addCommand(configCommand);
 program.addCommand(dcaCommand);
+program.addCommand(daemonCommand);
+program.addCommand(exportCommand);
+program.addCommand(rebalanceCommand);
+program.addCommand(recoverCommand);
 program.addCommand(swapCommand);
+program.addCommand(tokenCommand);
+program.addCommand(walletCommand);
 
 program.parse();
@@ -1,5 +1,20 @@
 import { Command } from 'commander';
-import { loadConfig, saveConfig, loadKeypair, getConnection, getBalance } from '../utils/wallet';
+import {
+  loadConfig,
+  saveConfig,
+  getWalletPublicKey,
+  isEncryptedWallet,
+  getConnection,
+  getBalance,
+  loadConfigFile,
+  saveConfigFile,
+  getSelectedProfile,
+  SIGNER_TOKEN_ENV,
+  DEFAULT_PROFILE,
+  WalletConfig,
+} from '../utils/wallet';
+import { RemoteSigner } from '../utils/signer';
+import { SchedulerService } from '../services/scheduler.service';
 import { logger } from '../utils/logger';
 import ora from 'ora';
 
@@ -11,22 +26,50 @@ configCommand
   .description('Set the wallet keypair path')
   .action((walletPath: string) => {
     try {
-      // Verify wallet can be loaded
-      const keypair = loadKeypair(walletPath);
+      // Verify wallet can be loaded (keystores are identified without unlocking)
+      const publicKey = getWalletPublicKey(walletPath);
       const config = loadConfig() || {
         walletPath: '',
         rpcUrl: 'https://api.devnet.solana.com',
         network: 'devnet' as const,
       };
       config.walletPath = walletPath;
+      delete config.signerUrl; // The file wallet replaces any remote signer
       saveConfig(config);
       logger.success(`Wallet set to: ${walletPath}`);
-      logger.keyValue('Public Key', keypair.publicKey.toBase58());
+      logger.keyValue('Public Key', publicKey.toBase58());
+      if (!isEncryptedWallet(walletPath)) {
+        logger.warning('This is a plaintext keypair. Encrypt it with: private-dca wallet import <path>');
+      }
     } catch (error: any) {
       logger.error(`Failed to set wallet: ${error.message}`);
     }
   });
 
+configCommand
+  .command('set-signer <url>')
+  .description('Sign through a remote signer service instead of a wallet file')
+  .action(async (signerUrl: string) => {
+    const spinner = ora('Contacting signer...').start();
+    try {
+      // Verify the signer answers before switching to it
+      const signer = await RemoteSigner.connect(signerUrl, process.env[SIGNER_TOKEN_ENV]);
+      spinner.stop();
+      const config = loadConfig() || {
+        walletPath: '',
+        rpcUrl: 'https://api.devnet.solana.com',
+        network: 'devnet' as const,
+      };
+      config.signerUrl = signerUrl;
+      saveConfig(config);
+      logger.success(`Signer set to: ${signerUrl}`);
+      logger.keyValue('Public Key', signer.publicKey.toBase58());
+      logger.info('Switch back to a wallet file with: private-dca config set-wallet <path>');
+    } catch (error: any) {
+      spinner.fail(`Failed to set signer: ${error.message}`);
+    }
+  });
+
 configCommand
   .command('set-rpc <url>')
   .description('Set the Solana RPC URL')
@@ -93,24 +136,31 @@ configCommand
     };
 
     logger.header('Private DCA Configuration');
+    logger.keyValue('Profile', getSelectedProfile());
     // Normalize wallet path for display (replace home dir with ~)
     const displayWalletPath = config.walletPath
       ? config.walletPath.replace(process.env.HOME || '', '~')
       : 'Not set';
-    logger.keyValue('Wallet Path', displayWalletPath);
+    if (config.signerUrl) {
+      logger.keyValue('Signer', config.signerUrl);
+    } else {
+      logger.keyValue('Wallet Path', displayWalletPath);
+    }
     logger.keyValue('RPC URL', maskRpcUrl(config.rpcUrl) || 'Not set');
     logger.keyValue('Network', config.network || 'Not set');
     logger.keyValue('Range API', config.rangeApiKey ? '✓ Configured' : '✗ Not configured');
 
     // Show wallet balance if configured
-    if (config.walletPath && config.rpcUrl) {
+    if ((config.walletPath || config.signerUrl) && config.rpcUrl) {
       const spinner = ora('Fetching balance...').start();
       try {
-        const keypair = loadKeypair(config.walletPath);
+        const publicKey = config.signerUrl
+          ? (await RemoteSigner.connect(config.signerUrl, process.env[SIGNER_TOKEN_ENV])).publicKey
+          : getWalletPublicKey(config.walletPath);
         const connection = getConnection(config.rpcUrl);
-        const balance = await getBalance(connection, keypair);
+        const balance = await getBalance(connection, publicKey);
         spinner.stop();
-        const pubkey = keypair.publicKey.toBase58();
+        const pubkey = publicKey.toBase58();
         logger.keyValue('Public Key', `${pubkey.slice(0, 4)}...${pubkey.slice(-4)}`);
         logger.keyValue('SOL Balance', `${balance.toFixed(4)} SOL`);
       } catch (error: any) {
@@ -118,3 +168,108 @@ configCommand
       }
     }
   });
+
+// Named profiles (e.g. treasury, personal, devnet), each with its own wallet and RPC
+const profileCommand = configCommand
+  .command('profile')
+  .description('Manage named profiles (select one per command with --profile <name>)');
+
+profileCommand
+  .command('add <name>')
+  .description('Add a profile')
+  .option('--wallet <path>', 'Wallet keypair or keystore path')
+  .option('--rpc <url>', 'Solana RPC URL', 'https://api.devnet.solana.com')
+  .option('--use', 'Make it the active profile', false)
+  .action((name: string, options) => {
+    if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+      logger.error('Profile names may only contain letters, digits, - and _');
+      return;
+    }
+
+    const file = loadConfigFile() ?? { activeProfile: name, profiles: {} };
+    if (file.profiles[name]) {
+      logger.error(`Profile already exists: ${name}`);
+      return;
+    }
+
+    try {
+      if (options.wallet) getWalletPublicKey(options.wallet); // Fail early on a bad path
+    } catch (error: any) {
+      logger.error(`Failed to add profile: ${error.message}`);
+      return;
+    }
+
+    const profile: WalletConfig = {
+      walletPath: options.wallet ?? '',
+      rpcUrl: options.rpc,
+      network: options.rpc.includes('mainnet') ? 'mainnet-beta' : 'devnet',
+    };
+    file.profiles[name] = profile;
+    if (options.use) file.activeProfile = name;
+    saveConfigFile(file);
+
+    logger.success(`Profile added: ${name}`);
+    logger.keyValue('Network', profile.network);
+    if (!options.wallet) {
+      logger.info(`Set its wallet with: private-dca --profile ${name} config set-wallet <path>`);
+    }
+  });
+
+profileCommand
+  .command('use <name>')
+  .description('Make a profile the active one')
+  .action((name: string) => {
+    const file = loadConfigFile();
+    if (!file?.profiles[name]) {
+      logger.error(`Profile not found: ${name}`);
+      return;
+    }
+    file.activeProfile = name;
+    saveConfigFile(file);
+    logger.success(`Active profile: ${name}`);
+  });
+
+profileCommand
+  .command('list')
+  .description('List profiles')
+  .action(() => {
+    const file = loadConfigFile();
+    if (!file || Object.keys(file.profiles).length === 0) {
+      logger.info('No profiles yet. Run `private-dca config set-wallet` or `private-dca config profile add`.');
+      return;
+    }
+
+    const schedules = new SchedulerService().loadSchedules();
+    const rows = Object.entries(file.profiles).map(([name, profile]) => [
+      name === file.activeProfile ? `* ${name}` : `  ${name}`,
+      profile.signerUrl ? `signer ${profile.signerUrl}` : profile.walletPath.replace(process.env.HOME || '', '~') || 'Not set',
+      profile.network,
+      schedules.filter((s) => (s.profile ?? DEFAULT_PROFILE) === name).length,
+    ]);
+    logger.table(['Profile', 'Wallet', 'Network', 'Schedules'], rows, { colWidths: [16, 40, 14, 11] });
+  });
+
+profileCommand
+  .command('remove <name>')
+  .description('Remove a profile (not the active one, nor one that schedules still use)')
+  .action((name: string) => {
+    const file = loadConfigFile();
+    if (!file?.profiles[name]) {
+      logger.error(`Profile not found: ${name}`);
+      return;
+    }
+    if (name === file.activeProfile) {
+      logger.error('Cannot remove the active profile. Switch first: private-dca config profile use <name>');
+      return;
+    }
+
+    const used = new SchedulerService().loadSchedules().filter((s) => (s.profile ?? DEFAULT_PROFILE) === name);
+    if (used.length > 0) {
+      logger.error(`${used.length} schedule(s) still run with this profile. Cancel them first.`);
+      return;
+    }
+
+    delete file.profiles[name];
+    saveConfigFile(file);
+    logger.success(`Profile removed: ${name}`);
+  });
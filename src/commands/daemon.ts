@@ -0,0 +1,425 @@
+import { Command, Option } from 'commander';
+import { Connection } from '@solana/web3.js';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  loadConfig,
+  loadSigner,
+  hasWalletConfig,
+  sendUnlockedWallets,
+  receiveUnlockedWallets,
+  getSelectedProfile,
+  DEFAULT_PROFILE,
+  getConnection,
+  PASSPHRASE_ENV,
+  WalletConfig,
+} from '../utils/wallet';
+import { logger } from '../utils/logger';
+import { SchedulerService } from '../services/scheduler.service';
+import { DaemonService } from '../services/daemon.service';
+import {
+  SwapExecutorService,
+  getPriceGuard,
+  getLowBalanceWarning,
+  describeEphemeralFunding,
+  SwapExecutionResult,
+  SwapProgressEvent,
+} from '../services/swap-executor.service';
+import { ExecutionStateService, ExecutionState } from '../services/execution-state.service';
+import { StrategyService, describeDecision } from '../services/strategy.service';
+import { WalletPoolService } from '../services/wallet-pool.service';
+import { TokenRegistryService } from '../services/token-registry.service';
+import { RebalanceService } from '../services/rebalance.service';
+import { Signer } from '../utils/signer';
+import { isPositiveAmount } from '../utils/amount';
+import { DCASchedule, ExecutionReport, RebalanceRun, RebalanceSettings } from '../types/index';
+
+const DATA_DIR = path.join(os.homedir(), '.private-dca');
+const LOG_FILE = path.join(DATA_DIR, 'daemon.log');
+
+export const daemonCommand = new Command('daemon')
+  .description('Run DCA schedules in the background');
+
+// Start the daemon
+daemonCommand
+  .command('start')
+  .description('Start the scheduler daemon (runs in the foreground unless --detach)')
+  .option('--detach', 'Run in the background, logging to ~/.private-dca/daemon.log', false)
+  .addOption(new Option('--unlocked-wallets-stdin', 'Internal: read the wallets unlocked by `daemon start --detach` from stdin').hideHelp())
+  .action(async (options) => {
+    if (options.unlockedWalletsStdin) {
+      try {
+        await receiveUnlockedWallets(process.stdin);
+      } catch (error: any) {
+        logger.error(error.message);
+        return;
+      }
+    }
+
+    const status = DaemonService.getStatus();
+    if (status.running) {
+      logger.error(`Daemon already running (PID ${status.pid})`);
+      return;
+    }
+
+    // Each schedule runs with its own profile's wallet and RPC
+    const activeSchedules = new SchedulerService().loadSchedules().filter((s) => s.active);
+    const profiles = activeSchedules.length > 0
+      ? [...new Set(activeSchedules.map((s) => s.profile ?? DEFAULT_PROFILE))]
+      : [getSelectedProfile()];
+
+    // Unlock encrypted wallets (or reach remote signers) up front: executions run unattended
+    for (const profile of profiles) {
+      const config = loadConfig(profile);
+      if (!hasWalletConfig(config)) {
+        logger.error(`Profile "${profile}" has no wallet and RPC: private-dca --profile ${profile} config set-wallet <path>`);
+        return;
+      }
+
+      try {
+        await loadSigner(config);
+      } catch (error: any) {
+        logger.error(`Failed to load wallet for profile "${profile}": ${error.message}`);
+        if (!config.signerUrl) logger.info(`For unattended runs, set ${PASSPHRASE_ENV}`);
+        return;
+      }
+    }
+
+    if (options.detach) {
+      fs.mkdirSync(DATA_DIR, { recursive: true });
+      const logFd = fs.openSync(LOG_FILE, 'a');
+      const child = spawn(
+        process.execPath,
+        [...process.execArgv, process.argv[1], 'daemon', 'start', '--unlocked-wallets-stdin'],
+        {
+          detached: true,
+          stdio: ['pipe', logFd, logFd],
+        }
+      );
+      // Passphrases go over a pipe the child closes after reading, never through its environment
+      sendUnlockedWallets(child.stdin!);
+      child.unref();
+      logger.success(`Daemon started in background (PID ${child.pid})`);
+      logger.keyValue('Log File', LOG_FILE.replace(os.homedir(), '~'));
+      return;
+    }
+
+    const scheduler = new SchedulerService();
+    const daemon = new DaemonService(scheduler, executeScheduledDCA);
+
+    try {
+      daemon.start();
+    } catch (error: any) {
+      logger.error(`Failed to start daemon: ${error.message}`);
+      return;
+    }
+
+    logger.header('Private DCA Daemon', `PID ${process.pid}`);
+    logger.keyValue('Active Schedules', scheduler.getSchedules().length.toString());
+    logger.info('Watching schedules file for changes. Press Ctrl+C to stop.');
+
+    let shuttingDown = false;
+    const shutdown = async (signal: string) => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+
+      const pending = daemon.getInFlightCount();
+      log(`${signal} received, shutting down${pending > 0 ? ` after ${pending} in-flight swap(s)` : ''}...`);
+      await daemon.stop();
+      log('Daemon stopped');
+      process.exit(0);
+    };
+
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+    process.on('SIGINT', () => shutdown('SIGINT'));
+  });
+
+// Stop the daemon
+daemonCommand
+  .command('stop')
+  .description('Stop the scheduler daemon (waits for in-flight swaps)')
+  .option('--timeout <seconds>', 'How long to wait for the daemon to exit', '300')
+  .action(async (options) => {
+    const timeout = Number(options.timeout);
+    if (!Number.isInteger(timeout) || timeout < 1) {
+      logger.error('Timeout must be a positive whole number of seconds');
+      return;
+    }
+
+    const status = DaemonService.getStatus();
+    if (!status.running || !status.pid) {
+      logger.warning('Daemon is not running');
+      return;
+    }
+
+    process.kill(status.pid, 'SIGTERM');
+    logger.info(`Sent SIGTERM to daemon (PID ${status.pid}), waiting for in-flight swaps...`);
+
+    const deadline = Date.now() + timeout * 1000;
+    while (Date.now() < deadline) {
+      if (!DaemonService.getStatus().running) {
+        logger.success('Daemon stopped');
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    logger.warning(`Daemon still running after ${timeout}s (PID ${status.pid})`);
+  });
+
+// Daemon status
+daemonCommand
+  .command('status')
+  .description('Show whether the scheduler daemon is running')
+  .action(() => {
+    const status = DaemonService.getStatus();
+
+    logger.header('Private DCA Daemon');
+    if (status.running) {
+      logger.keyValue('Status', 'Running', 'green');
+      logger.keyValue('PID', String(status.pid));
+      if (status.startedAt) {
+        logger.keyValue('Started', new Date(status.startedAt).toLocaleString());
+      }
+    } else {
+      logger.keyValue('Status', 'Stopped', 'yellow');
+      if (status.pid) {
+        logger.keyValue('Stale PID File', `PID ${status.pid} is no longer running`, 'yellow');
+      }
+    }
+
+    const schedules = new SchedulerService().loadSchedules();
+    const active = schedules.filter((s) => s.active).length;
+    logger.keyValue('Active Schedules', `${active}/${schedules.length}`);
+  });
+
+function log(message: string): void {
+  logger.info(`[${new Date().toISOString()}] ${message}`);
+}
+
+function logProgress(event: SwapProgressEvent): void {
+  if (event.status === 'fail' || event.status === 'warn') {
+    log(`  [${event.phase}] ${event.message}`);
+  }
+}
+
+/**
+ * Execute a scheduled DCA without spinners.
+ *
+ * Unlike the interactive `dca execute`, errors are re-thrown so that
+ * SchedulerService records the execution as failed. An interrupted
+ * execution of the schedule is resumed instead of starting a new swap.
+ */
+async function executeScheduledDCA(schedule: DCASchedule, executionId: string): Promise<ExecutionReport> {
+  // Re-read config on every execution so `config set-*` applies without a restart
+  const profile = schedule.profile ?? DEFAULT_PROFILE;
+  const config = loadConfig(profile);
+  if (!hasWalletConfig(config)) {
+    throw new Error(`Wallet and RPC are not configured for profile "${profile}"`);
+  }
+  if (schedule.rebalance) {
+    return executeScheduledRebalance(schedule, schedule.rebalance, config);
+  }
+
+  let label = `${schedule.id.slice(0, 8)} ${schedule.fromToken}→${schedule.toToken}`;
+
+  try {
+    const signer = await loadSigner(config);
+    const connection = getConnection(config.rpcUrl);
+    const executor = new SwapExecutorService(connection);
+
+    // Basket legs share the schedule ID: only resume this leg's swap
+    const interrupted = new ExecutionStateService()
+      .getResumable(signer.publicKey, schedule.id)
+      .find((state) => state.params.toToken === (schedule.toMint ?? schedule.toToken));
+    if (interrupted) {
+      label = `${schedule.id.slice(0, 8)} ${interrupted.params.amount} ${schedule.fromToken}→${schedule.toToken}`;
+      return await resumeScheduledDCA(executor, signer, connection, schedule, interrupted, config.rangeApiKey, label);
+    }
+
+    // A mint that no longer resolves fails the execution before the strategy quotes it
+    await new TokenRegistryService(connection).resolveSchedule(schedule);
+
+    // Strategy picks the amount right before the swap, from fresh quotes
+    const history = new SchedulerService().getExecutions(schedule.id);
+    const decision = await new StrategyService(connection).decide(schedule, history, signer.publicKey);
+    if (!isPositiveAmount(decision.amount)) {
+      log(`Skipped ${label}: ${decision.reason ?? 'strategy chose not to buy'}${decision.depleted ? ' (schedule complete)' : ''}`);
+      return { status: 'skipped', skipReason: decision.reason, inputAmount: '0', strategy: decision };
+    }
+
+    label = `${schedule.id.slice(0, 8)} ${decision.amount} ${schedule.fromToken}→${schedule.toToken}`;
+    log(`Executing ${label} (${describeDecision(decision)})`);
+
+    const pool = schedule.usePooledWallet ? new WalletPoolService(connection, signer) : undefined;
+    const pooledWallet = pool ? await pool.acquire(schedule) : undefined;
+
+    const result = await executor.execute(
+      signer,
+      {
+        fromToken: schedule.fromMint ?? schedule.fromToken,
+        toToken: schedule.toMint ?? schedule.toToken,
+        amount: decision.amount,
+        slippageBps: schedule.slippageBps,
+        useEphemeral: schedule.useEphemeral ?? false,
+        useZk: schedule.useZk ?? false,
+        isPrivate: schedule.isPrivate,
+        shouldScreen: schedule.screenAddresses,
+        rangeApiKey: config.rangeApiKey,
+        priceGuard: getPriceGuard(schedule),
+        pooledWallet,
+        executionId,
+        scheduleId: schedule.id,
+      },
+      logProgress,
+    );
+
+    if (result.skipped) {
+      log(`Skipped ${label}: ${result.skipReason}`);
+      return { status: 'skipped', skipReason: result.skipReason, inputAmount: '0', strategy: decision };
+    }
+
+    const report = await completeScheduledDCA(schedule, result, pool, label, decision.depleted);
+    if (decision.depleted) log(`  ${schedule.fromToken} sold down: schedule complete`);
+    return { ...report, inputAmount: decision.amount, strategy: decision };
+  } catch (error: any) {
+    log(`Failed ${label}: ${error.message}`);
+    if (new ExecutionStateService().find(executionId)?.id === executionId) {
+      log(`  Resumed on the next run, or now with: private-dca dca execute --resume ${executionId}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Restore the target weights of a rebalance schedule. Swaps run one after
+ * another; a failure ends the run, and the next one re-plans from balances.
+ * Swaps that landed before a failure are still reported with it.
+ */
+async function executeScheduledRebalance(
+  schedule: DCASchedule,
+  settings: RebalanceSettings,
+  config: WalletConfig,
+): Promise<ExecutionReport> {
+  const label = `${schedule.id.slice(0, 8)} rebalance ${schedule.toToken}`;
+
+  let run: RebalanceRun;
+  try {
+    const signer = await loadSigner(config);
+    const rebalancer = new RebalanceService(getConnection(config.rpcUrl));
+    const plan = await rebalancer.plan(signer.publicKey, settings.targets, settings.thresholdPct);
+    if (plan.trades.length === 0) {
+      const reason = `All targets within ${settings.thresholdPct}% (largest drift ${plan.maxDrift.toFixed(1)} pts)`;
+      log(`Skipped ${label}: ${reason}`);
+      return { status: 'skipped', skipReason: reason, inputAmount: '0' };
+    }
+
+    log(`Rebalancing ${label}: ${plan.trades.map((t) => `${t.amount} ${t.fromToken}→${t.toToken}`).join(', ')}`);
+    run = await rebalancer.executeTrades(
+      signer,
+      plan.trades,
+      {
+        slippageBps: schedule.slippageBps,
+        useEphemeral: schedule.useEphemeral ?? false,
+        useZk: schedule.useZk ?? false,
+        isPrivate: schedule.isPrivate,
+        shouldScreen: schedule.screenAddresses,
+        rangeApiKey: config.rangeApiKey,
+      },
+      logProgress,
+    );
+  } catch (error: any) {
+    log(`Failed ${label}: ${error.message}`);
+    throw error;
+  }
+
+  const { trades } = run;
+  for (const trade of trades) {
+    const pair = `${trade.amount} ${trade.fromToken}→${trade.toToken}`;
+    log(trade.signature ? `  ${pair}: ${trade.outputAmount} ${trade.toToken}, ${trade.signature}` : `  ${pair}: ${trade.error}`);
+  }
+
+  // The first swap that landed stands for the execution
+  const signature = trades.find((trade) => trade.signature)?.signature;
+  if (run.error) {
+    log(`Failed ${label}: ${run.error}`);
+    if (run.failedExecutionId && new ExecutionStateService().find(run.failedExecutionId)) {
+      log(`  Resume with: private-dca dca execute --resume ${run.failedExecutionId}`);
+    }
+    return { status: 'failed', error: run.error, signature, trades };
+  }
+
+  // Nothing moved when every swap was stopped before funding (e.g. insufficient funds)
+  if (!signature) {
+    return { status: 'skipped', skipReason: trades[0].error, inputAmount: '0', trades };
+  }
+  log(`Completed ${label}: ${trades.filter((trade) => trade.signature).length} of ${trades.length} swaps`);
+  return { signature, trades };
+}
+
+/**
+ * Finish an interrupted execution of the schedule; it takes this run's slot
+ */
+async function resumeScheduledDCA(
+  executor: SwapExecutorService,
+  signer: Signer,
+  connection: Connection,
+  schedule: DCASchedule,
+  state: ExecutionState,
+  rangeApiKey: string | undefined,
+  label: string,
+): Promise<ExecutionReport> {
+  log(`Resuming ${label} (${state.id}, failed at ${state.failedPhase ?? 'an unknown phase'})`);
+
+  const pool = state.params.pooledWallet ? new WalletPoolService(connection, signer) : undefined;
+  const pooledWallet = pool ? await pool.get(state.params.pooledWallet!) : undefined;
+
+  const result = await executor.resume(signer, state.id, logProgress, { pooledWallet, rangeApiKey });
+  if (result.skipped) {
+    log(`Skipped ${label}: ${result.skipReason}`);
+    return { status: 'skipped', skipReason: result.skipReason, inputAmount: '0', resumedFrom: state.id };
+  }
+
+  return { ...(await completeScheduledDCA(schedule, result, pool, label)), inputAmount: state.params.amount, resumedFrom: state.id };
+}
+
+/**
+ * Log a completed swap and report it to the scheduler
+ */
+async function completeScheduledDCA(
+  schedule: DCASchedule,
+  result: SwapExecutionResult,
+  pool: WalletPoolService | undefined,
+  label: string,
+  last: boolean = false,
+): Promise<ExecutionReport> {
+  if (pool) {
+    // The swap itself succeeded; a failed close is retried on cancel
+    await pool.afterExecution(schedule, last).catch((error) =>
+      log(`Pooled wallet bookkeeping failed for ${label}: ${error.message}`)
+    );
+  }
+
+  const reclaimed = result.costs?.reclaimedRentSol ? ` after ${result.costs.reclaimedRentSol.toFixed(6)} SOL rent reclaimed` : '';
+  const cost = result.costs ? `, ${result.costs.totalSol.toFixed(6)} SOL fees/rent${reclaimed}` : '';
+  log(`Completed ${label}: ${result.signature} (${result.outputAmount} ${schedule.toToken}${cost})`);
+  const lowBalance = result.preflight && getLowBalanceWarning(
+    schedule,
+    result.preflight.executionsCovered,
+    new SchedulerService().countExecutions(schedule.id)
+  );
+  if (lowBalance) log(`  ${lowBalance}`);
+  if (result.ephemeralFunding) log(`  ${describeEphemeralFunding(result.ephemeralFunding)}`);
+  return {
+    signature: result.signature,
+    signatures: result.signatures,
+    outputAmount: result.outputAmount,
+    quotedOutputAmount: result.quotedOutputAmount,
+    inputValueUsd: result.inputValueUsd,
+    ephemeralAddress: result.ephemeralAddress,
+    costs: result.costs,
+    ephemeralFunding: result.ephemeralFunding,
+  };
+}
@@ -1,14 +1,41 @@
 import { Command } from 'commander';
-import { loadConfig, loadKeypair, getConnection, WalletConfig } from '../utils/wallet';
+import {
+  loadConfig,
+  loadSigner,
+  hasWalletConfig,
+  getConnection,
+  getSelectedProfile,
+  WalletConfig,
+  DEFAULT_PROFILE,
+} from '../utils/wallet';
 import { logger } from '../utils/logger';
 import { PrivacyCashService } from '../services/privacy-cash.service';
-import { SchedulerService } from '../services/scheduler.service';
+import { SchedulerService, DEFAULT_LEG_STAGGER_MINUTES } from '../services/scheduler.service';
+import { DaemonService } from '../services/daemon.service';
+import { StrategyService, STRATEGY_TYPES, describeDecision } from '../services/strategy.service';
+import { ReportService } from '../services/report.service';
+import {
+  WalletPoolService,
+  DEFAULT_POOL_MAX_USES,
+  DEFAULT_POOL_MAX_AGE_DAYS,
+} from '../services/wallet-pool.service';
 import {
   SwapExecutorService,
-  SwapProgressEvent,
+  SwapExecutionResult,
+  PriceGuard,
+  validatePriceGuard,
+  getPriceGuard,
+  getLowBalanceWarning,
+  DEFAULT_LOW_BALANCE_WARNING,
 } from '../services/swap-executor.service';
-import { DCASchedule, TOKEN_MINTS } from '../types/index';
-import ora, { type Ora } from 'ora';
+import { TokenRegistryService } from '../services/token-registry.service';
+import { Signer } from '../utils/signer';
+import { AmountMode, BasketDrift, BasketTarget, DCASchedule, DCAStrategy, DecimalAmount, MissedExecutionPolicy, StrategyDecision, TokenInfo } from '../types/index';
+import { amountToNumber, fitsDecimals, isPositiveAmount, parseAmount } from '../utils/amount';
+import ora from 'ora';
+import { ExecutionStateService, newExecutionId } from '../services/execution-state.service';
+import { printDryRunReport, printCostBreakdown, printResumeHint, createSpinnerProgress } from './swap';
+import { runRebalance } from './rebalance';
 import { randomUUID } from 'crypto';
 
 const schedulerService = new SchedulerService();
@@ -20,31 +47,62 @@ export const dcaCommand = new Command('dca')
 dcaCommand
   .command('schedule')
   .description('Create a new DCA schedule (private by default)')
-  .requiredOption('--from <token>', 'Source token (SOL, USDC, USDT, BONK, WIF, JUP, RAY, ORCA)')
-  .requiredOption('--to <token>', 'Destination token (SOL, USDC, USDT, BONK, WIF, JUP, RAY, ORCA)')
-  .requiredOption('--amount <number>', 'Amount per execution')
-  .requiredOption('--frequency <freq>', 'Frequency: hourly, daily, weekly, monthly')
+  .requiredOption('--from <token>', 'Source token: symbol (SOL, USDC, JUP, ...), alias or mint address')
+  .option('--to <token>', 'Destination token: symbol, alias or mint address')
+  .option('--basket <targets>', 'Several destinations by weight instead of --to, e.g. SOL=60,JUP=25,BONK=15')
+  .option('--amount <number>', 'Amount per execution, exactly as given (with --percent-of-balance: the smallest sale)')
+  .option('--percent-of-balance <percent>', 'Sell-down: sell this share of the --from balance on each run')
+  .option('--until-depleted', 'Sell-down: sell --amount on each run until the --from balance is used up', false)
+  .option('--frequency <freq>', 'Frequency: hourly, daily, weekly, monthly')
+  .option('--cron <expr>', 'Custom 5-field cron expression instead of --frequency, e.g. "30 14 * * 1-5"')
+  .option('--at <HH:MM>', 'Time of day, 24h (default 09:00; hourly uses the minute only)')
+  .option('--day-of-week <day>', 'Day for weekly schedules: 0-6 or mon..sun (default mon)')
+  .option('--day-of-month <number>', 'Day for monthly schedules: 1-28 (default 1)')
+  .option('--timezone <tz>', 'IANA timezone, e.g. Europe/Berlin (default: this machine\'s)')
   .option('--no-privacy', 'Disable ephemeral wallet privacy', false)
   .option('--zk', 'Use Privacy Cash ZK pool for maximum anonymity (requires Node 24+)', false)
-  .option('--private', 'Use Arcium confidential transfers for encrypted amounts', false)
+  .option('--private', 'Deposit output into a Token-2022 confidential balance (Arcium encryption for other tokens)', false)
   .option('--no-screen', 'Disable Range compliance screening', false)
   .option('--executions <number>', 'Total number of executions (optional)')
   .option('--slippage <bps>', 'Slippage tolerance in basis points', '50')
+  .option('--jitter <duration>', 'Randomize each run by up to ±duration around its slot, e.g. 3h, 90m')
+  .option('--amount-jitter <percent>', 'Randomize each amount by up to ±percent')
+  .option('--leg-stagger <duration>', `Basket: spread the legs over up to this long after each slot (default ${DEFAULT_LEG_STAGGER_MINUTES}m)`)
+  .option('--on-missed <policy>', 'Missed executions after downtime: skip, run-once, run-all', 'skip')
+  .option('--max-catch-up <number>', 'Maximum catch-up executions for --on-missed run-all', '5')
+  .option('--strategy <type>', `Amount strategy: ${STRATEGY_TYPES.join(', ')}`, 'fixed')
+  .option('--target-increment <usd>', 'Value averaging: USD the position should grow by each period')
+  .option('--ma-window <number>', 'Dip-weighted: number of past prices in the moving average (default 10)')
+  .option('--sensitivity <number>', 'Dip-weighted: multiplier change per 100% below the average (default 2)')
+  .option('--min-multiplier <number>', 'Smallest amount as a multiple of --amount (default 0)')
+  .option('--max-multiplier <number>', 'Largest amount as a multiple of --amount (default 3)')
+  .option('--max-price <price>', 'Skip executions when the quote is above this (source per 1 destination token)')
+  .option('--min-price <price>', 'Skip executions when the quote is below this (source per 1 destination token)')
+  .option('--max-price-impact <percent>', 'Skip executions when Jupiter price impact exceeds this')
+  .option('--pool', 'Reuse one ephemeral wallet across executions (saves ATA rent, but links them on-chain)', false)
+  .option('--pool-max-uses <number>', `Rotate the pooled wallet after this many swaps (default ${DEFAULT_POOL_MAX_USES})`)
+  .option('--pool-max-age <days>', `Rotate the pooled wallet after this many days (default ${DEFAULT_POOL_MAX_AGE_DAYS})`)
+  .option('--low-balance-warning <executions>', `Warn when the wallet covers fewer executions than this (default ${DEFAULT_LOW_BALANCE_WARNING})`)
   .action(async (options) => {
     const config = loadConfig();
-    if (!config || !config.walletPath || !config.rpcUrl) {
+    if (!hasWalletConfig(config)) {
       logger.error('Please configure wallet and RPC first: private-dca config set-wallet <path>');
       return;
     }
 
-    const fromToken = options.from.toUpperCase();
-    const toToken = options.to.toUpperCase();
-    const amount = parseFloat(options.amount);
-    const frequency = options.frequency.toLowerCase() as DCASchedule['frequency'];
+    let amount: DecimalAmount;
+    try {
+      amount = parseAmount(options.amount ?? '0');
+    } catch {
+      amount = '0';
+    }
 
-    // Validate amount and slippage
-    if (isNaN(amount) || amount <= 0) {
-      logger.error('Amount must be a positive number');
+    // Validate amount and slippage (a percent-of-balance sell-down needs no smallest sale)
+    const sellsShare = options.percentOfBalance !== undefined;
+    if (!isPositiveAmount(amount) && !(sellsShare && options.amount === undefined)) {
+      logger.error(options.amount === undefined
+        ? '--amount is required unless selling a --percent-of-balance'
+        : 'Amount must be a positive number');
       return;
     }
 
@@ -54,36 +112,193 @@ dcaCommand
       return;
     }
 
-    // Validate tokens
-    if (!TOKEN_MINTS[fromToken] || !TOKEN_MINTS[toToken]) {
-      logger.error(`Invalid token. Supported: ${Object.keys(TOKEN_MINTS).join(', ')}`);
+    if (!options.to === !options.basket) {
+      logger.error('Specify either --to <token> or --basket <targets>');
+      return;
+    }
+
+    // Resolve tokens (symbols, aliases or mint addresses)
+    let input: TokenInfo;
+    let output: TokenInfo | undefined;
+    let basket: BasketTarget[] | undefined;
+    try {
+      const tokens = new TokenRegistryService(getConnection(config.rpcUrl));
+      input = await tokens.resolve(options.from);
+      if (options.basket) {
+        const targets = SchedulerService.parseBasket(options.basket);
+        SchedulerService.validateBasket(targets);
+        basket = await tokens.resolveBasket(targets);
+      } else {
+        output = await tokens.resolve(options.to);
+      }
+    } catch (error: any) {
+      logger.error(error.message);
       return;
     }
+    const fromToken = input.symbol;
+    const toToken = basket ? basket.map((target) => target.token).join('/') : output!.symbol;
 
-    if (fromToken === toToken) {
+    if (basket ? basket.some((target) => target.mint === input.mint) : input.mint === output!.mint) {
       logger.error('Source and destination tokens must be different');
       return;
     }
 
-    // Validate frequency
-    const validFrequencies = ['hourly', 'daily', 'weekly', 'monthly'];
-    if (!validFrequencies.includes(frequency)) {
-      logger.error(`Invalid frequency. Supported: ${validFrequencies.join(', ')}`);
+    if (!fitsDecimals(amount, input.decimals)) {
+      logger.error(`${fromToken} has ${input.decimals} decimals: ${amount} can't be spent exactly`);
+      return;
+    }
+
+    // Validate frequency / cron expression and timing
+    let timing: { frequency: DCASchedule['frequency']; cronExpression: string };
+    try {
+      if (!options.frequency && !options.cron) {
+        throw new Error('Either --frequency or --cron is required');
+      }
+      timing = SchedulerService.resolveTiming({
+        frequency: options.frequency,
+        cron: options.cron,
+        at: options.at,
+        dayOfWeek: options.dayOfWeek !== undefined ? SchedulerService.parseDayOfWeek(options.dayOfWeek) : undefined,
+        dayOfMonth: options.dayOfMonth !== undefined ? Number(options.dayOfMonth) : undefined,
+        timezone: options.timezone,
+      });
+    } catch (error: any) {
+      logger.error(error.message);
+      return;
+    }
+    const { frequency, cronExpression } = timing;
+
+    // Validate jitter
+    let timingJitterMinutes: number | undefined;
+    const amountJitterPct = options.amountJitter !== undefined ? parseFloat(options.amountJitter) : undefined;
+    try {
+      timingJitterMinutes = options.jitter ? SchedulerService.parseDurationMinutes(options.jitter) : undefined;
+      SchedulerService.validateJitter(cronExpression, options.timezone, timingJitterMinutes, amountJitterPct);
+    } catch (error: any) {
+      logger.error(error.message);
+      return;
+    }
+
+    // Validate missed execution policy
+    const missedExecutionPolicy = options.onMissed.toLowerCase() as MissedExecutionPolicy;
+    const validPolicies = ['skip', 'run-once', 'run-all'];
+    if (!validPolicies.includes(missedExecutionPolicy)) {
+      logger.error(`Invalid missed execution policy. Supported: ${validPolicies.join(', ')}`);
+      return;
+    }
+
+    const maxCatchUpExecutions = parseInt(options.maxCatchUp);
+    if (isNaN(maxCatchUpExecutions) || maxCatchUpExecutions < 1) {
+      logger.error('Max catch-up executions must be a positive number');
+      return;
+    }
+
+    // Validate amount strategy
+    const parseOptional = (value?: string) => (value !== undefined ? parseFloat(value) : undefined);
+    const strategy: DCAStrategy = {
+      type: options.strategy.toLowerCase(),
+      targetIncrementUsd: parseOptional(options.targetIncrement),
+      movingAverageWindow: parseOptional(options.maWindow),
+      sensitivity: parseOptional(options.sensitivity),
+      minMultiplier: parseOptional(options.minMultiplier),
+      maxMultiplier: parseOptional(options.maxMultiplier),
+    };
+    try {
+      StrategyService.validate(strategy);
+    } catch (error: any) {
+      logger.error(error.message);
+      return;
+    }
+
+    // Validate sell-down amount mode: amounts come from the balance at fire time
+    const amountMode: AmountMode = sellsShare
+      ? { type: 'percent-of-balance', balancePercent: parseFloat(options.percentOfBalance) }
+      : { type: options.untilDepleted ? 'until-depleted' : 'fixed' };
+    try {
+      if (sellsShare && options.untilDepleted) {
+        throw new Error('Use either --percent-of-balance or --until-depleted');
+      }
+      StrategyService.validateAmountMode(amountMode, { strategy, basket });
+    } catch (error: any) {
+      logger.error(error.message);
+      return;
+    }
+
+    // Validate price guard
+    const priceGuard: PriceGuard = {
+      maxPrice: parseOptional(options.maxPrice),
+      minPrice: parseOptional(options.minPrice),
+      maxPriceImpactPct: parseOptional(options.maxPriceImpact),
+    };
+    try {
+      validatePriceGuard(priceGuard);
+    } catch (error: any) {
+      logger.error(error.message);
+      return;
+    }
+
+    // Validate account pooling
+    const poolMaxUses = parseOptional(options.poolMaxUses);
+    const poolMaxAgeDays = parseOptional(options.poolMaxAge);
+    if (options.pool && !options.privacy && !options.zk) {
+      logger.error('--pool requires an ephemeral wallet (remove --no-privacy)');
+      return;
+    }
+    try {
+      WalletPoolService.validateRotation(poolMaxUses, poolMaxAgeDays);
+    } catch (error: any) {
+      logger.error(error.message);
+      return;
+    }
+
+    // Validate basket settings: legs are separate swaps, staggered after each slot
+    let legStaggerMinutes: number | undefined;
+    if (basket) {
+      try {
+        SchedulerService.validateBasket(basket, {
+          strategy,
+          maxPrice: priceGuard.maxPrice,
+          minPrice: priceGuard.minPrice,
+          usePooledWallet: options.pool,
+        });
+        legStaggerMinutes = SchedulerService.resolveLegStagger(
+          cronExpression,
+          options.timezone,
+          timingJitterMinutes,
+          options.legStagger ? SchedulerService.parseDurationMinutes(options.legStagger) : undefined
+        );
+      } catch (error: any) {
+        logger.error(error.message);
+        return;
+      }
+    } else if (options.legStagger) {
+      logger.error('--leg-stagger requires --basket');
+      return;
+    }
+
+    const lowBalanceWarning = parseOptional(options.lowBalanceWarning);
+    if (lowBalanceWarning !== undefined && !(Number.isInteger(lowBalanceWarning) && lowBalanceWarning >= 0)) {
+      logger.error('Low balance warning must be a whole number of executions');
       return;
     }
 
     // ZK mode only supports SOL/USDC/USDT
-    if (options.zk && !PrivacyCashService.isTokenSupported(fromToken)) {
+    if (options.zk && !PrivacyCashService.isTokenSupported(input.mint)) {
       logger.error(`Privacy Cash ZK only supports SOL, USDC, USDT. Got: ${fromToken}`);
       return;
     }
 
     const schedule: DCASchedule = {
       id: randomUUID(),
+      profile: getSelectedProfile(),
       fromToken,
       toToken,
+      fromMint: input.mint,
+      toMint: output?.mint,
       amountPerExecution: amount,
       frequency,
+      cronExpression,
+      timezone: options.timezone,
       isPrivate: options.private,
       useEphemeral: options.privacy, // Privacy ON by default (disable with --no-privacy)
       useZk: options.zk,
@@ -94,6 +309,19 @@ dcaCommand
       executedCount: 0,
       createdAt: new Date().toISOString(),
       active: true,
+      missedExecutionPolicy,
+      maxCatchUpExecutions: missedExecutionPolicy === 'run-all' ? maxCatchUpExecutions : undefined,
+      timingJitterMinutes: timingJitterMinutes || undefined,
+      amountJitterPct: amountJitterPct || undefined,
+      strategy: strategy.type === 'fixed' ? undefined : strategy,
+      amountMode: amountMode.type === 'fixed' ? undefined : amountMode,
+      ...priceGuard,
+      usePooledWallet: options.pool || undefined,
+      poolMaxUses: options.pool ? poolMaxUses : undefined,
+      poolMaxAgeDays: options.pool ? poolMaxAgeDays : undefined,
+      lowBalanceWarning,
+      basket,
+      legStaggerMinutes: basket ? legStaggerMinutes : undefined,
     };
 
     logger.header('Create DCA Schedule', 'Set up automated dollar-cost averaging with privacy');
@@ -101,31 +329,72 @@ dcaCommand
     // Display configuration panel
     logger.configPanel('Schedule Configuration', [
       { label: 'ID', value: schedule.id.slice(0, 8) },
-      { label: 'Swap Amount', value: `${amount} ${fromToken}` },
-      { label: 'Buy Asset', value: toToken },
+      { label: 'Profile', value: schedule.profile! },
+      { label: 'Swap Amount', value: describeAmount(schedule) },
+      { label: 'Buy Asset', value: basket ? basket.map((target) => `${target.token} ${target.weight}%`).join(', ') : toToken },
+      { label: 'Leg Stagger', value: basket ? `separate swaps within ${legStaggerMinutes} min of each slot` : false },
       { label: 'Frequency', value: frequency.toUpperCase() },
+      {
+        label: 'Strategy',
+        value: strategy.type === 'value-averaging'
+          ? `value-averaging (+$${strategy.targetIncrementUsd}/period)`
+          : strategy.type,
+      },
+      { label: 'Cron', value: options.timezone ? `${cronExpression} (${options.timezone})` : cronExpression },
+      {
+        label: 'Price Band',
+        value: priceGuard.minPrice !== undefined || priceGuard.maxPrice !== undefined
+          ? `${priceGuard.minPrice ?? 0} - ${priceGuard.maxPrice ?? '\u221E'} ${fromToken}/${toToken}`
+          : false,
+      },
+      {
+        label: 'Max Price Impact',
+        value: priceGuard.maxPriceImpactPct !== undefined ? `${priceGuard.maxPriceImpactPct}%` : false,
+      },
+      { label: 'Timing Jitter', value: timingJitterMinutes ? `±${timingJitterMinutes} min` : false },
+      { label: 'Amount Jitter', value: amountJitterPct ? `±${amountJitterPct}%` : false },
       { label: 'Ephemeral Wallet', value: options.privacy, badge: options.privacy ? 'PRIVATE' : 'PUBLIC' },
+      {
+        label: 'Pooled Wallet',
+        value: options.pool
+          ? `rotate after ${poolMaxUses ?? DEFAULT_POOL_MAX_USES} swaps or ${poolMaxAgeDays ?? DEFAULT_POOL_MAX_AGE_DAYS} days`
+          : false,
+      },
       { label: 'ZK Privacy', value: options.zk, badge: options.zk ? 'MAXIMUM' : undefined },
       { label: 'Arcium Confidential', value: options.private, badge: options.private ? 'ENCRYPTED' : undefined },
       { label: 'Address Screening', value: options.screen },
       { label: 'Total Executions', value: schedule.totalExecutions?.toString() || 'Unlimited' },
+      {
+        label: 'Missed Executions',
+        value: missedExecutionPolicy === 'run-all'
+          ? `run-all (max ${maxCatchUpExecutions})`
+          : missedExecutionPolicy,
+      },
     ]);
 
-    // Save the schedule to disk (CLI exits after; a daemon would run cron)
+    // Save the schedule to disk (CLI exits after; `private-dca daemon` runs cron)
     const schedules = schedulerService.loadSchedules();
     schedules.push(schedule);
     schedulerService.saveSchedulesToFile(schedules);
 
     logger.alertBox('DCA schedule created successfully! \u{1F389}', 'success');
 
-    const freqMap: Record<string, string> = {
-      hourly: '1 hour', daily: 'tomorrow at 9:00 AM',
-      weekly: 'next Monday at 9:00 AM', monthly: '1st of next month at 9:00 AM',
-    };
     logger.newline();
-    logger.keyValue('Next Execution', freqMap[schedule.frequency] || schedule.frequency, 'green');
+    logger.keyValue('Next Execution', schedulerService.getNextFireTime(schedule).toLocaleString(), 'green');
+    if (timingJitterMinutes) {
+      console.log(logger.muted(`  Actual run time is randomized within ±${timingJitterMinutes} min of each slot`));
+    }
 
-    if (options.privacy) {
+    if (!DaemonService.getStatus().running) {
+      console.log('');
+      logger.warning('Scheduler daemon is not running. Start it with: private-dca daemon start --detach');
+    }
+
+    if (options.pool) {
+      console.log('');
+      logger.info('Executions reuse a pooled ephemeral wallet until it rotates; its key is kept encrypted.');
+      logger.info('Your main wallet will not be visible on-chain for swaps.');
+    } else if (options.privacy) {
       console.log('');
       logger.info('Each DCA execution will use a fresh ephemeral wallet for privacy.');
       logger.info('Your main wallet will not be visible on-chain for swaps.');
@@ -143,7 +412,7 @@ dcaCommand
 dcaCommand
   .command('list')
   .description('List all DCA schedules')
-  .action(() => {
+  .action(async () => {
     // Load schedules from disk (CLI runs fresh each time)
     const schedules = schedulerService.loadSchedules();
 
@@ -154,17 +423,28 @@ dcaCommand
 
     logger.header('DCA Schedules', 'All active and paused schedules');
 
+    // Only worth a column once more than the default profile is in use
+    const showProfile = schedules.some((s) => (s.profile ?? DEFAULT_PROFILE) !== DEFAULT_PROFILE);
+
     // Build table rows
     const rows = schedules.map((schedule) => {
       const status = schedule.active ? '\uD83D\uDFE2 Active' : '\uD83D\uDD34 Paused';
       const privacyMode = schedule.useZk ? '\uD83D\uDEE1\uFE0F ZK' : (schedule.useEphemeral ? '\uD83D\uDD12 Eph' : '');
-      const swap = `${schedule.amountPerExecution} ${schedule.fromToken}\u2192${schedule.toToken}`;
-      const executions = schedulerService.getExecutions(schedule.id).length;
+      // Sell-downs by share show the percentage of the balance
+      const amount = schedule.amountMode?.type === 'percent-of-balance'
+        ? `${schedule.amountMode.balancePercent}%`
+        : schedule.amountPerExecution;
+      const swap = schedule.rebalance
+        ? `Rebalance ${schedule.toToken}`
+        : `${amount} ${schedule.fromToken}\u2192${schedule.toToken}`;
+      const executions = schedulerService.countExecutions(schedule.id);
       const totalExec = schedule.totalExecutions ? `${executions}/${schedule.totalExecutions}` : `${executions}`;
       const nextExec = schedulerService.getNextExecution(schedule.id);
-      const nextTime = nextExec ? nextExec.toLocaleDateString() : 'N/A';
+      const nextTime = nextExec
+        ? nextExec.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+        : 'N/A';
 
-      return [
+      const row = [
         status,
         schedule.id.slice(0, 6),
         swap,
@@ -173,17 +453,45 @@ dcaCommand
         totalExec,
         nextTime,
       ];
+      if (showProfile) row.splice(2, 0, schedule.profile ?? DEFAULT_PROFILE);
+      return row;
     });
 
-    logger.table(
-      ['Status', 'ID', 'Swap', 'Freq', 'Privacy', 'Exec', 'Next'],
-      rows,
-      { colWidths: [10, 8, 20, 8, 10, 10, 14] }
-    );
+    const head = ['Status', 'ID', 'Swap', 'Freq', 'Privacy', 'Exec', 'Next'];
+    const colWidths = [10, 8, 20, 8, 10, 10, 18];
+    if (showProfile) {
+      head.splice(2, 0, 'Profile');
+      colWidths.splice(2, 0, 12);
+    }
+    logger.table(head, rows, { colWidths });
 
     if (schedules.length > 0) {
       logger.info(`Total: ${schedules.length} schedule${schedules.length !== 1 ? 's' : ''}`);
     }
+
+    // Basket drift needs current prices, so only with an RPC configured
+    const baskets = schedules.filter((schedule) => schedule.basket);
+    const config = loadConfig();
+    if (baskets.length === 0 || !config?.rpcUrl) return;
+
+    const reportService = new ReportService(getConnection(config.rpcUrl));
+    const spinner = ora('Quoting basket drift...').start();
+    const drifts: BasketDrift[][] = [];
+    for (const schedule of baskets) {
+      drifts.push(await reportService.basketDrift(schedule, schedulerService.getExecutions(schedule.id)));
+    }
+    spinner.stop();
+
+    baskets.forEach((schedule, i) => {
+      logger.newline();
+      console.log(logger.muted(`  ${schedule.id.slice(0, 6)} basket drift (share of current value)`));
+      for (const target of drifts[i]) {
+        const value = target.weight !== undefined && target.drift !== undefined
+          ? `${target.weight.toFixed(1)}% (target ${target.targetWeight}%, ${target.drift >= 0 ? '+' : ''}${target.drift.toFixed(1)} pts)`
+          : `\u2014 (target ${target.targetWeight}%)`;
+        logger.keyValue(target.token, value, Math.abs(target.drift ?? 0) >= 5 ? 'yellow' : 'cyan');
+      }
+    });
   });
 
 // Cancel a DCA schedule
@@ -191,7 +499,7 @@ dcaCommand
   .command('cancel')
   .description('Cancel a DCA schedule')
   .requiredOption('--id <id>', 'Schedule ID (first 8 chars is enough)')
-  .action((options) => {
+  .action(async (options) => {
     const schedules = schedulerService.loadSchedules();
     const schedule = schedules.find((s) => s.id.startsWith(options.id));
 
@@ -200,6 +508,34 @@ dcaCommand
       return;
     }
 
+    // Sweep and close the pooled wallet first; keep the schedule if that fails
+    if (schedule.ephemeralWalletAddress) {
+      const config = loadConfig(schedule.profile ?? DEFAULT_PROFILE);
+      if (!hasWalletConfig(config)) {
+        logger.error('Please configure wallet and RPC first: private-dca config set-wallet <path>');
+        return;
+      }
+
+      const spinner = ora('Closing pooled wallet...').start();
+      try {
+        const pool = new WalletPoolService(
+          getConnection(config.rpcUrl),
+          await loadSigner(config),
+          schedulerService
+        );
+        const result = await pool.release(schedule);
+        spinner.succeed(
+          result
+            ? `Pooled wallet closed (${result.tokens.length} token balance(s) swept, ${result.closedAccounts} account(s) closed)`
+            : 'No pooled wallet key to close'
+        );
+      } catch (error: any) {
+        spinner.fail(`Failed to close pooled wallet: ${error.message}`);
+        logger.error('Schedule was not cancelled. Retry once the RPC is reachable.');
+        return;
+      }
+    }
+
     const removed = schedulerService.removeSchedule(schedule.id);
     if (removed) {
       logger.success(`DCA schedule ${options.id} cancelled`);
@@ -244,13 +580,7 @@ dcaCommand
       return;
     }
 
-    schedulerService.addSchedule(schedule, async (s) => {
-      const config = loadConfig();
-      if (config) {
-        await executeDCA(s, config);
-      }
-    });
-
+    // The daemon picks up the change from the schedules file
     const resumed = schedulerService.resumeSchedule(schedule.id);
     if (resumed) {
       logger.success(`DCA schedule ${options.id} resumed`);
@@ -262,12 +592,22 @@ dcaCommand
 // Execute a DCA immediately (for testing)
 dcaCommand
   .command('execute')
-  .description('Execute a DCA immediately (for testing)')
-  .requiredOption('--id <id>', 'Schedule ID')
+  .description('Execute a DCA immediately (for testing), or resume an interrupted execution')
+  .option('--id <id>', 'Schedule ID')
+  .option('--resume <execId>', 'Continue an interrupted execution from its last completed phase')
+  .option('--dry-run', 'Build and simulate every transaction without signing or sending', false)
   .action(async (options) => {
-    const config = loadConfig();
-    if (!config || !config.walletPath || !config.rpcUrl) {
-      logger.error('Please configure wallet and RPC first');
+    if (!options.id === !options.resume) {
+      logger.error('Specify either --id <id> or --resume <execId>');
+      return;
+    }
+
+    if (options.resume) {
+      if (options.dryRun) {
+        logger.error('--dry-run cannot be combined with --resume');
+        return;
+      }
+      await resumeDCA(options.resume);
       return;
     }
 
@@ -279,7 +619,23 @@ dcaCommand
       return;
     }
 
-    await executeDCA(schedule, config);
+    // Runs with the wallet and RPC of the profile the schedule belongs to
+    const profile = schedule.profile ?? DEFAULT_PROFILE;
+    const config = loadConfig(profile);
+    if (!hasWalletConfig(config)) {
+      logger.error(`Please configure wallet and RPC for profile "${profile}" first`);
+      return;
+    }
+
+    if (schedule.rebalance) {
+      await runRebalance(config, schedule.rebalance, schedule, options.dryRun);
+      return;
+    }
+
+    // A basket runs one swap per target
+    for (const leg of SchedulerService.getLegs(schedule)) {
+      await executeDCA(leg, config, options.dryRun);
+    }
   });
 
 // History of executions
@@ -311,19 +667,31 @@ dcaCommand
 
     // Build execution rows
     const rows = executions.slice(-10).reverse().map((exec) => {
-      const status = exec.success ? '\u2705 Success' : '\u274C Failed';
+      const status = exec.status === 'missed'
+        ? '\u23ED\uFE0F Missed'
+        : exec.status === 'skipped'
+          ? '\u23F8\uFE0F Skipped'
+          : exec.success ? (exec.manual ? '\u2705 Manual' : '\u2705 Success') : '\u274C Failed';
       const schedule = schedules.find((s) => s.id === exec.scheduleId);
-      const swapInfo = schedule ? `${schedule.fromToken}\u2192${schedule.toToken}` : '?';
-      const time = new Date(exec.executedAt).toLocaleTimeString();
+      const swapInfo = !schedule
+        ? '?'
+        : schedule.rebalance
+          ? `Rebalance (${exec.trades?.length ?? 0})`
+          : `${schedule.fromToken}\u2192${exec.toToken ?? schedule.toToken}`;
+      const time = new Date(exec.startedAt ?? exec.scheduledFor ?? exec.executedAt).toLocaleTimeString();
       const txShort = exec.signature ? exec.signature.slice(0, 8) + '...' : '\u2014';
+      const amounts = exec.inputAmount && exec.outputAmount !== undefined
+        ? `${formatAmount(exec.inputAmount)} \u2192 ${formatAmount(exec.outputAmount)}`
+        : '\u2014';
+      const cost = exec.costs ? exec.costs.totalSol.toFixed(5) : '\u2014';
 
-      return [status, time, swapInfo, exec.scheduleId.slice(0, 6), txShort];
+      return [status, time, swapInfo, exec.scheduleId.slice(0, 6), amounts, cost, txShort];
     });
 
     logger.table(
-      ['Status', 'Time', 'Swap', 'Schedule', 'Tx'],
+      ['Status', 'Time', 'Swap', 'Schedule', 'In \u2192 Out', 'SOL Cost', 'Tx'],
       rows,
-      { colWidths: [12, 14, 12, 8, 14] }
+      { colWidths: [12, 14, 12, 8, 20, 10, 14] }
     );
 
     logger.info(`${executions.length} total execution${executions.length !== 1 ? 's' : ''}`);
@@ -341,6 +709,112 @@ dcaCommand
     }
   });
 
+// Performance report
+dcaCommand
+  .command('report')
+  .description('Show cost basis and unrealized P&L per schedule')
+  .option('--id <id>', 'Report on a single schedule')
+  .action(async (options) => {
+    const config = loadConfig();
+    if (!config || !config.rpcUrl) {
+      logger.error('Please configure RPC first: private-dca config set-rpc <url>');
+      return;
+    }
+
+    let schedules = schedulerService.loadSchedules();
+    if (options.id) {
+      schedules = schedules.filter((s) => s.id.startsWith(options.id));
+      if (schedules.length === 0) {
+        logger.error(`Schedule not found: ${options.id}`);
+        return;
+      }
+    }
+
+    if (schedules.length === 0) {
+      logger.info('No DCA schedules found. Create one with: private-dca dca schedule');
+      return;
+    }
+
+    logger.header('DCA Performance', 'Cost basis and unrealized P&L from execution history');
+
+    const reportService = new ReportService(getConnection(config.rpcUrl));
+    const spinner = ora('Quoting current prices...').start();
+    const reports = [];
+    for (const schedule of schedules) {
+      reports.push(...(await reportService.reportLegs(schedule, schedulerService.getExecutions(schedule.id))));
+    }
+    spinner.stop();
+
+    for (const report of reports) {
+      const { fromToken, toToken } = report;
+      const pnlColor = report.unrealizedPnl === undefined ? 'yellow' : report.unrealizedPnl >= 0 ? 'green' : 'red';
+
+      logger.resultSummary(`${report.scheduleId.slice(0, 8)}  ${fromToken} \u2192 ${toToken}`, [
+        { label: 'Executions', value: String(report.executions), color: 'cyan' },
+        { label: 'Total Spent', value: `${formatAmount(report.totalSpent)} ${fromToken}`, color: 'cyan' },
+        { label: 'Total Acquired', value: `${formatAmount(report.totalAcquired)} ${toToken}`, color: 'cyan' },
+        {
+          label: 'Avg Entry Price',
+          value: report.averageEntryPrice !== undefined
+            ? `${formatAmount(report.averageEntryPrice)} ${fromToken}/${toToken}`
+            : '\u2014',
+          color: 'cyan',
+        },
+        {
+          label: 'Current Price',
+          value: report.currentPrice !== undefined
+            ? `${formatAmount(report.currentPrice)} ${fromToken}/${toToken}`
+            : '\u2014',
+          color: 'cyan',
+        },
+        {
+          label: 'Current Value',
+          value: report.currentValue !== undefined ? `${formatAmount(report.currentValue)} ${fromToken}` : '\u2014',
+          color: 'cyan',
+        },
+        {
+          label: 'Unrealized P&L',
+          value: report.unrealizedPnl !== undefined
+            ? `${report.unrealizedPnl >= 0 ? '+' : ''}${formatAmount(report.unrealizedPnl)} ${fromToken}` +
+              (report.unrealizedPnlPct !== undefined ? ` (${report.unrealizedPnlPct.toFixed(2)}%)` : '')
+            : '\u2014',
+          color: pnlColor,
+        },
+        {
+          label: 'Fee Drag',
+          value: `${report.feesSol.toFixed(6)} SOL` +
+            (report.feeDrag !== undefined && fromToken !== 'SOL' ? ` \u2248 ${formatAmount(report.feeDrag)} ${fromToken}` : '') +
+            (report.feeDragPct !== undefined ? ` (${report.feeDragPct.toFixed(2)}% of spend)` : ''),
+          color: 'yellow',
+        },
+      ]);
+
+      if (report.untrackedExecutions > 0) {
+        console.log(logger.muted(`  ${report.untrackedExecutions} older execution(s) without recorded amounts are excluded`));
+      }
+    }
+  });
+
+/**
+ * What each execution of a schedule swaps
+ */
+function describeAmount(schedule: DCASchedule): string {
+  const mode = schedule.amountMode;
+  if (mode?.type === 'percent-of-balance') {
+    const smallest = isPositiveAmount(schedule.amountPerExecution) ? `, at least ${schedule.amountPerExecution}` : '';
+    return `${mode.balancePercent}% of ${schedule.fromToken} balance${smallest}`;
+  }
+  if (mode?.type === 'until-depleted') {
+    return `${schedule.amountPerExecution} ${schedule.fromToken} until depleted`;
+  }
+  return `${schedule.amountPerExecution} ${schedule.fromToken}`;
+}
+
+function formatAmount(amount: number | DecimalAmount): string {
+  const value = typeof amount === 'string' ? amountToNumber(amount) : amount;
+  return Math.abs(value) >= 1 || value === 0 ? value.toFixed(2) : value.toPrecision(4);
+}
+
 /**
  * Execute a single DCA swap using the shared SwapExecutorService.
  *
@@ -348,9 +822,51 @@ dcaCommand
  * but the caller (the `execute` command action) did not catch.
  * Now errors are only logged here; no re-throw.
  */
-async function executeDCA(schedule: DCASchedule, config: WalletConfig): Promise<void> {
+async function executeDCA(schedule: DCASchedule, config: WalletConfig, dryRun: boolean = false): Promise<void> {
   logger.header(`Execute DCA Swap`, `${schedule.fromToken} \u2192 ${schedule.toToken}`);
 
+  const connection = getConnection(config.rpcUrl);
+
+  // The schedule's mints must still exist before anything is decided
+  try {
+    await new TokenRegistryService(connection).resolveSchedule(schedule);
+  } catch (error: any) {
+    logger.error(error.message);
+    return;
+  }
+
+  // Sell-down amounts are read from this wallet's balance
+  let signer: Signer;
+  try {
+    signer = await loadSigner(config);
+  } catch (error: any) {
+    logger.error(`Failed to load wallet: ${error.message}`);
+    return;
+  }
+
+  // Let the schedule's strategy pick the amount from current prices
+  let amount = schedule.amountPerExecution;
+  let strategyLabel = 'fixed';
+  let depleted = false;
+  let decision: StrategyDecision;
+  try {
+    decision = await new StrategyService(connection).decide(
+      schedule,
+      schedulerService.getExecutions(schedule.id),
+      signer.publicKey
+    );
+    amount = decision.amount;
+    strategyLabel = describeDecision(decision);
+    depleted = decision.depleted ?? false;
+    if (!isPositiveAmount(amount)) {
+      logger.warning(`Strategy chose not to buy: ${decision.reason ?? strategyLabel}`);
+      return;
+    }
+  } catch (error: any) {
+    logger.error(`Strategy failed: ${error.message}`);
+    return;
+  }
+
   // Show execution plan
   const privacyFeatures: string[] = [];
   if (schedule.useZk) privacyFeatures.push('Privacy Cash ZK Pool');
@@ -359,7 +875,8 @@ async function executeDCA(schedule: DCASchedule, config: WalletConfig): Promise<
   if (schedule.screenAddresses) privacyFeatures.push('Address Screening');
 
   logger.summary('Execution Plan', [
-    { label: 'Amount', value: `${schedule.amountPerExecution} ${schedule.fromToken}`, color: 'green' },
+    { label: 'Amount', value: `${amount} ${schedule.fromToken}`, color: 'green' },
+    { label: 'Strategy', value: strategyLabel, color: 'cyan' },
     { label: 'Target', value: schedule.toToken, color: 'cyan' },
     { label: 'Privacy Features', value: privacyFeatures.length > 0 ? privacyFeatures.join(' + ') : 'None', color: privacyFeatures.length > 0 ? 'green' : 'yellow' },
     { label: 'Slippage', value: `${schedule.slippageBps} bps`, color: 'cyan' },
@@ -367,83 +884,195 @@ async function executeDCA(schedule: DCASchedule, config: WalletConfig): Promise<
 
   logger.newline();
 
+  let executionId: string | undefined;
   try {
-    const keypair = loadKeypair(config.walletPath);
-    const connection = getConnection(config.rpcUrl);
     const executor = new SwapExecutorService(connection);
+    const pool = schedule.usePooledWallet
+      ? new WalletPoolService(connection, signer, schedulerService)
+      : undefined;
+    // A dry run must not rotate or create pooled wallets
+    const pooledWallet = pool ? await (dryRun ? pool.peek(schedule) : pool.acquire(schedule)) : undefined;
 
-    // Manage ora spinners driven by progress callbacks
-    let currentSpinner: Ora | null = null;
-
+    executionId = newExecutionId();
+    const startedAt = new Date().toISOString();
     const result = await executor.execute(
-      keypair,
+      signer,
       {
-        fromToken: schedule.fromToken,
-        toToken: schedule.toToken,
-        amount: schedule.amountPerExecution,
+        fromToken: schedule.fromMint ?? schedule.fromToken,
+        toToken: schedule.toMint ?? schedule.toToken,
+        amount,
         slippageBps: schedule.slippageBps,
         useEphemeral: schedule.useEphemeral ?? false,
         useZk: schedule.useZk ?? false,
         isPrivate: schedule.isPrivate,
         shouldScreen: schedule.screenAddresses,
         rangeApiKey: config.rangeApiKey,
+        priceGuard: getPriceGuard(schedule),
+        pooledWallet,
+        dryRun,
+        executionId,
+        scheduleId: schedule.id,
       },
-      (event: SwapProgressEvent) => {
-        if (event.status === 'start') {
-          if (currentSpinner) currentSpinner.stop();
-          currentSpinner = ora(event.message).start();
-        } else if (event.status === 'success') {
-          if (currentSpinner) {
-            currentSpinner.succeed(event.message);
-            currentSpinner = null;
-          }
-        } else if (event.status === 'warn') {
-          if (currentSpinner) {
-            currentSpinner.warn(event.message);
-            currentSpinner = null;
-          }
-        } else if (event.status === 'fail') {
-          if (currentSpinner) {
-            currentSpinner.fail(event.message);
-            currentSpinner = null;
-          }
-        } else if (event.status === 'info') {
-          if (event.detail) {
-            console.log(`  ${event.detail}`);
-          } else {
-            console.log(`  ${event.message}`);
-          }
-        }
-
-        // Print output info when quote succeeds
-        if (event.phase === 'quote' && event.status === 'success' && event.detail) {
-          const parts = event.detail.split(' | ');
-          if (parts.length >= 1) {
-            logger.keyValue('Output', parts[0].replace('Expected: ', ''));
-          }
-        }
-      },
+      createSpinnerProgress(),
     );
 
-    logger.newline();
-    logger.alert('DCA execution complete! \uD83C\uDF89', 'success');
+    if (result.skipped) {
+      logger.newline();
+      logger.warning(`DCA execution skipped: ${result.skipReason}`);
+      if (result.preflight?.shortfall) printCostBreakdown(result.preflight);
+      return;
+    }
 
-    // Build summary items
-    const summaryItems = [
-      { label: 'Transaction', value: (result.signature ?? '').slice(0, 16) + '...', color: 'cyan' as const },
-      { label: 'Output', value: `${(result.outputAmount ?? 0).toFixed(6)} ${schedule.toToken}`, color: 'green' as const },
-    ];
+    if (result.dryRun) {
+      printDryRunReport(result.dryRun, schedule.toToken);
+      return;
+    }
 
-    if (schedule.useZk) {
-      summaryItems.push({ label: 'ZK Privacy', value: 'Funds through Privacy Cash anonymity set', color: 'green' as const });
+    // Recorded for history, reports and exports, but outside the schedule's slots and limits
+    if (pool) {
+      schedulerService.recordPooledWalletUse(schedule.id);
     }
-    if (schedule.useEphemeral) {
-      summaryItems.push({ label: 'Ephemeral', value: 'Main wallet hidden on-chain', color: 'green' as const });
+    schedulerService.recordManualExecution(executionId, schedule.id, {
+      startedAt,
+      fromToken: schedule.fromToken,
+      toToken: schedule.toToken,
+      toMint: schedule.toMint,
+      inputAmount: amount,
+      signature: result.signature,
+      signatures: result.signatures,
+      outputAmount: result.outputAmount,
+      quotedOutputAmount: result.quotedOutputAmount,
+      inputValueUsd: result.inputValueUsd,
+      ephemeralAddress: result.ephemeralAddress,
+      costs: result.costs,
+      ephemeralFunding: result.ephemeralFunding,
+      strategy: decision,
+    });
+
+    printExecutionResult(result, schedule);
+    if (depleted) {
+      logger.info(`That was the rest of the ${schedule.fromToken}: the schedule completes on its next run`);
     }
-    logger.summary('Execution Result', summaryItems);
+
+    const lowBalance = result.preflight && getLowBalanceWarning(
+      schedule,
+      result.preflight.executionsCovered,
+      schedulerService.countExecutions(schedule.id)
+    );
+    if (lowBalance) logger.warning(lowBalance);
   } catch (error: any) {
     // BUG FIX: Only log the error, do NOT re-throw.
     // The caller (CLI action) does not catch, so re-throwing caused unhandled rejections.
     logger.error(`DCA execution failed: ${error.message}`);
+    if (executionId) printResumeHint(executionId);
+  }
+}
+
+/**
+ * Continue an interrupted execution with the wallet of the profile it ran under
+ */
+async function resumeDCA(executionId: string): Promise<void> {
+  const state = new ExecutionStateService().find(executionId);
+  if (!state) {
+    logger.error(`No interrupted execution: ${executionId}`);
+    return;
+  }
+
+  const { params } = state;
+  const schedule = state.scheduleId
+    ? schedulerService.loadSchedules().find((s) => s.id === state.scheduleId)
+    : undefined;
+  // Ad-hoc swaps have no schedule and resume under the selected profile
+  const profile = schedule ? schedule.profile ?? DEFAULT_PROFILE : getSelectedProfile();
+  const config = loadConfig(profile);
+  if (!hasWalletConfig(config)) {
+    logger.error(`Please configure wallet and RPC for profile "${profile}" first`);
+    return;
+  }
+
+  const tokens = new TokenRegistryService();
+  const fromToken = tokens.getSymbol(params.fromToken);
+  logger.header('Resume DCA Swap', `${fromToken} \u2192 ${tokens.getSymbol(params.toToken)}`);
+  logger.summary('Interrupted Execution', [
+    { label: 'Execution', value: state.id, color: 'cyan' },
+    { label: 'Amount', value: `${params.amount} ${fromToken}`, color: 'green' },
+    { label: 'Completed', value: Object.keys(state.phases).join(', ') || 'None', color: 'cyan' },
+    { label: 'Failed At', value: state.failedPhase ?? 'Unknown (process exited)', color: 'yellow' },
+    ...(state.error ? [{ label: 'Error', value: state.error, color: 'yellow' as const }] : []),
+  ]);
+  logger.newline();
+
+  try {
+    const connection = getConnection(config.rpcUrl);
+    const signer = await loadSigner(config);
+    const pooledWallet = params.pooledWallet
+      ? await new WalletPoolService(connection, signer, schedulerService).get(params.pooledWallet)
+      : undefined;
+
+    const result = await new SwapExecutorService(connection).resume(
+      signer,
+      state.id,
+      createSpinnerProgress(),
+      { pooledWallet, rangeApiKey: config.rangeApiKey },
+    );
+
+    if (result.skipped) {
+      logger.newline();
+      logger.warning(`DCA execution skipped: ${result.skipReason}`);
+      return;
+    }
+
+    if (pooledWallet && schedule) {
+      schedulerService.recordPooledWalletUse(schedule.id);
+    }
+    printExecutionResult(result, params);
+  } catch (error: any) {
+    logger.error(`Resume failed: ${error.message}`);
+    printResumeHint(state.id);
+  }
+}
+
+/**
+ * Summary of a completed execution
+ */
+function printExecutionResult(
+  result: SwapExecutionResult,
+  schedule: Pick<DCASchedule, 'toToken' | 'useZk' | 'useEphemeral'>,
+): void {
+  logger.newline();
+  logger.alert('DCA execution complete! \uD83C\uDF89', 'success');
+
+  // Build summary items (toToken may be a mint address; the result carries its symbol)
+  const toToken = result.outputToken ?? schedule.toToken;
+  const summaryItems = [
+    { label: 'Transaction', value: (result.signature ?? '').slice(0, 16) + '...', color: 'cyan' as const },
+    { label: 'Output', value: `${result.outputAmount ?? '0'} ${toToken}`, color: 'green' as const },
+    { label: 'Quoted', value: `${result.quotedOutputAmount ?? '0'} ${toToken}`, color: 'cyan' as const },
+  ];
+
+  if (result.costs) {
+    summaryItems.push({
+      label: 'SOL Fees + Rent',
+      value: `${result.costs.totalSol.toFixed(6)} SOL (fees ${result.costs.feesSol.toFixed(6)}, rent ${result.costs.rentSol.toFixed(6)}`
+        + (result.costs.reclaimedRentSol ? `, ${result.costs.reclaimedRentSol.toFixed(6)} reclaimed)` : ')'),
+      color: 'cyan' as const,
+    });
+  }
+
+  if (result.ephemeralFunding?.surplusSol !== undefined) {
+    const { reserveSol, surplusSol } = result.ephemeralFunding;
+    summaryItems.push({
+      label: 'Ephemeral Funding',
+      value: `${reserveSol.toFixed(6)} SOL, ${Math.abs(surplusSol).toFixed(6)} SOL ${surplusSol >= 0 ? 'over' : 'under'}`,
+      color: 'cyan' as const,
+    });
+  }
+
+  if (schedule.useZk) {
+    summaryItems.push({ label: 'ZK Privacy', value: 'Funds through Privacy Cash anonymity set', color: 'green' as const });
+  }
+  if (schedule.useEphemeral) {
+    summaryItems.push({ label: 'Ephemeral', value: 'Main wallet hidden on-chain', color: 'green' as const });
   }
+  logger.summary('Execution Result', summaryItems);
 }
@@ -0,0 +1,61 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { logger } from '../utils/logger';
+import { SchedulerService } from '../services/scheduler.service';
+import { ExportService, ExportFormat, EXPORT_FORMATS } from '../services/export.service';
+
+export const exportCommand = new Command('export')
+  .description('Export DCA acquisitions as tax lots')
+  .option('--format <format>', `Output format: ${EXPORT_FORMATS.join(', ')}`, 'csv')
+  .option('--from <date>', 'Only lots on or after this date (YYYY-MM-DD or ISO timestamp)')
+  .option('--to <date>', 'Only lots on or before this date (YYYY-MM-DD or ISO timestamp)')
+  .option('--output <file>', 'Write to a file instead of stdout')
+  .option('--redact-addresses', 'Replace ephemeral wallet addresses and swap signatures (which lead to them on-chain)', false)
+  .action((options) => {
+    const format = options.format.toLowerCase() as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      logger.error(`Invalid format. Supported: ${EXPORT_FORMATS.join(', ')}`);
+      return;
+    }
+
+    let from: Date | undefined;
+    let to: Date | undefined;
+    try {
+      from = options.from ? ExportService.parseDate(options.from) : undefined;
+      to = options.to ? ExportService.parseDate(options.to, true) : undefined;
+    } catch (error: any) {
+      logger.error(error.message);
+      return;
+    }
+
+    if (from && to && from > to) {
+      logger.error('--from must be before --to');
+      return;
+    }
+
+    const schedulerService = new SchedulerService();
+    const lots = ExportService.buildLots(
+      schedulerService.getAllExecutions(),
+      schedulerService.loadSchedules(),
+      { from, to, redactAddresses: options.redactAddresses }
+    );
+    const output = format === 'csv' ? ExportService.toCsv(lots) : ExportService.toJson(lots);
+
+    if (!options.output) {
+      // Raw output only, so it can be piped straight into a file or spreadsheet
+      process.stdout.write(output);
+      return;
+    }
+
+    try {
+      fs.writeFileSync(options.output, output, { mode: 0o600 });
+    } catch (error: any) {
+      logger.error(`Failed to write export: ${error.message}`);
+      return;
+    }
+
+    logger.success(`Exported ${lots.length} lot${lots.length !== 1 ? 's' : ''} to ${options.output}`);
+    if (!options.redactAddresses && lots.some((lot) => lot.ephemeral_address || lot.tx_signature)) {
+      logger.warning('Export contains swap signatures and ephemeral wallet addresses. Use --redact-addresses before sharing it.');
+    }
+  });
@@ -0,0 +1,268 @@
+import { Command } from 'commander';
+import { randomUUID } from 'crypto';
+import {
+  loadConfig,
+  loadSigner,
+  hasWalletConfig,
+  getConnection,
+  getSelectedProfile,
+  WalletConfig,
+} from '../utils/wallet';
+import { logger } from '../utils/logger';
+import { PrivacyCashService } from '../services/privacy-cash.service';
+import { SchedulerService } from '../services/scheduler.service';
+import { DaemonService } from '../services/daemon.service';
+import { RebalanceService, DEFAULT_REBALANCE_THRESHOLD_PCT } from '../services/rebalance.service';
+import { SOL_FEE_RESERVE } from '../services/ephemeral.service';
+import { SwapExecutorService } from '../services/swap-executor.service';
+import { newExecutionId } from '../services/execution-state.service';
+import { TokenRegistryService } from '../services/token-registry.service';
+import { BasketTarget, DCASchedule, RebalancePlan, RebalanceSettings, SOL_MINT } from '../types/index';
+import { createSpinnerProgress, printCostBreakdown, printDryRunReport, printResumeHint } from './swap';
+import ora from 'ora';
+
+/**
+ * What a rebalance's swaps share with a DCA schedule's
+ */
+export type RebalanceSwapOptions = Pick<DCASchedule, 'slippageBps' | 'useEphemeral' | 'useZk' | 'isPrivate' | 'screenAddresses'>;
+
+export const rebalanceCommand = new Command('rebalance')
+  .description('Swap between tokens to restore target weights (private by default)')
+  .requiredOption('--targets <targets>', 'Target weights in percent, e.g. SOL=50,USDC=30,JUP=20')
+  .option('--threshold <percent>', `Rebalance once a target's weight is this many points off (default ${DEFAULT_REBALANCE_THRESHOLD_PCT}%)`)
+  .option('--no-privacy', 'Disable ephemeral wallet privacy', false)
+  .option('--zk', 'Use Privacy Cash ZK pool for maximum anonymity (requires Node 24+)', false)
+  .option('--private', 'Deposit outputs into Token-2022 confidential balances (Arcium encryption for other tokens)', false)
+  .option('--no-screen', 'Disable Range compliance screening', false)
+  .option('--slippage <bps>', 'Slippage tolerance in basis points', '50')
+  .option('--dry-run', 'Plan the swaps and simulate them without signing or sending', false)
+  .option('--frequency <freq>', 'Rebalance on a schedule instead of now: hourly, daily, weekly, monthly')
+  .option('--cron <expr>', 'Custom 5-field cron expression instead of --frequency')
+  .option('--at <HH:MM>', 'Time of day, 24h (default 09:00; hourly uses the minute only)')
+  .option('--day-of-week <day>', 'Day for weekly schedules: 0-6 or mon..sun (default mon)')
+  .option('--day-of-month <number>', 'Day for monthly schedules: 1-28 (default 1)')
+  .option('--timezone <tz>', 'IANA timezone, e.g. Europe/Berlin (default: this machine\'s)')
+  .action(async (options) => {
+    const config = loadConfig();
+    if (!hasWalletConfig(config)) {
+      logger.error('Please configure wallet and RPC first: private-dca config set-wallet <path>');
+      return;
+    }
+
+    const slippageBps = parseInt(options.slippage);
+    if (isNaN(slippageBps) || slippageBps < 1 || slippageBps > 1000) {
+      logger.error('Slippage must be between 1 and 1000 basis points');
+      return;
+    }
+
+    // Resolve and validate the targets
+    let targets: BasketTarget[];
+    let thresholdPct: number;
+    try {
+      thresholdPct = options.threshold !== undefined
+        ? RebalanceService.parseThreshold(options.threshold)
+        : DEFAULT_REBALANCE_THRESHOLD_PCT;
+      const parsed = SchedulerService.parseBasket(options.targets);
+      RebalanceService.validate(parsed, thresholdPct);
+      targets = await new TokenRegistryService(getConnection(config.rpcUrl)).resolveBasket(parsed);
+    } catch (error: any) {
+      logger.error(error.message);
+      return;
+    }
+
+    // ZK mode only supports SOL/USDC/USDT, and any target may be sold
+    const unsupported = options.zk && targets.find((target) => !PrivacyCashService.isTokenSupported(target.mint));
+    if (unsupported) {
+      logger.error(`Privacy Cash ZK only supports SOL, USDC, USDT. Got: ${unsupported.token}`);
+      return;
+    }
+
+    const swap: RebalanceSwapOptions = {
+      slippageBps,
+      useEphemeral: options.privacy, // Privacy ON by default (disable with --no-privacy)
+      useZk: options.zk,
+      isPrivate: options.private,
+      screenAddresses: options.screen, // Screening ON by default (disable with --no-screen)
+    };
+
+    if (!options.frequency && !options.cron) {
+      await runRebalance(config, { targets, thresholdPct }, swap, options.dryRun);
+      return;
+    }
+
+    if (options.dryRun) {
+      logger.error('--dry-run cannot be combined with --frequency or --cron');
+      return;
+    }
+
+    let timing: { frequency: DCASchedule['frequency']; cronExpression: string };
+    try {
+      timing = SchedulerService.resolveTiming({
+        frequency: options.frequency,
+        cron: options.cron,
+        at: options.at,
+        dayOfWeek: options.dayOfWeek !== undefined ? SchedulerService.parseDayOfWeek(options.dayOfWeek) : undefined,
+        dayOfMonth: options.dayOfMonth !== undefined ? Number(options.dayOfMonth) : undefined,
+        timezone: options.timezone,
+      });
+    } catch (error: any) {
+      logger.error(error.message);
+      return;
+    }
+
+    // Tokens move both ways, so both sides name all targets
+    const symbols = targets.map((target) => target.token).join('/');
+    const schedule: DCASchedule = {
+      id: randomUUID(),
+      profile: getSelectedProfile(),
+      fromToken: symbols,
+      toToken: symbols,
+      amountPerExecution: '0',
+      frequency: timing.frequency,
+      cronExpression: timing.cronExpression,
+      timezone: options.timezone,
+      ...swap,
+      useShadow: false,
+      executedCount: 0,
+      createdAt: new Date().toISOString(),
+      active: true,
+      // Balances are read at fire time, so one run makes up for any number missed
+      missedExecutionPolicy: 'run-once',
+      rebalance: { targets, thresholdPct },
+    };
+
+    logger.header('Schedule Rebalance', 'Restore target weights on a schedule');
+    logger.configPanel('Schedule Configuration', [
+      { label: 'ID', value: schedule.id.slice(0, 8) },
+      { label: 'Profile', value: schedule.profile! },
+      { label: 'Targets', value: targets.map((target) => `${target.token} ${target.weight}%`).join(', ') },
+      { label: 'Threshold', value: `${thresholdPct}%` },
+      { label: 'Frequency', value: timing.frequency.toUpperCase() },
+      { label: 'Cron', value: options.timezone ? `${timing.cronExpression} (${options.timezone})` : timing.cronExpression },
+      { label: 'Ephemeral Wallet', value: options.privacy, badge: options.privacy ? 'PRIVATE' : 'PUBLIC' },
+      { label: 'ZK Privacy', value: options.zk, badge: options.zk ? 'MAXIMUM' : undefined },
+      { label: 'Arcium Confidential', value: options.private, badge: options.private ? 'ENCRYPTED' : undefined },
+      { label: 'Address Screening', value: options.screen },
+    ]);
+
+    const schedulerService = new SchedulerService();
+    const schedules = schedulerService.loadSchedules();
+    schedules.push(schedule);
+    schedulerService.saveSchedulesToFile(schedules);
+
+    logger.alertBox('Rebalance schedule created successfully! \u{1F389}', 'success');
+    logger.newline();
+    logger.keyValue('Next Check', schedulerService.getNextFireTime(schedule).toLocaleString(), 'green');
+
+    if (!DaemonService.getStatus().running) {
+      console.log('');
+      logger.warning('Scheduler daemon is not running. Start it with: private-dca daemon start --detach');
+    }
+  });
+
+/**
+ * Value the holdings, show the drift and make the swaps that restore the targets
+ */
+export async function runRebalance(
+  config: WalletConfig,
+  settings: RebalanceSettings,
+  swap: RebalanceSwapOptions,
+  dryRun: boolean = false
+): Promise<void> {
+  logger.header('Rebalance', settings.targets.map((target) => `${target.token} ${target.weight}%`).join(' / '));
+
+  const connection = getConnection(config.rpcUrl);
+  let executionId: string | undefined;
+  try {
+    const signer = await loadSigner(config);
+
+    const spinner = ora('Valuing holdings...').start();
+    let plan: RebalancePlan;
+    try {
+      plan = await new RebalanceService(connection).plan(signer.publicKey, settings.targets, settings.thresholdPct);
+      spinner.stop();
+    } catch (error: any) {
+      spinner.fail('Valuing holdings failed');
+      throw error;
+    }
+
+    printHoldings(plan);
+    if (plan.trades.length === 0) {
+      logger.success(`All targets are within ${settings.thresholdPct}% (largest drift ${plan.maxDrift.toFixed(1)} pts)`);
+      return;
+    }
+
+    logger.newline();
+    logger.table(
+      ['Sell', 'Buy', 'Value (USDC)'],
+      plan.trades.map((trade) => [`${trade.amount} ${trade.fromToken}`, trade.toToken, trade.value.toFixed(2)]),
+      { colWidths: [28, 12, 14] }
+    );
+
+    const executor = new SwapExecutorService(connection);
+    let completed = 0;
+    for (const trade of plan.trades) {
+      logger.newline();
+      logger.subheader(`${trade.amount} ${trade.fromToken} → ${trade.toToken}`);
+
+      executionId = newExecutionId();
+      const result = await executor.execute(
+        signer,
+        {
+          fromToken: trade.fromMint,
+          toToken: trade.toMint,
+          amount: trade.amount,
+          slippageBps: swap.slippageBps,
+          useEphemeral: swap.useEphemeral ?? false,
+          useZk: swap.useZk ?? false,
+          isPrivate: swap.isPrivate,
+          shouldScreen: swap.screenAddresses,
+          rangeApiKey: config.rangeApiKey,
+          dryRun,
+          executionId,
+        },
+        createSpinnerProgress(),
+      );
+
+      if (result.dryRun) {
+        printDryRunReport(result.dryRun, trade.toToken);
+      } else if (result.skipped) {
+        logger.warning(`Swap skipped: ${result.skipReason}`);
+        if (result.preflight?.shortfall) printCostBreakdown(result.preflight);
+      } else {
+        completed++;
+        logger.keyValue('Output', `${result.outputAmount ?? '0'} ${trade.toToken}`, 'green');
+        logger.tx(result.signature!);
+      }
+    }
+
+    if (!dryRun) {
+      logger.newline();
+      logger.alert(`Rebalance complete: ${completed} of ${plan.trades.length} swaps made`, completed === plan.trades.length ? 'success' : 'warning');
+    }
+  } catch (error: any) {
+    logger.error(`Rebalance failed: ${error.message}`);
+    if (executionId) printResumeHint(executionId);
+  }
+}
+
+/**
+ * Each target's balance and value next to its weight
+ */
+function printHoldings(plan: RebalancePlan): void {
+  logger.table(
+    ['Token', 'Balance', 'Value (USDC)', 'Weight', 'Target', 'Drift'],
+    plan.holdings.map((holding) => [
+      holding.token,
+      holding.balance,
+      holding.value.toFixed(2),
+      `${holding.weight.toFixed(1)}%`,
+      `${holding.targetWeight}%`,
+      `${holding.drift >= 0 ? '+' : ''}${holding.drift.toFixed(1)} pts`,
+    ]),
+    { colWidths: [10, 22, 14, 10, 10, 12] }
+  );
+  if (plan.holdings.some((holding) => holding.mint === SOL_MINT)) {
+    console.log(logger.muted(`  SOL excludes ${SOL_FEE_RESERVE} SOL kept for fees`));
+  }
+}
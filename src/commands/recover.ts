@@ -0,0 +1,108 @@
+import { Command } from 'commander';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { loadConfig, loadSigner, hasWalletConfig, getConnection } from '../utils/wallet';
+import { logger } from '../utils/logger';
+import { fromBaseUnits } from '../utils/amount';
+import { EphemeralService, RECOVERY_FEE_LAMPORTS } from '../services/ephemeral.service';
+import { EphemeralJournalService } from '../services/ephemeral-journal.service';
+import { TokenRegistryService } from '../services/token-registry.service';
+
+const tokens = new TokenRegistryService();
+
+function formatHolding(mint: string, rawAmount: string): string {
+  const decimals = tokens.getCachedDecimals(mint);
+  if (decimals === undefined) return `${rawAmount} raw units of ${mint}`;
+  return `${fromBaseUnits(rawAmount, decimals)} ${tokens.getSymbol(mint)}`;
+}
+
+export const recoverCommand = new Command('recover')
+  .description('Sweep funds left in ephemeral wallets by interrupted swaps back to your wallet')
+  .option('--dry-run', 'Only list unfinished ephemeral wallets and their balances', false)
+  .action(async (options) => {
+    const config = loadConfig();
+    if (!hasWalletConfig(config)) {
+      logger.error('Please configure wallet and RPC first: private-dca config set-wallet <path>');
+      return;
+    }
+
+    try {
+      const owner = await loadSigner(config);
+      const connection = getConnection(config.rpcUrl);
+      const ephemeralService = new EphemeralService(connection, config.rpcUrl);
+      const journal = new EphemeralJournalService(owner);
+
+      const entries = journal.getUnfinished();
+      if (entries.length === 0) {
+        logger.info('No unfinished ephemeral wallets in the journal.');
+        return;
+      }
+
+      logger.info(`Found ${entries.length} unfinished ephemeral wallet${entries.length !== 1 ? 's' : ''}`);
+      let swept = 0;
+      let failed = 0;
+
+      for (const entry of entries) {
+        console.log('');
+        logger.keyValue('Ephemeral', entry.publicKey);
+        logger.keyValue('Created', new Date(entry.createdAt).toLocaleString());
+        logger.keyValue('Steps Done', entry.steps.length > 0 ? entry.steps.join(', ') : 'none', 'yellow');
+
+        try {
+          const ephemeral = await journal.decrypt(entry);
+          const lamports = await connection.getBalance(ephemeral.publicKey);
+          // Empty token accounts still hold rent
+          const holdings = await ephemeralService.getTokenHoldings(ephemeral.publicKey, true);
+          const emptyAccounts = holdings.filter((h) => BigInt(h.rawAmount) === BigInt(0)).length;
+
+          logger.keyValue('SOL', (lamports / LAMPORTS_PER_SOL).toFixed(9));
+          holdings
+            .filter((h) => BigInt(h.rawAmount) > BigInt(0))
+            .forEach((h) => logger.keyValue('Token', formatHolding(h.mint, h.rawAmount)));
+          if (emptyAccounts > 0) logger.keyValue('Empty Token Accounts', String(emptyAccounts));
+
+          if (lamports <= RECOVERY_FEE_LAMPORTS && holdings.length === 0) {
+            if (!options.dryRun) journal.complete(entry.id);
+            logger.info('Nothing left to recover');
+            continue;
+          }
+
+          if (options.dryRun) continue;
+
+          const result = await ephemeralService.sweepToOwner(ephemeral, owner, true);
+          result.tokens.forEach((t) =>
+            logger.success(`Recovered ${formatHolding(t.mint, t.rawAmount)} (${t.signature.slice(0, 20)}...)`)
+          );
+          if (result.closedAccounts > 0) {
+            logger.success(`Closed ${result.closedAccounts} token account(s), rent returned to your wallet`);
+          }
+          if (result.solSignature) {
+            logger.success(`Recovered SOL (${result.solSignature.slice(0, 20)}...)`);
+          }
+
+          // Only forget the key once the ephemeral is really empty
+          if ((await connection.getBalance(ephemeral.publicKey)) <= RECOVERY_FEE_LAMPORTS) {
+            journal.complete(entry.id);
+            swept++;
+          } else {
+            logger.warning('SOL is still left in this ephemeral wallet; it stays in the journal');
+            failed++;
+          }
+        } catch (error: any) {
+          logger.error(`Recovery failed: ${error.message}`);
+          failed++;
+        }
+      }
+
+      console.log('');
+      if (options.dryRun) {
+        logger.info('Dry run: nothing was moved. Run without --dry-run to sweep.');
+      } else {
+        logger.resultSummary('Recovery Complete', [
+          { label: 'Swept', value: swept, color: 'green' },
+          { label: 'Still Pending', value: failed, color: failed > 0 ? 'red' : 'green' },
+        ]);
+      }
+    } catch (error: any) {
+      logger.error(`Recovery failed: ${error.message}`);
+    }
+  });
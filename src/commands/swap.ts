@@ -1,35 +1,45 @@
 import { Command } from 'commander';
-import { loadConfig, loadKeypair, getConnection } from '../utils/wallet';
+import { loadConfig, loadSigner, hasWalletConfig, getConnection } from '../utils/wallet';
 import { logger } from '../utils/logger';
 import { PrivacyCashService } from '../services/privacy-cash.service';
 import {
   SwapExecutorService,
   SwapProgressEvent,
+  ProgressCallback,
+  DryRunReport,
+  PreflightCheck,
 } from '../services/swap-executor.service';
-import { TOKEN_MINTS } from '../types/index';
+import { ExecutionStateService, newExecutionId } from '../services/execution-state.service';
+import { TokenRegistryService } from '../services/token-registry.service';
+import { DecimalAmount, TokenInfo } from '../types/index';
+import { compareAmounts, fitsDecimals, isPositiveAmount, parseAmount } from '../utils/amount';
 import ora, { type Ora } from 'ora';
 
 export const swapCommand = new Command('swap')
   .description('Execute a token swap (private by default)')
-  .requiredOption('--from <token>', 'Source token (SOL, USDC, USDT, BONK, WIF, JUP, RAY, ORCA)')
-  .requiredOption('--to <token>', 'Destination token (SOL, USDC, USDT, BONK, WIF, JUP, RAY, ORCA)')
-  .requiredOption('--amount <number>', 'Amount to swap')
+  .requiredOption('--from <token>', 'Source token: symbol (SOL, USDC, JUP, ...), alias or mint address')
+  .requiredOption('--to <token>', 'Destination token: symbol, alias or mint address')
+  .requiredOption('--amount <number>', 'Amount to swap, exactly as given (e.g. 0.1)')
   .option('--no-privacy', 'Disable ephemeral wallet (expose your wallet on-chain)', false)
   .option('--zk', 'Use Privacy Cash ZK pool for maximum anonymity (requires Node 24+)', false)
-  .option('--private', 'Use Arcium confidential transfer for encrypted amounts', false)
+  .option('--private', 'Deposit output into a Token-2022 confidential balance (Arcium encryption for other tokens)', false)
   .option('--no-screen', 'Disable Range compliance screening', false)
   .option('--slippage <bps>', 'Slippage tolerance in basis points', '50')
   .option('--destination <address>', 'Send output to different address (requires privacy enabled)')
+  .option('--dry-run', 'Build and simulate every transaction without signing or sending', false)
   .action(async (options) => {
     const config = loadConfig();
-    if (!config || !config.walletPath || !config.rpcUrl) {
+    if (!hasWalletConfig(config)) {
       logger.error('Please configure wallet and RPC first: private-dca config set-wallet <path>');
       return;
     }
 
-    const fromToken = options.from.toUpperCase();
-    const toToken = options.to.toUpperCase();
-    const amount = parseFloat(options.amount);
+    let amount: DecimalAmount;
+    try {
+      amount = parseAmount(options.amount);
+    } catch {
+      amount = '0';
+    }
     const slippageBps = parseInt(options.slippage);
     const useEphemeral = options.privacy; // Privacy ON by default (disable with --no-privacy)
     const useZk = options.zk;
@@ -38,7 +48,7 @@ export const swapCommand = new Command('swap')
     const customDestination = options.destination;
 
     // Validate amount and slippage
-    if (isNaN(amount) || amount <= 0) {
+    if (!isPositiveAmount(amount)) {
       logger.error('Amount must be a positive number');
       return;
     }
@@ -48,17 +58,31 @@ export const swapCommand = new Command('swap')
       return;
     }
 
-    // Validate tokens
-    if (!TOKEN_MINTS[fromToken] || !TOKEN_MINTS[toToken]) {
-      logger.error(`Invalid token. Supported: ${Object.keys(TOKEN_MINTS).join(', ')}`);
+    // Resolve tokens (symbols, aliases or mint addresses)
+    const connection = getConnection(config.rpcUrl);
+    let input: TokenInfo;
+    let output: TokenInfo;
+    try {
+      const tokens = new TokenRegistryService(connection);
+      input = await tokens.resolve(options.from);
+      output = await tokens.resolve(options.to);
+    } catch (error: any) {
+      logger.error(error.message);
       return;
     }
+    const fromToken = input.symbol;
+    const toToken = output.symbol;
 
-    if (fromToken === toToken) {
+    if (input.mint === output.mint) {
       logger.error('Source and destination tokens must be different');
       return;
     }
 
+    if (!fitsDecimals(amount, input.decimals)) {
+      logger.error(`${fromToken} has ${input.decimals} decimals: ${amount} can't be swapped exactly`);
+      return;
+    }
+
     if (customDestination && !useEphemeral) {
       logger.error('--destination requires privacy to be enabled (remove --no-privacy)');
       return;
@@ -66,7 +90,7 @@ export const swapCommand = new Command('swap')
 
     // ZK mode requires ephemeral and only supports SOL/USDC/USDT
     if (useZk) {
-      if (!PrivacyCashService.isTokenSupported(fromToken)) {
+      if (!PrivacyCashService.isTokenSupported(input.mint)) {
         logger.error(`Privacy Cash ZK only supports SOL, USDC, USDT. Got: ${fromToken}`);
         return;
       }
@@ -84,9 +108,9 @@ export const swapCommand = new Command('swap')
     }
     console.log('');
 
+    let executionId: string | undefined;
     try {
-      const keypair = loadKeypair(config.walletPath);
-      const connection = getConnection(config.rpcUrl);
+      const signer = await loadSigner(config);
 
       // Step 0: Display privacy score
       if (useEphemeral || shouldScreen || useZk) {
@@ -127,11 +151,12 @@ export const swapCommand = new Command('swap')
       // Manage ora spinners driven by progress callbacks
       let currentSpinner: Ora | null = null;
 
+      executionId = newExecutionId();
       const result = await executor.execute(
-        keypair,
+        signer,
         {
-          fromToken,
-          toToken,
+          fromToken: input.mint,
+          toToken: output.mint,
           amount,
           slippageBps,
           useEphemeral,
@@ -140,6 +165,8 @@ export const swapCommand = new Command('swap')
           shouldScreen,
           customDestination,
           rangeApiKey: config.rangeApiKey,
+          dryRun: options.dryRun,
+          executionId,
         },
         (event: SwapProgressEvent) => {
           if (event.status === 'start') {
@@ -179,6 +206,17 @@ export const swapCommand = new Command('swap')
         },
       );
 
+      if (result.dryRun) {
+        printDryRunReport(result.dryRun, toToken);
+        return;
+      }
+
+      if (result.skipped) {
+        logger.error(`Swap aborted: ${result.skipReason}`);
+        if (result.preflight) printCostBreakdown(result.preflight);
+        return;
+      }
+
       // Final output
       console.log('');
       logger.success('Swap completed successfully!');
@@ -201,5 +239,130 @@ export const swapCommand = new Command('swap')
 
     } catch (error: any) {
       logger.error(`Swap failed: ${error.message}`);
+      if (executionId) printResumeHint(executionId);
     }
   });
+
+/**
+ * Point to `dca execute --resume` when a failed execution left funds mid-pipeline
+ */
+export function printResumeHint(executionId: string): void {
+  if (new ExecutionStateService().find(executionId)?.id === executionId) {
+    logger.info(`Funds are mid-pipeline. Resume with: private-dca dca execute --resume ${executionId}`);
+  }
+}
+
+/**
+ * Show what an execution needs from the wallet next to what it holds
+ */
+export function printCostBreakdown(preflight: PreflightCheck): void {
+  const items: Array<{ label: string; value: string; color?: string }> = [
+    { label: 'Input', value: `${preflight.inputAmount} ${preflight.fromToken}` },
+  ];
+  if (preflight.ephemeralFundingSol > 0) {
+    items.push({ label: 'Ephemeral Funding', value: `${preflight.ephemeralFundingSol.toFixed(6)} SOL` });
+  }
+  if (preflight.ataRentSol > 0) {
+    items.push({ label: 'Token Account Rent', value: `${preflight.ataRentSol.toFixed(6)} SOL` });
+  }
+  if (preflight.zkFeesSol > 0) {
+    items.push({ label: 'ZK Pool Fees', value: `~${preflight.zkFeesSol.toFixed(6)} SOL` });
+  }
+  items.push(
+    { label: 'Network Fees', value: `${preflight.networkFeesSol.toFixed(6)} SOL` },
+    { label: 'SOL Needed', value: `${preflight.solNeeded.toFixed(6)} SOL`, color: 'cyan' },
+    {
+      label: 'SOL Balance',
+      value: `${preflight.solBalance.toFixed(6)} SOL`,
+      color: preflight.solBalance < preflight.solNeeded ? 'red' : 'green',
+    },
+  );
+  if (preflight.tokenBalance !== undefined) {
+    items.push({
+      label: `${preflight.fromToken} Balance`,
+      value: `${preflight.tokenBalance} ${preflight.fromToken}`,
+      color: compareAmounts(preflight.tokenBalance, preflight.inputAmount) < 0 ? 'red' : 'green',
+    });
+  }
+  logger.summary('Cost Breakdown', items);
+}
+
+/**
+ * Show what a dry run would have signed and what it would cost
+ */
+export function printDryRunReport(report: DryRunReport, toToken: string): void {
+  logger.newline();
+  logger.table(
+    ['Step', 'Transaction', 'Signers', 'CU', 'Fee (SOL)', 'Rent (SOL)'],
+    report.transactions.map((t) => [
+      t.phase,
+      t.description,
+      t.signers.map((signer) => signer.slice(0, 8)).join(', ') || '-',
+      t.simulated || t.unitsConsumed !== undefined ? (t.unitsConsumed ?? '?') : 'not simulated',
+      t.feeSol.toFixed(6),
+      t.rentSol.toFixed(6),
+    ]),
+    { colWidths: [16, 48, 20, 15, 12, 12] }
+  );
+
+  logger.summary('Dry Run', [
+    { label: 'Expected Output', value: `${report.expectedOutput} ${toToken}`, color: 'green' },
+    { label: 'Price Impact', value: `${report.priceImpactPct}%`, color: 'cyan' },
+    ...(report.ephemeralFundingSol !== undefined
+      ? [{ label: 'Ephemeral Funding', value: `${report.ephemeralFundingSol} SOL (leftover is recovered)`, color: 'cyan' }]
+      : []),
+    {
+      label: 'SOL Fees + Rent',
+      value: `${report.totalSol.toFixed(6)} SOL (fees ${report.feesSol.toFixed(6)}, rent ${report.rentSol.toFixed(6)})`,
+      color: 'cyan',
+    },
+  ]);
+
+  for (const warning of report.warnings) {
+    logger.warning(warning);
+  }
+  logger.info('Dry run: nothing was signed or sent.');
+}
+
+/**
+ * Drive ora spinners from swap progress events
+ */
+export function createSpinnerProgress(): ProgressCallback {
+  let currentSpinner: Ora | null = null;
+
+  return (event: SwapProgressEvent) => {
+    if (event.status === 'start') {
+      if (currentSpinner) currentSpinner.stop();
+      currentSpinner = ora(event.message).start();
+    } else if (event.status === 'success') {
+      if (currentSpinner) {
+        currentSpinner.succeed(event.message);
+        currentSpinner = null;
+      }
+    } else if (event.status === 'warn') {
+      if (currentSpinner) {
+        currentSpinner.warn(event.message);
+        currentSpinner = null;
+      }
+    } else if (event.status === 'fail') {
+      if (currentSpinner) {
+        currentSpinner.fail(event.message);
+        currentSpinner = null;
+      }
+    } else if (event.status === 'info') {
+      if (event.detail) {
+        console.log(`  ${event.detail}`);
+      } else {
+        console.log(`  ${event.message}`);
+      }
+    }
+
+    // Print output info when quote succeeds
+    if (event.phase === 'quote' && event.status === 'success' && event.detail) {
+      const parts = event.detail.split(' | ');
+      if (parts.length >= 1) {
+        logger.keyValue('Output', parts[0].replace('Expected: ', ''));
+      }
+    }
+  };
+}
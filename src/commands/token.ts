@@ -0,0 +1,86 @@
+import { Command } from 'commander';
+import { TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { loadConfig, getConnection } from '../utils/wallet';
+import { logger } from '../utils/logger';
+import { TokenRegistryService } from '../services/token-registry.service';
+import { TokenInfo } from '../types/index';
+
+export const tokenCommand = new Command('token')
+  .description('Manage the token registry (symbols, aliases and resolved mints)');
+
+/**
+ * Registry with the configured RPC, for resolving mints that aren't cached
+ */
+function getRegistry(): TokenRegistryService {
+  const config = loadConfig();
+  if (!config?.rpcUrl) {
+    throw new Error('Please configure an RPC first: private-dca config set-rpc <url>');
+  }
+  return new TokenRegistryService(getConnection(config.rpcUrl));
+}
+
+function programLabel(programId: string): string {
+  return programId === TOKEN_2022_PROGRAM_ID.toBase58() ? 'Token-2022' : 'Token';
+}
+
+function printToken(token: TokenInfo): void {
+  logger.keyValue('Symbol', token.symbol);
+  if (token.name) logger.keyValue('Name', token.name);
+  logger.keyValue('Mint', token.mint);
+  logger.keyValue('Decimals', token.decimals.toString());
+  logger.keyValue('Program', programLabel(token.programId));
+}
+
+tokenCommand
+  .command('add <mint>')
+  .description('Resolve a mint and cache it, optionally under an alias usable in --from/--to')
+  .option('--symbol <symbol>', 'Alias that resolves to this mint')
+  .action(async (mint: string, options) => {
+    try {
+      const token = await getRegistry().add(mint, options.symbol);
+      logger.success(options.symbol ? `Alias added: ${token.symbol}` : `Token added: ${token.symbol}`);
+      printToken(token);
+    } catch (error: any) {
+      logger.error(`Failed to add token: ${error.message}`);
+    }
+  });
+
+tokenCommand
+  .command('info <token>')
+  .description('Resolve a symbol, alias or mint from chain')
+  .action(async (token: string) => {
+    try {
+      printToken(await getRegistry().resolve(token, true));
+    } catch (error: any) {
+      logger.error(error.message);
+    }
+  });
+
+tokenCommand
+  .command('list')
+  .description('List built-in tokens, aliases and resolved mints')
+  .action(() => {
+    const rows = new TokenRegistryService().list().map((token) => [
+      token.symbol,
+      token.source,
+      token.unresolved ? '-' : token.decimals,
+      token.unresolved ? '-' : programLabel(token.programId),
+      token.mint,
+    ]);
+    logger.table(['Symbol', 'Source', 'Decimals', 'Program', 'Mint'], rows, { colWidths: [12, 10, 10, 12, 48] });
+  });
+
+tokenCommand
+  .command('remove <token>')
+  .description('Remove an alias or a cached mint (built-in symbols stay)')
+  .action((token: string) => {
+    try {
+      if (!new TokenRegistryService().remove(token)) {
+        logger.error(`Token not registered: ${token}`);
+        return;
+      }
+      logger.success(`Token removed: ${token}`);
+    } catch (error: any) {
+      logger.error(error.message);
+    }
+  });
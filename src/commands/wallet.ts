@@ -0,0 +1,154 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { Keypair } from '@solana/web3.js';
+import {
+  loadConfig,
+  saveConfig,
+  loadKeypair,
+  loadWallet,
+  saveKeystore,
+  isEncryptedWallet,
+  resolveWalletPath,
+  PASSPHRASE_ENV,
+  DEFAULT_KEYSTORE_PATH,
+} from '../utils/wallet';
+import { encryptKeystore, MIN_PASSPHRASE_LENGTH } from '../utils/keystore';
+import { promptHidden } from '../utils/prompt';
+import { logger } from '../utils/logger';
+import ora from 'ora';
+
+export const walletCommand = new Command('wallet')
+  .description('Manage the encrypted wallet keystore');
+
+/**
+ * New passphrase from PRIVATE_DCA_PASSPHRASE, or prompted twice
+ */
+async function newPassphrase(allowEnv: boolean = true): Promise<string> {
+  const fromEnv = process.env[PASSPHRASE_ENV];
+  if (allowEnv && fromEnv !== undefined) return fromEnv;
+
+  const passphrase = await promptHidden(`New passphrase (min ${MIN_PASSPHRASE_LENGTH} characters): `);
+  const confirmation = await promptHidden('Repeat passphrase: ');
+  if (passphrase !== confirmation) {
+    throw new Error('Passphrases do not match');
+  }
+  return passphrase;
+}
+
+/**
+ * Encrypt (slow on purpose) and write a keystore, optionally making it the configured wallet
+ */
+function writeKeystore(keypair: Keypair, passphrase: string, output: string, setDefault: boolean, overwrite = false): void {
+  const spinner = ora('Encrypting keystore...').start();
+  try {
+    saveKeystore(output, encryptKeystore(keypair, passphrase), overwrite);
+  } catch (error) {
+    spinner.fail('Failed to write keystore');
+    throw error;
+  }
+  spinner.succeed(`Keystore written to ${output}`);
+
+  if (setDefault) {
+    const config = loadConfig() || {
+      walletPath: '',
+      rpcUrl: 'https://api.devnet.solana.com',
+      network: 'devnet' as const,
+    };
+    config.walletPath = output;
+    saveConfig(config);
+    logger.info('Set as the configured wallet');
+  }
+}
+
+walletCommand
+  .command('create')
+  .description('Generate a new wallet in an encrypted keystore')
+  .option('--output <path>', 'Keystore file', DEFAULT_KEYSTORE_PATH)
+  .option('--no-set-default', 'Do not make it the configured wallet')
+  .action(async (options) => {
+    try {
+      const keypair = Keypair.generate();
+      writeKeystore(keypair, await newPassphrase(), options.output, options.setDefault);
+      logger.keyValue('Public Key', keypair.publicKey.toBase58());
+      logger.warning('Back up the keystore and passphrase: without both, funds cannot be recovered.');
+    } catch (error: any) {
+      logger.error(`Failed to create wallet: ${error.message}`);
+    }
+  });
+
+walletCommand
+  .command('import <keypairPath>')
+  .description('Encrypt an existing plaintext keypair (Solana CLI JSON) into a keystore')
+  .option('--output <path>', 'Keystore file', DEFAULT_KEYSTORE_PATH)
+  .option('--no-set-default', 'Do not make it the configured wallet')
+  .action(async (keypairPath: string, options) => {
+    try {
+      if (isEncryptedWallet(keypairPath)) {
+        logger.error(`${keypairPath} is already an encrypted keystore`);
+        return;
+      }
+
+      const keypair = loadKeypair(keypairPath);
+      writeKeystore(keypair, await newPassphrase(), options.output, options.setDefault);
+      logger.keyValue('Public Key', keypair.publicKey.toBase58());
+      logger.warning(`The plaintext key is still at ${keypairPath}. Delete it once the keystore is backed up.`);
+    } catch (error: any) {
+      logger.error(`Failed to import wallet: ${error.message}`);
+    }
+  });
+
+walletCommand
+  .command('export')
+  .description('Decrypt the keystore to a plaintext Solana CLI keypair file')
+  .requiredOption('--output <path>', 'Plaintext keypair file to write')
+  .option('--wallet <path>', 'Keystore to export (default: configured wallet)')
+  .action(async (options) => {
+    try {
+      const walletPath = options.wallet ?? loadConfig()?.walletPath;
+      if (!walletPath) {
+        logger.error('No wallet configured. Pass --wallet <path>');
+        return;
+      }
+
+      const output = resolveWalletPath(options.output);
+      if (fs.existsSync(output)) {
+        logger.error(`File already exists: ${output}`);
+        return;
+      }
+
+      const keypair = await loadWallet(walletPath);
+      fs.writeFileSync(output, JSON.stringify(Array.from(keypair.secretKey)), { mode: 0o600 });
+      logger.success(`Plaintext keypair written to ${output}`);
+      logger.warning('This file is unencrypted. Delete it as soon as you are done with it.');
+    } catch (error: any) {
+      logger.error(`Failed to export wallet: ${error.message}`);
+    }
+  });
+
+walletCommand
+  .command('change-password')
+  .description('Re-encrypt the keystore under a new passphrase')
+  .option('--wallet <path>', 'Keystore to re-encrypt (default: configured wallet)')
+  .action(async (options) => {
+    try {
+      const walletPath = options.wallet ?? loadConfig()?.walletPath;
+      if (!walletPath) {
+        logger.error('No wallet configured. Pass --wallet <path>');
+        return;
+      }
+      if (!isEncryptedWallet(walletPath)) {
+        logger.error(`${walletPath} is a plaintext keypair. Use \`private-dca wallet import\` to encrypt it.`);
+        return;
+      }
+
+      const keypair = await loadWallet(walletPath);
+      // Always prompt: the env var holds the current passphrase, not the new one
+      writeKeystore(keypair, await newPassphrase(false), walletPath, false, true);
+      logger.success('Passphrase changed');
+      if (process.env[PASSPHRASE_ENV] !== undefined) {
+        logger.warning(`Update ${PASSPHRASE_ENV} wherever the daemon runs, then restart it.`);
+      }
+    } catch (error: any) {
+      logger.error(`Failed to change passphrase: ${error.message}`);
+    }
+  });
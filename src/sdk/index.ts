@@ -5,24 +5,64 @@
 
 import { EventEmitter } from 'events';
 import { loadKeypair, getConnection } from '../utils/wallet';
+import { Signer, KeypairSigner, RemoteSigner } from '../utils/signer';
+import { fitsDecimals, isPositiveAmount, parseAmount } from '../utils/amount';
 import { SchedulerService } from '../services/scheduler.service';
 import {
   SwapExecutorService,
+  validatePriceGuard,
+  getPriceGuard,
+  getLowBalanceWarning,
 } from '../services/swap-executor.service';
-import { DCASchedule, TOKEN_MINTS } from '../types/index';
+import { newExecutionId } from '../services/execution-state.service';
+import { StrategyService } from '../services/strategy.service';
+import { ReportService } from '../services/report.service';
+import { WalletPoolService } from '../services/wallet-pool.service';
+import { TokenRegistryService } from '../services/token-registry.service';
+import { BasketTarget, DCASchedule, DCAExecution, ExecutionReport, TokenInfo } from '../types/index';
 import { randomUUID } from 'crypto';
 
 import type {
   DCAConfig,
   ScheduleOptions,
+  StrategyOptions,
+  AmountModeOptions,
+  StrategyDecision,
   Schedule,
   Execution,
+  ExecutionSignatures,
+  ExecutionCosts,
+  EphemeralFunding,
   ExecutionResult,
+  ExecuteOptions,
+  DryRunReport,
+  PlannedTransaction,
   ScheduleHistory,
+  PerformanceReport,
   ScheduleEvent,
 } from './types';
 
-export { DCAConfig, ScheduleOptions, Schedule, Execution, ExecutionResult, ScheduleHistory, ScheduleEvent };
+export { Signer, KeypairSigner, RemoteSigner };
+
+export {
+  DCAConfig,
+  ScheduleOptions,
+  StrategyOptions,
+  AmountModeOptions,
+  StrategyDecision,
+  Schedule,
+  Execution,
+  ExecutionSignatures,
+  ExecutionCosts,
+  EphemeralFunding,
+  ExecutionResult,
+  ExecuteOptions,
+  DryRunReport,
+  PlannedTransaction,
+  ScheduleHistory,
+  PerformanceReport,
+  ScheduleEvent,
+};
 
 /**
  * Private DCA Toolkit SDK
@@ -54,6 +94,7 @@ export { DCAConfig, ScheduleOptions, Schedule, Execution, ExecutionResult, Sched
 export class PrivateDCA extends EventEmitter {
   private config: DCAConfig;
   private schedulerService: SchedulerService;
+  private signer: Signer | null = null;
   private initialized = false;
 
   constructor(config: DCAConfig) {
@@ -67,7 +108,7 @@ export class PrivateDCA extends EventEmitter {
    */
   async initialize(): Promise<void> {
     try {
-      loadKeypair(this.config.walletPath);
+      this.getSigner();
       getConnection(this.config.rpcUrl);
       this.initialized = true;
     } catch (error: any) {
@@ -81,31 +122,83 @@ export class PrivateDCA extends EventEmitter {
   async schedule(options: ScheduleOptions): Promise<Schedule> {
     if (!this.initialized) await this.initialize();
 
-    const fromToken = options.fromToken.toUpperCase();
-    const toToken = options.toToken.toUpperCase();
-
-    // Validate tokens
-    if (!TOKEN_MINTS[fromToken] || !TOKEN_MINTS[toToken]) {
-      throw new Error(`Invalid token. Supported: ${Object.keys(TOKEN_MINTS).join(', ')}`);
+    // Resolve tokens (symbols, aliases or mint addresses)
+    if (!options.toToken === !options.basket) {
+      throw new Error('Specify either toToken or basket');
+    }
+    const tokens = new TokenRegistryService(getConnection(this.config.rpcUrl));
+    const input = await tokens.resolve(options.fromToken);
+    let output: TokenInfo | undefined;
+    let basket: BasketTarget[] | undefined;
+    if (options.basket) {
+      SchedulerService.validateBasket(options.basket, {
+        strategy: options.strategy,
+        maxPrice: options.maxPrice,
+        minPrice: options.minPrice,
+        usePooledWallet: options.privacy?.pooledWallet,
+      });
+      basket = await tokens.resolveBasket(options.basket);
+    } else {
+      output = await tokens.resolve(options.toToken!);
     }
 
-    if (fromToken === toToken) {
+    if (basket ? basket.some((target) => target.mint === input.mint) : input.mint === output!.mint) {
       throw new Error('Source and destination tokens must be different');
     }
 
-    // Validate frequency
-    const validFrequencies = ['hourly', 'daily', 'weekly', 'monthly'];
-    if (!validFrequencies.includes(options.frequency)) {
-      throw new Error(`Invalid frequency. Supported: ${validFrequencies.join(', ')}`);
+    // A percent-of-balance sell-down needs no smallest sale
+    const sellsShare = options.amountMode?.type === 'percent-of-balance';
+    const amount = parseAmount(options.amount ?? '0');
+    if (!isPositiveAmount(amount) && !(sellsShare && options.amount === undefined)) {
+      throw new Error(options.amount === undefined ? 'amount is required unless amountMode is percent-of-balance' : 'Amount must be a positive number');
+    }
+    if (!fitsDecimals(amount, input.decimals)) {
+      throw new Error(`${input.symbol} has ${input.decimals} decimals: ${amount} can't be spent exactly`);
+    }
+
+    // Validate frequency / cron expression
+    const { frequency, cronExpression } = SchedulerService.resolveTiming(options);
+    SchedulerService.validateJitter(cronExpression, options.timezone, options.timingJitterMinutes, options.amountJitterPct);
+    if (!basket && options.legStaggerMinutes !== undefined) {
+      throw new Error('legStaggerMinutes requires basket');
+    }
+    const legStaggerMinutes = basket
+      ? SchedulerService.resolveLegStagger(cronExpression, options.timezone, options.timingJitterMinutes, options.legStaggerMinutes)
+      : undefined;
+
+    // Validate missed execution policy
+    const validPolicies = ['skip', 'run-once', 'run-all'];
+    if (options.missedExecutionPolicy && !validPolicies.includes(options.missedExecutionPolicy)) {
+      throw new Error(`Invalid missed execution policy. Supported: ${validPolicies.join(', ')}`);
+    }
+
+    if (options.strategy) {
+      StrategyService.validate(options.strategy);
+    }
+    if (options.amountMode) {
+      StrategyService.validateAmountMode(options.amountMode, { strategy: options.strategy, basket: options.basket });
+    }
+    validatePriceGuard(options);
+    if (options.privacy?.pooledWallet && !options.privacy.ephemeral && !options.privacy.zk) {
+      throw new Error('privacy.pooledWallet requires privacy.ephemeral or privacy.zk');
+    }
+    WalletPoolService.validateRotation(options.poolMaxUses, options.poolMaxAgeDays);
+    if (options.lowBalanceWarning !== undefined
+      && !(Number.isInteger(options.lowBalanceWarning) && options.lowBalanceWarning >= 0)) {
+      throw new Error('lowBalanceWarning must be a whole number of executions');
     }
 
     // Create schedule
     const schedule: DCASchedule = {
       id: randomUUID(),
-      fromToken,
-      toToken,
-      amountPerExecution: options.amount,
-      frequency: options.frequency,
+      fromToken: input.symbol,
+      toToken: basket ? basket.map((target) => target.token).join('/') : output!.symbol,
+      fromMint: input.mint,
+      toMint: output?.mint,
+      amountPerExecution: amount,
+      frequency,
+      cronExpression,
+      timezone: options.timezone,
       isPrivate: options.privacy?.arcium ?? false,
       useEphemeral: options.privacy?.ephemeral ?? false,
       useZk: options.privacy?.zk ?? false,
@@ -116,12 +209,27 @@ export class PrivateDCA extends EventEmitter {
       executedCount: 0,
       createdAt: new Date().toISOString(),
       active: true,
+      missedExecutionPolicy: options.missedExecutionPolicy ?? 'skip',
+      maxCatchUpExecutions: options.maxCatchUpExecutions,
+      timingJitterMinutes: options.timingJitterMinutes,
+      amountJitterPct: options.amountJitterPct,
+      strategy: options.strategy?.type === 'fixed' ? undefined : options.strategy,
+      amountMode: options.amountMode?.type === 'fixed' ? undefined : options.amountMode,
+      maxPrice: options.maxPrice,
+      minPrice: options.minPrice,
+      maxPriceImpactPct: options.maxPriceImpactPct,
+      usePooledWallet: options.privacy?.pooledWallet || undefined,
+      poolMaxUses: options.privacy?.pooledWallet ? options.poolMaxUses : undefined,
+      poolMaxAgeDays: options.privacy?.pooledWallet ? options.poolMaxAgeDays : undefined,
+      lowBalanceWarning: options.lowBalanceWarning,
+      basket,
+      legStaggerMinutes,
     };
 
     // Register with scheduler
-    this.schedulerService.addSchedule(schedule, async (s) => {
-      await this.executeSchedule(s);
-    });
+    this.schedulerService.addSchedule(schedule, async (s, executionId) =>
+      this.toExecutionReport(await this.executeSchedule(s, false, executionId))
+    );
 
     // Emit event
     this.emit('schedule:created', {
@@ -154,9 +262,10 @@ export class PrivateDCA extends EventEmitter {
   }
 
   /**
-   * Execute a schedule immediately (for testing or manual execution)
+   * Execute a schedule immediately (for testing or manual execution).
+   * With `dryRun`, simulate instead: the result carries a `dryRun` report and no events fire.
    */
-  async execute(id: string): Promise<ExecutionResult> {
+  async execute(id: string, options: ExecuteOptions = {}): Promise<ExecutionResult> {
     if (!this.initialized) await this.initialize();
 
     const schedules = this.schedulerService.loadSchedules();
@@ -165,9 +274,26 @@ export class PrivateDCA extends EventEmitter {
     if (!schedule) {
       throw new Error(`Schedule not found: ${id}`);
     }
+    if (schedule.rebalance) {
+      throw new Error(`Rebalance schedules run from the CLI: private-dca dca execute --id ${schedule.id}`);
+    }
+
+    if (options.dryRun) {
+      return this.executeLegs(schedule, true);
+    }
 
     try {
-      const result = await this.executeSchedule(schedule);
+      const result = await this.executeLegs(schedule);
+      this.recordManual(schedule, result);
+      // A basket with a failed leg still returns the results of the others
+      if (!result.success) {
+        this.emit('schedule:failed', {
+          type: 'failed',
+          schedule: this.formatSchedule(schedule),
+          error: result.error,
+        } as ScheduleEvent);
+        return result;
+      }
 
       this.emit('schedule:executed', {
         type: 'executed',
@@ -226,9 +352,9 @@ export class PrivateDCA extends EventEmitter {
       throw new Error(`Schedule not found: ${id}`);
     }
 
-    this.schedulerService.addSchedule(schedule, async (s) => {
-      await this.executeSchedule(s);
-    });
+    this.schedulerService.addSchedule(schedule, async (s, executionId) =>
+      this.toExecutionReport(await this.executeSchedule(s, false, executionId))
+    );
 
     const resumed = this.schedulerService.resumeSchedule(schedule.id);
     if (!resumed) {
@@ -254,6 +380,15 @@ export class PrivateDCA extends EventEmitter {
       throw new Error(`Schedule not found: ${id}`);
     }
 
+    // Sweep and close the pooled wallet first (throws, keeping the schedule, if that fails)
+    if (schedule.ephemeralWalletAddress) {
+      await new WalletPoolService(
+        getConnection(this.config.rpcUrl),
+        this.getSigner(),
+        this.schedulerService
+      ).release(schedule);
+    }
+
     const removed = this.schedulerService.removeSchedule(schedule.id);
     if (!removed) {
       throw new Error('Failed to cancel schedule');
@@ -287,16 +422,10 @@ export class PrivateDCA extends EventEmitter {
       results.push({
         scheduleId: schedule.id,
         status: schedule.active ? 'active' : 'paused',
-        totalExecutions: executions.length,
+        totalExecutions: this.schedulerService.countExecutions(schedule.id),
         lastExecution: executions.length > 0 ? executions[executions.length - 1].executedAt : undefined,
         nextExecution: nextExecution?.toISOString(),
-        executions: executions.map(e => ({
-          scheduleId: e.scheduleId,
-          signature: e.signature,
-          success: e.success,
-          error: e.error,
-          executedAt: e.executedAt,
-        })),
+        executions: executions.map(e => this.formatExecution(e)),
       });
     } else {
       for (const schedule of schedules) {
@@ -306,16 +435,10 @@ export class PrivateDCA extends EventEmitter {
         results.push({
           scheduleId: schedule.id,
           status: schedule.active ? 'active' : 'paused',
-          totalExecutions: executions.length,
+          totalExecutions: this.schedulerService.countExecutions(schedule.id),
           lastExecution: executions.length > 0 ? executions[executions.length - 1].executedAt : undefined,
           nextExecution: nextExecution?.toISOString(),
-          executions: executions.map(e => ({
-            scheduleId: e.scheduleId,
-            signature: e.signature,
-            success: e.success,
-            error: e.error,
-            executedAt: e.executedAt,
-          })),
+          executions: executions.map(e => this.formatExecution(e)),
         });
       }
     }
@@ -323,45 +446,236 @@ export class PrivateDCA extends EventEmitter {
     return results;
   }
 
+  /**
+   * Get cost basis, current value and unrealized P&L per schedule
+   */
+  async report(id?: string): Promise<PerformanceReport[]> {
+    if (!this.initialized) await this.initialize();
+
+    let schedules = this.schedulerService.loadSchedules();
+    if (id) {
+      schedules = schedules.filter(s => s.id.startsWith(id));
+      if (schedules.length === 0) {
+        throw new Error(`Schedule not found: ${id}`);
+      }
+    }
+
+    const reportService = new ReportService(getConnection(this.config.rpcUrl));
+    const reports: PerformanceReport[] = [];
+    for (const schedule of schedules) {
+      reports.push(...(await reportService.reportLegs(schedule, this.schedulerService.getExecutions(schedule.id))));
+    }
+    return reports;
+  }
+
+  /**
+   * Internal: The configured signer, or one for the wallet file (loaded once)
+   */
+  private getSigner(): Signer {
+    if (!this.signer) {
+      if (this.config.signer) {
+        this.signer = this.config.signer;
+      } else if (this.config.walletPath) {
+        this.signer = new KeypairSigner(loadKeypair(this.config.walletPath, this.config.passphrase));
+      } else {
+        throw new Error('Either walletPath or signer is required');
+      }
+    }
+    return this.signer;
+  }
+
   /**
    * Internal: Execute a schedule using the shared SwapExecutorService.
    *
    * Now includes all privacy features (ZK, Arcium, screening)
    * that were previously missing from the SDK path.
    */
-  private async executeSchedule(schedule: DCASchedule): Promise<ExecutionResult> {
+  private async executeSchedule(
+    schedule: DCASchedule,
+    dryRun: boolean = false,
+    executionId?: string,
+  ): Promise<ExecutionResult> {
     try {
-      const keypair = loadKeypair(this.config.walletPath);
+      const signer = this.getSigner();
       const connection = getConnection(this.config.rpcUrl);
       const executor = new SwapExecutorService(connection);
+      await new TokenRegistryService(connection).resolveSchedule(schedule);
+
+      // Strategy picks the amount right before the swap
+      const decision = await new StrategyService(connection).decide(
+        schedule,
+        this.schedulerService.getExecutions(schedule.id),
+        signer.publicKey
+      );
+      if (!isPositiveAmount(decision.amount)) {
+        return { success: true, skipped: true, skipReason: decision.reason, inputAmount: '0', strategy: decision };
+      }
+
+      const pool = schedule.usePooledWallet
+        ? new WalletPoolService(connection, signer, this.schedulerService)
+        : undefined;
+      // A dry run must not rotate or create pooled wallets
+      const pooledWallet = pool ? await (dryRun ? pool.peek(schedule) : pool.acquire(schedule)) : undefined;
 
       const result = await executor.execute(
-        keypair,
+        signer,
         {
-          fromToken: schedule.fromToken,
-          toToken: schedule.toToken,
-          amount: schedule.amountPerExecution,
+          fromToken: schedule.fromMint ?? schedule.fromToken,
+          toToken: schedule.toMint ?? schedule.toToken,
+          amount: decision.amount,
           slippageBps: schedule.slippageBps,
           useEphemeral: schedule.useEphemeral ?? false,
           useZk: schedule.useZk ?? false,
           isPrivate: schedule.isPrivate,
           shouldScreen: schedule.screenAddresses,
           rangeApiKey: this.config.rangeApiKey,
+          priceGuard: getPriceGuard(schedule),
+          pooledWallet,
+          dryRun,
+          executionId,
+          scheduleId: schedule.id,
         },
         // No progress callback for SDK -- runs silently
       );
 
+      if (result.skipped) {
+        return { success: true, skipped: true, skipReason: result.skipReason, inputAmount: '0', strategy: decision };
+      }
+
+      if (result.dryRun) {
+        return {
+          success: true,
+          inputAmount: decision.amount,
+          quotedAmount: result.quotedOutputAmount,
+          outputToken: result.outputToken,
+          strategy: decision,
+          dryRun: result.dryRun,
+        };
+      }
+
+      if (pool) {
+        // The swap succeeded; a failed close is retried on cancel
+        await pool.afterExecution(schedule, decision.depleted).catch(() => undefined);
+      }
+
+      const lowBalance = result.preflight && getLowBalanceWarning(
+        schedule,
+        result.preflight.executionsCovered,
+        this.schedulerService.countExecutions(schedule.id)
+      );
+      if (lowBalance) {
+        this.emit('schedule:low-balance', {
+          type: 'low-balance',
+          schedule: this.formatSchedule(schedule),
+          warning: lowBalance,
+        } as ScheduleEvent);
+      }
+
       return {
         success: true,
         signature: result.signature,
+        signatures: result.signatures,
+        inputAmount: decision.amount,
         amount: result.outputAmount,
+        quotedAmount: result.quotedOutputAmount,
+        inputValueUsd: result.inputValueUsd,
         outputToken: result.outputToken,
+        ephemeralAddress: result.ephemeralAddress,
+        costs: result.costs,
+        ephemeralFunding: result.ephemeralFunding,
+        strategy: decision,
       };
     } catch (error: any) {
       throw new Error(`Execution failed: ${error.message}`);
     }
   }
 
+  /**
+   * Internal: Execute a schedule, or each leg of a basket. A failed leg doesn't stop
+   * the others: the result fails with the first error and carries every leg's result.
+   */
+  private async executeLegs(schedule: DCASchedule, dryRun: boolean = false): Promise<ExecutionResult> {
+    if (!schedule.basket) {
+      return this.executeSchedule(schedule, dryRun);
+    }
+
+    const legs: ExecutionResult[] = [];
+    for (const leg of SchedulerService.getLegs(schedule)) {
+      try {
+        legs.push(await this.executeSchedule(leg, dryRun));
+      } catch (error: any) {
+        legs.push({ success: false, error: `${leg.toToken}: ${error.message}`, outputToken: leg.toToken });
+      }
+    }
+    const failed = legs.find((leg) => !leg.success);
+    return { success: !failed, error: failed?.error, legs };
+  }
+
+  /**
+   * Internal: Record the swaps of a manual execution in history, outside the schedule's slots
+   */
+  private recordManual(schedule: DCASchedule, result: ExecutionResult): void {
+    const results = result.legs ?? [result];
+    SchedulerService.getLegs(schedule).forEach((leg, i) => {
+      const swap = results[i];
+      if (!swap?.success || swap.skipped) return;
+      this.schedulerService.recordManualExecution(newExecutionId(), schedule.id, {
+        fromToken: leg.fromToken,
+        toToken: leg.toToken,
+        toMint: leg.toMint,
+        ...this.toExecutionReport(swap),
+      });
+    });
+  }
+
+  /**
+   * Internal: Map an SDK result to what the scheduler records
+   */
+  private toExecutionReport(result: ExecutionResult): ExecutionReport {
+    if (result.skipped) {
+      return { status: 'skipped', skipReason: result.skipReason, inputAmount: '0', strategy: result.strategy };
+    }
+    return {
+      signature: result.signature,
+      signatures: result.signatures,
+      inputAmount: result.inputAmount,
+      outputAmount: result.amount,
+      quotedOutputAmount: result.quotedAmount,
+      inputValueUsd: result.inputValueUsd,
+      ephemeralAddress: result.ephemeralAddress,
+      costs: result.costs,
+      ephemeralFunding: result.ephemeralFunding,
+      strategy: result.strategy,
+    };
+  }
+
+  /**
+   * Format internal execution record to public format
+   */
+  private formatExecution(e: DCAExecution): Execution {
+    return {
+      scheduleId: e.scheduleId,
+      signature: e.signature,
+      signatures: e.signatures,
+      success: e.success,
+      status: e.status,
+      scheduledFor: e.scheduledFor,
+      manual: e.manual,
+      startedAt: e.startedAt,
+      inputAmount: e.inputAmount,
+      outputAmount: e.outputAmount,
+      quotedOutputAmount: e.quotedOutputAmount,
+      inputValueUsd: e.inputValueUsd,
+      ephemeralAddress: e.ephemeralAddress,
+      costs: e.costs,
+      ephemeralFunding: e.ephemeralFunding,
+      strategy: e.strategy,
+      skipReason: e.skipReason,
+      error: e.error,
+      executedAt: e.executedAt,
+    };
+  }
+
   /**
    * Format internal schedule to public format
    */
@@ -370,9 +684,22 @@ export class PrivateDCA extends EventEmitter {
       id: schedule.id,
       fromToken: schedule.fromToken,
       toToken: schedule.toToken,
+      fromMint: schedule.fromMint,
+      toMint: schedule.toMint,
+      basket: schedule.basket?.map(({ token, mint, weight }) => ({ token, mint, weight })),
+      legStaggerMinutes: schedule.legStaggerMinutes,
       amountPerExecution: schedule.amountPerExecution,
       frequency: schedule.frequency,
+      cronExpression: schedule.cronExpression,
+      timezone: schedule.timezone,
+      strategy: schedule.strategy,
+      amountMode: schedule.amountMode,
+      maxPrice: schedule.maxPrice,
+      minPrice: schedule.minPrice,
+      maxPriceImpactPct: schedule.maxPriceImpactPct,
       useEphemeral: schedule.useEphemeral ?? false,
+      usePooledWallet: schedule.usePooledWallet ?? false,
+      pooledWalletAddress: schedule.ephemeralWalletAddress,
       useZk: schedule.useZk ?? false,
       isPrivate: schedule.isPrivate ?? false,
       screenAddresses: schedule.screenAddresses ?? false,
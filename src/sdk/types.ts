@@ -2,24 +2,111 @@
  * Public SDK Types for Private DCA Toolkit
  */
 
+import type { Signer } from '../utils/signer';
+
 export interface DCAConfig {
-  walletPath: string;
+  /** Solana CLI keypair file or encrypted keystore (`private-dca wallet create`); unused when `signer` is set */
+  walletPath?: string;
+  /** Unlocks an encrypted keystore (default: PRIVATE_DCA_PASSPHRASE) */
+  passphrase?: string;
+  /** Signs for the funding wallet instead of a wallet file (e.g. `RemoteSigner`, hardware) */
+  signer?: Signer;
   rpcUrl: string;
   rangeApiKey?: string;
 }
 
 export interface ScheduleOptions {
+  /** Symbol, registered alias or mint address */
   fromToken: string;
-  toToken: string;
-  amount: number;
-  frequency: 'hourly' | 'daily' | 'weekly' | 'monthly';
+  /** Destination token; or `basket` instead */
+  toToken?: string;
+  /** Several destinations by percentage weight (adding up to 100), each bought as a separate swap */
+  basket?: { token: string; weight: number }[];
+  /** Basket: spread the legs over up to N minutes after each slot (default 60, less for frequent schedules) */
+  legStaggerMinutes?: number;
+  /** Exact decimal, e.g. '0.1'; numbers are converted by their shortest form. Optional with a percent-of-balance `amountMode`, where it is the smallest sale */
+  amount?: string | number;
+  /** Sell-down: read each amount from the fromToken balance at fire time; the schedule completes once the balance is used up (default fixed) */
+  amountMode?: AmountModeOptions;
+  /** Built-in frequency (required unless `cron` is given) */
+  frequency?: 'hourly' | 'daily' | 'weekly' | 'monthly';
+  /** Arbitrary 5-field cron expression, e.g. '30 14 * * 1-5' */
+  cron?: string;
+  /** Time of day as 'HH:MM' (default 09:00; hourly uses the minute only) */
+  at?: string;
+  /** Day of week for weekly schedules, 0-6 with Sunday = 0 (default Monday) */
+  dayOfWeek?: number;
+  /** Day of month for monthly schedules, 1-28 (default 1st) */
+  dayOfMonth?: number;
+  /** IANA timezone, e.g. 'Europe/Berlin' (default host time) */
+  timezone?: string;
   privacy?: PrivacyOptions;
   executions?: number;
   slippageBps?: number;
+  /** What to do with slots missed while no scheduler was running (default 'skip') */
+  missedExecutionPolicy?: 'skip' | 'run-once' | 'run-all';
+  /** Cap for 'run-all' catch-up (default 5) */
+  maxCatchUpExecutions?: number;
+  /** Randomize each run by up to ±N minutes around its slot */
+  timingJitterMinutes?: number;
+  /** Randomize each amount by up to ±N percent */
+  amountJitterPct?: number;
+  /** How each execution's amount is chosen (default fixed) */
+  strategy?: StrategyOptions;
+  /** Skip executions quoted above this price (fromToken per 1 toToken) */
+  maxPrice?: number;
+  /** Skip executions quoted below this price (fromToken per 1 toToken) */
+  minPrice?: number;
+  /** Skip executions whose Jupiter price impact exceeds this percentage */
+  maxPriceImpactPct?: number;
+  /** With privacy.pooledWallet: rotate the wallet after this many swaps (default 10) */
+  poolMaxUses?: number;
+  /** With privacy.pooledWallet: rotate the wallet after this many days (default 7) */
+  poolMaxAgeDays?: number;
+  /** Emit `schedule:low-balance` when the wallet covers fewer executions than this (default 3) */
+  lowBalanceWarning?: number;
+}
+
+export interface StrategyOptions {
+  type: 'fixed' | 'value-averaging' | 'dip-weighted';
+  /** Value averaging: USD the position should grow by each period */
+  targetIncrementUsd?: number;
+  /** Dip-weighted: number of past prices in the moving average (default 10) */
+  movingAverageWindow?: number;
+  /** Dip-weighted: multiplier change per 100% below the average (default 2) */
+  sensitivity?: number;
+  /** Smallest amount as a multiple of `amount` (default 0) */
+  minMultiplier?: number;
+  /** Largest amount as a multiple of `amount` (default 3) */
+  maxMultiplier?: number;
+}
+
+export interface AmountModeOptions {
+  type: 'fixed' | 'percent-of-balance' | 'until-depleted';
+  /** percent-of-balance: share of the fromToken balance sold on each run */
+  balancePercent?: number;
+}
+
+export interface StrategyDecision {
+  type: StrategyOptions['type'];
+  baseAmount: string;
+  amount: string;
+  price?: number;
+  movingAverage?: number;
+  multiplier?: number;
+  targetValueUsd?: number;
+  currentValueUsd?: number;
+  /** Sell-down: spendable fromToken balance at fire time */
+  balance?: string;
+  /** Sell-down: nothing is left after this execution */
+  depleted?: boolean;
+  reason?: string;
 }
 
 export interface PrivacyOptions {
   ephemeral?: boolean;
+  /** Reuse one ephemeral wallet across executions (saves ATA rent, links them on-chain) */
+  pooledWallet?: boolean;
   zk?: boolean;
   arcium?: boolean;
   screenAddresses?: boolean;
@@ -29,9 +116,27 @@ export interface Schedule {
   id: string;
   fromToken: string;
   toToken: string;
-  amountPerExecution: number;
-  frequency: 'hourly' | 'daily' | 'weekly' | 'monthly';
+  /** Absent on older schedules: the built-in mint of fromToken */
+  fromMint?: string;
+  /** Absent on basket schedules */
+  toMint?: string;
+  /** Basket schedules: the targets; `toToken` then names them all */
+  basket?: { token: string; mint: string; weight: number }[];
+  legStaggerMinutes?: number;
+  /** Exact decimal in token units */
+  amountPerExecution: string;
+  frequency: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'custom';
+  cronExpression?: string;
+  timezone?: string;
+  strategy?: StrategyOptions;
+  amountMode?: AmountModeOptions;
+  maxPrice?: number;
+  minPrice?: number;
+  maxPriceImpactPct?: number;
   useEphemeral: boolean;
+  usePooledWallet: boolean;
+  /** Current pooled ephemeral wallet, if any */
+  pooledWalletAddress?: string;
   useZk: boolean;
   isPrivate: boolean;
   screenAddresses: boolean;
@@ -42,20 +147,127 @@ export interface Schedule {
   createdAt: string;
 }
 
+export interface ExecutionSignatures {
+  zkDeposit?: string;
+  zkWithdraw?: string;
+  funding?: string;
+  swap?: string;
+  sendOutput?: string;
+  closeAccounts?: string;
+  recoverSol?: string;
+  /** Token-2022 confidential balance deposit of the output (`--private`) */
+  confidentialDeposit?: string;
+}
+
+export interface ExecutionCosts {
+  /** Network + priority fees */
+  feesSol: number;
+  /** Rent locked in token accounts the execution created */
+  rentSol: number;
+  /** Rent returned by closing the ephemeral's token accounts */
+  reclaimedRentSol?: number;
+  /** SOL left behind in the discarded ephemeral wallet */
+  unrecoveredSol: number;
+  totalSol: number;
+}
+
+/**
+ * An ephemeral wallet's fee reserve vs. what its transactions spent
+ */
+export interface EphemeralFunding {
+  /** Fees + rent its transactions were expected to take */
+  estimatedSol: number;
+  /** What it held for them (estimate plus margin and wSOL rent) */
+  reserveSol: number;
+  /** Measured from the confirmed transactions */
+  spentSol?: number;
+  /** reserveSol - spentSol; negative when it was underfunded */
+  surplusSol?: number;
+}
+
 export interface Execution {
   scheduleId: string;
   signature?: string;
+  signatures?: ExecutionSignatures;
   success: boolean;
+  status?: 'success' | 'failed' | 'skipped' | 'missed';
+  scheduledFor?: string;
+  /** Run by hand (`dca execute`) rather than for a slot */
+  manual?: boolean;
+  startedAt?: string;
+  inputAmount?: string;
+  /** Actual output when measurable, otherwise the quote */
+  outputAmount?: string;
+  quotedOutputAmount?: string;
+  /** USD value of inputAmount at execution time */
+  inputValueUsd?: number;
+  ephemeralAddress?: string;
+  costs?: ExecutionCosts;
+  ephemeralFunding?: EphemeralFunding;
+  strategy?: StrategyDecision;
+  skipReason?: string;
   error?: string;
   executedAt: string;
 }
 
 export interface ExecutionResult {
   success: boolean;
+  /** True when the strategy or price guard decided not to buy this period */
+  skipped?: boolean;
+  skipReason?: string;
   signature?: string;
+  signatures?: ExecutionSignatures;
   error?: string;
-  amount?: number;
+  /** Input amount chosen by the strategy */
+  inputAmount?: string;
+  /** Output received (actual when measurable, otherwise quoted) */
+  amount?: string;
+  quotedAmount?: string;
+  /** USD value of inputAmount at execution time */
+  inputValueUsd?: number;
   outputToken?: string;
+  ephemeralAddress?: string;
+  costs?: ExecutionCosts;
+  ephemeralFunding?: EphemeralFunding;
+  strategy?: StrategyDecision;
+  /** Set by `execute(id, { dryRun: true })`: nothing was signed or sent */
+  dryRun?: DryRunReport;
+  /** Basket schedules: one result per target; `success` only when every leg succeeded */
+  legs?: ExecutionResult[];
+}
+
+export interface ExecuteOptions {
+  /** Build and simulate every transaction instead of signing and sending */
+  dryRun?: boolean;
+}
+
+export interface PlannedTransaction {
+  phase: string;
+  description: string;
+  feePayer: string;
+  /** Addresses whose signatures it needs */
+  signers: string[];
+  /** False when it depends on an earlier transaction landing (fee and rent are estimated) */
+  simulated: boolean;
+  unitsConsumed?: number;
+  feeSol: number;
+  /** Rent for token accounts it creates */
+  rentSol: number;
+  /** Why the simulation failed */
+  error?: string;
+}
+
+export interface DryRunReport {
+  transactions: PlannedTransaction[];
+  expectedOutput: string;
+  priceImpactPct: number;
+  /** SOL sent to the ephemeral wallet for its fees and rent */
+  ephemeralFundingSol?: number;
+  feesSol: number;
+  rentSol: number;
+  totalSol: number;
+  /** Problems a real run would hit (balance, failed simulations, fee reserve) */
+  warnings: string[];
 }
 
 export interface ScheduleHistory {
@@ -67,11 +279,40 @@ export interface ScheduleHistory {
   executions: Execution[];
 }
 
-export type ScheduleEventType = 'created' | 'executed' | 'paused' | 'resumed' | 'cancelled' | 'failed';
+/**
+ * Cost basis and P&L for a schedule. Prices are fromToken per 1 toToken.
+ */
+export interface PerformanceReport {
+  scheduleId: string;
+  fromToken: string;
+  toToken: string;
+  executions: number;
+  /** Successful executions recorded before amounts were tracked (excluded) */
+  untrackedExecutions: number;
+  firstExecution?: string;
+  lastExecution?: string;
+  totalSpent: number;
+  totalAcquired: number;
+  averageEntryPrice?: number;
+  /** Valuation fields are undefined when Jupiter could not quote */
+  currentPrice?: number;
+  currentValue?: number;
+  unrealizedPnl?: number;
+  unrealizedPnlPct?: number;
+  /** SOL fees + rent + unrecovered ephemeral dust */
+  feesSol: number;
+  /** feesSol in fromToken */
+  feeDrag?: number;
+  feeDragPct?: number;
+}
+
+export type ScheduleEventType = 'created' | 'executed' | 'paused' | 'resumed' | 'cancelled' | 'failed' | 'low-balance';
 
 export interface ScheduleEvent {
   type: ScheduleEventType;
   schedule: Schedule;
   execution?: Execution;
   error?: string;
+  /** low-balance: how many executions the wallet still covers */
+  warning?: string;
 }
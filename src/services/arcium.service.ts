@@ -1,5 +1,6 @@
 import { Connection, Keypair, PublicKey } from '@solana/web3.js';
 import { randomBytes } from 'crypto';
+import { DecimalAmount } from '../types/index';
 
 interface ConfidentialTransferResult {
   signature: string;
@@ -17,7 +18,7 @@ interface ConfidentialBalance {
  * REAL Arcium Service - Direct SDK integration, no simulations
  */
 export class ArciumSimulated {
-  static async simulateEncrypt(amount: number) {
+  static async simulateEncrypt(amount: DecimalAmount) {
     return {
       message: `Encrypted ${amount}`,
       ciphertext: `[RESCUE: 0x${Buffer.alloc(32).toString('hex')}]`,
@@ -59,7 +60,7 @@ export class ArciumService {
     mint: PublicKey,
     sender: Keypair,
     recipient: PublicKey,
-    amount: number
+    rawAmount: bigint
   ): Promise<ConfidentialTransferResult> {
     await this.initialize();
 
@@ -69,7 +70,7 @@ export class ArciumService {
 
     try {
       const nonce = randomBytes(16);
-      const plaintext = [BigInt(Math.floor(amount * 1e9))];
+      const plaintext = [rawAmount];
       const encryptionKey = randomBytes(32);
       const cipher = new this.RescueCipherClass(encryptionKey);
       const ciphertext = cipher.encrypt(plaintext, nonce);
@@ -105,14 +106,17 @@ export class ArciumService {
     };
   }
 
-  encryptAmount(amount: number): string | null {
+  /**
+   * @param rawAmount - Amount in the token's base units
+   */
+  encryptAmount(rawAmount: bigint): string | null {
     if (!this.isInitialized || !this.RescueCipherClass) {
       return null;
     }
 
     try {
       const nonce = randomBytes(16);
-      const plaintext = [BigInt(Math.floor(amount * 1e9))];
+      const plaintext = [rawAmount];
       const encryptionKey = randomBytes(32);
       const cipher = new this.RescueCipherClass(encryptionKey);
       const ciphertext = cipher.encrypt(plaintext, nonce);
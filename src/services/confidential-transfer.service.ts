@@ -0,0 +1,361 @@
+/**
+ * Confidential Transfer Service
+ *
+ * On-chain confidential balances for Token-2022 mints with the confidential
+ * transfer extension, the real backend for `--private` where the output mint
+ * supports it. The swap output is deposited from the owner's public token
+ * balance into its encrypted (ElGamal) balance; transfers out of it hide
+ * their amounts.
+ *
+ * Proofs come from the Solana ZK SDK (WASM, dynamically imported). The
+ * ElGamal and AE keys are derived from wallet signatures over the token
+ * account address the way the spl-token CLI derives them, so the balance
+ * can be withdrawn or transferred with it.
+ */
+
+import * as crypto from 'crypto';
+import {
+  Connection,
+  PublicKey,
+  SYSVAR_INSTRUCTIONS_PUBKEY,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TokenInstruction,
+  createReallocateInstruction,
+  getAccount,
+  getExtensionData,
+} from '@solana/spl-token';
+import { TokenMintInfo, TokenProgramService } from './token-program.service';
+import { Signer } from '../utils/signer';
+import { toBaseUnits } from '../utils/amount';
+import { DecimalAmount } from '../types/index';
+
+// Solana ZK SDK types (dynamically imported WASM module)
+// Types match the real SDK at @solana/zk-sdk/dist/node/index.d.ts
+interface ElGamalPubkey {
+  toBytes(): Uint8Array;
+}
+
+interface ElGamalKeypair {
+  pubkey(): ElGamalPubkey;
+}
+
+interface AeCiphertext {
+  toBytes(): Uint8Array;
+}
+
+interface AeKey {
+  encrypt(amount: bigint): AeCiphertext;
+}
+
+interface ZkSdk {
+  ElGamalSecretKey: { fromBytes(bytes: Uint8Array): unknown };
+  ElGamalKeypair: { fromSecretKey(secretKey: unknown): ElGamalKeypair };
+  AeKey: { fromBytes(bytes: Uint8Array): AeKey };
+  AeCiphertext: { fromBytes(bytes: Uint8Array): { decrypt(key: AeKey): bigint | undefined } | undefined };
+  PubkeyValidityProofData: new (keypair: ElGamalKeypair) => { toBytes(): Uint8Array };
+}
+
+export const ZK_ELGAMAL_PROOF_PROGRAM_ID = new PublicKey('ZkE1Gama1Proof11111111111111111111111111111');
+
+/** Pending credits an account accepts before they must be applied (spl-token CLI default) */
+const MAXIMUM_PENDING_BALANCE_CREDIT_COUNTER = BigInt(65536);
+
+// ConfidentialTransferExtension sub-instructions
+const CONFIGURE_ACCOUNT = 2;
+const DEPOSIT = 5;
+const APPLY_PENDING_BALANCE = 8;
+
+// ZK ElGamal proof program instruction
+const VERIFY_PUBKEY_VALIDITY = 4;
+
+/** Order of the ed25519 group (reduces hashes to ElGamal secret scalars) */
+const CURVE_ORDER = (BigInt(1) << BigInt(252)) + BigInt('27742317777372353535851937790883648493');
+
+export interface ConfidentialDepositResult {
+  /** Token account holding the confidential balance */
+  account: string;
+  rawAmount: string;
+  /** Reallocate + configure transaction, when the account wasn't configured yet */
+  configureSignature?: string;
+  signature: string;
+  /**
+   * Whether the deposit was applied to the available balance. Other pending
+   * credits (confidential transfers received) can't be accounted for without
+   * decrypting them, so the deposit then waits in the pending balance.
+   */
+  applied: boolean;
+}
+
+/**
+ * State of a token account's ConfidentialTransferAccount extension that deposits depend on
+ */
+interface ConfidentialAccountState {
+  elgamalPubkey: Buffer;
+  decryptableAvailableBalance: Buffer;
+  pendingBalanceCreditCounter: bigint;
+}
+
+export class ConfidentialTransferService {
+  private connection: Connection;
+  private tokenPrograms: TokenProgramService;
+  private sdk: ZkSdk | null = null;
+
+  constructor(connection: Connection, tokenPrograms: TokenProgramService = new TokenProgramService(connection)) {
+    this.connection = connection;
+    this.tokenPrograms = tokenPrograms;
+  }
+
+  /**
+   * Whether deposits into confidential balances work for this mint without an authority's approval
+   */
+  static supportsMint(mint: TokenMintInfo): boolean {
+    return mint.programId.equals(TOKEN_2022_PROGRAM_ID) && mint.confidentialTransfer?.autoApproveNewAccounts === true;
+  }
+
+  /**
+   * Check if the Solana ZK SDK can be loaded
+   */
+  async checkAvailability(): Promise<{ available: boolean; error?: string }> {
+    try {
+      await this.loadSdk();
+      return { available: true };
+    } catch (error: any) {
+      return {
+        available: false,
+        error: `Solana ZK SDK not installed: ${error.message}. Run: npm install @solana/zk-sdk`,
+      };
+    }
+  }
+
+  /**
+   * Move tokens from the owner's public balance into its confidential balance,
+   * configuring the token account for confidential transfers first if needed
+   *
+   * @param owner - Owner of the token account (signs and pays the fees)
+   * @param amount - Tokens to deposit (in token units, not raw)
+   * @throws Error if the mint doesn't support it, or the account was configured with other keys
+   */
+  async deposit(owner: Signer, mintAddress: string, amount: DecimalAmount): Promise<ConfidentialDepositResult> {
+    const mint = await this.tokenPrograms.getMint(mintAddress);
+    if (!ConfidentialTransferService.supportsMint(mint)) {
+      throw new Error(`Mint ${mintAddress} does not support confidential transfers without approval`);
+    }
+    const zk = await this.loadSdk();
+
+    const account = await this.tokenPrograms.getAssociatedAddress(mint, owner.publicKey);
+    const { elgamal, ae } = await this.deriveKeys(zk, owner, account);
+    const elgamalPubkey = Buffer.from(elgamal.pubkey().toBytes());
+
+    let state = await this.getAccountState(account);
+    let configureSignature: string | undefined;
+    if (!state) {
+      const proof = new zk.PubkeyValidityProofData(elgamal);
+      const configure = new Transaction().add(
+        createReallocateInstruction(
+          account,
+          owner.publicKey,
+          [ExtensionType.ConfidentialTransferAccount],
+          owner.publicKey,
+          [],
+          mint.programId
+        ),
+        // The pubkey validity proof follows as the next instruction
+        createConfigureAccountInstruction(account, mint, owner.publicKey, ae.encrypt(BigInt(0)).toBytes()),
+        new TransactionInstruction({
+          programId: ZK_ELGAMAL_PROOF_PROGRAM_ID,
+          keys: [],
+          data: Buffer.concat([Buffer.from([VERIFY_PUBKEY_VALIDITY]), Buffer.from(proof.toBytes())]),
+        })
+      );
+      configureSignature = await this.send(configure, owner);
+      state = {
+        elgamalPubkey,
+        decryptableAvailableBalance: Buffer.from(ae.encrypt(BigInt(0)).toBytes()),
+        pendingBalanceCreditCounter: BigInt(0),
+      };
+    } else if (!state.elgamalPubkey.equals(elgamalPubkey)) {
+      throw new Error(`Token account ${account.toBase58()} is configured for confidential transfers with another key`);
+    }
+
+    const rawAmount = toBaseUnits(amount, mint.decimals);
+    const transaction = new Transaction().add(
+      createDepositInstruction(account, mint, owner.publicKey, rawAmount)
+    );
+
+    // With nothing else pending, the new available balance is known without decrypting anything
+    const applied = state.pendingBalanceCreditCounter === BigInt(0);
+    if (applied) {
+      const available = zk.AeCiphertext.fromBytes(state.decryptableAvailableBalance)?.decrypt(ae);
+      if (available === undefined) {
+        throw new Error(`Cannot decrypt the confidential balance of ${account.toBase58()}`);
+      }
+      transaction.add(
+        createApplyPendingBalanceInstruction(account, owner.publicKey, BigInt(1), ae.encrypt(available + rawAmount).toBytes())
+      );
+    }
+    const signature = await this.send(transaction, owner);
+
+    return {
+      account: account.toBase58(),
+      rawAmount: rawAmount.toString(),
+      configureSignature,
+      signature,
+      applied,
+    };
+  }
+
+  private async loadSdk(): Promise<ZkSdk> {
+    if (!this.sdk) {
+      // @ts-ignore - the SDK's subpath exports need a newer moduleResolution for its types
+      this.sdk = (await import('@solana/zk-sdk/node')) as unknown as ZkSdk;
+    }
+    return this.sdk;
+  }
+
+  /**
+   * ElGamal keypair and AE key for a token account, from the owner's signatures
+   * over `"ElGamalSecretKey" | account` and `"AeKey" | account`
+   */
+  private async deriveKeys(zk: ZkSdk, owner: Signer, account: PublicKey): Promise<{ elgamal: ElGamalKeypair; ae: AeKey }> {
+    const seed = async (label: string) => {
+      const signature = await owner.signMessage(Buffer.concat([Buffer.from(label), account.toBuffer()]));
+      return crypto.createHash('sha3-512').update(signature).digest();
+    };
+
+    // Hash to a scalar: the 64-byte digest as a little-endian integer, reduced mod the group order
+    const digest = await seed('ElGamalSecretKey');
+    let scalar = BigInt(`0x${Buffer.from(digest).reverse().toString('hex')}`) % CURVE_ORDER;
+    const secret = Buffer.alloc(32);
+    for (let i = 0; i < 32; i++) {
+      secret[i] = Number(scalar & BigInt(0xff));
+      scalar >>= BigInt(8);
+    }
+
+    return {
+      elgamal: zk.ElGamalKeypair.fromSecretKey(zk.ElGamalSecretKey.fromBytes(secret)),
+      ae: zk.AeKey.fromBytes((await seed('AeKey')).subarray(0, 16)),
+    };
+  }
+
+  /**
+   * The account's confidential transfer state, or null if it isn't configured
+   */
+  private async getAccountState(account: PublicKey): Promise<ConfidentialAccountState | null> {
+    let tokenAccount;
+    try {
+      tokenAccount = await getAccount(this.connection, account, 'confirmed', TOKEN_2022_PROGRAM_ID);
+    } catch {
+      throw new Error(`Token account ${account.toBase58()} not found`);
+    }
+    const data = getExtensionData(ExtensionType.ConfidentialTransferAccount, tokenAccount.tlvData);
+    if (!data) return null;
+
+    // approved | ElGamal pubkey | pending lo | pending hi | available | decryptable available |
+    // allow confidential credits | allow non-confidential credits | pending balance credit counter | ...
+    return {
+      elgamalPubkey: data.subarray(1, 33),
+      decryptableAvailableBalance: data.subarray(225, 261),
+      pendingBalanceCreditCounter: data.readBigUInt64LE(263),
+    };
+  }
+
+  private async send(transaction: Transaction, owner: Signer): Promise<string> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = owner.publicKey;
+    await owner.signTransaction(transaction);
+
+    const signature = await this.connection.sendRawTransaction(transaction.serialize(), {
+      skipPreflight: false,
+      maxRetries: 3,
+    });
+    await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    return signature;
+  }
+}
+
+function confidentialTransferData(instruction: number, ...fields: Buffer[]): Buffer {
+  return Buffer.concat([Buffer.from([TokenInstruction.ConfidentialTransferExtension, instruction]), ...fields]);
+}
+
+function u64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+}
+
+/**
+ * ConfigureAccount, reading its pubkey validity proof from the next instruction
+ */
+function createConfigureAccountInstruction(
+  account: PublicKey,
+  mint: TokenMintInfo,
+  owner: PublicKey,
+  decryptableZeroBalance: Uint8Array
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: mint.programId,
+    keys: [
+      { pubkey: account, isSigner: false, isWritable: true },
+      { pubkey: mint.address, isSigner: false, isWritable: false },
+      { pubkey: SYSVAR_INSTRUCTIONS_PUBKEY, isSigner: false, isWritable: false },
+      { pubkey: owner, isSigner: true, isWritable: false },
+    ],
+    data: confidentialTransferData(
+      CONFIGURE_ACCOUNT,
+      Buffer.from(decryptableZeroBalance),
+      u64(MAXIMUM_PENDING_BALANCE_CREDIT_COUNTER),
+      Buffer.from([1]) // proof instruction offset
+    ),
+  });
+}
+
+/**
+ * Deposit from the public balance into the pending confidential balance
+ */
+function createDepositInstruction(
+  account: PublicKey,
+  mint: TokenMintInfo,
+  owner: PublicKey,
+  rawAmount: bigint
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: mint.programId,
+    keys: [
+      { pubkey: account, isSigner: false, isWritable: true },
+      { pubkey: mint.address, isSigner: false, isWritable: false },
+      { pubkey: owner, isSigner: true, isWritable: false },
+    ],
+    data: confidentialTransferData(DEPOSIT, u64(rawAmount), Buffer.from([mint.decimals])),
+  });
+}
+
+/**
+ * Apply the pending balance to the available balance
+ *
+ * @param expectedCreditCounter - Pending credits the new decryptable balance accounts for
+ */
+function createApplyPendingBalanceInstruction(
+  account: PublicKey,
+  owner: PublicKey,
+  expectedCreditCounter: bigint,
+  newDecryptableAvailableBalance: Uint8Array
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: TOKEN_2022_PROGRAM_ID,
+    keys: [
+      { pubkey: account, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: true, isWritable: false },
+    ],
+    data: confidentialTransferData(
+      APPLY_PENDING_BALANCE,
+      u64(expectedCreditCounter),
+      Buffer.from(newDecryptableAvailableBalance)
+    ),
+  });
+}
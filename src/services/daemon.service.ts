@@ -0,0 +1,195 @@
+/**
+ * Daemon Service
+ *
+ * Keeps DCA schedules firing after the CLI exits. `dca schedule` only writes
+ * to ~/.private-dca/schedules.json; the daemon restores those schedules into
+ * SchedulerService cron tasks, watches the file for changes made by other
+ * CLI invocations, and holds a PID lock so two daemons never double-fire.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SchedulerService } from './scheduler.service';
+import { DCASchedule, ExecutionReport } from '../types/index';
+
+export type ScheduleExecutor = (schedule: DCASchedule, executionId: string) => Promise<ExecutionReport | void>;
+
+export interface DaemonStatus {
+  running: boolean;
+  pid?: number;
+  startedAt?: string;
+}
+
+interface PidFileContents {
+  pid: number;
+  startedAt: string;
+}
+
+export class DaemonService {
+  private scheduler: SchedulerService;
+  private executor: ScheduleExecutor;
+  private pidFile: string;
+  private inFlight: Set<Promise<void>> = new Set();
+  private running = false;
+  private restoring: Promise<void> = Promise.resolve();
+  private pollIntervalMs: number;
+
+  constructor(
+    scheduler: SchedulerService,
+    executor: ScheduleExecutor,
+    dataDir: string = path.join(os.homedir(), '.private-dca'),
+    pollIntervalMs: number = 2000
+  ) {
+    this.scheduler = scheduler;
+    this.executor = executor;
+    this.pidFile = DaemonService.getPidFilePath(dataDir);
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  static getPidFilePath(dataDir: string = path.join(os.homedir(), '.private-dca')): string {
+    return path.join(dataDir, 'daemon.pid');
+  }
+
+  /**
+   * Read the PID file and check whether the recorded process is still alive
+   */
+  static getStatus(dataDir?: string): DaemonStatus {
+    const pidFile = DaemonService.getPidFilePath(dataDir);
+    const contents = DaemonService.readPidFile(pidFile);
+    if (!contents) {
+      return { running: false };
+    }
+
+    if (!DaemonService.isProcessAlive(contents.pid)) {
+      return { running: false, pid: contents.pid, startedAt: contents.startedAt };
+    }
+
+    return { running: true, pid: contents.pid, startedAt: contents.startedAt };
+  }
+
+  private static readPidFile(pidFile: string): PidFileContents | null {
+    try {
+      if (!fs.existsSync(pidFile)) return null;
+      const data = JSON.parse(fs.readFileSync(pidFile, 'utf-8'));
+      if (typeof data.pid !== 'number') return null;
+      return data;
+    } catch {
+      return null;
+    }
+  }
+
+  private static isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error: any) {
+      // EPERM means the process exists but belongs to another user
+      return error.code === 'EPERM';
+    }
+  }
+
+  /**
+   * Acquire the PID lock. Stale lock files left by a crashed daemon are replaced.
+   * @throws Error if another daemon is already running
+   */
+  acquireLock(): void {
+    const contents: PidFileContents = {
+      pid: process.pid,
+      startedAt: new Date().toISOString(),
+    };
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        fs.writeFileSync(this.pidFile, JSON.stringify(contents, null, 2), { flag: 'wx' });
+        return;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+
+        const existing = DaemonService.readPidFile(this.pidFile);
+        if (existing && existing.pid !== process.pid && DaemonService.isProcessAlive(existing.pid)) {
+          throw new Error(`Daemon already running (PID ${existing.pid})`);
+        }
+
+        // Stale lock: previous daemon died without cleaning up
+        fs.unlinkSync(this.pidFile);
+      }
+    }
+
+    throw new Error(`Failed to acquire daemon lock: ${this.pidFile}`);
+  }
+
+  /**
+   * Release the PID lock if it is still ours
+   */
+  releaseLock(): void {
+    const existing = DaemonService.readPidFile(this.pidFile);
+    if (existing && existing.pid === process.pid) {
+      fs.unlinkSync(this.pidFile);
+    }
+  }
+
+  /**
+   * Acquire the lock, restore schedules and start watching the schedules file
+   */
+  start(): void {
+    if (this.running) return;
+
+    this.acquireLock();
+    this.running = true;
+
+    // Restoring also runs catch-up executions for slots missed while stopped
+    this.restoring = this.scheduler.restoreSchedules(this.runTracked);
+
+    // watchFile (stat polling) survives the file being rewritten or not yet existing
+    fs.watchFile(
+      this.scheduler.getSchedulesFilePath(),
+      { interval: this.pollIntervalMs },
+      () => this.reload()
+    );
+  }
+
+  /**
+   * Re-read the schedules file and reconcile running cron tasks
+   */
+  reload(): void {
+    if (!this.running) return;
+    this.scheduler.syncSchedules(this.runTracked);
+  }
+
+  /**
+   * Number of executions currently in progress
+   */
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Stop firing new executions, wait for in-flight swaps, then release the lock
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    fs.unwatchFile(this.scheduler.getSchedulesFilePath());
+    this.scheduler.stopAll();
+
+    await Promise.allSettled([this.restoring, ...Array.from(this.inFlight)]);
+    this.releaseLock();
+  }
+
+  /**
+   * Wrap the executor so in-flight executions can be awaited on shutdown
+   */
+  private runTracked = (schedule: DCASchedule, executionId: string): Promise<ExecutionReport | void> => {
+    const execution = this.executor(schedule, executionId);
+    const tracked = execution.then(
+      () => undefined,
+      () => undefined
+    );
+    this.inFlight.add(tracked);
+    tracked.finally(() => this.inFlight.delete(tracked));
+    // Return the original promise so SchedulerService records success/failure
+    return execution;
+  };
+}
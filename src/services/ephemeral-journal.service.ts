@@ -0,0 +1,135 @@
+/**
+ * Ephemeral Journal Service
+ *
+ * Ephemeral keypairs only live in memory, so a crash between funding an
+ * ephemeral wallet and sweeping it strands the funds. Each ephemeral secret
+ * is written here -- encrypted with a key derived from the owner's wallet --
+ * before any funds move, steps are marked as the swap progresses, and the
+ * entry is deleted once the ephemeral is empty. `private-dca recover` sweeps
+ * whatever is left in unfinished entries.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { Keypair } from '@solana/web3.js';
+import { Signer } from '../utils/signer';
+import { SealedSecret, sealWithWallet, openWithWallet, writePrivateFile } from '../utils/secure-store';
+
+export type JournalStep = 'funded' | 'swapped' | 'output-sent' | 'recovered';
+
+export interface JournalEntry extends SealedSecret {
+  id: string;
+  owner: string; // Main wallet public key
+  publicKey: string; // Ephemeral public key
+  purpose: 'swap' | 'zk-withdraw';
+  createdAt: string;
+  steps: JournalStep[];
+}
+
+const JOURNAL_FILE = 'ephemeral-journal.json';
+const HKDF_INFO = 'private-dca ephemeral journal v1';
+
+export class EphemeralJournalService {
+  private owner: Signer;
+  private journalFile: string;
+
+  constructor(owner: Signer, dataDir: string = path.join(os.homedir(), '.private-dca')) {
+    this.owner = owner;
+    this.journalFile = path.join(dataDir, JOURNAL_FILE);
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Persist an ephemeral secret. Must be called before the ephemeral is funded.
+   * @returns Journal entry ID
+   */
+  async record(ephemeral: Keypair, purpose: JournalEntry['purpose'] = 'swap'): Promise<string> {
+    const entry: JournalEntry = {
+      id: crypto.randomUUID(),
+      owner: this.owner.publicKey.toBase58(),
+      publicKey: ephemeral.publicKey.toBase58(),
+      purpose,
+      createdAt: new Date().toISOString(),
+      steps: [],
+      ...(await sealWithWallet(this.owner, ephemeral.secretKey, HKDF_INFO)),
+    };
+
+    const entries = this.load();
+    entries.push(entry);
+    this.save(entries);
+    return entry.id;
+  }
+
+  /**
+   * Mark a pipeline step as done for an entry
+   */
+  markStep(entryId: string, step: JournalStep): void {
+    const entries = this.load();
+    const entry = entries.find((e) => e.id === entryId);
+    if (!entry || entry.steps.includes(step)) return;
+    entry.steps.push(step);
+    this.save(entries);
+  }
+
+  /**
+   * Forget an entry once its ephemeral holds nothing worth recovering
+   */
+  complete(entryId: string): void {
+    const entries = this.load();
+    const remaining = entries.filter((e) => e.id !== entryId);
+    if (remaining.length !== entries.length) {
+      this.save(remaining);
+    }
+  }
+
+  /**
+   * Unfinished entries belonging to this owner (other wallets' entries are left alone)
+   */
+  getUnfinished(): JournalEntry[] {
+    const owner = this.owner.publicKey.toBase58();
+    return this.load().filter((e) => e.owner === owner);
+  }
+
+  /**
+   * Decrypt an entry's ephemeral keypair
+   * @throws Error if the entry belongs to another wallet or was tampered with
+   */
+  async decrypt(entry: JournalEntry): Promise<Keypair> {
+    if (entry.owner !== this.owner.publicKey.toBase58()) {
+      throw new Error(`Journal entry ${entry.id} belongs to another wallet (${entry.owner})`);
+    }
+
+    const secretKey = await openWithWallet(this.owner, entry, HKDF_INFO, (resealed) =>
+      this.save(this.load().map((e) => (e.id === entry.id ? { ...e, ...resealed } : e)))
+    );
+    const keypair = Keypair.fromSecretKey(new Uint8Array(secretKey));
+    if (keypair.publicKey.toBase58() !== entry.publicKey) {
+      throw new Error(`Journal entry ${entry.id} does not match its public key`);
+    }
+    return keypair;
+  }
+
+  getJournalFilePath(): string {
+    return this.journalFile;
+  }
+
+  private load(): JournalEntry[] {
+    try {
+      if (fs.existsSync(this.journalFile)) {
+        return JSON.parse(fs.readFileSync(this.journalFile, 'utf-8'));
+      }
+    } catch (error) {
+      // A corrupt journal must not be silently overwritten: it may hold the only copy of a key
+      throw new Error(`Failed to read ephemeral journal ${this.journalFile}: ${(error as Error).message}`);
+    }
+    return [];
+  }
+
+  private save(entries: JournalEntry[]): void {
+    writePrivateFile(this.journalFile, JSON.stringify(entries, null, 2));
+  }
+}
@@ -5,70 +5,193 @@ import {
   Transaction,
   SystemProgram,
   LAMPORTS_PER_SOL,
+  ComputeBudgetProgram,
+  VersionedMessage,
+  VersionedTransaction,
 } from '@solana/web3.js';
 import {
-  getAssociatedTokenAddress,
+  ACCOUNT_SIZE,
   createAssociatedTokenAccountInstruction,
-  createTransferInstruction,
   getAccount,
   TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
 } from '@solana/spl-token';
-import { TOKEN_DECIMALS, TOKEN_MINTS } from '../types/index';
+import { DecimalAmount, SOL_DECIMALS, SOL_MINT } from '../types/index';
 import { HeliusService } from './helius.service';
+import { TokenProgramService } from './token-program.service';
+import { TokenRegistryService } from './token-registry.service';
+import { PoolKeystore } from './pool-keystore.service';
+import { Signer, KeypairSigner } from '../utils/signer';
+import { fromBaseUnits, isPositiveAmount, toBaseUnits } from '../utils/amount';
 
 interface EphemeralWallet {
   keypair: Keypair;
   publicKey: string;
 }
 
+interface PooledWallet extends EphemeralWallet {
+  isNew: boolean;
+}
+
 interface FundingResult {
   signature: string;
-  solAmount: number;
-  tokenAmount?: number;
+  solAmount: DecimalAmount;
+  tokenAmount?: DecimalAmount;
   tokenMint?: string;
 }
 
 interface TransferResult {
   signature: string;
-  amount: number;
+  amount: DecimalAmount;
   mint: string;
   destination: string;
+  /** Token-2022 transfer fee withheld from what the destination received */
+  fee?: DecimalAmount;
+}
+
+/**
+ * A token account held by a wallet, under either token program
+ */
+export interface TokenHolding {
+  account: PublicKey;
+  mint: string;
+  programId: PublicKey;
+  rawAmount: string;
+  lamports: number;
+}
+
+export interface SweepResult {
+  tokens: Array<{ mint: string; rawAmount: string; signature: string }>;
+  closedAccounts: number;
+  solSignature: string | null;
+}
+
+export interface CloseAccountsResult {
+  signature: string;
+  /** Rent each closed account returned (wrapped SOL it held is not counted) */
+  accounts: Array<{ mint: string; rentLamports: number }>;
+}
+
+/**
+ * What an ephemeral wallet will pay for, checked before it is funded
+ */
+export interface FundingNeeds {
+  /** Existing (pooled) wallet to check for token accounts; omitted for a fresh one, which has none */
+  ephemeral?: PublicKey;
+  destination: PublicKey;
+  inputMint: string;
+  outputMint: string;
+  /** Jupiter swap transaction for the route, read for its compute budget */
+  swapTransaction: VersionedTransaction;
 }
 
+/**
+ * SOL an ephemeral wallet needs for its own transactions (swap, output transfer, SOL recovery)
+ */
+export interface FundingEstimate {
+  swapFeeLamports: number;
+  transferFeeLamports: number;
+  /** Closing a fresh ephemeral's token accounts before recovery (none for pooled wallets) */
+  closeFeeLamports: number;
+  recoveryFeeLamports: number;
+  /** Token accounts the ephemeral pays for and leaves open: the destination's, and a pooled wallet's own */
+  rentLamports: number;
+  /** Rent returned within the execution: Jupiter's temporary wSOL account and a fresh ephemeral's closed accounts */
+  transientRentLamports: number;
+  marginLamports: number;
+  /** What the ephemeral is expected to spend: fees and rent, without margin or transient rent */
+  expectedSol: number;
+  /** What to fund it with: everything above */
+  totalSol: number;
+}
+
+/** Fee reserved when sweeping SOL; balances at or below this are not worth recovering */
+export const RECOVERY_FEE_LAMPORTS = 5000;
+
+/** Compute unit limit set alongside Helius priority fees */
+const PRIORITY_FEE_COMPUTE_UNITS = 200_000;
+
+/** Left in the owner's wallet for fees, rent and ephemeral funding when SOL itself is sold */
+export const SOL_FEE_RESERVE = '0.05';
+
+/** Extra on top of estimated ephemeral fees: priority fees move between estimate and swap */
+export const FUNDING_FEE_MARGIN_PCT = 25;
+
+/** Compute unit limit a transaction gets per instruction without a SetComputeUnitLimit */
+const DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+// ComputeBudget program instruction discriminators
+const SET_COMPUTE_UNIT_LIMIT = 2;
+const SET_COMPUTE_UNIT_PRICE = 3;
+
 export class EphemeralService {
   private connection: Connection;
   private heliusService: HeliusService | null = null;
+  private tokenPrograms: TokenProgramService;
+  private tokens: TokenRegistryService;
 
   constructor(connection: Connection, rpcUrl?: string) {
     this.connection = connection;
+    this.tokenPrograms = new TokenProgramService(connection);
+    this.tokens = new TokenRegistryService(connection);
     if (rpcUrl && HeliusService.isHeliusRpc(rpcUrl)) {
       this.heliusService = new HeliusService(rpcUrl);
     }
   }
 
+  /**
+   * Helius priority fee estimate for a transaction touching these accounts
+   * @returns Microlamports per CU, or null without Helius or when estimation fails
+   */
+  private async getPriorityFee(accountKeys: string[]): Promise<number | null> {
+    if (!this.heliusService) return null;
+    try {
+      return await this.heliusService.getPriorityFeeByAccounts(accountKeys, 'Medium');
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Add Helius priority fees to a transaction if available
    */
   private async addPriorityFees(transaction: Transaction): Promise<Transaction> {
     if (!this.heliusService) return transaction;
-    try {
-      const priorityFee = await this.heliusService.getPriorityFeeByAccounts(
-        transaction.instructions.flatMap(ix => ix.keys.map(k => k.pubkey.toBase58())),
-        'Medium'
-      );
-      this.heliusService.addPriorityFeeToTransaction(transaction, priorityFee, 200_000);
-    } catch {
-      // Fallback: no priority fees if estimation fails
+    const priorityFee = await this.getPriorityFee(
+      transaction.instructions.flatMap(ix => ix.keys.map(k => k.pubkey.toBase58()))
+    );
+    // Fallback: no priority fees if estimation fails
+    if (priorityFee !== null) {
+      this.heliusService!.addPriorityFeeToTransaction(transaction, priorityFee, PRIORITY_FEE_COMPUTE_UNITS);
     }
     return transaction;
   }
 
+  /**
+   * Base plus priority fee (as `addPriorityFees` would set it) for a transaction touching these accounts
+   */
+  async estimateTransactionFeeLamports(accountKeys: string[]): Promise<number> {
+    const priorityFee = await this.getPriorityFee(accountKeys);
+    return RECOVERY_FEE_LAMPORTS + this.getPriorityFeeCost(priorityFee);
+  }
+
+  private getPriorityFeeCost(priorityFee: number | null): number {
+    return priorityFee === null
+      ? 0
+      : this.heliusService!.calculatePriorityFeeCost(priorityFee, PRIORITY_FEE_COMPUTE_UNITS);
+  }
+
   /**
    * Send a transaction with fresh blockhash and retry logic
+   *
+   * @param feePayer - Pays the fee and signs last
+   * @param coSigners - Local keypairs (ephemeral wallets) that must also sign
    */
   private async sendTransaction(
     transaction: Transaction,
-    signers: Keypair[],
+    feePayer: Signer,
+    coSigners: Keypair[] = [],
     maxAttempts: number = 3
   ): Promise<string> {
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
@@ -76,9 +199,10 @@ export class EphemeralService {
         await this.connection.getLatestBlockhash('confirmed');
 
       transaction.recentBlockhash = blockhash;
-      transaction.feePayer = signers[0].publicKey;
+      transaction.feePayer = feePayer.publicKey;
       transaction.signatures = [];
-      transaction.sign(...signers);
+      if (coSigners.length > 0) transaction.partialSign(...coSigners);
+      await feePayer.signTransaction(transaction);
 
       const signature = await this.connection.sendRawTransaction(
         transaction.serialize(),
@@ -117,20 +241,20 @@ export class EphemeralService {
    * Check if the user's wallet has sufficient balance to fund the ephemeral wallet.
    * Checks SOL balance and optionally token balance.
    *
-   * @param userKeypair - The user's main wallet
+   * @param user - The user's main wallet
    * @param solNeeded - Total SOL needed (swap amount if SOL + fees + rent)
    * @param tokenMint - Optional: SPL token mint to check
    * @param tokenAmountNeeded - Optional: Amount of tokens needed
    * @throws Error with clear message if insufficient balance
    */
   async checkSufficientBalance(
-    userKeypair: Keypair,
+    user: Signer,
     solNeeded: number,
     tokenMint?: string,
-    tokenAmountNeeded?: number
+    tokenAmountNeeded?: DecimalAmount
   ): Promise<void> {
     // Check SOL balance
-    const solBalance = await this.connection.getBalance(userKeypair.publicKey);
+    const solBalance = await this.connection.getBalance(user.publicKey);
     const solBalanceInSol = solBalance / LAMPORTS_PER_SOL;
 
     if (solBalanceInSol < solNeeded) {
@@ -140,19 +264,17 @@ export class EphemeralService {
     }
 
     // Check token balance if swapping from a token (not SOL)
-    if (tokenMint && tokenAmountNeeded && tokenAmountNeeded > 0) {
-      const mintPubkey = new PublicKey(tokenMint);
-      const userAta = await getAssociatedTokenAddress(mintPubkey, userKeypair.publicKey);
+    if (tokenMint && tokenAmountNeeded && isPositiveAmount(tokenAmountNeeded)) {
+      const mint = await this.tokenPrograms.getMint(tokenMint);
+      const userAta = await this.tokenPrograms.getAssociatedAddress(mint, user.publicKey);
 
       try {
-        const account = await getAccount(this.connection, userAta);
-        const tokenSymbol = this.getTokenSymbolFromMint(tokenMint);
-        const decimals = TOKEN_DECIMALS[tokenSymbol] || 9;
-        const tokenBalance = Number(account.amount) / Math.pow(10, decimals);
-
-        if (tokenBalance < tokenAmountNeeded) {
+        const account = await getAccount(this.connection, userAta, undefined, mint.programId);
+        const tokenSymbol = this.tokens.getSymbol(tokenMint);
+        if (account.amount < toBaseUnits(tokenAmountNeeded, mint.decimals)) {
+          const tokenBalance = fromBaseUnits(account.amount, mint.decimals);
           throw new Error(
-            `Insufficient ${tokenSymbol} balance: have ${tokenBalance.toFixed(6)} ${tokenSymbol}, need ${tokenAmountNeeded.toFixed(6)} ${tokenSymbol}`
+            `Insufficient ${tokenSymbol} balance: have ${tokenBalance} ${tokenSymbol}, need ${tokenAmountNeeded} ${tokenSymbol}`
           );
         }
       } catch (error: any) {
@@ -161,9 +283,9 @@ export class EphemeralService {
           throw error;
         }
         // Token account doesn't exist — no balance at all
-        const tokenSymbol = this.getTokenSymbolFromMint(tokenMint);
+        const tokenSymbol = this.tokens.getSymbol(tokenMint);
         throw new Error(
-          `Insufficient ${tokenSymbol} balance: have 0 ${tokenSymbol}, need ${tokenAmountNeeded.toFixed(6)} ${tokenSymbol}`
+          `Insufficient ${tokenSymbol} balance: have 0 ${tokenSymbol}, need ${tokenAmountNeeded} ${tokenSymbol}`
         );
       }
     }
@@ -172,87 +294,102 @@ export class EphemeralService {
   /**
    * Fund the ephemeral wallet with SOL (for fees) and optionally tokens
    *
-   * @param userKeypair - The user's main wallet (funding source)
+   * @param user - The user's main wallet (funding source)
    * @param ephemeralPubkey - The ephemeral wallet to fund
    * @param solAmount - Amount of SOL for transaction fees (recommend 0.005-0.01)
    * @param tokenMint - Optional: SPL token mint to transfer
-   * @param tokenAmount - Optional: Amount of tokens to transfer
+   * @param tokenAmount - Optional: Amount of tokens the ephemeral should receive
+   *   (a Token-2022 transfer fee is added on top)
    */
   async fundEphemeral(
-    userKeypair: Keypair,
+    user: Signer,
     ephemeralPubkey: PublicKey,
-    solAmount: number,
+    solAmount: DecimalAmount,
     tokenMint?: string,
-    tokenAmount?: number
+    tokenAmount?: DecimalAmount
   ): Promise<FundingResult> {
+    const transaction = await this.buildFundingTransaction(
+      user.publicKey,
+      ephemeralPubkey,
+      solAmount,
+      tokenMint,
+      tokenAmount
+    );
+    const signature = await this.sendTransaction(transaction, user);
+
+    return {
+      signature,
+      solAmount,
+      tokenAmount,
+      tokenMint,
+    };
+  }
+
+  /**
+   * Build (without signing or sending) the transaction `fundEphemeral` sends
+   */
+  async buildFundingTransaction(
+    user: PublicKey,
+    ephemeralPubkey: PublicKey,
+    solAmount: DecimalAmount,
+    tokenMint?: string,
+    tokenAmount?: DecimalAmount
+  ): Promise<Transaction> {
     const transaction = new Transaction();
 
     // Add SOL transfer for fees
     transaction.add(
       SystemProgram.transfer({
-        fromPubkey: userKeypair.publicKey,
+        fromPubkey: user,
         toPubkey: ephemeralPubkey,
-        lamports: Math.floor(solAmount * LAMPORTS_PER_SOL),
+        lamports: toBaseUnits(solAmount, SOL_DECIMALS),
       })
     );
 
     // If token transfer requested, add those instructions
-    if (tokenMint && tokenAmount && tokenAmount > 0) {
-      const mintPubkey = new PublicKey(tokenMint);
+    if (tokenMint && tokenAmount && isPositiveAmount(tokenAmount)) {
+      const mint = await this.tokenPrograms.getMint(tokenMint);
 
       // Get or create associated token accounts
-      const userAta = await getAssociatedTokenAddress(
-        mintPubkey,
-        userKeypair.publicKey
-      );
-
-      const ephemeralAta = await getAssociatedTokenAddress(
-        mintPubkey,
-        ephemeralPubkey
-      );
+      const userAta = await this.tokenPrograms.getAssociatedAddress(mint, user);
+      const ephemeralAta = await this.tokenPrograms.getAssociatedAddress(mint, ephemeralPubkey);
 
       // Check if ephemeral ATA exists, if not create it
       try {
-        await getAccount(this.connection, ephemeralAta);
+        await getAccount(this.connection, ephemeralAta, undefined, mint.programId);
       } catch {
         // ATA doesn't exist, add creation instruction
         transaction.add(
           createAssociatedTokenAccountInstruction(
-            userKeypair.publicKey, // payer
+            user,                  // payer
             ephemeralAta,          // ata
             ephemeralPubkey,       // owner
-            mintPubkey             // mint
+            mint.address,          // mint
+            mint.programId
           )
         );
       }
 
-      // Get token decimals
-      const tokenSymbol = this.getTokenSymbolFromMint(tokenMint);
-      const decimals = TOKEN_DECIMALS[tokenSymbol] || 9;
-      const tokenAmountRaw = Math.floor(tokenAmount * Math.pow(10, decimals));
+      // The swap spends exactly tokenAmount, so a transfer fee comes on top
+      const tokenAmountRaw = toBaseUnits(tokenAmount, mint.decimals);
+      const sendRaw = mint.transferFee
+        ? await this.tokenPrograms.getAmountBeforeFee(mint, tokenAmountRaw)
+        : tokenAmountRaw;
 
       // Add token transfer
       transaction.add(
-        createTransferInstruction(
+        await this.tokenPrograms.createTransferInstruction(
+          mint,
           userAta,
           ephemeralAta,
-          userKeypair.publicKey,
-          tokenAmountRaw
+          user,
+          sendRaw
         )
       );
     }
 
     // Add priority fees via Helius if available
-    await this.addPriorityFees(transaction);
-
-    const signature = await this.sendTransaction(transaction, [userKeypair]);
-
-    return {
-      signature,
-      solAmount,
-      tokenAmount,
-      tokenMint,
-    };
+    return this.addPriorityFees(transaction);
   }
 
   /**
@@ -268,63 +405,77 @@ export class EphemeralService {
     ephemeralKeypair: Keypair,
     destination: PublicKey,
     tokenMint: string,
-    amount: number
+    amount: DecimalAmount
   ): Promise<TransferResult> {
-    const mintPubkey = new PublicKey(tokenMint);
+    const transaction = await this.buildDestinationTransfer(
+      ephemeralKeypair.publicKey,
+      destination,
+      tokenMint,
+      amount
+    );
+    const signature = await this.sendTransaction(transaction, new KeypairSigner(ephemeralKeypair));
+
+    const result: TransferResult = {
+      signature,
+      amount,
+      mint: tokenMint,
+      destination: destination.toBase58(),
+    };
+    const mint = await this.tokenPrograms.getMint(tokenMint);
+    if (mint.transferFee) {
+      const fee = await this.tokenPrograms.getTransferFee(mint, toBaseUnits(amount, mint.decimals));
+      result.fee = fromBaseUnits(fee, mint.decimals);
+    }
+    return result;
+  }
+
+  /**
+   * Build (without signing or sending) the transfer `sendToDestination` sends
+   */
+  async buildDestinationTransfer(
+    ephemeralPubkey: PublicKey,
+    destination: PublicKey,
+    tokenMint: string,
+    amount: DecimalAmount
+  ): Promise<Transaction> {
+    const mint = await this.tokenPrograms.getMint(tokenMint);
     const transaction = new Transaction();
 
     // Get ATAs
-    const ephemeralAta = await getAssociatedTokenAddress(
-      mintPubkey,
-      ephemeralKeypair.publicKey
-    );
-
-    const destinationAta = await getAssociatedTokenAddress(
-      mintPubkey,
-      destination
-    );
+    const ephemeralAta = await this.tokenPrograms.getAssociatedAddress(mint, ephemeralPubkey);
+    const destinationAta = await this.tokenPrograms.getAssociatedAddress(mint, destination);
 
     // Check if destination ATA exists
     try {
-      await getAccount(this.connection, destinationAta);
+      await getAccount(this.connection, destinationAta, undefined, mint.programId);
     } catch {
       // Create destination ATA (ephemeral pays for it)
       transaction.add(
         createAssociatedTokenAccountInstruction(
-          ephemeralKeypair.publicKey, // payer
+          ephemeralPubkey,             // payer
           destinationAta,              // ata
           destination,                 // owner
-          mintPubkey                   // mint
+          mint.address,                // mint
+          mint.programId
         )
       );
     }
 
-    // Get token decimals
-    const tokenSymbol = this.getTokenSymbolFromMint(tokenMint);
-    const decimals = TOKEN_DECIMALS[tokenSymbol] || 9;
-    const amountRaw = Math.floor(amount * Math.pow(10, decimals));
+    const amountRaw = toBaseUnits(amount, mint.decimals);
 
     // Add transfer instruction
     transaction.add(
-      createTransferInstruction(
+      await this.tokenPrograms.createTransferInstruction(
+        mint,
         ephemeralAta,
         destinationAta,
-        ephemeralKeypair.publicKey,
+        ephemeralPubkey,
         amountRaw
       )
     );
 
     // Add priority fees via Helius if available
-    await this.addPriorityFees(transaction);
-
-    const signature = await this.sendTransaction(transaction, [ephemeralKeypair]);
-
-    return {
-      signature,
-      amount,
-      mint: tokenMint,
-      destination: destination.toBase58(),
-    };
+    return this.addPriorityFees(transaction);
   }
 
   /**
@@ -341,40 +492,51 @@ export class EphemeralService {
   async getEphemeralTokenBalance(
     ephemeralPubkey: PublicKey,
     tokenMint: string
-  ): Promise<number> {
+  ): Promise<DecimalAmount> {
     try {
-      const mintPubkey = new PublicKey(tokenMint);
-      const ata = await getAssociatedTokenAddress(mintPubkey, ephemeralPubkey);
-      const account = await getAccount(this.connection, ata);
-
-      const tokenSymbol = this.getTokenSymbolFromMint(tokenMint);
-      const decimals = TOKEN_DECIMALS[tokenSymbol] || 9;
-
-      return Number(account.amount) / Math.pow(10, decimals);
+      const mint = await this.tokenPrograms.getMint(tokenMint);
+      const ata = await this.tokenPrograms.getAssociatedAddress(mint, ephemeralPubkey);
+      const account = await getAccount(this.connection, ata, undefined, mint.programId);
+      return fromBaseUnits(account.amount, mint.decimals);
     } catch {
-      return 0;
+      return '0';
     }
   }
 
+  /**
+   * Balance of the owner's wallet that may be sold: SOL keeps SOL_FEE_RESERVE back
+   */
+  async getSpendableBalance(owner: PublicKey, tokenMint: string): Promise<DecimalAmount> {
+    if (tokenMint !== SOL_MINT) {
+      return this.getEphemeralTokenBalance(owner, tokenMint);
+    }
+    const lamports = BigInt(await this.connection.getBalance(owner)) - toBaseUnits(SOL_FEE_RESERVE, SOL_DECIMALS);
+    return fromBaseUnits(lamports > BigInt(0) ? lamports : BigInt(0), SOL_DECIMALS);
+  }
+
   /**
    * Recover remaining SOL from ephemeral wallet back to user
    * Call this after the swap is complete to reclaim unused fees
+   *
+   * @param keepLamports - Left in the wallet (pooled wallets keep their fee reserve)
    */
   async recoverSol(
     ephemeralKeypair: Keypair,
-    destination: PublicKey
+    destination: PublicKey,
+    keepLamports: number = 0
   ): Promise<string | null> {
     const balance = await this.connection.getBalance(ephemeralKeypair.publicKey);
 
-    // Need at least 5000 lamports for the transfer fee
-    const minBalance = 5000;
+    // Estimate the priority fee once: the transfer leaves exactly the fee behind
+    const priorityFee = await this.getPriorityFee([ephemeralKeypair.publicKey.toBase58(), destination.toBase58()]);
+    const minBalance = RECOVERY_FEE_LAMPORTS + this.getPriorityFeeCost(priorityFee) + keepLamports;
     if (balance <= minBalance) {
       return null; // Not enough to recover
     }
 
     const transferAmount = balance - minBalance;
 
-    let transaction = new Transaction().add(
+    const transaction = new Transaction().add(
       SystemProgram.transfer({
         fromPubkey: ephemeralKeypair.publicKey,
         toPubkey: destination,
@@ -382,27 +544,244 @@ export class EphemeralService {
       })
     );
 
-    // Add priority fees via Helius if available
-    transaction = await this.addPriorityFees(transaction);
+    if (priorityFee !== null) {
+      this.heliusService!.addPriorityFeeToTransaction(transaction, priorityFee, PRIORITY_FEE_COMPUTE_UNITS);
+    }
 
     try {
-      return await this.sendTransaction(transaction, [ephemeralKeypair]);
+      return await this.sendTransaction(transaction, new KeypairSigner(ephemeralKeypair));
     } catch {
       return null;
     }
   }
 
   /**
-   * Calculate recommended SOL funding amount for ephemeral wallet
-   * Covers: ATA creation (if needed) + swap + output transfer + buffer
+   * List token accounts held by an ephemeral wallet under both token programs (raw amounts)
+   *
+   * @param includeEmpty - Also list zero-balance accounts (they still hold rent)
+   */
+  async getTokenHoldings(
+    ephemeralPubkey: PublicKey,
+    includeEmpty: boolean = false
+  ): Promise<TokenHolding[]> {
+    const holdings: TokenHolding[] = [];
+    for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+      const tokenAccounts = await this.connection.getParsedTokenAccountsByOwner(ephemeralPubkey, { programId });
+      for (const { pubkey, account } of tokenAccounts.value) {
+        holdings.push({
+          account: pubkey,
+          mint: account.data.parsed.info.mint as string,
+          programId,
+          rawAmount: account.data.parsed.info.tokenAmount.amount as string,
+          lamports: account.lamports,
+        });
+      }
+    }
+
+    return holdings.filter((holding) => includeEmpty || BigInt(holding.rawAmount) > BigInt(0));
+  }
+
+  /**
+   * Close an ephemeral's empty token accounts, and its wrapped SOL account
+   * whatever it holds (closing unwraps it), in one transaction. Rent goes
+   * back to the ephemeral, so `recoverSol` sweeps it with the dust.
+   *
+   * @returns null when there is nothing to close
+   */
+  async closeEmptyTokenAccounts(ephemeralKeypair: Keypair): Promise<CloseAccountsResult | null> {
+    const ephemeral = ephemeralKeypair.publicKey;
+    const closable = (await this.getTokenHoldings(ephemeral, true)).filter(
+      (holding) => holding.mint === SOL_MINT || BigInt(holding.rawAmount) === BigInt(0)
+    );
+    if (closable.length === 0) return null;
+
+    const transaction = await this.buildCloseAccountsTransaction(ephemeral, closable);
+    const signature = await this.sendTransaction(transaction, new KeypairSigner(ephemeralKeypair));
+
+    return {
+      signature,
+      accounts: closable.map(({ mint, rawAmount, lamports }) => ({
+        mint,
+        rentLamports: lamports - (mint === SOL_MINT ? Number(rawAmount) : 0),
+      })),
+    };
+  }
+
+  /**
+   * Build (without signing or sending) the transaction `closeEmptyTokenAccounts` sends
+   */
+  async buildCloseAccountsTransaction(
+    ephemeralPubkey: PublicKey,
+    accounts: Array<{ account: PublicKey; mint: string }>
+  ): Promise<Transaction> {
+    const transaction = new Transaction();
+    for (const { account, mint } of accounts) {
+      const mintInfo = await this.tokenPrograms.getMint(mint);
+      transaction.add(
+        ...this.tokenPrograms.createCloseInstructions(mintInfo, account, ephemeralPubkey, ephemeralPubkey)
+      );
+    }
+    return this.addPriorityFees(transaction);
+  }
+
+  /**
+   * Sweep every SPL balance and then the SOL out of an ephemeral wallet.
+   * The owner pays fees and any destination ATA rent, so tokens can be
+   * rescued even when the ephemeral has no SOL left.
+   *
+   * @param ephemeralKeypair - Ephemeral wallet to empty
+   * @param owner - User's main wallet (fee payer and destination)
+   * @param closeAccounts - Also close the token accounts, returning their rent to the owner
+   */
+  async sweepToOwner(
+    ephemeralKeypair: Keypair,
+    owner: Signer,
+    closeAccounts: boolean = false
+  ): Promise<SweepResult> {
+    const tokens: SweepResult['tokens'] = [];
+    let closedAccounts = 0;
+    const holdings = await this.getTokenHoldings(ephemeralKeypair.publicKey, closeAccounts);
+
+    for (const { account, mint, rawAmount } of holdings) {
+      const transaction = new Transaction();
+      const hasBalance = BigInt(rawAmount) > BigInt(0);
+
+      const mintInfo = await this.tokenPrograms.getMint(mint);
+
+      if (hasBalance) {
+        const ownerAta = await this.tokenPrograms.getAssociatedAddress(mintInfo, owner.publicKey);
+
+        try {
+          await getAccount(this.connection, ownerAta, undefined, mintInfo.programId);
+        } catch {
+          transaction.add(
+            createAssociatedTokenAccountInstruction(
+              owner.publicKey, // payer
+              ownerAta,        // ata
+              owner.publicKey, // owner
+              mintInfo.address, // mint
+              mintInfo.programId
+            )
+          );
+        }
+
+        transaction.add(
+          await this.tokenPrograms.createTransferInstruction(
+            mintInfo,
+            account,
+            ownerAta,
+            ephemeralKeypair.publicKey,
+            BigInt(rawAmount)
+          )
+        );
+      }
+
+      if (closeAccounts) {
+        transaction.add(
+          ...this.tokenPrograms.createCloseInstructions(mintInfo, account, owner.publicKey, ephemeralKeypair.publicKey)
+        );
+      }
+
+      await this.addPriorityFees(transaction);
+      const signature = await this.sendTransaction(transaction, owner, [ephemeralKeypair]);
+      if (hasBalance) tokens.push({ mint, rawAmount, signature });
+      if (closeAccounts) closedAccounts++;
+    }
+
+    const solSignature = await this.recoverSol(ephemeralKeypair, owner.publicKey);
+    return { tokens, closedAccounts, solSignature };
+  }
+
+
+  /**
+   * SOL to fund an ephemeral wallet with, from what its transactions will need:
+   * the swap's compute budget, priority fees for the output transfer, closing
+   * its token accounts and SOL recovery, and rent for token accounts that
+   * don't exist yet
+   */
+  async estimateEphemeralFunding(needs: FundingNeeds): Promise<FundingEstimate> {
+    const { ephemeral, destination, inputMint, outputMint } = needs;
+    const swapFeeLamports = getTransactionFeeLamports(needs.swapTransaction.message);
+    const walletKeys = ephemeral ? [ephemeral.toBase58()] : [];
+
+    let transferFeeLamports = 0;
+    let rentLamports = 0;
+    // SOL legs go through a wSOL account Jupiter opens and closes within the swap
+    let transientRentLamports = inputMint === SOL_MINT || outputMint === SOL_MINT
+      ? await this.connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE)
+      : 0;
+    if (outputMint !== SOL_MINT) {
+      // Token-2022 accounts carry extensions, so rent depends on the mint
+      const outputRent = await this.getTokenAccountRent(outputMint);
+      // Jupiter creates the ephemeral's output account (a fresh ephemeral closes it again), the transfer the destination's
+      if (!ephemeral) {
+        transientRentLamports += outputRent;
+      } else if (!(await this.hasTokenAccount(outputMint, ephemeral))) {
+        rentLamports += outputRent;
+      }
+      if (!(await this.hasTokenAccount(outputMint, destination))) {
+        rentLamports += outputRent;
+      }
+      transferFeeLamports = await this.estimateTransactionFeeLamports([
+        ...walletKeys,
+        (await this.getTokenAccountAddress(outputMint, destination)).toBase58(),
+        outputMint,
+      ]);
+    }
+
+    // A fresh ephemeral closes its input and output token accounts; pooled wallets keep theirs
+    const tokenMints = [inputMint, outputMint].filter((mint) => mint !== SOL_MINT);
+    const closeFeeLamports = !ephemeral && tokenMints.length > 0
+      ? await this.estimateTransactionFeeLamports(tokenMints)
+      : 0;
+    const recoveryFeeLamports = await this.estimateTransactionFeeLamports([...walletKeys, destination.toBase58()]);
+
+    const feeLamports = swapFeeLamports + transferFeeLamports + closeFeeLamports + recoveryFeeLamports;
+    const marginLamports = Math.ceil((feeLamports * FUNDING_FEE_MARGIN_PCT) / 100);
+
+    return {
+      swapFeeLamports,
+      transferFeeLamports,
+      closeFeeLamports,
+      recoveryFeeLamports,
+      rentLamports,
+      transientRentLamports,
+      marginLamports,
+      expectedSol: (feeLamports + rentLamports) / LAMPORTS_PER_SOL,
+      totalSol: (feeLamports + rentLamports + transientRentLamports + marginLamports) / LAMPORTS_PER_SOL,
+    };
+  }
+
+  /**
+   * A wallet's associated token account for the mint, under the mint's program
+   */
+  async getTokenAccountAddress(mint: string, owner: PublicKey): Promise<PublicKey> {
+    return this.tokenPrograms.getAssociatedAddress(await this.tokenPrograms.getMint(mint), owner);
+  }
+
+  /**
+   * Whether a wallet's associated token account for the mint exists
+   */
+  async hasTokenAccount(mint: string, owner: PublicKey): Promise<boolean> {
+    const account = await this.getTokenAccountAddress(mint, owner);
+    return (await this.connection.getAccountInfo(account)) !== null;
+  }
+
+  /**
+   * Rent-exempt minimum of a token account for the mint
+   */
+  async getTokenAccountRent(mint: string): Promise<number> {
+    return this.tokenPrograms.getAccountRent(await this.tokenPrograms.getMint(mint));
+  }
+
+  /**
+   * Tokens to send so that the recipient gets `amount` after any Token-2022 transfer fee
    */
-  getRecommendedSolFunding(): number {
-    // 0.002 SOL for source ATA creation (if needed)
-    // 0.002 SOL for destination ATA creation (if needed)
-    // 0.003 SOL for swap priority fees (Jupiter auto can vary)
-    // 0.001 SOL for output transfer
-    // 0.002 SOL buffer for safety
-    return 0.01;
+  async getAmountWithTransferFee(mint: string, amount: DecimalAmount): Promise<DecimalAmount> {
+    const mintInfo = await this.tokenPrograms.getMint(mint);
+    if (!mintInfo.transferFee) return amount;
+    const raw = await this.tokenPrograms.getAmountBeforeFee(mintInfo, toBaseUnits(amount, mintInfo.decimals));
+    return fromBaseUnits(raw, mintInfo.decimals);
   }
 
   /**
@@ -434,64 +813,69 @@ export class EphemeralService {
     return { score, factors };
   }
 
-  private getTokenSymbolFromMint(mint: string): string {
-    const TOKEN_MINTS: Record<string, string> = {
-      'So11111111111111111111111111111111111111112': 'SOL',
-      'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v': 'USDC',
-      'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB': 'USDT',
-      'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263': 'BONK',
-      'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm': 'WIF',
-      'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN': 'JUP',
-      '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R': 'RAY',
-      'orcaEKTdK7LKz57vaAYr9QeNsVEPfiu6QeMU1kektZE': 'ORCA',
-    };
-
-    return TOKEN_MINTS[mint] || 'UNKNOWN';
-  }
-
   /**
-   * Account Pooling: Get or create a reusable ephemeral wallet for a DCA schedule
+   * Account Pooling: Get or create a reusable ephemeral wallet for a DCA schedule.
+   * Reusing the wallet keeps its token accounts, so later swaps skip ATA rent.
    *
-   * TODO: Implement persistent wallet storage. Currently, pooled wallets cannot be
-   * restored from `scheduleWalletAddress` alone because the secret key is not persisted.
-   * Until a secure key storage mechanism is added (e.g., encrypted keyfile at `poolFile`),
-   * this method always generates a fresh ephemeral wallet. The `scheduleWalletAddress`
-   * parameter is intentionally ignored to avoid returning a mismatched keypair/publicKey
-   * pair that would cause transaction signing failures.
-   *
-   * @param _userKeypair - User's main wallet (unused until persistence is implemented)
-   * @param _scheduleWalletAddress - Stored ephemeral wallet address from schedule (unused)
-   * @param _poolFile - Path to store pooled wallet keys (unused)
-   * @returns Fresh ephemeral wallet with matching keypair and publicKey
+   * @param user - User's main wallet (derives the keystore encryption key)
+   * @param scheduleId - Schedule the wallet belongs to
+   * @param scheduleWalletAddress - Pooled wallet currently recorded on the schedule
+   * @param poolFile - Encrypted keystore holding pooled wallet keys
+   * @returns The stored wallet, or a fresh one (isNew) when none is usable
    */
   async getOrCreatePooledWallet(
-    _userKeypair: Keypair,
-    _scheduleWalletAddress: string | undefined,
-    _poolFile: string
-  ): Promise<EphemeralWallet> {
-    // Always generate a fresh wallet so keypair and publicKey are guaranteed to match.
-    // Reuse of a stored address requires persisting the secret key, which is not yet implemented.
-    const ephemeralWallet = this.generateEphemeralWallet();
-    return ephemeralWallet;
+    user: Signer,
+    scheduleId: string,
+    scheduleWalletAddress: string | undefined,
+    poolFile: string
+  ): Promise<PooledWallet> {
+    const keystore = new PoolKeystore(user, poolFile);
+
+    if (scheduleWalletAddress) {
+      const keypair = await keystore.get(scheduleWalletAddress);
+      if (keypair) {
+        return { keypair, publicKey: scheduleWalletAddress, isNew: false };
+      }
+    }
+
+    // Persist before the caller funds it, so the key can never be lost
+    const wallet = this.generateEphemeralWallet();
+    await keystore.add(scheduleId, wallet.keypair);
+    return { ...wallet, isNew: true };
   }
 
   /**
-   * Close a pooled ephemeral wallet and recover remaining SOL
-   * Call this when DCA schedule is paused, cancelled, or completes
+   * Close a pooled ephemeral wallet: sweep tokens, close its token accounts
+   * and recover all SOL. Call this when a DCA schedule is cancelled,
+   * completes, or its pooled wallet is rotated.
    *
-   * @param ephemeralKeypair - Ephemeral wallet keypair
-   * @param destination - Where to send recovered SOL
-   * @returns Amount recovered (or null if already empty)
+   * @param ephemeralKeypair - Pooled wallet keypair
+   * @param owner - Where everything goes (also pays the sweep fees)
    */
-  async closePooledWallet(
-    ephemeralKeypair: Keypair,
-    destination: PublicKey
-  ): Promise<number | null> {
-    const recovered = await this.recoverSol(ephemeralKeypair, destination);
-    if (recovered) {
-      console.log(`✓ Recovered ${recovered} from pooled wallet`);
-      return parseFloat(recovered);
+  async closePooledWallet(ephemeralKeypair: Keypair, owner: Signer): Promise<SweepResult> {
+    return this.sweepToOwner(ephemeralKeypair, owner, true);
+  }
+}
+
+/**
+ * Fee a transaction will pay: the base fee per signature plus its compute
+ * budget (unit limit × unit price), as set by its ComputeBudget instructions
+ */
+function getTransactionFeeLamports(message: VersionedMessage): number {
+  let unitLimit: number | undefined;
+  let microLamports = 0;
+  let instructions = 0;
+
+  for (const ix of message.compiledInstructions) {
+    if (!message.staticAccountKeys[ix.programIdIndex].equals(ComputeBudgetProgram.programId)) {
+      instructions++;
+      continue;
     }
-    return null;
+    const data = Buffer.from(ix.data);
+    if (data[0] === SET_COMPUTE_UNIT_LIMIT) unitLimit = data.readUInt32LE(1);
+    if (data[0] === SET_COMPUTE_UNIT_PRICE) microLamports = Number(data.readBigUInt64LE(1));
   }
+
+  const units = unitLimit ?? Math.min(instructions * DEFAULT_COMPUTE_UNITS_PER_INSTRUCTION, MAX_COMPUTE_UNITS);
+  return RECOVERY_FEE_LAMPORTS * message.header.numRequiredSignatures + Math.ceil((units * microLamports) / 1_000_000);
 }
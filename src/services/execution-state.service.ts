@@ -0,0 +1,218 @@
+/**
+ * Execution State Service
+ *
+ * Each swap execution is persisted as a state machine keyed by execution ID:
+ * the parameters it started with and, for every completed phase, its
+ * signature and outputs. An execution that dies halfway (crash, RPC outage,
+ * expired blockhash) keeps its state, so `dca execute --resume <execId>` or
+ * the daemon can continue from the last completed phase instead of leaving
+ * funds in an ephemeral wallet. Ephemeral keys stay in the encrypted
+ * ephemeral journal; states only reference journal entries.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { writePrivateFile } from '../utils/secure-store';
+import { parseAmount } from '../utils/amount';
+import type { SwapExecutionParams, SwapProgressPhase } from './swap-executor.service';
+
+/** What a phase left behind for the phases after it */
+export type PhaseOutputs = Record<string, string | number | boolean>;
+
+export interface PhaseRecord {
+  completedAt: string;
+  signature?: string;
+  outputs?: PhaseOutputs;
+}
+
+/**
+ * Swap parameters as persisted: no secrets, and the pooled wallet by address
+ */
+export type StoredExecutionParams = Omit<
+  SwapExecutionParams,
+  'pooledWallet' | 'rangeApiKey' | 'dryRun' | 'executionId' | 'scheduleId'
+> & { pooledWallet?: string };
+
+export interface ExecutionState {
+  id: string;
+  owner: string; // Main wallet public key
+  scheduleId?: string;
+  params: StoredExecutionParams;
+  status: 'running' | 'failed';
+  pid: number; // Process running it (or that last ran it)
+  phases: Partial<Record<SwapProgressPhase, PhaseRecord>>;
+  failedPhase?: SwapProgressPhase;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const STATE_FILE = 'execution-state.json';
+
+/**
+ * ID for a new execution (shared by the scheduler's records and execution states).
+ * The random suffix keeps schedules firing in the same millisecond apart.
+ */
+export function newExecutionId(): string {
+  return `exec-${Date.now()}-${randomUUID().slice(0, 8)}`;
+}
+
+export class ExecutionStateService {
+  private stateFile: string;
+
+  constructor(dataDir: string = path.join(os.homedir(), '.private-dca')) {
+    this.stateFile = path.join(dataDir, STATE_FILE);
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Persist a new execution before any of its phases run
+   */
+  start(id: string, owner: PublicKey, params: SwapExecutionParams): ExecutionState {
+    const { pooledWallet, rangeApiKey, dryRun, executionId, scheduleId, ...stored } = params;
+    const now = new Date().toISOString();
+    const state: ExecutionState = {
+      id,
+      owner: owner.toBase58(),
+      scheduleId,
+      params: { ...stored, pooledWallet: pooledWallet?.publicKey.toBase58() },
+      status: 'running',
+      pid: process.pid,
+      phases: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const states = this.load().filter((s) => s.id !== id);
+    states.push(state);
+    this.save(states);
+    return state;
+  }
+
+  /**
+   * Take over an interrupted execution to resume it in this process
+   * @throws Error if it doesn't exist, belongs to another wallet or is still running elsewhere
+   */
+  claim(id: string, owner: PublicKey): ExecutionState {
+    const states = this.load();
+    const state = states.find((s) => s.id === id);
+    if (!state) {
+      throw new Error(`No interrupted execution ${id}`);
+    }
+    if (state.owner !== owner.toBase58()) {
+      throw new Error(`Execution ${id} belongs to another wallet (${state.owner})`);
+    }
+    if (!this.isResumable(state)) {
+      throw new Error(`Execution ${id} is still running (PID ${state.pid})`);
+    }
+
+    state.status = 'running';
+    state.pid = process.pid;
+    state.updatedAt = new Date().toISOString();
+    this.save(states);
+    return state;
+  }
+
+  /**
+   * Record a phase as done, with its signature and outputs
+   */
+  completePhase(state: ExecutionState, phase: SwapProgressPhase, record: Omit<PhaseRecord, 'completedAt'> = {}): void {
+    state.phases[phase] = { completedAt: new Date().toISOString(), ...record };
+    this.update(state);
+  }
+
+  /**
+   * Keep a failed execution for resuming
+   */
+  fail(state: ExecutionState, phase: SwapProgressPhase | undefined, error: string): void {
+    state.status = 'failed';
+    state.failedPhase = phase;
+    state.error = error;
+    this.update(state);
+  }
+
+  /**
+   * Forget an execution: it completed, or there is nothing left to resume
+   */
+  finish(id: string): void {
+    const states = this.load();
+    const remaining = states.filter((s) => s.id !== id);
+    if (remaining.length !== states.length) {
+      this.save(remaining);
+    }
+  }
+
+  /**
+   * Execution by ID or unique ID prefix
+   */
+  find(idOrPrefix: string): ExecutionState | undefined {
+    const states = this.load();
+    const exact = states.find((s) => s.id === idOrPrefix);
+    if (exact) return exact;
+    const matches = states.filter((s) => s.id.startsWith(idOrPrefix));
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  /**
+   * Interrupted executions of this wallet (optionally of one schedule), oldest first
+   */
+  getResumable(owner: PublicKey, scheduleId?: string): ExecutionState[] {
+    return this.load().filter((s) =>
+      s.owner === owner.toBase58() &&
+      (scheduleId === undefined || s.scheduleId === scheduleId) &&
+      this.isResumable(s)
+    );
+  }
+
+  getStateFilePath(): string {
+    return this.stateFile;
+  }
+
+  /**
+   * Failed, or marked running by a process that has since died
+   */
+  private isResumable(state: ExecutionState): boolean {
+    if (state.status === 'failed') return true;
+    if (state.pid === process.pid) return false;
+    try {
+      process.kill(state.pid, 0);
+      return false;
+    } catch (error: any) {
+      // EPERM means the process exists but belongs to another user
+      return error.code !== 'EPERM';
+    }
+  }
+
+  private update(state: ExecutionState): void {
+    state.updatedAt = new Date().toISOString();
+    const states = this.load();
+    const index = states.findIndex((s) => s.id === state.id);
+    // A finished execution isn't brought back
+    if (index === -1) return;
+    states[index] = state;
+    this.save(states);
+  }
+
+  private load(): ExecutionState[] {
+    try {
+      if (fs.existsSync(this.stateFile)) {
+        const states: ExecutionState[] = JSON.parse(fs.readFileSync(this.stateFile, 'utf-8'));
+        // States written before amounts were exact hold them as numbers
+        return states.map((state) => ({ ...state, params: { ...state.params, amount: parseAmount(state.params.amount) } }));
+      }
+    } catch (error) {
+      // Overwriting a corrupt file would lose the record of where funds are
+      throw new Error(`Failed to read execution state ${this.stateFile}: ${(error as Error).message}`);
+    }
+    return [];
+  }
+
+  private save(states: ExecutionState[]): void {
+    writePrivateFile(this.stateFile, JSON.stringify(states, null, 2));
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Export Service
+ *
+ * Turns the execution store into tax lots: one row per successful DCA buy.
+ * The column layout is part of the public contract (accounting imports
+ * depend on it) -- append new columns at the end, never reorder or rename.
+ */
+
+import { DCASchedule, DCAExecution } from '../types/index';
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+/**
+ * Stable column order for CSV (and key order for JSON)
+ */
+export const EXPORT_COLUMNS = [
+  'date',
+  'execution_id',
+  'schedule_id',
+  'asset',
+  'quantity',
+  'source_token',
+  'cost',
+  'cost_usd',
+  'fees_sol',
+  'tx_signature',
+  'ephemeral_address',
+] as const;
+
+export type TaxLot = Record<(typeof EXPORT_COLUMNS)[number], string | number | null>;
+
+export interface ExportOptions {
+  from?: Date; // Inclusive
+  to?: Date; // Inclusive
+  redactAddresses?: boolean; // Ephemeral addresses, and the signatures that lead to them on-chain
+}
+
+export const REDACTED = '[redacted]';
+
+export class ExportService {
+  /**
+   * Parse a --from/--to value. Date-only values cover the whole day (UTC).
+   * @throws Error on an unparseable date
+   */
+  static parseDate(value: string, endOfDay: boolean = false): Date {
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const date = new Date(dateOnly ? `${value}T00:00:00.000Z` : value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid date: ${value}. Use YYYY-MM-DD or an ISO timestamp`);
+    }
+    if (dateOnly && endOfDay) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+  }
+
+  /**
+   * Build one lot per successful acquisition, oldest first
+   * @param schedules - Used for the pair of records written before executions carried it
+   */
+  static buildLots(
+    executions: DCAExecution[],
+    schedules: DCASchedule[],
+    options: ExportOptions = {}
+  ): TaxLot[] {
+    const byId = new Map(schedules.map((s) => [s.id, s]));
+
+    return executions
+      // A failed rebalance keeps the swaps that landed before the failure
+      .filter((e) => (e.success && (e.status === undefined || e.status === 'success')) || e.trades?.some((t) => t.signature))
+      .filter((e) => {
+        const time = new Date(e.executedAt).getTime();
+        if (options.from && time < options.from.getTime()) return false;
+        if (options.to && time > options.to.getTime()) return false;
+        return true;
+      })
+      .sort((a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime())
+      .flatMap((e) => {
+        const schedule = byId.get(e.scheduleId);
+        const redact = (identifier: string | null) => (identifier && options.redactAddresses ? REDACTED : identifier);
+        // A rebalance acquires once per swap it made
+        if (e.trades) {
+          return e.trades
+            .filter((trade) => trade.signature)
+            .map((trade) => ({
+              date: e.executedAt,
+              execution_id: e.id,
+              schedule_id: e.scheduleId,
+              asset: trade.toToken,
+              quantity: trade.outputAmount ?? null,
+              source_token: trade.fromToken,
+              cost: trade.amount,
+              cost_usd: null,
+              fees_sol: trade.costs?.totalSol ?? null,
+              tx_signature: redact(trade.signature!),
+              ephemeral_address: redact(trade.ephemeralAddress ?? null),
+            }));
+        }
+        return [{
+          date: e.executedAt,
+          execution_id: e.id,
+          schedule_id: e.scheduleId,
+          asset: e.toToken ?? schedule?.toToken ?? null,
+          quantity: e.outputAmount ?? null,
+          source_token: e.fromToken ?? schedule?.fromToken ?? null,
+          cost: e.inputAmount ?? null,
+          cost_usd: e.inputValueUsd ?? null,
+          fees_sol: e.costs?.totalSol ?? null,
+          tx_signature: redact(e.signature ?? null),
+          ephemeral_address: redact(e.ephemeralAddress ?? null),
+        }];
+      });
+  }
+
+  static toCsv(lots: TaxLot[]): string {
+    const lines = [EXPORT_COLUMNS.join(',')];
+    for (const lot of lots) {
+      lines.push(EXPORT_COLUMNS.map((column) => ExportService.csvField(lot[column])).join(','));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  static toJson(lots: TaxLot[]): string {
+    return JSON.stringify(lots, null, 2) + '\n';
+  }
+
+  private static csvField(value: string | number | null): string {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
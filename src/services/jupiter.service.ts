@@ -1,4 +1,5 @@
-import { Connection, Keypair, VersionedTransaction } from '@solana/web3.js';
+import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { Signer } from '../utils/signer';
 
 interface QuoteResponse {
   inputMint: string;
@@ -22,6 +23,9 @@ interface QuoteResponse {
   slippageBps: number;
 }
 
+/** Cap on the priority fee Jupiter adds to swap transactions */
+export const MAX_PRIORITY_FEE_LAMPORTS = 1_000_000;
+
 interface SwapResponse {
   swapTransaction: string;
   lastValidBlockHeight: number;
@@ -35,10 +39,13 @@ export class JupiterService {
     this.connection = connection;
   }
 
+  /**
+   * @param amount - Input in base units
+   */
   async getQuote(
     inputMint: string,
     outputMint: string,
-    amount: number,
+    amount: bigint,
     slippageBps: number = 50
   ): Promise<QuoteResponse> {
     const params = new URLSearchParams({
@@ -58,39 +65,49 @@ export class JupiterService {
     return response.json() as Promise<QuoteResponse>;
   }
 
-  async executeSwap(quote: QuoteResponse, keypair: Keypair): Promise<string> {
-    const maxAttempts = 3;
+  /**
+   * Unsigned swap transaction for a quote, with a fresh blockhash
+   */
+  async buildSwapTransaction(
+    quote: QuoteResponse,
+    userPublicKey: PublicKey
+  ): Promise<{ transaction: VersionedTransaction; lastValidBlockHeight: number }> {
+    const swapResponse = await fetch(`${this.baseUrl}/swap`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        quoteResponse: quote,
+        userPublicKey: userPublicKey.toBase58(),
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+        prioritizationFeeLamports: {
+          priorityLevelWithMaxLamports: {
+            maxLamports: MAX_PRIORITY_FEE_LAMPORTS,
+            priorityLevel: 'medium'
+          }
+        },
+      }),
+    });
 
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      // Get a fresh swap transaction each attempt (fresh blockhash)
-      const swapResponse = await fetch(`${this.baseUrl}/swap`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          quoteResponse: quote,
-          userPublicKey: keypair.publicKey.toBase58(),
-          wrapAndUnwrapSol: true,
-          dynamicComputeUnitLimit: true,
-          prioritizationFeeLamports: {
-            priorityLevelWithMaxLamports: {
-              maxLamports: 1000000,
-              priorityLevel: 'medium'
-            }
-          },
-        }),
-      });
+    if (!swapResponse.ok) {
+      const error = await swapResponse.text();
+      throw new Error(`Jupiter swap failed: ${error}`);
+    }
 
-      if (!swapResponse.ok) {
-        const error = await swapResponse.text();
-        throw new Error(`Jupiter swap failed: ${error}`);
-      }
+    const { swapTransaction, lastValidBlockHeight } =
+      (await swapResponse.json()) as SwapResponse;
+
+    const swapTransactionBuf = Buffer.from(swapTransaction, 'base64');
+    return { transaction: VersionedTransaction.deserialize(swapTransactionBuf), lastValidBlockHeight };
+  }
 
-      const { swapTransaction, lastValidBlockHeight } =
-        (await swapResponse.json()) as SwapResponse;
+  async executeSwap(quote: QuoteResponse, signer: Signer): Promise<string> {
+    const maxAttempts = 3;
 
-      const swapTransactionBuf = Buffer.from(swapTransaction, 'base64');
-      const transaction = VersionedTransaction.deserialize(swapTransactionBuf);
-      transaction.sign([keypair]);
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Get a fresh swap transaction each attempt (fresh blockhash)
+      const { transaction, lastValidBlockHeight } = await this.buildSwapTransaction(quote, signer.publicKey);
+      await signer.signTransaction(transaction);
 
       const signature = await this.connection.sendRawTransaction(
         transaction.serialize(),
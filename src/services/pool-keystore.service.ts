@@ -0,0 +1,109 @@
+/**
+ * Pool Keystore
+ *
+ * Encrypted store for per-schedule pooled ephemeral wallets. Unlike the
+ * crash journal, entries here are long-lived: a pooled wallet is reused
+ * across executions until it is rotated or its schedule ends, and only
+ * then swept and forgotten.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { Keypair } from '@solana/web3.js';
+import { Signer } from '../utils/signer';
+import { SealedSecret, sealWithWallet, openWithWallet, writePrivateFile } from '../utils/secure-store';
+
+export interface PooledWalletEntry extends SealedSecret {
+  scheduleId: string;
+  owner: string; // Main wallet public key
+  publicKey: string; // Pooled wallet public key
+  createdAt: string;
+}
+
+export const DEFAULT_POOL_FILE = path.join(os.homedir(), '.private-dca', 'wallet-pool.json');
+
+const HKDF_INFO = 'private-dca wallet pool v1';
+
+export class PoolKeystore {
+  private owner: Signer;
+  private poolFile: string;
+
+  constructor(owner: Signer, poolFile: string = DEFAULT_POOL_FILE) {
+    this.owner = owner;
+    this.poolFile = poolFile;
+    const dir = path.dirname(poolFile);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  /**
+   * Store a pooled wallet for a schedule
+   */
+  async add(scheduleId: string, keypair: Keypair): Promise<void> {
+    const sealed = await sealWithWallet(this.owner, keypair.secretKey, HKDF_INFO);
+    const entries = this.load();
+    entries.push({
+      scheduleId,
+      owner: this.owner.publicKey.toBase58(),
+      publicKey: keypair.publicKey.toBase58(),
+      createdAt: new Date().toISOString(),
+      ...sealed,
+    });
+    this.save(entries);
+  }
+
+  /**
+   * Decrypt a pooled wallet by address
+   * @returns null if this owner has no such wallet in the store
+   */
+  async get(publicKey: string): Promise<Keypair | null> {
+    const entry = this.list().find((e) => e.publicKey === publicKey);
+    if (!entry) return null;
+
+    const secretKey = await openWithWallet(this.owner, entry, HKDF_INFO, (resealed) =>
+      this.save(this.load().map((e) => (e.publicKey === publicKey ? { ...e, ...resealed } : e)))
+    );
+    const keypair = Keypair.fromSecretKey(new Uint8Array(secretKey));
+    if (keypair.publicKey.toBase58() !== entry.publicKey) {
+      throw new Error(`Pooled wallet ${entry.publicKey} does not match its stored key`);
+    }
+    return keypair;
+  }
+
+  /**
+   * Forget a pooled wallet (only once it has been swept)
+   */
+  remove(publicKey: string): void {
+    const entries = this.load();
+    const remaining = entries.filter((e) => e.publicKey !== publicKey);
+    if (remaining.length !== entries.length) {
+      this.save(remaining);
+    }
+  }
+
+  /**
+   * Pooled wallets belonging to this owner
+   */
+  list(): PooledWalletEntry[] {
+    const owner = this.owner.publicKey.toBase58();
+    return this.load().filter((e) => e.owner === owner);
+  }
+
+  private load(): PooledWalletEntry[] {
+    try {
+      if (fs.existsSync(this.poolFile)) {
+        return JSON.parse(fs.readFileSync(this.poolFile, 'utf-8'));
+      }
+    } catch (error) {
+      // Never overwrite an unreadable keystore: it may hold the only copy of a funded key
+      throw new Error(`Failed to read wallet pool ${this.poolFile}: ${(error as Error).message}`);
+    }
+    return [];
+  }
+
+  private save(entries: PooledWalletEntry[]): void {
+    writePrivateFile(this.poolFile, JSON.stringify(entries, null, 2));
+  }
+}
@@ -12,8 +12,19 @@
  * - https://www.npmjs.com/package/privacycash
  */
 
-import { Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
-import { TOKEN_MINTS, TOKEN_DECIMALS } from '../types/index';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { DecimalAmount, SOL_DECIMALS, SOL_MINT, TokenInfo } from '../types/index';
+import { fromBaseUnits, toBaseUnits } from '../utils/amount';
+import { getBuiltinMint } from './token-registry.service';
+
+/**
+ * Rough SOL a deposit costs the depositor (network fee + new pool accounts).
+ * The withdrawal fee is taken from the withdrawn amount instead.
+ */
+export const ZK_DEPOSIT_FEE_SOL = 0.002;
+
+// SPL tokens with a Privacy Cash pool
+const SPL_POOL_MINTS = [getBuiltinMint('USDC')!, getBuiltinMint('USDT')!];
 
 // Privacy Cash SDK types (dynamically imported due to Node 24+ requirement)
 // Types match the real SDK at privacycash/dist/index.d.ts
@@ -107,7 +118,7 @@ export class PrivacyCashService {
    * Deposit SOL into Privacy Cash ZK pool
    * Returns transaction signature
    */
-  async depositSol(amount: number): Promise<{
+  async depositSol(amount: DecimalAmount): Promise<{
     success: boolean;
     signature?: string;
     error?: string;
@@ -120,7 +131,7 @@ export class PrivacyCashService {
     }
 
     try {
-      const lamports = Math.floor(amount * LAMPORTS_PER_SOL);
+      const lamports = Number(toBaseUnits(amount, SOL_DECIMALS));
       const result = await this.client!.deposit({ lamports });
 
       return {
@@ -140,14 +151,14 @@ export class PrivacyCashService {
    * Zero-knowledge proof ensures no link to deposit
    */
   async withdrawSol(
-    amount: number,
+    amount: DecimalAmount,
     recipientAddress: string
   ): Promise<{
     success: boolean;
     signature?: string;
     isPartial?: boolean;
-    actualAmount?: number;
-    fee?: number;
+    actualAmount?: DecimalAmount;
+    fee?: DecimalAmount;
     error?: string;
   }> {
     if (!this.client) {
@@ -158,7 +169,7 @@ export class PrivacyCashService {
     }
 
     try {
-      const lamports = Math.floor(amount * LAMPORTS_PER_SOL);
+      const lamports = Number(toBaseUnits(amount, SOL_DECIMALS));
       const result = await this.client!.withdraw({
         lamports,
         recipientAddress,
@@ -168,8 +179,8 @@ export class PrivacyCashService {
         success: true,
         signature: result.tx,
         isPartial: result.isPartial,
-        actualAmount: result.amount_in_lamports / LAMPORTS_PER_SOL,
-        fee: result.fee_in_lamports / LAMPORTS_PER_SOL,
+        actualAmount: fromBaseUnits(result.amount_in_lamports, SOL_DECIMALS),
+        fee: fromBaseUnits(result.fee_in_lamports, SOL_DECIMALS),
       };
     } catch (error: any) {
       return {
@@ -183,8 +194,8 @@ export class PrivacyCashService {
    * Deposit SPL tokens (USDC, USDT) into Privacy Cash
    */
   async depositSpl(
-    tokenSymbol: string,
-    amount: number
+    token: TokenInfo,
+    amount: DecimalAmount
   ): Promise<{
     success: boolean;
     signature?: string;
@@ -197,25 +208,19 @@ export class PrivacyCashService {
       }
     }
 
-    const mintAddress = TOKEN_MINTS[tokenSymbol];
-    if (!mintAddress) {
-      return { success: false, error: `Unsupported token: ${tokenSymbol}` };
-    }
-
     // Only USDC and USDT are supported by Privacy Cash
-    if (tokenSymbol !== 'USDC' && tokenSymbol !== 'USDT') {
+    if (!SPL_POOL_MINTS.includes(token.mint)) {
       return {
         success: false,
-        error: `Privacy Cash only supports USDC and USDT. Got: ${tokenSymbol}`,
+        error: `Privacy Cash only supports USDC and USDT. Got: ${token.symbol}`,
       };
     }
 
     try {
-      const decimals = TOKEN_DECIMALS[tokenSymbol] || 6;
-      const rawAmount = Math.floor(amount * Math.pow(10, decimals));
+      const mintAddress = token.mint;
 
       const result = await this.client!.depositSPL({
-        base_units: rawAmount,
+        base_units: Number(toBaseUnits(amount, token.decimals)),
         mintAddress,
       });
 
@@ -235,14 +240,14 @@ export class PrivacyCashService {
    * Withdraw SPL tokens from Privacy Cash to any address
    */
   async withdrawSpl(
-    tokenSymbol: string,
-    amount: number,
+    token: TokenInfo,
+    amount: DecimalAmount,
     recipientAddress: string
   ): Promise<{
     success: boolean;
     signature?: string;
     isPartial?: boolean;
-    fee?: number;
+    fee?: DecimalAmount;
     error?: string;
   }> {
     if (!this.client) {
@@ -252,25 +257,19 @@ export class PrivacyCashService {
       }
     }
 
-    const mintAddress = TOKEN_MINTS[tokenSymbol];
-    if (!mintAddress) {
-      return { success: false, error: `Unsupported token: ${tokenSymbol}` };
-    }
-
-    if (tokenSymbol !== 'USDC' && tokenSymbol !== 'USDT') {
+    if (!SPL_POOL_MINTS.includes(token.mint)) {
       return {
         success: false,
-        error: `Privacy Cash only supports USDC and USDT. Got: ${tokenSymbol}`,
+        error: `Privacy Cash only supports USDC and USDT. Got: ${token.symbol}`,
       };
     }
 
     try {
-      const decimals = TOKEN_DECIMALS[tokenSymbol] || 6;
-      const rawAmount = Math.floor(amount * Math.pow(10, decimals));
+      const mintAddress = token.mint;
 
       const result = await this.client!.withdrawSPL({
         mintAddress,
-        base_units: rawAmount,
+        base_units: Number(toBaseUnits(amount, token.decimals)),
         recipientAddress,
       });
 
@@ -278,7 +277,7 @@ export class PrivacyCashService {
         success: true,
         signature: result.tx,
         isPartial: result.isPartial,
-        fee: result.fee_base_units / Math.pow(10, decimals),
+        fee: fromBaseUnits(result.fee_base_units, token.decimals),
       };
     } catch (error: any) {
       return {
@@ -293,7 +292,7 @@ export class PrivacyCashService {
    */
   async getPrivateBalance(): Promise<{
     success: boolean;
-    balance?: number;
+    balance?: DecimalAmount;
     error?: string;
   }> {
     if (!this.client) {
@@ -307,7 +306,7 @@ export class PrivacyCashService {
       const result = await this.client!.getPrivateBalance();
       return {
         success: true,
-        balance: result.lamports / LAMPORTS_PER_SOL,
+        balance: fromBaseUnits(result.lamports, SOL_DECIMALS),
       };
     } catch (error: any) {
       return {
@@ -320,9 +319,9 @@ export class PrivacyCashService {
   /**
    * Get shielded SPL token balance
    */
-  async getPrivateBalanceSpl(tokenSymbol: string): Promise<{
+  async getPrivateBalanceSpl(token: TokenInfo): Promise<{
     success: boolean;
-    balance?: number;
+    balance?: DecimalAmount;
     error?: string;
   }> {
     if (!this.client) {
@@ -332,16 +331,15 @@ export class PrivacyCashService {
       }
     }
 
-    const mintAddress = TOKEN_MINTS[tokenSymbol];
-    if (!mintAddress) {
-      return { success: false, error: `Unsupported token: ${tokenSymbol}` };
+    if (!SPL_POOL_MINTS.includes(token.mint)) {
+      return { success: false, error: `Unsupported token: ${token.symbol}` };
     }
 
     try {
-      const result = await this.client!.getPrivateBalanceSpl(mintAddress);
+      const result = await this.client!.getPrivateBalanceSpl(token.mint);
       return {
         success: true,
-        balance: result.amount,
+        balance: fromBaseUnits(result.base_units, token.decimals),
       };
     } catch (error: any) {
       return {
@@ -373,10 +371,10 @@ export class PrivacyCashService {
   }
 
   /**
-   * Check if a token is supported by Privacy Cash
+   * Check if a mint is supported by Privacy Cash
    */
-  static isTokenSupported(tokenSymbol: string): boolean {
-    return tokenSymbol === 'SOL' || tokenSymbol === 'USDC' || tokenSymbol === 'USDT';
+  static isTokenSupported(mint: string): boolean {
+    return mint === SOL_MINT || SPL_POOL_MINTS.includes(mint);
   }
 
   /**
@@ -413,7 +411,7 @@ export class PrivacyCashSimulated {
    */
   static async simulateDeposit(
     tokenSymbol: string,
-    amount: number
+    amount: DecimalAmount
   ): Promise<{
     commitment: string;
     message: string;
@@ -436,7 +434,7 @@ export class PrivacyCashSimulated {
    */
   static async simulateWithdraw(
     tokenSymbol: string,
-    amount: number,
+    amount: DecimalAmount,
     recipient: string
   ): Promise<{
     proof: string;
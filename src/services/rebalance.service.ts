@@ -0,0 +1,215 @@
+/**
+ * Rebalance Service
+ *
+ * Plans the swaps that bring the wallet's holdings of a set of tokens back to
+ * target weights. Holdings are valued in USDC at Jupiter quotes; once any
+ * target drifts past the threshold, every target is restored with the fewest
+ * swaps: each sells the most overweight token into the most underweight one.
+ * Each swap runs through SwapExecutorService as its own execution.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { JupiterService } from './jupiter.service';
+import { EphemeralService } from './ephemeral.service';
+import { SchedulerService } from './scheduler.service';
+import { TokenRegistryService } from './token-registry.service';
+import { SwapExecutorService, SwapExecutionParams, ProgressCallback } from './swap-executor.service';
+import { newExecutionId } from './execution-state.service';
+import { Signer } from '../utils/signer';
+import { amountToNumber, fromBaseUnits, isPositiveAmount, toBaseUnits } from '../utils/amount';
+import {
+  BasketTarget,
+  DecimalAmount,
+  RebalanceHolding,
+  RebalancePlan,
+  RebalanceRun,
+  RebalanceTrade,
+  TokenInfo,
+} from '../types/index';
+
+export const DEFAULT_REBALANCE_THRESHOLD_PCT = 5;
+// Smaller trades cost more in fees than the drift they correct (USDC)
+const MIN_TRADE_VALUE = 1;
+// Sell amounts are a fraction of the balance in millionths
+const FRACTION_SCALE = 1_000_000;
+
+export class RebalanceService {
+  private jupiterService: JupiterService;
+  private ephemeralService: EphemeralService;
+  private tokens: TokenRegistryService;
+  private executor: SwapExecutorService;
+
+  constructor(connection: Connection) {
+    this.jupiterService = new JupiterService(connection);
+    this.ephemeralService = new EphemeralService(connection);
+    this.tokens = new TokenRegistryService(connection);
+    this.executor = new SwapExecutorService(connection);
+  }
+
+  /**
+   * Parse a drift threshold such as '5%' or '2.5' (percentage points)
+   * @throws Error if it is not a percentage between 0 and 100
+   */
+  static parseThreshold(value: string): number {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*%?\s*$/.exec(value);
+    const threshold = match ? parseFloat(match[1]) : NaN;
+    if (!(threshold > 0 && threshold < 100)) {
+      throw new Error(`Invalid threshold: ${value}. Use a percentage, e.g. 5%`);
+    }
+    return threshold;
+  }
+
+  /**
+   * Validate target weights (as for baskets) and the threshold
+   * @throws Error if either is invalid
+   */
+  static validate(targets: { token: string; weight: number }[], thresholdPct: number): void {
+    SchedulerService.validateBasket(targets);
+    if (!(thresholdPct > 0 && thresholdPct < 100)) {
+      throw new Error('Threshold must be a percentage between 0 and 100');
+    }
+  }
+
+  /**
+   * Swaps restoring the target weights, or none while every target is within
+   * the threshold. Trades worth less than MIN_TRADE_VALUE are left out.
+   */
+  static planTrades(holdings: RebalanceHolding[], thresholdPct: number): RebalanceTrade[] {
+    if (!holdings.some((holding) => Math.abs(holding.drift) >= thresholdPct)) return [];
+
+    const total = holdings.reduce((sum, holding) => sum + holding.value, 0);
+    const excess = holdings.map((holding) => ({ holding, value: holding.value - (total * holding.targetWeight) / 100 }));
+    const surplus = excess.filter((entry) => entry.value > 0);
+    const deficit = excess.filter((entry) => entry.value < 0).map((entry) => ({ ...entry, value: -entry.value }));
+
+    // Matching the largest surplus with the largest deficit settles one side each time: at most n - 1 swaps
+    const trades: RebalanceTrade[] = [];
+    while (surplus.length > 0 && deficit.length > 0) {
+      surplus.sort((a, b) => b.value - a.value);
+      deficit.sort((a, b) => b.value - a.value);
+      const from = surplus[0];
+      const to = deficit[0];
+      const value = Math.min(from.value, to.value);
+
+      const amount = RebalanceService.sellAmount(from.holding, value);
+      if (value >= MIN_TRADE_VALUE && isPositiveAmount(amount)) {
+        trades.push({
+          fromToken: from.holding.token,
+          fromMint: from.holding.mint,
+          toToken: to.holding.token,
+          toMint: to.holding.mint,
+          amount,
+          value,
+        });
+      }
+
+      from.value -= value;
+      to.value -= value;
+      if (from.value <= 0) surplus.shift();
+      if (to.value <= 0) deficit.shift();
+    }
+    return trades;
+  }
+
+  /**
+   * Value the wallet's target holdings and plan the swaps
+   * @throws Error if a holding can't be valued or none of the targets is held
+   */
+  async plan(owner: PublicKey, targets: BasketTarget[], thresholdPct: number): Promise<RebalancePlan> {
+    const usdc = await this.tokens.resolve('USDC');
+
+    const holdings: RebalanceHolding[] = [];
+    for (const target of targets) {
+      const token = await this.tokens.resolve(target.mint);
+      const balance = await this.ephemeralService.getSpendableBalance(owner, token.mint);
+      holdings.push({
+        token: target.token,
+        mint: token.mint,
+        decimals: token.decimals,
+        balance,
+        value: await this.getValue(token, balance, usdc),
+        weight: 0,
+        targetWeight: target.weight,
+        drift: 0,
+      });
+    }
+
+    const totalValue = holdings.reduce((sum, holding) => sum + holding.value, 0);
+    if (!(totalValue > 0)) {
+      throw new Error('None of the target tokens are held: nothing to rebalance');
+    }
+    for (const holding of holdings) {
+      holding.weight = (holding.value / totalValue) * 100;
+      holding.drift = holding.weight - holding.targetWeight;
+    }
+
+    return {
+      holdings,
+      totalValue,
+      maxDrift: Math.max(...holdings.map((holding) => Math.abs(holding.drift))),
+      trades: RebalanceService.planTrades(holdings, thresholdPct),
+    };
+  }
+
+  /**
+   * Make the planned swaps one after another. A swap that throws ends the
+   * run; the swaps before it keep their signatures, outputs and costs.
+   * @param swap - Settings every swap shares; tokens, amount and execution ID are the trade's
+   */
+  async executeTrades(
+    signer: Signer,
+    trades: RebalanceTrade[],
+    swap: Omit<SwapExecutionParams, 'fromToken' | 'toToken' | 'amount' | 'executionId'>,
+    onProgress?: ProgressCallback
+  ): Promise<RebalanceRun> {
+    const attempted: RebalanceTrade[] = [];
+    for (const trade of trades) {
+      attempted.push(trade);
+      const executionId = newExecutionId();
+      try {
+        const result = await this.executor.execute(
+          signer,
+          { ...swap, fromToken: trade.fromMint, toToken: trade.toMint, amount: trade.amount, executionId },
+          onProgress,
+        );
+        if (result.skipped) {
+          trade.error = `Skipped: ${result.skipReason}`;
+          continue;
+        }
+        Object.assign(trade, {
+          signature: result.signature,
+          outputAmount: result.outputAmount,
+          ephemeralAddress: result.ephemeralAddress,
+          costs: result.costs,
+        });
+      } catch (error: any) {
+        trade.error = error.message;
+        return { trades: attempted, error: error.message, failedExecutionId: executionId };
+      }
+    }
+    return { trades: attempted };
+  }
+
+  /**
+   * The part of a holding worth `value`, rounded down so it never exceeds the balance
+   */
+  private static sellAmount(holding: RebalanceHolding, value: number): DecimalAmount {
+    const fraction = Math.min(Math.floor((value / holding.value) * FRACTION_SCALE), FRACTION_SCALE);
+    const units = toBaseUnits(holding.balance, holding.decimals);
+    return fromBaseUnits((units * BigInt(fraction)) / BigInt(FRACTION_SCALE), holding.decimals);
+  }
+
+  /**
+   * What a balance would sell for in USDC right now
+   */
+  private async getValue(token: TokenInfo, balance: DecimalAmount, usdc: TokenInfo): Promise<number> {
+    if (!isPositiveAmount(balance)) return 0;
+    if (token.mint === usdc.mint) return amountToNumber(balance);
+    try {
+      const quote = await this.jupiterService.getQuote(token.mint, usdc.mint, toBaseUnits(balance, token.decimals));
+      return amountToNumber(fromBaseUnits(quote.outAmount, usdc.decimals));
+    } catch (error: any) {
+      throw new Error(`Can't value ${token.symbol}: ${error.message}`);
+    }
+  }
+}
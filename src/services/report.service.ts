@@ -0,0 +1,149 @@
+/**
+ * Report Service
+ *
+ * Answers "how is my DCA doing?" from the execution history: what was spent,
+ * what was acquired, the average entry price, what the position is worth now
+ * (a Jupiter quote for selling the whole acquired amount) and how much of
+ * the spend went to SOL fees and rent. Basket schedules are reported per
+ * target, and how far their current value drifted from the target weights.
+ */
+
+import { Connection } from '@solana/web3.js';
+import { JupiterService } from './jupiter.service';
+import { TokenRegistryService, getBuiltinMint } from './token-registry.service';
+import { SchedulerService } from './scheduler.service';
+import { addAmounts, amountToNumber, fromBaseUnits, roundAmount, toBaseUnits } from '../utils/amount';
+import {
+  BasketDrift,
+  DCASchedule,
+  DCAExecution,
+  ScheduleReport,
+  SOL_MINT,
+} from '../types/index';
+
+export class ReportService {
+  private jupiterService: JupiterService;
+  private tokens: TokenRegistryService;
+
+  constructor(connection: Connection) {
+    this.jupiterService = new JupiterService(connection);
+    this.tokens = new TokenRegistryService(connection);
+  }
+
+  /**
+   * Aggregate history without any network calls (no current value)
+   */
+  static summarize(schedule: DCASchedule, executions: DCAExecution[]): ScheduleReport {
+    const successful = executions.filter(
+      (e) => e.scheduleId === schedule.id && e.success && e.status !== 'skipped' && e.status !== 'missed'
+    );
+    // Older records don't carry amounts; including them would skew the entry price
+    const completed = successful.filter((e) => e.inputAmount !== undefined && e.outputAmount !== undefined);
+
+    // Summed exactly; only the totals become numbers for the price and P&L math
+    const totalSpent = amountToNumber(completed.reduce((sum, e) => addAmounts(sum, e.inputAmount!), '0'));
+    const totalAcquired = amountToNumber(completed.reduce((sum, e) => addAmounts(sum, e.outputAmount!), '0'));
+    const feesSol = completed.reduce((sum, e) => sum + (e.costs?.totalSol ?? 0), 0);
+
+    return {
+      scheduleId: schedule.id,
+      fromToken: schedule.fromToken,
+      toToken: schedule.toToken,
+      executions: completed.length,
+      untrackedExecutions: successful.length - completed.length,
+      firstExecution: completed[0]?.executedAt,
+      lastExecution: completed[completed.length - 1]?.executedAt,
+      totalSpent,
+      totalAcquired,
+      averageEntryPrice: totalAcquired > 0 ? totalSpent / totalAcquired : undefined,
+      feesSol,
+    };
+  }
+
+  /**
+   * Aggregate history and value the position at the current Jupiter quote.
+   * Quote failures leave the valuation fields undefined rather than throwing.
+   */
+  async report(schedule: DCASchedule, executions: DCAExecution[]): Promise<ScheduleReport> {
+    const report = ReportService.summarize(schedule, executions);
+    const fromToken = schedule.fromMint ?? schedule.fromToken;
+    const toToken = schedule.toMint ?? schedule.toToken;
+
+    if (report.totalAcquired > 0) {
+      const currentValue = await this.quoteValue(toToken, fromToken, report.totalAcquired);
+      if (currentValue !== undefined) {
+        report.currentValue = currentValue;
+        report.currentPrice = currentValue / report.totalAcquired;
+        report.unrealizedPnl = currentValue - report.totalSpent;
+        report.unrealizedPnlPct = report.totalSpent > 0 ? (report.unrealizedPnl / report.totalSpent) * 100 : undefined;
+      }
+    }
+
+    if (report.feesSol > 0) {
+      const feeDrag = (schedule.fromMint ?? getBuiltinMint(schedule.fromToken)) === SOL_MINT
+        ? report.feesSol
+        : await this.quoteValue(SOL_MINT, fromToken, report.feesSol);
+      if (feeDrag !== undefined) {
+        report.feeDrag = feeDrag;
+        report.feeDragPct = report.totalSpent > 0 ? (feeDrag / report.totalSpent) * 100 : undefined;
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Report each target of the schedule: one report, or one per basket leg.
+   * Rebalance schedules trade between their targets and have no cost basis.
+   */
+  async reportLegs(schedule: DCASchedule, executions: DCAExecution[]): Promise<ScheduleReport[]> {
+    const reports: ScheduleReport[] = [];
+    if (schedule.rebalance) return reports;
+    for (const leg of SchedulerService.getLegs(schedule)) {
+      const legExecutions = schedule.basket ? executions.filter((e) => e.toMint === leg.toMint) : executions;
+      reports.push(await this.report(leg, legExecutions));
+    }
+    return reports;
+  }
+
+  /**
+   * Each basket target's share of the current value against its weight.
+   * Shares are left undefined when any target's value couldn't be quoted.
+   */
+  async basketDrift(schedule: DCASchedule, executions: DCAExecution[]): Promise<BasketDrift[]> {
+    const basket = schedule.basket ?? [];
+    const reports = await this.reportLegs(schedule, executions);
+    const values = reports.map((report) => (report.totalAcquired > 0 ? report.currentValue : 0));
+    const total = values.every((value) => value !== undefined)
+      ? values.reduce((sum: number, value) => sum + value!, 0)
+      : undefined;
+
+    return basket.map((target, i) => {
+      const weight = total ? (values[i]! / total) * 100 : undefined;
+      return {
+        token: target.token,
+        targetWeight: target.weight,
+        value: values[i],
+        weight,
+        drift: weight !== undefined ? weight - target.weight : undefined,
+      };
+    });
+  }
+
+  /**
+   * What `amount` of `fromToken` would sell for in `toToken` right now
+   */
+  private async quoteValue(fromToken: string, toToken: string, amount: number): Promise<number | undefined> {
+    try {
+      const input = await this.tokens.resolve(fromToken);
+      const output = await this.tokens.resolve(toToken);
+      const inputRaw = toBaseUnits(roundAmount(amount, input.decimals), input.decimals);
+      if (inputRaw <= BigInt(0)) return undefined;
+
+      const quote = await this.jupiterService.getQuote(input.mint, output.mint, inputRaw);
+      return amountToNumber(fromBaseUnits(quote.outAmount, output.decimals));
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * Strategy Service
+ *
+ * Decides how much to buy on each DCA execution. Plain DCA always spends
+ * amountPerExecution; value averaging and dip-weighted strategies adjust the
+ * amount from Jupiter quote prices and the schedule's execution history.
+ * Sell-down amount modes read the wallet's fromToken balance instead.
+ * The decision (and every input that led to it) is recorded with the execution.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { JupiterService } from './jupiter.service';
+import { EphemeralService } from './ephemeral.service';
+import { TokenRegistryService } from './token-registry.service';
+import { amountToNumber, compareAmounts, fromBaseUnits, isPositiveAmount, roundAmount, toBaseUnits } from '../utils/amount';
+import {
+  AmountMode,
+  DecimalAmount,
+  DCASchedule,
+  DCAExecution,
+  DCAStrategy,
+  StrategyDecision,
+  TokenInfo,
+} from '../types/index';
+
+export const STRATEGY_TYPES: DCAStrategy['type'][] = ['fixed', 'value-averaging', 'dip-weighted'];
+export const AMOUNT_MODES: AmountMode['type'][] = ['fixed', 'percent-of-balance', 'until-depleted'];
+
+const DEFAULT_MOVING_AVERAGE_WINDOW = 10;
+const DEFAULT_SENSITIVITY = 2;
+const DEFAULT_MIN_MULTIPLIER = 0;
+const DEFAULT_MAX_MULTIPLIER = 3;
+// Need at least this many past prices before the moving average means anything
+const MIN_PRICE_SAMPLES = 2;
+
+/**
+ * One-line summary of a decision for logs
+ */
+export function describeDecision(decision: StrategyDecision): string {
+  const parts: string[] = [decision.type];
+  if (decision.multiplier !== undefined) parts.push(`${decision.multiplier.toFixed(2)}x`);
+  if (decision.price !== undefined) parts.push(`price ${decision.price.toPrecision(6)}`);
+  if (decision.movingAverage !== undefined) parts.push(`MA ${decision.movingAverage.toPrecision(6)}`);
+  if (decision.targetValueUsd !== undefined) {
+    parts.push(`value $${(decision.currentValueUsd ?? 0).toFixed(2)}/$${decision.targetValueUsd.toFixed(2)}`);
+  }
+  if (decision.balance !== undefined) parts.push(`balance ${decision.balance}`);
+  if (decision.depleted) parts.push('last sale');
+  return parts.join(', ');
+}
+
+export class StrategyService {
+  private jupiterService: JupiterService;
+  private ephemeralService: EphemeralService;
+  private tokens: TokenRegistryService;
+
+  constructor(connection: Connection) {
+    this.jupiterService = new JupiterService(connection);
+    this.ephemeralService = new EphemeralService(connection);
+    this.tokens = new TokenRegistryService(connection);
+  }
+
+  /**
+   * Validate strategy parameters
+   * @throws Error describing the first invalid parameter
+   */
+  static validate(strategy: DCAStrategy): void {
+    if (!STRATEGY_TYPES.includes(strategy.type)) {
+      throw new Error(`Invalid strategy: ${strategy.type}. Use: ${STRATEGY_TYPES.join(', ')}`);
+    }
+
+    if (strategy.type === 'value-averaging') {
+      if (strategy.targetIncrementUsd === undefined || !(strategy.targetIncrementUsd > 0)) {
+        throw new Error('Value averaging requires a positive target increment (USD per period)');
+      }
+    }
+
+    if (strategy.movingAverageWindow !== undefined) {
+      if (!Number.isInteger(strategy.movingAverageWindow) || strategy.movingAverageWindow < MIN_PRICE_SAMPLES) {
+        throw new Error(`Moving average window must be an integer of at least ${MIN_PRICE_SAMPLES}`);
+      }
+    }
+
+    if (strategy.sensitivity !== undefined && !(strategy.sensitivity >= 0)) {
+      throw new Error('Sensitivity must be zero or positive');
+    }
+
+    const min = strategy.minMultiplier ?? DEFAULT_MIN_MULTIPLIER;
+    const max = strategy.maxMultiplier ?? DEFAULT_MAX_MULTIPLIER;
+    if (!(min >= 0) || !(max > 0) || min > max) {
+      throw new Error('Multiplier bounds must satisfy 0 <= min <= max');
+    }
+  }
+
+  /**
+   * Validate a sell-down amount mode against the rest of the schedule
+   * @throws Error describing the first invalid setting
+   */
+  static validateAmountMode(
+    mode: AmountMode,
+    settings: { strategy?: DCAStrategy; basket?: unknown[] } = {}
+  ): void {
+    if (!AMOUNT_MODES.includes(mode.type)) {
+      throw new Error(`Invalid amount mode: ${mode.type}. Use: ${AMOUNT_MODES.join(', ')}`);
+    }
+
+    if (mode.type === 'percent-of-balance') {
+      if (mode.balancePercent === undefined || !(mode.balancePercent > 0 && mode.balancePercent <= 100)) {
+        throw new Error('Percent of balance must be more than 0 and at most 100');
+      }
+    }
+
+    if (mode.type !== 'fixed') {
+      if (settings.strategy && settings.strategy.type !== 'fixed') {
+        throw new Error('Sell-down schedules use the fixed strategy');
+      }
+      if (settings.basket) {
+        throw new Error('Sell-down amounts apply to a single pair, not a basket');
+      }
+    }
+  }
+
+  /**
+   * Compute the amount for the next execution of a schedule
+   * @param history - Past executions of this schedule
+   * @param owner - Wallet whose balance sell-down amounts are read from
+   */
+  async decide(schedule: DCASchedule, history: DCAExecution[], owner?: PublicKey): Promise<StrategyDecision> {
+    const strategy = schedule.strategy ?? { type: 'fixed' };
+    const baseAmount = schedule.amountPerExecution;
+
+    const mode = schedule.amountMode;
+    if (mode && mode.type !== 'fixed') {
+      if (!owner) {
+        throw new Error('Sell-down amounts need the wallet whose balance is sold');
+      }
+      const input = await this.tokens.resolve(schedule.fromMint ?? schedule.fromToken);
+      return this.decideFromBalance(schedule, mode, owner, input);
+    }
+
+    if (strategy.type !== 'value-averaging' && strategy.type !== 'dip-weighted') {
+      return { type: 'fixed', baseAmount, amount: baseAmount };
+    }
+
+    const input = await this.tokens.resolve(schedule.fromMint ?? schedule.fromToken);
+    const output = await this.tokens.resolve(schedule.toMint ?? schedule.toToken);
+    return strategy.type === 'value-averaging'
+      ? this.decideValueAveraging(schedule, strategy, history, input, output)
+      : this.decideDipWeighted(schedule, strategy, history, input, output);
+  }
+
+  /**
+   * Buy whatever brings the position up to (periods × targetIncrementUsd).
+   * Every recorded slot is a period, so the target keeps growing through
+   * skipped, failed and missed runs.
+   */
+  private async decideValueAveraging(
+    schedule: DCASchedule,
+    strategy: DCAStrategy,
+    history: DCAExecution[],
+    input: TokenInfo,
+    output: TokenInfo
+  ): Promise<StrategyDecision> {
+    const baseAmount = schedule.amountPerExecution;
+    const increment = strategy.targetIncrementUsd ?? 0;
+    const completed = history.filter((e) => e.success && e.status !== 'skipped');
+    const held = completed.reduce((sum, e) => sum + amountToNumber(e.outputAmount ?? '0'), 0);
+    // Older records without a slot count once each; manual runs add to the position but are no period
+    const periods = new Set(history.filter((e) => !e.manual).map((e) => e.scheduledFor ?? e.id)).size;
+
+    const [toTokenUsd, fromTokenUsd] = await Promise.all([
+      this.getUsdPrice(output),
+      this.getUsdPrice(input),
+    ]);
+
+    const targetValueUsd = (periods + 1) * increment;
+    const currentValueUsd = held * toTokenUsd;
+    const shortfallUsd = targetValueUsd - currentValueUsd;
+    const price = toTokenUsd / fromTokenUsd;
+
+    if (shortfallUsd <= 0) {
+      return {
+        type: 'value-averaging',
+        baseAmount,
+        amount: '0',
+        price,
+        targetValueUsd,
+        currentValueUsd,
+        multiplier: 0,
+        reason: 'Position already at or above target value',
+      };
+    }
+
+    const uncapped = shortfallUsd / fromTokenUsd;
+    const amount = this.clampAmount(uncapped, schedule, strategy, input);
+
+    return {
+      type: 'value-averaging',
+      baseAmount,
+      amount,
+      price,
+      targetValueUsd,
+      currentValueUsd,
+      multiplier: amountToNumber(amount) / amountToNumber(baseAmount),
+      reason: amountToNumber(amount) < uncapped ? 'Capped at max multiplier' : undefined,
+    };
+  }
+
+  /**
+   * Scale the base amount by how far the price sits below its moving average
+   */
+  private async decideDipWeighted(
+    schedule: DCASchedule,
+    strategy: DCAStrategy,
+    history: DCAExecution[],
+    input: TokenInfo,
+    output: TokenInfo
+  ): Promise<StrategyDecision> {
+    const baseAmount = schedule.amountPerExecution;
+    const window = strategy.movingAverageWindow ?? DEFAULT_MOVING_AVERAGE_WINDOW;
+    const sensitivity = strategy.sensitivity ?? DEFAULT_SENSITIVITY;
+
+    const price = await this.getPrice(input, output, baseAmount);
+
+    // Prices sampled at previous executions (failed ones still saw a valid quote)
+    const pastPrices = history
+      .map((e) => e.strategy?.price)
+      .filter((p): p is number => typeof p === 'number' && p > 0)
+      .slice(-(window - 1));
+
+    if (pastPrices.length + 1 < MIN_PRICE_SAMPLES) {
+      return {
+        type: 'dip-weighted',
+        baseAmount,
+        amount: baseAmount,
+        price,
+        multiplier: 1,
+        reason: 'Not enough price history for a moving average',
+      };
+    }
+
+    const samples = [...pastPrices, price];
+    const movingAverage = samples.reduce((sum, p) => sum + p, 0) / samples.length;
+    // Positive when the current price is below average (a dip)
+    const deviation = (movingAverage - price) / movingAverage;
+    const rawMultiplier = 1 + sensitivity * deviation;
+    const amount = this.clampAmount(amountToNumber(baseAmount) * rawMultiplier, schedule, strategy, input);
+
+    return {
+      type: 'dip-weighted',
+      baseAmount,
+      amount,
+      price,
+      movingAverage,
+      multiplier: amountToNumber(amount) / amountToNumber(baseAmount),
+      reason: isPositiveAmount(amount) ? undefined : 'Price too far above moving average',
+    };
+  }
+
+  /**
+   * Sell a share of the balance (at least amountPerExecution), or
+   * amountPerExecution until the balance runs out, the last sale taking what
+   * is left. That sale, an empty balance or a share too small to send mark
+   * the decision depleted.
+   */
+  private async decideFromBalance(
+    schedule: DCASchedule,
+    mode: AmountMode,
+    owner: PublicKey,
+    input: TokenInfo
+  ): Promise<StrategyDecision> {
+    const baseAmount = schedule.amountPerExecution;
+    const balance = await this.ephemeralService.getSpendableBalance(owner, input.mint);
+    const last = (amount: DecimalAmount, reason: string): StrategyDecision =>
+      ({ type: 'fixed', baseAmount, amount, balance, depleted: true, reason });
+
+    if (!isPositiveAmount(balance)) {
+      return last('0', `No ${input.symbol} left to sell`);
+    }
+
+    let amount = baseAmount;
+    if (mode.type === 'percent-of-balance') {
+      // Basis points keep the share exact in base units
+      const basisPoints = BigInt(Math.round((mode.balancePercent ?? 0) * 100));
+      const share = fromBaseUnits((toBaseUnits(balance, input.decimals) * basisPoints) / BigInt(10_000), input.decimals);
+      if (compareAmounts(share, baseAmount) > 0) amount = share;
+    }
+
+    if (!isPositiveAmount(amount)) {
+      return last('0', `${mode.balancePercent}% of the remaining ${input.symbol} is too small to sell`);
+    }
+    if (compareAmounts(amount, balance) >= 0) {
+      return last(balance, `Sells the remaining ${input.symbol}`);
+    }
+    return { type: 'fixed', baseAmount, amount, balance };
+  }
+
+  /**
+   * Apply multiplier bounds and round to the input token's decimals
+   */
+  private clampAmount(amount: number, schedule: DCASchedule, strategy: DCAStrategy, input: TokenInfo): DecimalAmount {
+    const baseAmount = amountToNumber(schedule.amountPerExecution);
+    const min = baseAmount * (strategy.minMultiplier ?? DEFAULT_MIN_MULTIPLIER);
+    const max = baseAmount * (strategy.maxMultiplier ?? DEFAULT_MAX_MULTIPLIER);
+    const clamped = Math.min(Math.max(amount, min), max);
+    return roundAmount(clamped, input.decimals);
+  }
+
+  /**
+   * Price of one toToken in fromToken, quoted for the given input size
+   */
+  private async getPrice(input: TokenInfo, output: TokenInfo, amount: DecimalAmount): Promise<number> {
+    const quote = await this.jupiterService.getQuote(input.mint, output.mint, toBaseUnits(amount, input.decimals));
+    const received = amountToNumber(fromBaseUnits(quote.outAmount, output.decimals));
+    if (!(received > 0)) {
+      throw new Error(`No ${input.symbol} -> ${output.symbol} quote available`);
+    }
+    return amountToNumber(amount) / received;
+  }
+
+  /**
+   * USD price of one token, quoted against USDC
+   */
+  private async getUsdPrice(token: TokenInfo): Promise<number> {
+    const usdc = await this.tokens.resolve('USDC');
+    if (token.mint === usdc.mint) return 1;
+    const quote = await this.jupiterService.getQuote(token.mint, usdc.mint, toBaseUnits('1', token.decimals));
+    return amountToNumber(fromBaseUnits(quote.outAmount, usdc.decimals));
+  }
+}
@@ -10,33 +10,80 @@
  * Supports all privacy layers:
  *   - Ephemeral wallets (on-chain linkability breaking)
  *   - Privacy Cash ZK pools (anonymity set)
- *   - Arcium RescueCipher (confidential transfers)
+ *   - Token-2022 confidential balances, or Arcium RescueCipher where the output mint has none
  *   - Range compliance screening
  */
 
-import { Connection, Keypair, PublicKey } from '@solana/web3.js';
-import { JupiterService } from './jupiter.service';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  LAMPORTS_PER_SOL,
+  ConfirmedTransactionMeta,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+  VersionedMessage,
+} from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import * as path from 'path';
+import * as os from 'os';
+import { JupiterService, MAX_PRIORITY_FEE_LAMPORTS } from './jupiter.service';
 import { RangeService } from './range.service';
 import { ArciumService, ArciumSimulated } from './arcium.service';
-import { EphemeralService } from './ephemeral.service';
-import { PrivacyCashService, PrivacyCashSimulated } from './privacy-cash.service';
+import { ConfidentialTransferService } from './confidential-transfer.service';
+import { TokenProgramService } from './token-program.service';
+import { TokenRegistryService, getBuiltinMint } from './token-registry.service';
+import { EphemeralService, FundingEstimate, RECOVERY_FEE_LAMPORTS } from './ephemeral.service';
+import { EphemeralJournalService } from './ephemeral-journal.service';
+import { ExecutionStateService, ExecutionState, PhaseOutputs, PhaseRecord, newExecutionId } from './execution-state.service';
+import { PrivacyCashService, PrivacyCashSimulated, ZK_DEPOSIT_FEE_SOL } from './privacy-cash.service';
+import { Signer, KeypairSigner } from '../utils/signer';
+import {
+  addAmounts,
+  amountToNumber,
+  compareAmounts,
+  fromBaseUnits,
+  isPositiveAmount,
+  parseAmount,
+  subtractAmounts,
+  toBaseUnits,
+} from '../utils/amount';
 
-import { TOKEN_MINTS, TOKEN_DECIMALS } from '../types/index';
+import {
+  SOL_MINT,
+  SOL_DECIMALS,
+  DecimalAmount,
+  DCASchedule,
+  ExecutionSignatures,
+  ExecutionCosts,
+  EphemeralFunding,
+  TokenInfo,
+} from '../types/index';
 
 // Re-export simulated classes so consumers can reference them if needed
 export { ArciumSimulated, PrivacyCashSimulated };
 
+/** Warn when the wallet covers fewer executions of a schedule than this */
+export const DEFAULT_LOW_BALANCE_WARNING = 3;
+
+const BASE_FEE_LAMPORTS = 5000;
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
 export interface SwapExecutionParams {
-  /** Source token symbol (e.g. 'SOL', 'USDC') */
+  /** Source token: symbol (e.g. 'SOL', 'USDC'), registered alias or mint address */
   fromToken: string;
-  /** Destination token symbol */
+  /** Destination token: symbol, registered alias or mint address */
   toToken: string;
-  /** Amount of source token to swap */
-  amount: number;
+  /** Amount of source token to swap, e.g. '0.1' */
+  amount: DecimalAmount;
   /** Slippage tolerance in basis points */
   slippageBps: number;
 
@@ -45,7 +92,7 @@ export interface SwapExecutionParams {
   useEphemeral: boolean;
   /** Use Privacy Cash ZK pool for anonymity set */
   useZk: boolean;
-  /** Use Arcium RescueCipher for confidential transfers */
+  /** Deposit the output into a Token-2022 confidential balance, or encrypt it with Arcium RescueCipher */
   isPrivate: boolean;
   /** Enable Range compliance screening */
   shouldScreen: boolean;
@@ -54,19 +101,129 @@ export interface SwapExecutionParams {
   customDestination?: string;
   /** Range API key (required when shouldScreen is true) */
   rangeApiKey?: string;
+  /** Skip the swap when the quote falls outside these limits */
+  priceGuard?: PriceGuard;
+  /** Reuse this pooled ephemeral wallet instead of a fresh one (keeps its fee reserve and ATAs) */
+  pooledWallet?: Keypair;
+  /** Build and simulate every transaction instead of signing and sending them */
+  dryRun?: boolean;
+  /** ID the execution's state is persisted under (generated when omitted) */
+  executionId?: string;
+  /** Schedule this execution belongs to, so the daemon can resume it */
+  scheduleId?: string;
+}
+
+/**
+ * Quote limits checked before any funds move.
+ * Prices are in source token per 1 destination token (e.g. USDC per SOL).
+ */
+export interface PriceGuard {
+  maxPrice?: number;
+  minPrice?: number;
+  /** Maximum Jupiter priceImpactPct, in percent */
+  maxPriceImpactPct?: number;
 }
 
 export interface SwapExecutionResult {
   /** Whether the swap completed successfully */
   success: boolean;
+  /** True when the price guard or the pre-flight balance check stopped the swap (no funds moved) */
+  skipped?: boolean;
+  /** Why the swap was skipped */
+  skipReason?: string;
   /** Jupiter swap transaction signature */
   signature?: string;
-  /** Output amount in human-readable units */
-  outputAmount?: number;
+  /** Every transaction sent, by pipeline stage */
+  signatures?: ExecutionSignatures;
+  /** Output amount in human-readable units (actual when measurable, else quoted) */
+  outputAmount?: DecimalAmount;
+  /** Output amount Jupiter quoted before the swap */
+  quotedOutputAmount?: DecimalAmount;
+  /** USD value of the input at execution time, when it could be priced */
+  inputValueUsd?: number;
+  /** Ephemeral wallet the swap ran from, if any */
+  ephemeralAddress?: string;
+  /** SOL fees and rent, when the confirmed transactions could be fetched */
+  costs?: ExecutionCosts;
+  /** The ephemeral's fee reserve vs. what it spent */
+  ephemeralFunding?: EphemeralFunding;
   /** Output token symbol */
   outputToken?: string;
+  /** What a dry run found (nothing was signed or sent) */
+  dryRun?: DryRunReport;
+  /** Wallet costs and balances checked before any funds moved */
+  preflight?: PreflightCheck;
   /** Error message on failure */
   error?: string;
+  /** ID the execution's state was persisted under (not set for dry runs) */
+  executionId?: string;
+}
+
+/**
+ * What `resume` needs that is not persisted with an execution
+ */
+export interface ResumeOptions {
+  /** The pooled wallet the execution ran from, if it used one */
+  pooledWallet?: Keypair;
+  rangeApiKey?: string;
+}
+
+/**
+ * Everything an execution takes from the wallet, checked before any funds move
+ */
+export interface PreflightCheck {
+  fromToken: string;
+  /** Input the wallet sends (in ZK mode: the pool deposit plus the ephemeral funding) */
+  inputAmount: DecimalAmount;
+  /** SOL sent to the ephemeral for its fees and rent (mostly recovered afterwards) */
+  ephemeralFundingSol: number;
+  /** Rent for token accounts the wallet pays for */
+  ataRentSol: number;
+  /** Base + priority fees the wallet pays */
+  networkFeesSol: number;
+  zkFeesSol: number;
+  /** All SOL the wallet needs, a SOL input included */
+  solNeeded: number;
+  solBalance: number;
+  /** Input token balance, when the input is not SOL */
+  tokenBalance?: DecimalAmount;
+  /** Executions of this size the balances cover, this one included */
+  executionsCovered: number;
+  /** Set when the wallet can't cover this execution */
+  shortfall?: string;
+}
+
+/**
+ * A transaction an execution would sign, as built by a dry run
+ */
+export interface PlannedTransaction {
+  phase: SwapProgressPhase;
+  description: string;
+  feePayer: string;
+  /** Addresses whose signatures it needs */
+  signers: string[];
+  /** False when it depends on an earlier transaction landing (fee and rent are still estimated) */
+  simulated: boolean;
+  unitsConsumed?: number;
+  feeSol: number;
+  /** Rent for token accounts it creates */
+  rentSol: number;
+  /** Why the simulation failed */
+  error?: string;
+}
+
+export interface DryRunReport {
+  transactions: PlannedTransaction[];
+  /** Quoted output in human-readable units */
+  expectedOutput: DecimalAmount;
+  priceImpactPct: number;
+  /** SOL sent to the ephemeral wallet for its fees and rent */
+  ephemeralFundingSol?: number;
+  feesSol: number;
+  rentSol: number;
+  totalSol: number;
+  /** Problems a real run would hit (balance, failed simulations, fee reserve) */
+  warnings: string[];
 }
 
 /**
@@ -74,6 +231,7 @@ export interface SwapExecutionResult {
  *
  * Phases:
  *   'screening'      - Range compliance screening
+ *   'preflight'      - Wallet balance vs. the execution's full cost
  *   'zk-deposit'     - Privacy Cash ZK pool deposit
  *   'zk-withdraw'    - Privacy Cash ZK pool withdrawal
  *   'ephemeral-gen'  - Ephemeral wallet generation
@@ -81,11 +239,14 @@ export interface SwapExecutionResult {
  *   'quote'          - Getting Jupiter quote
  *   'swap'           - Executing the swap
  *   'send-output'    - Sending output to destination
+ *   'close-accounts' - Closing the ephemeral's token accounts to reclaim rent
  *   'recover-sol'    - Recovering SOL dust from ephemeral
+ *   'confidential'   - Depositing the output into a Token-2022 confidential balance
  *   'arcium'         - Arcium confidential encryption
  */
 export type SwapProgressPhase =
   | 'screening'
+  | 'preflight'
   | 'zk-deposit'
   | 'zk-withdraw'
   | 'ephemeral-gen'
@@ -93,7 +254,9 @@ export type SwapProgressPhase =
   | 'quote'
   | 'swap'
   | 'send-output'
+  | 'close-accounts'
   | 'recover-sol'
+  | 'confidential'
   | 'arcium';
 
 export type SwapProgressStatus = 'start' | 'success' | 'warn' | 'fail' | 'info';
@@ -107,6 +270,168 @@ export interface SwapProgressEvent {
 
 export type ProgressCallback = (event: SwapProgressEvent) => void;
 
+/** Phases in the order the pipeline runs them */
+const PIPELINE_PHASES: SwapProgressPhase[] = [
+  'screening',
+  'quote',
+  'preflight',
+  'zk-deposit',
+  'zk-withdraw',
+  'ephemeral-gen',
+  'ephemeral-fund',
+  'swap',
+  'send-output',
+  'close-accounts',
+  'recover-sol',
+  'confidential',
+  'arcium',
+];
+
+/**
+ * Completed phases of the running execution
+ */
+interface PhaseTracker {
+  id?: string;
+  /** Phases completed before this run (when resuming) */
+  resumed: Set<SwapProgressPhase>;
+  done(phase: SwapProgressPhase): PhaseRecord | undefined;
+  complete(phase: SwapProgressPhase, record?: Omit<PhaseRecord, 'completedAt'>): void;
+  /** Forget the execution: there is nothing left to resume */
+  discard(): void;
+}
+
+type QuoteResponse = Awaited<ReturnType<JupiterService['getQuote']>>;
+
+/**
+ * Validate price guard limits
+ * @throws Error describing the first invalid limit
+ */
+export function validatePriceGuard(guard: PriceGuard): void {
+  const { maxPrice, minPrice, maxPriceImpactPct } = guard;
+  if (maxPrice !== undefined && !(maxPrice > 0)) {
+    throw new Error('Max price must be a positive number');
+  }
+  if (minPrice !== undefined && !(minPrice > 0)) {
+    throw new Error('Min price must be a positive number');
+  }
+  if (maxPrice !== undefined && minPrice !== undefined && minPrice > maxPrice) {
+    throw new Error('Min price must not exceed max price');
+  }
+  if (maxPriceImpactPct !== undefined && !(maxPriceImpactPct >= 0 && maxPriceImpactPct <= 100)) {
+    throw new Error('Max price impact must be between 0 and 100 percent');
+  }
+}
+
+/**
+ * Extract the guard limits from a schedule (or any object carrying them)
+ * @returns undefined when no limit is set
+ */
+export function getPriceGuard(limits: PriceGuard): PriceGuard | undefined {
+  const { maxPrice, minPrice, maxPriceImpactPct } = limits;
+  if (maxPrice === undefined && minPrice === undefined && maxPriceImpactPct === undefined) {
+    return undefined;
+  }
+  return { maxPrice, minPrice, maxPriceImpactPct };
+}
+
+/**
+ * Check a quoted price against a guard
+ * @returns The reason to skip, or null when the quote is acceptable
+ */
+export function checkPriceGuard(
+  guard: PriceGuard,
+  price: number,
+  priceImpactPct: number,
+  pair: string,
+): string | null {
+  if (guard.maxPrice !== undefined && price > guard.maxPrice) {
+    return `Price ${price.toPrecision(6)} ${pair} above max ${guard.maxPrice}`;
+  }
+  if (guard.minPrice !== undefined && price < guard.minPrice) {
+    return `Price ${price.toPrecision(6)} ${pair} below min ${guard.minPrice}`;
+  }
+  if (guard.maxPriceImpactPct !== undefined && priceImpactPct > guard.maxPriceImpactPct) {
+    return `Price impact ${priceImpactPct}% above max ${guard.maxPriceImpactPct}%`;
+  }
+  return null;
+}
+
+/**
+ * Warning when a schedule's wallet runs low
+ * @param executionsCovered - From the pre-flight check, the current execution included
+ * @param executionsDone - Executions recorded so far, the current one excluded (SchedulerService.countExecutions)
+ * @returns null while the balance lasts for the schedule's warning threshold (or its remaining executions)
+ */
+export function getLowBalanceWarning(schedule: DCASchedule, executionsCovered: number, executionsDone: number): string | null {
+  // A sell-down is meant to use the balance up
+  if (schedule.amountMode && schedule.amountMode.type !== 'fixed') return null;
+
+  const left = executionsCovered - 1;
+  const threshold = schedule.lowBalanceWarning ?? DEFAULT_LOW_BALANCE_WARNING;
+  const remaining = schedule.totalExecutions
+    ? schedule.totalExecutions - executionsDone - 1
+    : Infinity;
+  if (left >= Math.min(threshold, remaining)) {
+    return null;
+  }
+
+  const pair = `${schedule.fromToken}→${schedule.toToken}`;
+  return left <= 0
+    ? `Low balance: the wallet can't fund the next ${pair} execution`
+    : `Low balance: the wallet covers only ${left} more ${pair} execution(s)`;
+}
+
+/**
+ * One line on how an ephemeral's fee reserve compared with what it spent
+ */
+export function describeEphemeralFunding(funding: EphemeralFunding): string {
+  const reserve = `${funding.reserveSol.toFixed(6)} SOL reserve`;
+  if (funding.spentSol === undefined || funding.surplusSol === undefined) {
+    return `Ephemeral funding: ${reserve}, spend not measurable`;
+  }
+  const delta = funding.surplusSol >= 0
+    ? `${funding.surplusSol.toFixed(6)} SOL over`
+    : `${(-funding.surplusSol).toFixed(6)} SOL under`;
+  return `Ephemeral funding: ${reserve}, spent ${funding.spentSol.toFixed(6)} SOL (${delta})`;
+}
+
+/**
+ * Lamports locked in token accounts created by a transaction
+ */
+function getNewAccountRent(meta: ConfirmedTransactionMeta): number {
+  let rent = 0;
+  for (const balance of meta.postTokenBalances ?? []) {
+    if (meta.preBalances[balance.accountIndex] === 0) {
+      rent += meta.postBalances[balance.accountIndex];
+    }
+  }
+  return rent;
+}
+
+/**
+ * Output received by a swap's signer, from the confirmed transaction
+ * @param owner - The signer (fee payer, account 0) that received the output
+ */
+export function getReceivedAmount(
+  meta: ConfirmedTransactionMeta,
+  owner: string,
+  output: TokenInfo,
+): DecimalAmount {
+  if (output.mint === SOL_MINT) {
+    // Jupiter unwraps SOL output into the fee payer; add back the fee and
+    // rent it paid (both are reported as costs, not as less output)
+    const lamports = meta.postBalances[0] - meta.preBalances[0] + meta.fee + getNewAccountRent(meta);
+    return fromBaseUnits(lamports, SOL_DECIMALS);
+  }
+
+  const sum = (balances: ConfirmedTransactionMeta['postTokenBalances']) =>
+    (balances ?? [])
+      .filter((b) => b.mint === output.mint && b.owner === owner)
+      .reduce((total, b) => total + BigInt(b.uiTokenAmount.amount), BigInt(0));
+
+  return fromBaseUnits(sum(meta.postTokenBalances) - sum(meta.preTokenBalances), output.decimals);
+}
+
 // ---------------------------------------------------------------------------
 // Service
 // ---------------------------------------------------------------------------
@@ -115,28 +440,111 @@ export class SwapExecutorService {
   private connection: Connection;
   private jupiterService: JupiterService;
   private ephemeralService: EphemeralService;
+  private tokenPrograms: TokenProgramService;
+  private confidentialService: ConfidentialTransferService;
+  private tokens: TokenRegistryService;
+  private dataDir: string;
+  private states: ExecutionStateService;
 
-  constructor(connection: Connection) {
+  /**
+   * @param dataDir - Where the ephemeral key journal and execution states live
+   */
+  constructor(connection: Connection, dataDir: string = path.join(os.homedir(), '.private-dca')) {
     this.connection = connection;
+    this.dataDir = dataDir;
     this.jupiterService = new JupiterService(connection);
-    this.ephemeralService = new EphemeralService(connection);
+    this.ephemeralService = new EphemeralService(connection, connection.rpcEndpoint);
+    this.tokenPrograms = new TokenProgramService(connection);
+    this.confidentialService = new ConfidentialTransferService(connection, this.tokenPrograms);
+    this.tokens = new TokenRegistryService(connection, dataDir);
+    this.states = new ExecutionStateService(dataDir);
   }
 
   /**
-   * Execute a full swap with all privacy layers.
+   * Execute a full swap with all privacy layers. Each completed phase is
+   * persisted under `params.executionId`, so an interrupted execution can
+   * be continued with `resume`.
    *
-   * @param keypair     - The user's signing keypair (funds source)
+   * @param signer      - The user's wallet (funds source)
    * @param params      - Swap configuration
    * @param onProgress  - Optional callback for progress reporting (used by CLI for spinners)
    */
   async execute(
-    keypair: Keypair,
+    signer: Signer,
     params: SwapExecutionParams,
     onProgress?: ProgressCallback,
+  ): Promise<SwapExecutionResult> {
+    // Dry runs move nothing, so there is nothing to resume
+    const state = params.dryRun
+      ? undefined
+      : this.states.start(params.executionId ?? newExecutionId(), signer.publicKey, params);
+    return this.run(signer, params, state, onProgress ?? (() => {}));
+  }
+
+  /**
+   * Continue an interrupted execution from its last completed phase.
+   * Funds already left the wallet, so the price guard and balance check are
+   * not repeated; the swap is re-quoted if it hadn't happened yet.
+   *
+   * @param executionId - ID of the interrupted execution
+   * @param options     - What is not persisted with the execution: its pooled wallet and the Range API key
+   * @throws Error if there is no such interrupted execution, or it is running in another process
+   */
+  async resume(
+    signer: Signer,
+    executionId: string,
+    onProgress?: ProgressCallback,
+    options: ResumeOptions = {},
+  ): Promise<SwapExecutionResult> {
+    const state = this.states.claim(executionId, signer.publicKey);
+    const { pooledWallet, ...stored } = state.params;
+    const params: SwapExecutionParams = {
+      ...stored,
+      pooledWallet: pooledWallet ? options.pooledWallet : undefined,
+      rangeApiKey: options.rangeApiKey,
+      executionId: state.id,
+      scheduleId: state.scheduleId,
+    };
+    return this.run(signer, params, state, onProgress ?? (() => {}));
+  }
+
+  /**
+   * Run the pipeline, keeping the state of a failed execution once funds have left the wallet
+   */
+  private async run(
+    signer: Signer,
+    params: SwapExecutionParams,
+    state: ExecutionState | undefined,
+    onProgress: ProgressCallback,
+  ): Promise<SwapExecutionResult> {
+    let currentPhase: SwapProgressPhase | undefined;
+    const progress: ProgressCallback = (event) => {
+      if (event.status === 'start') currentPhase = event.phase;
+      onProgress(event);
+    };
+
+    try {
+      const result = await this.runPhases(signer, params, this.track(state), progress);
+      if (state) this.states.finish(state.id);
+      return { ...result, executionId: state?.id };
+    } catch (error: any) {
+      if (state && (state.phases['zk-deposit'] || state.phases['ephemeral-gen'])) {
+        this.states.fail(state, currentPhase, error.message);
+      } else if (state) {
+        // Nothing left the wallet: a fresh execution does the same
+        this.states.finish(state.id);
+      }
+      throw error;
+    }
+  }
+
+  private async runPhases(
+    signer: Signer,
+    params: SwapExecutionParams,
+    tracker: PhaseTracker,
+    progress: ProgressCallback,
   ): Promise<SwapExecutionResult> {
     const {
-      fromToken,
-      toToken,
       amount,
       slippageBps,
       useEphemeral,
@@ -149,76 +557,230 @@ export class SwapExecutorService {
 
     const finalDestination = customDestination
       ? new PublicKey(customDestination)
-      : keypair.publicKey;
+      : signer.publicKey;
 
-    const inputMint = TOKEN_MINTS[fromToken];
-    const outputMint = TOKEN_MINTS[toToken];
-    const inputDecimals = TOKEN_DECIMALS[fromToken];
-    const inputAmount = Math.floor(amount * Math.pow(10, inputDecimals));
+    const input = await this.tokens.resolve(params.fromToken);
+    const output = await this.tokens.resolve(params.toToken);
+    const inputMint = input.mint;
+    const outputMint = output.mint;
+    const fromToken = input.symbol;
+    const toToken = output.symbol;
+    const inputAmount = toBaseUnits(amount, input.decimals);
 
-    const progress = onProgress ?? (() => {});
+    // Once funds have left the wallet the execution is finished, not re-decided
+    const committed = tracker.resumed.has('zk-deposit') || tracker.resumed.has('ephemeral-gen');
+    const lastPhase = PIPELINE_PHASES.filter((phase) => tracker.resumed.has(phase)).pop();
+    if (lastPhase) {
+      progress({ phase: lastPhase, status: 'info', message: `Resuming execution ${tracker.id} after ${lastPhase}` });
+    }
 
     // ------------------------------------------------------------------
     // Step 1: Range compliance screening
     // ------------------------------------------------------------------
-    if (shouldScreen) {
-      await this.runScreening(keypair, rangeApiKey, progress);
+    if (shouldScreen && !tracker.done('screening')) {
+      await this.runScreening(signer, rangeApiKey, progress);
+      tracker.complete('screening');
     }
 
     // ------------------------------------------------------------------
-    // Step 2: Privacy Cash ZK deposit/withdraw
+    // Step 2: Quote + price guard (before any funds move)
     // ------------------------------------------------------------------
-    if (useZk) {
-      await this.runZkFlow(keypair, fromToken, amount, progress);
+    let quote: QuoteResponse | undefined;
+    let quotedOutput: DecimalAmount;
+    if (tracker.done('swap')) {
+      quotedOutput = parseAmount(tracker.done('quote')?.outputs?.quotedOutput as string | number ?? '0');
+    } else {
+      progress({ phase: 'quote', status: 'start', message: 'Getting best swap route...' });
+      quote = await this.jupiterService.getQuote(inputMint, outputMint, inputAmount, slippageBps);
+      quotedOutput = fromBaseUnits(quote.outAmount, output.decimals);
+      progress({
+        phase: 'quote',
+        status: 'success',
+        message: 'Route found',
+        detail: `Expected: ${quotedOutput} ${toToken} | Impact: ${quote.priceImpactPct}%`,
+      });
+      tracker.complete('quote', { outputs: { quotedOutput, priceImpactPct: parseFloat(quote.priceImpactPct) } });
+    }
+
+    if (params.priceGuard && quote && !committed) {
+      const skipReason = checkPriceGuard(
+        params.priceGuard,
+        amountToNumber(amount) / amountToNumber(quotedOutput),
+        parseFloat(quote.priceImpactPct),
+        `${fromToken}/${toToken}`,
+      );
+      if (skipReason) {
+        progress({ phase: 'quote', status: 'warn', message: `Skipping swap: ${skipReason}` });
+        return { success: false, skipped: true, skipReason, outputToken: toToken };
+      }
+    }
+
+    // Size the ephemeral's fee reserve from this route before anything is funded
+    let funding: FundingEstimate | undefined;
+    if (useEphemeral || useZk) {
+      const funded = tracker.done('ephemeral-fund');
+      funding = funded
+        ? (funded.outputs as unknown as FundingEstimate)
+        : await this.estimateFunding(signer, params, input, output, quote!, finalDestination);
+    }
+
+    if (params.dryRun) {
+      const dryRun = await this.simulateExecution(signer, params, input, output, finalDestination, quote!, quotedOutput, progress, funding);
+      return {
+        success: true,
+        dryRun,
+        outputAmount: quotedOutput,
+        quotedOutputAmount: quotedOutput,
+        outputToken: toToken,
+      };
+    }
+
+    // Abort before wallets are created or funded when the balance can't cover the whole run
+    let preflight: PreflightCheck | undefined;
+    if (!committed) {
+      progress({ phase: 'preflight', status: 'start', message: 'Checking balance...' });
+      preflight = await this.preflight(signer, params, input, output, funding);
+      if (preflight.shortfall) {
+        const skipReason = `Insufficient funds: ${preflight.shortfall}`;
+        progress({ phase: 'preflight', status: 'fail', message: skipReason });
+        return { success: false, skipped: true, skipReason, preflight, outputToken: toToken };
+      }
+      progress({
+        phase: 'preflight',
+        status: 'success',
+        message: `Balance OK (${preflight.solNeeded.toFixed(6)} SOL needed)`,
+      });
+      tracker.complete('preflight');
     }
 
     // ------------------------------------------------------------------
-    // Step 3: Execute the swap (ephemeral or direct)
+    // Step 3: Privacy Cash ZK deposit/withdraw
     // ------------------------------------------------------------------
-    let swapSignature: string;
-    let outputAmount: number;
+    if (useZk && !tracker.done('zk-withdraw')) {
+      await this.runZkFlow(signer, input, amount, progress, tracker);
+    }
 
-    if (useEphemeral || useZk) {
+    // ------------------------------------------------------------------
+    // Step 4: Execute the swap (ephemeral or direct)
+    // ------------------------------------------------------------------
+    let ephemeralPubkey: PublicKey | undefined;
+    let reserveLamports = 0;
+
+    if (funding) {
       const result = await this.executeEphemeralSwap(
-        keypair,
+        signer,
         finalDestination,
-        fromToken,
         inputMint,
         outputMint,
-        toToken,
-        inputAmount,
         amount,
-        slippageBps,
+        quote,
+        funding,
         progress,
+        tracker,
+        params.pooledWallet,
       );
-      swapSignature = result.signature;
-      outputAmount = result.outputAmount;
+      ephemeralPubkey = result.ephemeralPubkey;
+      reserveLamports = result.reserveLamports;
     } else {
-      const result = await this.executeDirectSwap(
-        keypair,
-        inputMint,
-        outputMint,
-        toToken,
-        inputAmount,
-        slippageBps,
-        progress,
-      );
-      swapSignature = result.signature;
-      outputAmount = result.outputAmount;
+      const signature = await this.executeDirectSwap(signer, quote!, progress);
+      tracker.complete('swap', { signature });
+    }
+
+    const signatures: ExecutionSignatures = {
+      zkDeposit: tracker.done('zk-deposit')?.signature,
+      zkWithdraw: tracker.done('zk-withdraw')?.signature,
+      funding: tracker.done('ephemeral-fund')?.signature,
+      swap: tracker.done('swap')?.signature,
+      sendOutput: tracker.done('send-output')?.signature,
+      closeAccounts: tracker.done('close-accounts')?.signature,
+      recoverSol: tracker.done('recover-sol')?.signature,
+    };
+    const closed = tracker.done('close-accounts')?.outputs;
+    const reclaimedLamports = Number(closed?.reclaimedLamports ?? 0);
+
+    // Measure what actually happened from the confirmed transactions
+    const swapSignature = signatures.swap;
+    const swapMeta = swapSignature ? await this.getTransactionMeta(swapSignature) : null;
+    const swapOwner = (ephemeralPubkey ?? signer.publicKey).toBase58();
+    const actualOutput = swapMeta ? getReceivedAmount(swapMeta, swapOwner, output) : undefined;
+    const outputAmount = actualOutput ?? quotedOutput;
+
+    // ------------------------------------------------------------------
+    // Step 5: Token-2022 confidential balance, where the output mint supports it
+    // ------------------------------------------------------------------
+    let confidential: Omit<PhaseRecord, 'completedAt'> | undefined = tracker.done('confidential');
+    if (isPrivate && !confidential) {
+      // An ephemeral's transfer to the destination may have had a Token-2022 fee withheld
+      const sent = tracker.done('send-output')?.outputs;
+      const delivered = sent?.amount !== undefined
+        ? subtractAmounts(parseAmount(sent.amount as string | number), parseAmount(sent.fee as string | number ?? '0'))
+        : outputAmount;
+      confidential = await this.runConfidentialDeposit(signer, finalDestination, toToken, outputMint, delivered, progress, tracker);
     }
+    signatures.confidentialDeposit = confidential?.signature;
+
+    // A pooled wallet's fee reserve is kept for the next swap, not lost
+    const costs = await this.measureCosts(
+      [
+        signatures.funding,
+        signatures.swap,
+        signatures.sendOutput,
+        signatures.closeAccounts,
+        signatures.recoverSol,
+        confidential?.outputs?.configureSignature as string | undefined,
+        signatures.confidentialDeposit,
+      ],
+      params.pooledWallet ? undefined : ephemeralPubkey,
+      reclaimedLamports,
+    );
+    const ephemeralFunding = funding
+      ? await this.measureEphemeralFunding(
+          funding,
+          reserveLamports,
+          [signatures.swap, signatures.sendOutput, signatures.closeAccounts, signatures.recoverSol],
+          reclaimedLamports - Number(closed?.inputRentLamports ?? 0),
+          progress,
+        )
+      : undefined;
+    const inputValueUsd = await this.getInputValueUsd(input, output, amount, outputAmount);
 
     // ------------------------------------------------------------------
-    // Step 4: Arcium confidential encryption
+    // Step 6: Arcium confidential encryption, for outputs without a confidential balance
     // ------------------------------------------------------------------
-    if (isPrivate) {
-      await this.runArciumEncryption(outputAmount, progress);
+    if (isPrivate && !confidential) {
+      await this.runArciumEncryption(outputAmount, output, progress);
     }
 
     return {
       success: true,
       signature: swapSignature,
+      signatures,
       outputAmount,
+      quotedOutputAmount: quotedOutput,
+      inputValueUsd,
       outputToken: toToken,
+      ephemeralAddress: ephemeralPubkey?.toBase58(),
+      costs,
+      ephemeralFunding,
+      preflight,
+    };
+  }
+
+  /**
+   * Phase bookkeeping for a run; a no-op for dry runs, which have no state
+   */
+  private track(state: ExecutionState | undefined): PhaseTracker {
+    const phases = state?.phases ?? {};
+    return {
+      id: state?.id,
+      resumed: new Set(Object.keys(phases) as SwapProgressPhase[]),
+      done: (phase) => phases[phase],
+      complete: (phase, record = {}) => {
+        if (state) this.states.completePhase(state, phase, record);
+      },
+      discard: () => {
+        if (state) this.states.finish(state.id);
+      },
     };
   }
 
@@ -227,7 +789,7 @@ export class SwapExecutorService {
   // ====================================================================
 
   private async runScreening(
-    keypair: Keypair,
+    signer: Signer,
     rangeApiKey: string | undefined,
     progress: ProgressCallback,
   ): Promise<void> {
@@ -239,7 +801,7 @@ export class SwapExecutorService {
     }
 
     const rangeService = new RangeService(rangeApiKey);
-    const result = await rangeService.screenAddress(keypair.publicKey.toBase58());
+    const result = await rangeService.screenAddress(signer.publicKey.toBase58());
 
     if (result.isSanctioned || result.riskLevel === 'severe') {
       progress({ phase: 'screening', status: 'fail', message: 'Address screening failed: High risk detected', detail: result.riskLevel });
@@ -250,43 +812,53 @@ export class SwapExecutorService {
   }
 
   private async runZkFlow(
-    keypair: Keypair,
-    fromToken: string,
-    amount: number,
+    signer: Signer,
+    input: TokenInfo,
+    amount: DecimalAmount,
     progress: ProgressCallback,
+    tracker: PhaseTracker,
   ): Promise<void> {
+    const keypair = this.getZkKeypair(signer);
     progress({ phase: 'zk-deposit', status: 'start', message: 'Checking Privacy Cash availability...' });
 
     const privacyCash = new PrivacyCashService(this.connection.rpcEndpoint, keypair);
     const availability = await privacyCash.checkAvailability();
 
     if (!availability.available) {
+      if (tracker.done('zk-deposit')) {
+        // The deposit is real; only the SDK can withdraw it
+        throw new Error(`Privacy Cash unavailable, cannot withdraw the deposit: ${availability.error}`);
+      }
       progress({ phase: 'zk-deposit', status: 'warn', message: `Privacy Cash unavailable: ${availability.error}` });
       progress({ phase: 'zk-deposit', status: 'info', message: 'Falling back to simulated ZK flow for demo...' });
 
       // Simulated flow
-      const simDeposit = await PrivacyCashSimulated.simulateDeposit(fromToken, amount);
+      const simDeposit = await PrivacyCashSimulated.simulateDeposit(input.symbol, amount);
       progress({ phase: 'zk-deposit', status: 'info', message: simDeposit.message, detail: `Commitment: ${simDeposit.commitment.slice(0, 20)}...` });
 
       const ephemeral = this.ephemeralService.generateEphemeralWallet();
       const zkWithdrawAddress = ephemeral.keypair.publicKey;
 
       const simWithdraw = await PrivacyCashSimulated.simulateWithdraw(
-        fromToken,
+        input.symbol,
         amount,
         zkWithdrawAddress.toBase58(),
       );
       progress({ phase: 'zk-withdraw', status: 'info', message: simWithdraw.message });
       progress({ phase: 'zk-withdraw', status: 'success', message: 'ZK pool flow simulated (SDK not available)' });
-    } else {
-      // Real Privacy Cash flow
+      // Not marked complete: nothing entered the pool, so a failure later on leaves nothing to resume
+      return;
+    }
+
+    // Real Privacy Cash flow
+    if (!tracker.done('zk-deposit')) {
       progress({ phase: 'zk-deposit', status: 'start', message: 'Depositing to Privacy Cash ZK pool...' });
 
       let depositResult;
-      if (fromToken === 'SOL') {
+      if (input.mint === SOL_MINT) {
         depositResult = await privacyCash.depositSol(amount);
       } else {
-        depositResult = await privacyCash.depositSpl(fromToken, amount);
+        depositResult = await privacyCash.depositSpl(input, amount);
       }
 
       if (!depositResult.success) {
@@ -294,150 +866,862 @@ export class SwapExecutorService {
         throw new Error(`ZK deposit failed: ${depositResult.error}`);
       }
 
+      tracker.complete('zk-deposit', { signature: depositResult.signature });
       progress({ phase: 'zk-deposit', status: 'info', message: `Tx: ${depositResult.signature?.slice(0, 20)}...` });
+    }
 
-      // Generate ephemeral wallet for ZK withdrawal
-      const ephemeral = this.ephemeralService.generateEphemeralWallet();
-      const zkWithdrawAddress = ephemeral.keypair.publicKey;
-
-      progress({ phase: 'zk-withdraw', status: 'start', message: 'Withdrawing from ZK pool to ephemeral...' });
+    // Generate ephemeral wallet for ZK withdrawal, journaled before funds land there
+    const ephemeral = this.ephemeralService.generateEphemeralWallet();
+    const zkWithdrawAddress = ephemeral.keypair.publicKey;
+    const journalId = await new EphemeralJournalService(signer, this.dataDir).record(ephemeral.keypair, 'zk-withdraw');
 
-      let withdrawResult;
-      if (fromToken === 'SOL') {
-        withdrawResult = await privacyCash.withdrawSol(amount, zkWithdrawAddress.toBase58());
-      } else {
-        withdrawResult = await privacyCash.withdrawSpl(fromToken, amount, zkWithdrawAddress.toBase58());
-      }
+    progress({ phase: 'zk-withdraw', status: 'start', message: 'Withdrawing from ZK pool to ephemeral...' });
 
-      if (!withdrawResult.success) {
-        progress({ phase: 'zk-withdraw', status: 'fail', message: `ZK withdraw failed: ${withdrawResult.error}` });
-        throw new Error(`ZK withdraw failed: ${withdrawResult.error}`);
-      }
+    let withdrawResult;
+    if (input.mint === SOL_MINT) {
+      withdrawResult = await privacyCash.withdrawSol(amount, zkWithdrawAddress.toBase58());
+    } else {
+      withdrawResult = await privacyCash.withdrawSpl(input, amount, zkWithdrawAddress.toBase58());
+    }
 
-      progress({ phase: 'zk-withdraw', status: 'success', message: 'ZK pool deposit -> withdraw complete' });
-      progress({
-        phase: 'zk-withdraw',
-        status: 'info',
-        message: `Funds now at ephemeral: ${zkWithdrawAddress.toBase58().slice(0, 8)}...`,
-      });
+    if (!withdrawResult.success) {
+      progress({ phase: 'zk-withdraw', status: 'fail', message: `ZK withdraw failed: ${withdrawResult.error}` });
+      throw new Error(`ZK withdraw failed: ${withdrawResult.error}`);
     }
+
+    tracker.complete('zk-withdraw', {
+      signature: withdrawResult.signature,
+      outputs: { address: zkWithdrawAddress.toBase58(), journalId },
+    });
+    progress({ phase: 'zk-withdraw', status: 'success', message: 'ZK pool deposit -> withdraw complete' });
+    progress({
+      phase: 'zk-withdraw',
+      status: 'info',
+      message: `Funds now at ephemeral: ${zkWithdrawAddress.toBase58().slice(0, 8)}...`,
+    });
   }
 
+  /**
+   * Fund an ephemeral, swap from it, forward the output and sweep it. When
+   * resuming, phases already done are skipped, and a funding or swap that
+   * may have landed unconfirmed is detected from the ephemeral's balance.
+   */
   private async executeEphemeralSwap(
-    keypair: Keypair,
+    signer: Signer,
     finalDestination: PublicKey,
-    fromToken: string,
     inputMint: string,
     outputMint: string,
-    toToken: string,
-    inputAmount: number,
-    humanAmount: number,
-    slippageBps: number,
+    humanAmount: DecimalAmount,
+    quote: QuoteResponse | undefined,
+    estimate: FundingEstimate,
     progress: ProgressCallback,
-  ): Promise<{ signature: string; outputAmount: number }> {
-    // Generate ephemeral wallet
-    progress({ phase: 'ephemeral-gen', status: 'start', message: 'Generating ephemeral wallet...' });
-    const ephemeral = this.ephemeralService.generateEphemeralWallet();
-    progress({ phase: 'ephemeral-gen', status: 'success', message: `Ephemeral wallet: ${ephemeral.publicKey.slice(0, 8)}...` });
+    tracker: PhaseTracker,
+    pooledWallet?: Keypair,
+  ): Promise<{ ephemeralPubkey: PublicKey; reserveLamports: number }> {
+    let ephemeral: { keypair: Keypair; publicKey: string };
+    let journal: EphemeralJournalService | undefined;
+    let journalId = '';
 
-    // Fund ephemeral wallet
-    progress({ phase: 'ephemeral-fund', status: 'start', message: 'Funding ephemeral wallet...' });
-    const solForFees = this.ephemeralService.getRecommendedSolFunding();
-
-    if (fromToken === 'SOL') {
-      await this.ephemeralService.fundEphemeral(
-        keypair,
-        ephemeral.keypair.publicKey,
-        humanAmount + solForFees,
-      );
+    const generated = tracker.done('ephemeral-gen');
+    if (generated) {
+      // Resuming: continue with the wallet the funds went to
+      const address = String(generated.outputs?.address);
+      if (generated.outputs?.journalId) {
+        journalId = String(generated.outputs.journalId);
+        journal = new EphemeralJournalService(signer, this.dataDir);
+        const entry = journal.getUnfinished().find((e) => e.id === journalId);
+        if (!entry) {
+          tracker.discard();
+          throw new Error(`Ephemeral wallet ${address} is no longer in the journal (already recovered?)`);
+        }
+        const keypair = await journal.decrypt(entry);
+        ephemeral = { keypair, publicKey: address };
+      } else if (pooledWallet?.publicKey.toBase58() === address) {
+        ephemeral = { keypair: pooledWallet, publicKey: address };
+      } else {
+        throw new Error(`Execution ran from pooled wallet ${address}, which is not available`);
+      }
+      progress({ phase: 'ephemeral-gen', status: 'success', message: `Resuming with ephemeral wallet ${address.slice(0, 8)}...` });
+    } else if (pooledWallet) {
+      // Pooled keys already live in the encrypted pool keystore; only top up the fee reserve
+      ephemeral = { keypair: pooledWallet, publicKey: pooledWallet.publicKey.toBase58() };
+      tracker.complete('ephemeral-gen', { outputs: { address: ephemeral.publicKey } });
+      progress({ phase: 'ephemeral-gen', status: 'success', message: `Pooled wallet: ${ephemeral.publicKey.slice(0, 8)}...` });
     } else {
-      await this.ephemeralService.fundEphemeral(
-        keypair,
-        ephemeral.keypair.publicKey,
-        solForFees,
-        inputMint,
-        humanAmount,
-      );
+      // Generate ephemeral wallet
+      progress({ phase: 'ephemeral-gen', status: 'start', message: 'Generating ephemeral wallet...' });
+      ephemeral = this.ephemeralService.generateEphemeralWallet();
+      journal = new EphemeralJournalService(signer, this.dataDir);
+      journalId = await journal.record(ephemeral.keypair);
+      tracker.complete('ephemeral-gen', { outputs: { address: ephemeral.publicKey, journalId } });
+      progress({ phase: 'ephemeral-gen', status: 'success', message: `Ephemeral wallet: ${ephemeral.publicKey.slice(0, 8)}...` });
     }
-    progress({ phase: 'ephemeral-fund', status: 'success', message: 'Ephemeral funded' });
 
-    // Get quote
-    progress({ phase: 'quote', status: 'start', message: 'Getting best swap route...' });
-    const quote = await this.jupiterService.getQuote(inputMint, outputMint, inputAmount, slippageBps);
-    const outputAmount = parseInt(quote.outAmount) / Math.pow(10, TOKEN_DECIMALS[toToken]);
-    progress({
-      phase: 'quote',
-      status: 'success',
-      message: 'Route found',
-      detail: `Expected: ${outputAmount.toFixed(6)} ${toToken} | Impact: ${quote.priceImpactPct}%`,
-    });
+    // Fund ephemeral wallet
+    let reserveLamports: number;
+    const funded = tracker.done('ephemeral-fund');
+    if (funded) {
+      reserveLamports = Number(funded.outputs?.reserveLamports ?? 0);
+    } else {
+      const reserve = await this.getFeeReserve(estimate, pooledWallet);
+      const solForFees = fromBaseUnits(reserve.topUpLamports, SOL_DECIMALS);
+      reserveLamports = reserve.reserveLamports;
+      const outputs = { ...estimate, reserveLamports };
 
-    // Execute swap from ephemeral
-    progress({ phase: 'swap', status: 'start', message: 'Executing swap from ephemeral...' });
-    const swapSignature = await this.jupiterService.executeSwap(quote, ephemeral.keypair);
-    progress({ phase: 'swap', status: 'success', message: 'Swap executed' });
+      // An earlier attempt's funding may have landed without being confirmed
+      if (generated && (await this.holdsInput(ephemeral.keypair.publicKey, inputMint, humanAmount))) {
+        tracker.complete('ephemeral-fund', { outputs });
+        progress({ phase: 'ephemeral-fund', status: 'info', message: 'Ephemeral already funded' });
+      } else {
+        progress({ phase: 'ephemeral-fund', status: 'start', message: 'Funding ephemeral wallet...' });
 
-    // Send output to final destination
-    progress({ phase: 'send-output', status: 'start', message: 'Sending output to destination...' });
-    const actualOutput = await this.ephemeralService.getEphemeralTokenBalance(
-      ephemeral.keypair.publicKey,
-      outputMint,
-    );
+        let funding;
+        if (inputMint === SOL_MINT) {
+          funding = await this.ephemeralService.fundEphemeral(
+            signer,
+            ephemeral.keypair.publicKey,
+            addAmounts(humanAmount, solForFees),
+          );
+        } else {
+          funding = await this.ephemeralService.fundEphemeral(
+            signer,
+            ephemeral.keypair.publicKey,
+            solForFees,
+            inputMint,
+            humanAmount,
+          );
+        }
+        tracker.complete('ephemeral-fund', { signature: funding.signature, outputs });
+        progress({
+          phase: 'ephemeral-fund',
+          status: 'success',
+          message: `Ephemeral funded (${(reserveLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL for fees and rent)`,
+        });
+      }
+      journal?.markStep(journalId, 'funded');
+    }
 
-    if (actualOutput > 0) {
-      await this.ephemeralService.sendToDestination(
-        ephemeral.keypair,
-        finalDestination,
+    // Execute swap from ephemeral
+    if (!tracker.done('swap')) {
+      // An earlier attempt's swap may have landed without being confirmed: the input is gone
+      if (tracker.resumed.has('ephemeral-fund') && !(await this.holdsInput(ephemeral.keypair.publicKey, inputMint, humanAmount))) {
+        tracker.complete('swap');
+        progress({ phase: 'swap', status: 'info', message: 'Swap already landed (input spent, signature unknown)' });
+      } else {
+        progress({ phase: 'swap', status: 'start', message: 'Executing swap from ephemeral...' });
+        const swapSignature = await this.jupiterService.executeSwap(quote!, new KeypairSigner(ephemeral.keypair));
+        tracker.complete('swap', { signature: swapSignature });
+        progress({ phase: 'swap', status: 'success', message: 'Swap executed' });
+      }
+      journal?.markStep(journalId, 'swapped');
+    }
+
+    // Send output to final destination (whatever the ephemeral holds, so a repeat sends nothing twice)
+    if (!tracker.done('send-output')) {
+      progress({ phase: 'send-output', status: 'start', message: 'Sending output to destination...' });
+      const actualOutput = await this.ephemeralService.getEphemeralTokenBalance(
+        ephemeral.keypair.publicKey,
         outputMint,
-        actualOutput,
       );
-      progress({ phase: 'send-output', status: 'success', message: `Output sent to ${finalDestination.toBase58().slice(0, 8)}...` });
-    } else {
-      progress({ phase: 'send-output', status: 'success', message: 'SOL output (already at ephemeral)' });
+
+      let sendOutput: string | undefined;
+      const outputs: PhaseOutputs = { amount: actualOutput };
+      if (isPositiveAmount(actualOutput)) {
+        const transfer = await this.ephemeralService.sendToDestination(
+          ephemeral.keypair,
+          finalDestination,
+          outputMint,
+          actualOutput,
+        );
+        sendOutput = transfer.signature;
+        if (transfer.fee) outputs.fee = transfer.fee;
+        progress({
+          phase: 'send-output',
+          status: 'success',
+          message: `Output sent to ${finalDestination.toBase58().slice(0, 8)}...`,
+          detail: transfer.fee ? `Token-2022 transfer fee withheld: ${transfer.fee}` : undefined,
+        });
+      } else {
+        progress({ phase: 'send-output', status: 'success', message: 'SOL output (already at ephemeral)' });
+      }
+      tracker.complete('send-output', { signature: sendOutput, outputs });
+      journal?.markStep(journalId, 'output-sent');
+    }
+
+    // Close the spent token accounts first, so their rent is recovered with the dust.
+    // Pooled wallets keep theirs for the next swap.
+    let accountsLeftOpen = false;
+    if (!pooledWallet && !tracker.done('close-accounts')) {
+      progress({ phase: 'close-accounts', status: 'start', message: 'Closing token accounts...' });
+      try {
+        const closed = await this.ephemeralService.closeEmptyTokenAccounts(ephemeral.keypair);
+        if (closed) {
+          const rentOf = (accounts: typeof closed.accounts) =>
+            accounts.reduce((total, account) => total + account.rentLamports, 0);
+          const reclaimedLamports = rentOf(closed.accounts);
+          // The wallet's funding transaction opened the input account; the ephemeral paid for the rest
+          const inputRentLamports = inputMint === SOL_MINT
+            ? 0
+            : rentOf(closed.accounts.filter((account) => account.mint === inputMint));
+          tracker.complete('close-accounts', {
+            signature: closed.signature,
+            outputs: { closedAccounts: closed.accounts.length, reclaimedLamports, inputRentLamports },
+          });
+          progress({
+            phase: 'close-accounts',
+            status: 'success',
+            message: `Closed ${closed.accounts.length} token account(s), reclaimed ${(reclaimedLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL rent`,
+          });
+        } else {
+          tracker.complete('close-accounts');
+          progress({ phase: 'close-accounts', status: 'success', message: 'No token accounts to close' });
+        }
+      } catch (error: any) {
+        accountsLeftOpen = true;
+        progress({ phase: 'close-accounts', status: 'warn', message: `Could not close token accounts: ${error.message}` });
+      }
     }
 
     // Recover remaining SOL (single recovery -- fixes duplicate in old swap.ts)
     progress({ phase: 'recover-sol', status: 'start', message: 'Recovering dust...' });
-    const recovered = await this.ephemeralService.recoverSol(ephemeral.keypair, keypair.publicKey);
+    const recovered = await this.ephemeralService.recoverSol(
+      ephemeral.keypair,
+      signer.publicKey,
+      pooledWallet ? Math.ceil(estimate.totalSol * LAMPORTS_PER_SOL) : 0,
+    );
     if (recovered) {
+      tracker.complete('recover-sol', { signature: recovered });
+      journal?.markStep(journalId, 'recovered');
       progress({ phase: 'recover-sol', status: 'success', message: `Dust recovered (${recovered.slice(0, 20)}...)` });
     } else {
       progress({ phase: 'recover-sol', status: 'info', message: 'No dust to recover' });
     }
 
-    return { signature: swapSignature, outputAmount };
+    // Keep the journal entry while anything recoverable is left, so `recover` can sweep it
+    if (journal) {
+      let leftoverLamports: number | undefined;
+      try {
+        leftoverLamports = await this.connection.getBalance(ephemeral.keypair.publicKey);
+      } catch {
+        leftoverLamports = undefined;
+      }
+      if (!accountsLeftOpen && leftoverLamports !== undefined && leftoverLamports <= RECOVERY_FEE_LAMPORTS) {
+        journal.complete(journalId);
+      } else {
+        progress({ phase: 'recover-sol', status: 'warn', message: 'Ephemeral not fully swept. Run `private-dca recover` to retry.' });
+      }
+    }
+
+    return {
+      ephemeralPubkey: ephemeral.keypair.publicKey,
+      reserveLamports,
+    };
   }
 
-  private async executeDirectSwap(
-    keypair: Keypair,
-    inputMint: string,
-    outputMint: string,
-    toToken: string,
-    inputAmount: number,
-    slippageBps: number,
+  /**
+   * Whether a wallet still holds a swap's input: tells if an unconfirmed funding or swap landed
+   */
+  private async holdsInput(wallet: PublicKey, inputMint: string, amount: DecimalAmount): Promise<boolean> {
+    if (inputMint === SOL_MINT) {
+      return BigInt(await this.connection.getBalance(wallet)) >= toBaseUnits(amount, SOL_DECIMALS);
+    }
+    return compareAmounts(await this.ephemeralService.getEphemeralTokenBalance(wallet, inputMint), amount) >= 0;
+  }
+
+  /**
+   * The Privacy Cash SDK signs its own transactions and needs the raw keypair
+   */
+  private getZkKeypair(signer: Signer): Keypair {
+    if (!(signer instanceof KeypairSigner)) {
+      throw new Error('ZK mode needs a local wallet: Privacy Cash cannot sign through a remote signer');
+    }
+    return signer.getKeypair();
+  }
+
+  /**
+   * What the ephemeral should hold for its fees and rent on this route.
+   * The swap is built for the wallet: Jupiter sizes its compute budget by
+   * simulating, which needs funds the ephemeral doesn't have yet.
+   */
+  private async estimateFunding(
+    signer: Signer,
+    params: SwapExecutionParams,
+    input: TokenInfo,
+    output: TokenInfo,
+    quote: QuoteResponse,
+    destination: PublicKey,
+  ): Promise<FundingEstimate> {
+    const { transaction } = await this.jupiterService.buildSwapTransaction(quote, signer.publicKey);
+    return this.ephemeralService.estimateEphemeralFunding({
+      ephemeral: params.pooledWallet?.publicKey,
+      destination,
+      inputMint: input.mint,
+      outputMint: output.mint,
+      swapTransaction: transaction,
+    });
+  }
+
+  /**
+   * SOL to send the ephemeral for fees: the full estimate, or what a pooled wallet is missing of it
+   * @returns The top-up, and what the ephemeral holds for fees once it lands
+   */
+  private async getFeeReserve(
+    funding: FundingEstimate,
+    pooledWallet?: Keypair,
+  ): Promise<{ topUpLamports: number; reserveLamports: number }> {
+    const estimateLamports = Math.ceil(funding.totalSol * LAMPORTS_PER_SOL);
+    if (!pooledWallet) {
+      return { topUpLamports: estimateLamports, reserveLamports: estimateLamports };
+    }
+
+    const balance = await this.connection.getBalance(pooledWallet.publicKey);
+    const topUpLamports = Math.max(0, estimateLamports - balance);
+    return { topUpLamports, reserveLamports: balance + topUpLamports };
+  }
+
+  /**
+   * Compare the ephemeral's fee reserve with what its transactions actually spent,
+   * so the funding estimate can be tuned
+   */
+  private async measureEphemeralFunding(
+    funding: FundingEstimate,
+    reserveLamports: number,
+    signatures: Array<string | undefined>,
+    reclaimedLamports: number,
     progress: ProgressCallback,
-  ): Promise<{ signature: string; outputAmount: number }> {
-    // Get quote
-    progress({ phase: 'quote', status: 'start', message: 'Getting best swap route...' });
-    const quote = await this.jupiterService.getQuote(inputMint, outputMint, inputAmount, slippageBps);
-    const outputAmount = parseInt(quote.outAmount) / Math.pow(10, TOKEN_DECIMALS[toToken]);
+  ): Promise<EphemeralFunding> {
+    const report: EphemeralFunding = {
+      estimatedSol: funding.expectedSol,
+      reserveSol: reserveLamports / LAMPORTS_PER_SOL,
+    };
+
+    // Rent of the accounts it closed came back to it
+    let spentLamports = -reclaimedLamports;
+    for (const signature of signatures) {
+      if (!signature) continue;
+      const meta = await this.getTransactionMeta(signature);
+      if (!meta) return report;
+      spentLamports += meta.fee + getNewAccountRent(meta);
+    }
+
+    report.spentSol = spentLamports / LAMPORTS_PER_SOL;
+    report.surplusSol = (reserveLamports - spentLamports) / LAMPORTS_PER_SOL;
+    progress({ phase: 'recover-sol', status: 'info', message: describeEphemeralFunding(report) });
+    return report;
+  }
+
+  /**
+   * Add up what the execution takes from the wallet (input, ephemeral funding,
+   * token account rent, ZK and network fees) and compare it with the balances
+   */
+  private async preflight(
+    signer: Signer,
+    params: SwapExecutionParams,
+    input: TokenInfo,
+    output: TokenInfo,
+    funding?: FundingEstimate,
+  ): Promise<PreflightCheck> {
+    const { amount, pooledWallet } = params;
+    const owner = signer.publicKey;
+    const inputMint = input.mint;
+    const fromToken = input.symbol;
+    const inputIsSol = inputMint === SOL_MINT;
+    // A Token-2022 transfer fee on funding the ephemeral comes on top of the amount
+    const fundedAmount = funding && !inputIsSol
+      ? await this.ephemeralService.getAmountWithTransferFee(inputMint, amount)
+      : amount;
+    // ZK mode deposits the input into the pool, and the swap's ephemeral is funded from the wallet as well
+    const inputAmount = params.useZk ? addAmounts(amount, fundedAmount) : fundedAmount;
+
+    let fundingLamports = 0;
+    let rentLamports = 0;
+    let feeLamports = 0;
+    if (funding) {
+      fundingLamports = (await this.getFeeReserve(funding, pooledWallet)).topUpLamports;
+      // Funding creates the ephemeral's input token account unless a pooled wallet already has it
+      if (!inputIsSol && !(pooledWallet && (await this.hasTokenAccount(inputMint, pooledWallet.publicKey)))) {
+        rentLamports += await this.ephemeralService.getTokenAccountRent(inputMint);
+      }
+      feeLamports += await this.ephemeralService.estimateTransactionFeeLamports([owner.toBase58()]);
+    } else {
+      // Direct swap: the wallet pays Jupiter's fee and any missing output account
+      if (output.mint !== SOL_MINT && !(await this.hasTokenAccount(output.mint, owner))) {
+        rentLamports += await this.ephemeralService.getTokenAccountRent(output.mint);
+      }
+      feeLamports += BASE_FEE_LAMPORTS + MAX_PRIORITY_FEE_LAMPORTS;
+    }
+
+    const zkFeesSol = params.useZk ? ZK_DEPOSIT_FEE_SOL : 0;
+    const neededLamports = (inputIsSol ? toBaseUnits(inputAmount, SOL_DECIMALS) : BigInt(0))
+      + BigInt(fundingLamports + rentLamports + feeLamports + Math.round(zkFeesSol * LAMPORTS_PER_SOL));
+    const solNeeded = Number(neededLamports) / LAMPORTS_PER_SOL;
+
+    const balanceLamports = BigInt(await this.connection.getBalance(owner));
+    const solBalance = Number(balanceLamports) / LAMPORTS_PER_SOL;
+    const tokenBalance = inputIsSol
+      ? undefined
+      : await this.ephemeralService.getEphemeralTokenBalance(owner, inputMint);
+
+    // Whole executions the balance covers, counted in base units so 0.3 / 0.1 is exactly 3
+    const covers = (balance: bigint, needed: bigint) => (needed > BigInt(0) ? Number(balance / needed) : Infinity);
+    let executionsCovered = covers(balanceLamports, neededLamports);
+    let shortfall: string | undefined;
+    if (balanceLamports < neededLamports) {
+      shortfall = `need ${solNeeded.toFixed(6)} SOL, have ${solBalance.toFixed(6)} SOL`;
+    }
+    if (tokenBalance !== undefined) {
+      executionsCovered = Math.min(
+        executionsCovered,
+        covers(toBaseUnits(tokenBalance, input.decimals), toBaseUnits(inputAmount, input.decimals)),
+      );
+      if (compareAmounts(tokenBalance, inputAmount) < 0) {
+        shortfall = `need ${inputAmount} ${fromToken}, have ${tokenBalance} ${fromToken}` + (shortfall ? `; ${shortfall}` : '');
+      }
+    }
+
+    return {
+      fromToken,
+      inputAmount,
+      ephemeralFundingSol: fundingLamports / LAMPORTS_PER_SOL,
+      ataRentSol: rentLamports / LAMPORTS_PER_SOL,
+      networkFeesSol: feeLamports / LAMPORTS_PER_SOL,
+      zkFeesSol,
+      solNeeded,
+      solBalance,
+      tokenBalance,
+      executionsCovered,
+      shortfall,
+    };
+  }
+
+  private async hasTokenAccount(mint: string, owner: PublicKey): Promise<boolean> {
+    return this.ephemeralService.hasTokenAccount(mint, owner);
+  }
+
+  /**
+   * Dry run: build every transaction the execution would sign and simulate
+   * those that only depend on current chain state. Nothing is signed, sent
+   * or journaled.
+   */
+  private async simulateExecution(
+    signer: Signer,
+    params: SwapExecutionParams,
+    input: TokenInfo,
+    output: TokenInfo,
+    finalDestination: PublicKey,
+    quote: QuoteResponse,
+    quotedOutput: DecimalAmount,
+    progress: ProgressCallback,
+    funding?: FundingEstimate,
+  ): Promise<DryRunReport> {
+    const { amount, pooledWallet } = params;
+    const useEphemeral = funding !== undefined;
+    const inputMint = input.mint;
+    const outputMint = output.mint;
+    const fromToken = input.symbol;
+    const toToken = output.symbol;
+    const inputIsSol = inputMint === SOL_MINT;
+    const owner = signer.publicKey;
+    const transactions: PlannedTransaction[] = [];
+    const warnings: string[] = [];
+
+    progress({ phase: 'swap', status: 'start', message: 'Simulating transactions...' });
+    const { blockhash } = await this.connection.getLatestBlockhash('confirmed');
+    const ataRentLamports = await this.connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE);
+    // Token-2022 accounts carry extensions, so their rent depends on the mint
+    const rentOf = (mint: string) =>
+      mint === SOL_MINT ? Promise.resolve(ataRentLamports) : this.ephemeralService.getTokenAccountRent(mint);
+
+    if (params.useZk) {
+      this.getZkKeypair(signer);
+      // Privacy Cash builds its proofs and transactions at execution time
+      transactions.push(
+        {
+          phase: 'zk-deposit',
+          description: `Privacy Cash deposit of ${amount} ${fromToken}`,
+          feePayer: owner.toBase58(),
+          signers: [owner.toBase58()],
+          simulated: false,
+          feeSol: BASE_FEE_LAMPORTS / LAMPORTS_PER_SOL,
+          rentSol: 0,
+        },
+        {
+          phase: 'zk-withdraw',
+          description: 'Privacy Cash withdrawal to a fresh ephemeral wallet (relayed)',
+          feePayer: 'relayer',
+          signers: [],
+          simulated: false,
+          feeSol: 0,
+          rentSol: 0,
+        },
+      );
+      warnings.push('Privacy Cash protocol fees are not included');
+    }
+
+    let swapper = owner;
+    const { topUpLamports, reserveLamports } = funding
+      ? await this.getFeeReserve(funding, pooledWallet)
+      : { topUpLamports: 0, reserveLamports: 0 };
+    const solForFees = fromBaseUnits(topUpLamports, SOL_DECIMALS);
+
+    if (useEphemeral) {
+      swapper = pooledWallet?.publicKey ?? this.ephemeralService.generateEphemeralWallet().keypair.publicKey;
+      const funding = inputIsSol
+        ? await this.ephemeralService.buildFundingTransaction(owner, swapper, addAmounts(amount, solForFees))
+        : await this.ephemeralService.buildFundingTransaction(owner, swapper, solForFees, inputMint, amount);
+      const label = pooledWallet ? 'pooled wallet' : 'fresh ephemeral wallet';
+      transactions.push(await this.planTransaction(
+        'ephemeral-fund',
+        inputIsSol
+          ? `Fund ${label} with ${amount} SOL + ${solForFees} SOL for fees`
+          : `Fund ${label} with ${amount} ${fromToken} + ${solForFees} SOL for fees`,
+        this.toVersioned(funding, owner, blockhash),
+        this.countNewTokenAccounts(funding) * (await rentOf(inputMint)),
+        true,
+      ));
+    }
+
+    // Jupiter creates the swapper's output token account if it is missing
+    let swapRentLamports = 0;
+    if (outputMint !== SOL_MINT && !(await this.hasTokenAccount(outputMint, swapper))) {
+      swapRentLamports = await rentOf(outputMint);
+    }
+
+    const { transaction: swapTransaction } = await this.jupiterService.buildSwapTransaction(quote, swapper);
+    const swap = await this.planTransaction(
+      'swap',
+      `Jupiter swap ${amount} ${fromToken} -> ~${quotedOutput} ${toToken}`,
+      swapTransaction,
+      swapRentLamports,
+      !useEphemeral,
+    );
+    if (useEphemeral) {
+      // The ephemeral holds nothing yet; the same route from the wallet stands in for compute units
+      const { transaction: standIn } = await this.jupiterService.buildSwapTransaction(quote, owner);
+      const simulation = await this.simulate(standIn);
+      swap.unitsConsumed = simulation.unitsConsumed;
+      swap.error = simulation.error;
+      swap.description += ' (simulated from your wallet: the ephemeral is not funded yet)';
+    }
+    transactions.push(swap);
+
+    if (useEphemeral) {
+      if (outputMint !== SOL_MINT) {
+        const transfer = await this.ephemeralService.buildDestinationTransfer(swapper, finalDestination, outputMint, quotedOutput);
+        transactions.push(await this.planTransaction(
+          'send-output',
+          `Send ~${quotedOutput} ${toToken} to ${finalDestination.toBase58().slice(0, 8)}...`,
+          this.toVersioned(transfer, swapper, blockhash),
+          this.countNewTokenAccounts(transfer) * (await rentOf(outputMint)),
+          false,
+        ));
+      }
+
+      // A fresh ephemeral closes its token accounts (they don't exist yet, so this isn't simulated)
+      const tokenMints = [inputMint, outputMint].filter((mint) => mint !== SOL_MINT);
+      if (!pooledWallet && tokenMints.length > 0) {
+        const accounts = [];
+        let closedRentLamports = 0;
+        for (const mint of tokenMints) {
+          accounts.push({ account: await this.ephemeralService.getTokenAccountAddress(mint, swapper), mint });
+          closedRentLamports += await rentOf(mint);
+        }
+        const close = await this.ephemeralService.buildCloseAccountsTransaction(swapper, accounts);
+        transactions.push(await this.planTransaction(
+          'close-accounts',
+          `Close ${tokenMints.length} token account(s), returning ${(closedRentLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL rent`,
+          this.toVersioned(close, swapper, blockhash),
+          0,
+          false,
+        ));
+      }
+
+      const recovery = new Transaction().add(
+        SystemProgram.transfer({ fromPubkey: swapper, toPubkey: owner, lamports: topUpLamports })
+      );
+      transactions.push(await this.planTransaction(
+        'recover-sol',
+        'Return leftover SOL to your wallet',
+        this.toVersioned(recovery, swapper, blockhash),
+        0,
+        false,
+      ));
+    }
+
+    // What a real run would hit first
+    for (const transaction of transactions) {
+      if (transaction.error) warnings.push(`${transaction.phase} would fail: ${transaction.error}`);
+    }
+
+    const sum = (list: PlannedTransaction[]) =>
+      list.reduce((total, t) => total + Math.round((t.feeSol + t.rentSol) * LAMPORTS_PER_SOL), 0);
+    const ownerLamports = sum(transactions.filter((t) => t.feePayer === owner.toBase58()));
+    const ephemeralLamports = sum(transactions.filter((t) => t.feePayer === swapper.toBase58() && useEphemeral));
+
+    if (useEphemeral && ephemeralLamports > reserveLamports) {
+      warnings.push(
+        `Ephemeral fee reserve (${reserveLamports / LAMPORTS_PER_SOL} SOL) is below its estimated costs (${ephemeralLamports / LAMPORTS_PER_SOL} SOL)`
+      );
+    }
+
+    try {
+      const solNeeded = (inputIsSol ? amountToNumber(amount) : 0) + (topUpLamports + ownerLamports) / LAMPORTS_PER_SOL;
+      await this.ephemeralService.checkSufficientBalance(
+        signer,
+        solNeeded,
+        inputIsSol ? undefined : inputMint,
+        inputIsSol ? undefined : amount,
+      );
+    } catch (error: any) {
+      warnings.push(error.message);
+    }
+
+    const feesSol = transactions.reduce((total, t) => total + t.feeSol, 0);
+    const rentSol = transactions.reduce((total, t) => total + t.rentSol, 0);
     progress({
-      phase: 'quote',
-      status: 'success',
-      message: 'Route found',
-      detail: `Expected: ${outputAmount.toFixed(6)} ${toToken} | Impact: ${quote.priceImpactPct}%`,
+      phase: 'swap',
+      status: warnings.length > 0 ? 'warn' : 'success',
+      message: `Dry run: ${transactions.length} transaction(s), nothing sent`,
     });
 
+    return {
+      transactions,
+      expectedOutput: quotedOutput,
+      priceImpactPct: parseFloat(quote.priceImpactPct),
+      ephemeralFundingSol: useEphemeral ? topUpLamports / LAMPORTS_PER_SOL : undefined,
+      feesSol,
+      rentSol,
+      totalSol: feesSol + rentSol,
+      warnings,
+    };
+  }
+
+  /**
+   * Describe a built transaction: who signs it, its fee and (optionally) a simulation
+   */
+  private async planTransaction(
+    phase: SwapProgressPhase,
+    description: string,
+    transaction: VersionedTransaction,
+    rentLamports: number,
+    simulate: boolean,
+  ): Promise<PlannedTransaction> {
+    const { message } = transaction;
+    const signers = message.staticAccountKeys
+      .slice(0, message.header.numRequiredSignatures)
+      .map((key) => key.toBase58());
+    const simulation = simulate ? await this.simulate(transaction) : {};
+
+    return {
+      phase,
+      description,
+      feePayer: signers[0],
+      signers,
+      simulated: simulate,
+      unitsConsumed: simulation.unitsConsumed,
+      feeSol: (await this.estimateFee(message)) / LAMPORTS_PER_SOL,
+      rentSol: rentLamports / LAMPORTS_PER_SOL,
+      error: simulation.error,
+    };
+  }
+
+  /**
+   * Simulate without signatures, against the latest blockhash
+   */
+  private async simulate(transaction: VersionedTransaction): Promise<{ unitsConsumed?: number; error?: string }> {
+    try {
+      const { value } = await this.connection.simulateTransaction(transaction, {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        commitment: 'confirmed',
+      });
+      return {
+        unitsConsumed: value.unitsConsumed,
+        error: value.err ? JSON.stringify(value.err) : undefined,
+      };
+    } catch (error: any) {
+      return { error: error.message };
+    }
+  }
+
+  /**
+   * Network + priority fee in lamports; falls back to the base fee per signature
+   */
+  private async estimateFee(message: VersionedMessage): Promise<number> {
+    try {
+      const { value } = await this.connection.getFeeForMessage(message, 'confirmed');
+      if (value !== null) return value;
+    } catch {
+      // Fall through to the base fee
+    }
+    return BASE_FEE_LAMPORTS * message.header.numRequiredSignatures;
+  }
+
+  private toVersioned(transaction: Transaction, feePayer: PublicKey, blockhash: string): VersionedTransaction {
+    return new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: feePayer,
+        recentBlockhash: blockhash,
+        instructions: transaction.instructions,
+      }).compileToV0Message()
+    );
+  }
+
+  private countNewTokenAccounts(transaction: Transaction): number {
+    return transaction.instructions.filter((ix) => ix.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)).length;
+  }
+
+  private async executeDirectSwap(
+    signer: Signer,
+    quote: QuoteResponse,
+    progress: ProgressCallback,
+  ): Promise<string> {
     // Execute swap directly from user wallet
     progress({ phase: 'swap', status: 'start', message: 'Executing swap...' });
-    const swapSignature = await this.jupiterService.executeSwap(quote, keypair);
+    const swapSignature = await this.jupiterService.executeSwap(quote, signer);
     progress({ phase: 'swap', status: 'success', message: 'Swap executed' });
 
-    return { signature: swapSignature, outputAmount };
+    return swapSignature;
+  }
+
+  /**
+   * USD value of the swap input, for cost-basis records. Taken from the swap
+   * itself when either side is USDC, otherwise from a USDC quote (best effort).
+   */
+  private async getInputValueUsd(
+    input: TokenInfo,
+    output: TokenInfo,
+    amount: DecimalAmount,
+    outputAmount: DecimalAmount,
+  ): Promise<number | undefined> {
+    const usdcMint = getBuiltinMint('USDC');
+    if (input.mint === usdcMint) return amountToNumber(amount);
+    if (output.mint === usdcMint) return amountToNumber(outputAmount);
+
+    try {
+      const usdc = await this.tokens.resolve('USDC');
+      const quote = await this.jupiterService.getQuote(input.mint, usdc.mint, toBaseUnits(amount, input.decimals));
+      return amountToNumber(fromBaseUnits(quote.outAmount, usdc.decimals));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Fetch a confirmed transaction's metadata, or null if the RPC can't provide it
+   */
+  private async getTransactionMeta(signature: string): Promise<ConfirmedTransactionMeta | null> {
+    try {
+      const tx = await this.connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      return tx?.meta ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Sum fees and newly locked token-account rent across an execution's transactions,
+   * plus whatever SOL is stranded in the discarded ephemeral wallet.
+   * Returns undefined when any transaction can't be fetched (costs would be understated).
+   */
+  private async measureCosts(
+    signatures: Array<string | undefined>,
+    ephemeralPubkey?: PublicKey,
+    reclaimedLamports: number = 0,
+  ): Promise<ExecutionCosts | undefined> {
+    let feeLamports = 0;
+    let rentLamports = 0;
+
+    for (const signature of signatures) {
+      if (!signature) continue;
+      const meta = await this.getTransactionMeta(signature);
+      if (!meta) return undefined;
+
+      feeLamports += meta.fee;
+      rentLamports += getNewAccountRent(meta);
+    }
+
+    let unrecoveredLamports = 0;
+    if (ephemeralPubkey) {
+      try {
+        unrecoveredLamports = await this.connection.getBalance(ephemeralPubkey);
+      } catch {
+        return undefined;
+      }
+    }
+
+    return {
+      feesSol: feeLamports / LAMPORTS_PER_SOL,
+      rentSol: rentLamports / LAMPORTS_PER_SOL,
+      reclaimedRentSol: reclaimedLamports / LAMPORTS_PER_SOL,
+      unrecoveredSol: unrecoveredLamports / LAMPORTS_PER_SOL,
+      totalSol: (feeLamports + rentLamports - reclaimedLamports + unrecoveredLamports) / LAMPORTS_PER_SOL,
+    };
+  }
+
+  /**
+   * Deposit the output into the wallet's Token-2022 confidential balance.
+   * Deposits need the token account owner's signature, so only outputs
+   * delivered to the signing wallet qualify.
+   *
+   * @returns The completed phase, or undefined when Arcium stands in (the
+   *   mint has no confidential transfers, the SDK is missing, or the deposit failed)
+   */
+  private async runConfidentialDeposit(
+    signer: Signer,
+    destination: PublicKey,
+    toToken: string,
+    outputMint: string,
+    amount: DecimalAmount,
+    progress: ProgressCallback,
+    tracker: PhaseTracker,
+  ): Promise<Omit<PhaseRecord, 'completedAt'> | undefined> {
+    if (outputMint === SOL_MINT || !isPositiveAmount(amount)) return undefined;
+    const mint = await this.tokenPrograms.getMint(outputMint).catch(() => null);
+    if (!mint || !ConfidentialTransferService.supportsMint(mint)) return undefined;
+
+    if (!destination.equals(signer.publicKey)) {
+      progress({
+        phase: 'confidential',
+        status: 'info',
+        message: `${toToken} supports confidential balances, but only in your own wallet: using Arcium`,
+      });
+      return undefined;
+    }
+    const availability = await this.confidentialService.checkAvailability();
+    if (!availability.available) {
+      progress({ phase: 'confidential', status: 'warn', message: availability.error! });
+      return undefined;
+    }
+
+    progress({ phase: 'confidential', status: 'start', message: 'Depositing output into confidential balance...' });
+    try {
+      const deposit = await this.confidentialService.deposit(signer, outputMint, amount);
+      const outputs: PhaseOutputs = { account: deposit.account, rawAmount: deposit.rawAmount, applied: deposit.applied };
+      if (deposit.configureSignature) outputs.configureSignature = deposit.configureSignature;
+      const record = { signature: deposit.signature, outputs };
+      tracker.complete('confidential', record);
+      progress({
+        phase: 'confidential',
+        status: 'success',
+        message: `${amount} ${toToken} moved to your confidential balance`,
+        detail: deposit.applied
+          ? `Account: ${deposit.account}`
+          : 'Left pending next to other incoming confidential transfers: apply it with `spl-token apply-pending-balance`',
+      });
+      return record;
+    } catch (error: any) {
+      progress({ phase: 'confidential', status: 'warn', message: `Confidential deposit failed: ${error.message}` });
+      return undefined;
+    }
   }
 
   private async runArciumEncryption(
-    outputAmount: number,
+    outputAmount: DecimalAmount,
+    output: TokenInfo,
     progress: ProgressCallback,
   ): Promise<void> {
     progress({ phase: 'arcium', status: 'start', message: 'Checking Arcium SDK availability...' });
@@ -460,7 +1744,7 @@ export class SwapExecutorService {
       progress({ phase: 'arcium', status: 'start', message: 'Encrypting with RescueCipher...' });
 
       try {
-        const encryptedAmount = arciumService.encryptAmount(outputAmount);
+        const encryptedAmount = arciumService.encryptAmount(toBaseUnits(outputAmount, output.decimals));
         if (!encryptedAmount) {
           progress({ phase: 'arcium', status: 'warn', message: 'Arcium encryption returned null' });
         } else {
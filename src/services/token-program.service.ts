@@ -0,0 +1,224 @@
+/**
+ * Token Program Service
+ *
+ * Mints are owned by either the classic SPL Token program or Token-2022, and
+ * every account, transfer and close has to go to the owning program. This
+ * service looks the program up per mint (cached) together with the Token-2022
+ * extensions transfers depend on: transfer fees (withheld from what the
+ * recipient gets, and blocking closes until harvested), transfer hooks (extra
+ * accounts on every transfer) and confidential transfers.
+ */
+
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  ExtensionType,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TransferFeeConfig,
+  calculateEpochFee,
+  createCloseAccountInstruction,
+  createHarvestWithheldTokensToMintInstruction,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithTransferHookInstruction,
+  createTransferInstruction,
+  getAccountLenForMint,
+  getAssociatedTokenAddress,
+  getExtensionData,
+  getTransferFeeConfig,
+  getTransferHook,
+  unpackMint,
+} from '@solana/spl-token';
+
+/**
+ * Token-2022 confidential transfer settings of a mint
+ */
+export interface ConfidentialTransferMintConfig {
+  /** Authority that approves new accounts, or null */
+  authority: PublicKey | null;
+  /** Accounts can be configured without the authority's approval */
+  autoApproveNewAccounts: boolean;
+}
+
+/**
+ * A mint as the token programs see it
+ */
+export interface TokenMintInfo {
+  address: PublicKey;
+  /** TOKEN_PROGRAM_ID or TOKEN_2022_PROGRAM_ID */
+  programId: PublicKey;
+  decimals: number;
+  /** Token-2022 transfer fee, null when transfers are free */
+  transferFee: TransferFeeConfig | null;
+  /** Program a Token-2022 transfer hook invokes, null without one */
+  transferHookProgram: PublicKey | null;
+  /** Null when the mint doesn't support confidential transfers */
+  confidentialTransfer: ConfidentialTransferMintConfig | null;
+  /** Size of a token account for this mint (Token-2022 accounts carry extensions) */
+  accountSize: number;
+}
+
+const BPS_DENOMINATOR = BigInt(10_000);
+
+export class TokenProgramService {
+  private connection: Connection;
+  private mints = new Map<string, TokenMintInfo>();
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Owning program, decimals and transfer-relevant extensions of a mint
+   * @throws Error if the account doesn't exist or isn't a mint of either token program
+   */
+  async getMint(mint: string | PublicKey): Promise<TokenMintInfo> {
+    const address = new PublicKey(mint);
+    const cached = this.mints.get(address.toBase58());
+    if (cached) return cached;
+
+    const account = await this.connection.getAccountInfo(address);
+    if (!account) {
+      throw new Error(`Mint ${address.toBase58()} not found`);
+    }
+    const programId = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].find((id) => account.owner.equals(id));
+    if (!programId) {
+      throw new Error(`${address.toBase58()} is not a token mint (owned by ${account.owner.toBase58()})`);
+    }
+
+    const unpacked = unpackMint(address, account, programId);
+    const confidential = getExtensionData(ExtensionType.ConfidentialTransferMint, unpacked.tlvData);
+    const info: TokenMintInfo = {
+      address,
+      programId,
+      decimals: unpacked.decimals,
+      transferFee: getTransferFeeConfig(unpacked),
+      transferHookProgram: getTransferHook(unpacked)?.programId ?? null,
+      confidentialTransfer: confidential ? parseConfidentialTransferMint(confidential) : null,
+      accountSize: getAccountLenForMint(unpacked),
+    };
+    // A hook that was unset leaves the extension with the default program
+    if (info.transferHookProgram?.equals(PublicKey.default)) {
+      info.transferHookProgram = null;
+    }
+    this.mints.set(address.toBase58(), info);
+    return info;
+  }
+
+  /**
+   * Associated token account of a wallet under the mint's program
+   */
+  async getAssociatedAddress(mint: TokenMintInfo, owner: PublicKey): Promise<PublicKey> {
+    return getAssociatedTokenAddress(mint.address, owner, true, mint.programId);
+  }
+
+  /**
+   * Rent-exempt minimum of a token account for this mint
+   */
+  async getAccountRent(mint: TokenMintInfo): Promise<number> {
+    return this.connection.getMinimumBalanceForRentExemption(mint.accountSize);
+  }
+
+  /**
+   * Fee the mint withholds from a transfer of this many raw units in the current epoch
+   */
+  async getTransferFee(mint: TokenMintInfo, rawAmount: bigint): Promise<bigint> {
+    if (!mint.transferFee) return BigInt(0);
+    const { epoch } = await this.connection.getEpochInfo();
+    return calculateEpochFee(mint.transferFee, BigInt(epoch), rawAmount);
+  }
+
+  /**
+   * Raw amount to send so that the recipient gets `netAmount` after the transfer fee
+   */
+  async getAmountBeforeFee(mint: TokenMintInfo, netAmount: bigint): Promise<bigint> {
+    if (!mint.transferFee || netAmount === BigInt(0)) return netAmount;
+    const { epoch } = await this.connection.getEpochInfo();
+    const fee = (amount: bigint) => calculateEpochFee(mint.transferFee!, BigInt(epoch), amount);
+
+    const { transferFeeBasisPoints, maximumFee } =
+      BigInt(epoch) >= mint.transferFee.newerTransferFee.epoch
+        ? mint.transferFee.newerTransferFee
+        : mint.transferFee.olderTransferFee;
+    if (transferFeeBasisPoints >= 10_000) {
+      return netAmount + maximumFee;
+    }
+
+    // Invert the percentage, then step past rounding; a capped fee is simply added
+    let amount = (netAmount * BPS_DENOMINATOR + BPS_DENOMINATOR - BigInt(transferFeeBasisPoints) - BigInt(1)) /
+      (BPS_DENOMINATOR - BigInt(transferFeeBasisPoints));
+    if (fee(amount) >= maximumFee) {
+      return netAmount + maximumFee;
+    }
+    while (amount - fee(amount) < netAmount) {
+      amount++;
+    }
+    return amount;
+  }
+
+  /**
+   * Transfer instruction for the mint's program. Token-2022 transfers are
+   * checked (required with fees and hooks) and resolve a hook's extra accounts.
+   */
+  async createTransferInstruction(
+    mint: TokenMintInfo,
+    source: PublicKey,
+    destination: PublicKey,
+    owner: PublicKey,
+    amount: number | bigint
+  ): Promise<TransactionInstruction> {
+    if (mint.programId.equals(TOKEN_PROGRAM_ID)) {
+      return createTransferInstruction(source, destination, owner, amount);
+    }
+    if (mint.transferHookProgram) {
+      return createTransferCheckedWithTransferHookInstruction(
+        this.connection,
+        source,
+        mint.address,
+        destination,
+        owner,
+        BigInt(amount),
+        mint.decimals,
+        [],
+        'confirmed',
+        mint.programId
+      );
+    }
+    return createTransferCheckedInstruction(
+      source,
+      mint.address,
+      destination,
+      owner,
+      BigInt(amount),
+      mint.decimals,
+      [],
+      mint.programId
+    );
+  }
+
+  /**
+   * Instructions closing a token account. Transfer fees withheld in the
+   * account are harvested to the mint first: Token-2022 won't close it otherwise.
+   */
+  createCloseInstructions(
+    mint: TokenMintInfo,
+    account: PublicKey,
+    destination: PublicKey,
+    authority: PublicKey
+  ): TransactionInstruction[] {
+    const instructions: TransactionInstruction[] = [];
+    if (mint.transferFee) {
+      instructions.push(createHarvestWithheldTokensToMintInstruction(mint.address, [account], mint.programId));
+    }
+    instructions.push(createCloseAccountInstruction(account, destination, authority, [], mint.programId));
+    return instructions;
+  }
+}
+
+function parseConfidentialTransferMint(data: Buffer): ConfidentialTransferMintConfig {
+  // authority (OptionalNonZeroPubkey) | auto_approve_new_accounts (bool) | auditor ElGamal pubkey
+  const authority = new PublicKey(data.subarray(0, 32));
+  return {
+    authority: authority.equals(PublicKey.default) ? null : authority,
+    autoApproveNewAccounts: data[32] === 1,
+  };
+}
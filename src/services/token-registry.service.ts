@@ -0,0 +1,347 @@
+/**
+ * Token Registry Service
+ *
+ * Resolves what the CLI and SDK accept as a token (a symbol, a user alias or
+ * any mint address) to its mint, decimals and program. Decimals and program
+ * are read from the mint account; symbol and name come from Token-2022 or
+ * Metaplex metadata when the mint has any. Everything resolved is cached in
+ * ~/.private-dca/tokens.json, so display code can name mints offline.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, getTokenMetadata } from '@solana/spl-token';
+import { TokenProgramService } from './token-program.service';
+import { writePrivateFile } from '../utils/secure-store';
+import { BasketTarget, DCASchedule, TokenInfo } from '../types/index';
+
+/**
+ * A mint as cached in tokens.json
+ */
+interface StoredToken {
+  symbol: string;
+  name?: string;
+  decimals: number;
+  programId: string;
+  /** The symbol was set with `token add --symbol` and resolves to this mint */
+  alias?: boolean;
+  resolvedAt: string;
+}
+
+/**
+ * A registered token as listed by `token list`
+ */
+export interface RegisteredToken extends TokenInfo {
+  source: 'builtin' | 'alias' | 'resolved';
+  /** Not resolved from chain yet (built-ins only) */
+  unresolved?: boolean;
+}
+
+const TOKENS_FILE = 'tokens.json';
+
+const METAPLEX_METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+const SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9._-]{0,15}$/;
+
+// Symbols that resolve without an alias; decimals still come from the mint
+const BUILTIN_TOKENS: Array<{ symbol: string; mint: string; name: string }> = [
+  { symbol: 'SOL', mint: 'So11111111111111111111111111111111111111112', name: 'Wrapped SOL' },
+  { symbol: 'USDC', mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', name: 'USD Coin' },
+  { symbol: 'USDT', mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', name: 'USDT' },
+  // Popular meme/DeFi tokens for DCA use cases
+  { symbol: 'BONK', mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', name: 'Bonk' },
+  { symbol: 'WIF', mint: 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm', name: 'dogwifhat' },
+  { symbol: 'JUP', mint: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN', name: 'Jupiter' },
+  { symbol: 'RAY', mint: '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R', name: 'Raydium' },
+  { symbol: 'ORCA', mint: 'orcaEKTdK7LKz57vaAYr9QeNsVEPfiu6QeMU1kektZE', name: 'Orca' },
+];
+
+/**
+ * Mint of a built-in symbol (e.g. the stablecoins Privacy Cash pools)
+ */
+export function getBuiltinMint(symbol: string): string | undefined {
+  return BUILTIN_TOKENS.find((token) => token.symbol === symbol.toUpperCase())?.mint;
+}
+
+/**
+ * Whether a string is a base58 public key (32 bytes)
+ */
+export function isMintAddress(token: string): boolean {
+  if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(token)) return false;
+  try {
+    new PublicKey(token);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Short label for a mint without a known symbol
+ */
+export function shortMint(mint: string): string {
+  return `${mint.slice(0, 4)}...${mint.slice(-4)}`;
+}
+
+export class TokenRegistryService {
+  private connection?: Connection;
+  private tokenPrograms?: TokenProgramService;
+  private tokensFile: string;
+  private dataDir: string;
+
+  /**
+   * @param connection - Needed to resolve mints that aren't cached yet
+   */
+  constructor(connection?: Connection, dataDir: string = path.join(os.homedir(), '.private-dca')) {
+    this.connection = connection;
+    this.tokenPrograms = connection ? new TokenProgramService(connection) : undefined;
+    this.dataDir = dataDir;
+    this.tokensFile = path.join(dataDir, TOKENS_FILE);
+  }
+
+  /**
+   * Resolve a symbol, alias or mint address
+   * @param refresh - Re-read the mint account even when it is cached
+   * @throws Error for unknown symbols and mints that don't exist
+   */
+  async resolve(token: string, refresh: boolean = false): Promise<TokenInfo> {
+    const mint = this.findMint(token);
+    if (!mint) {
+      throw new Error(
+        `Unknown token ${token}. Use a mint address, or add an alias: private-dca token add <mint> --symbol ${token.toUpperCase()}`
+      );
+    }
+
+    const tokens = this.load();
+    const cached = tokens[mint];
+    if (cached && !refresh) {
+      return this.toInfo(mint, cached);
+    }
+
+    const info = await this.fetch(mint);
+    const stored: StoredToken = {
+      ...info,
+      // An alias wins over the mint's metadata
+      symbol: cached?.alias ? cached.symbol : info.symbol,
+      alias: cached?.alias,
+      resolvedAt: new Date().toISOString(),
+    };
+    this.save({ ...tokens, [mint]: stored });
+    return this.toInfo(mint, stored);
+  }
+
+  /**
+   * Resolve a schedule's source and destination, as they stand on chain now
+   * @throws Error naming the schedule when either no longer resolves
+   */
+  async resolveSchedule(schedule: DCASchedule): Promise<{ input: TokenInfo; output: TokenInfo }> {
+    const resolve = async (token: string) => {
+      try {
+        return await this.resolve(token, true);
+      } catch (error: any) {
+        throw new Error(`Schedule ${schedule.id}: token ${token} no longer resolves: ${error.message}`);
+      }
+    };
+    return {
+      input: await resolve(schedule.fromMint ?? schedule.fromToken),
+      output: await resolve(schedule.toMint ?? schedule.toToken),
+    };
+  }
+
+  /**
+   * Resolve the targets of a basket schedule
+   * @throws Error if a token doesn't resolve or two targets are the same mint
+   */
+  async resolveBasket(targets: { token: string; weight: number }[]): Promise<BasketTarget[]> {
+    const basket: BasketTarget[] = [];
+    for (const { token, weight } of targets) {
+      const info = await this.resolve(token);
+      const duplicate = basket.find((target) => target.mint === info.mint);
+      if (duplicate) {
+        throw new Error(`${token} and ${duplicate.token} are the same token`);
+      }
+      basket.push({ token: info.symbol, mint: info.mint, weight });
+    }
+    return basket;
+  }
+
+  /**
+   * Register a mint, optionally under an alias that resolves to it
+   * @throws Error if the symbol is invalid or already names another mint
+   */
+  async add(mint: string, symbol?: string): Promise<TokenInfo> {
+    if (!isMintAddress(mint)) {
+      throw new Error(`Invalid mint address: ${mint}`);
+    }
+    if (symbol === undefined) {
+      return this.resolve(mint, true);
+    }
+
+    const alias = symbol.toUpperCase();
+    if (!SYMBOL_PATTERN.test(alias)) {
+      throw new Error(`Invalid symbol: ${symbol}. Use up to 16 letters, digits, '.', '_' or '-'`);
+    }
+    const taken = this.findMint(alias);
+    if (taken && taken !== mint) {
+      throw new Error(`${alias} already refers to ${taken}`);
+    }
+
+    const info = await this.fetch(mint);
+    const tokens = this.load();
+    // Drop an alias the mint had before
+    tokens[mint] = { ...info, symbol: alias, alias: true, resolvedAt: new Date().toISOString() };
+    this.save(tokens);
+    return this.toInfo(mint, tokens[mint]);
+  }
+
+  /**
+   * Forget a mint or alias. Built-in symbols stay resolvable.
+   * @returns false if nothing was registered under it
+   */
+  remove(token: string): boolean {
+    const mint = this.findMint(token);
+    const tokens = this.load();
+    if (!mint || !tokens[mint]) return false;
+    const builtin = this.builtinOf(mint);
+    if (builtin && (!tokens[mint].alias || token.toUpperCase() === builtin.symbol)) {
+      throw new Error(`${builtin.symbol} is a built-in token and can't be removed`);
+    }
+
+    delete tokens[mint];
+    this.save(tokens);
+    return true;
+  }
+
+  /**
+   * Built-in tokens, aliases and every mint resolved so far
+   */
+  list(): RegisteredToken[] {
+    const tokens = this.load();
+    const listed: RegisteredToken[] = BUILTIN_TOKENS.filter((builtin) => !tokens[builtin.mint]?.alias).map(
+      (builtin) => {
+        const stored = tokens[builtin.mint];
+        return stored
+          ? { ...this.toInfo(builtin.mint, stored), source: 'builtin' }
+          : { mint: builtin.mint, symbol: builtin.symbol, name: builtin.name, decimals: 0, programId: '', source: 'builtin', unresolved: true };
+      }
+    );
+    for (const [mint, stored] of Object.entries(tokens)) {
+      if (this.builtinOf(mint) && !stored.alias) continue;
+      listed.push({ ...this.toInfo(mint, stored), source: stored.alias ? 'alias' : 'resolved' });
+    }
+    return listed;
+  }
+
+  /**
+   * Display symbol of a mint, offline: cached or built-in, else a shortened address.
+   * Symbols (as older records store them) are returned as they are.
+   */
+  getSymbol(mint: string): string {
+    if (!isMintAddress(mint)) return mint;
+    return this.load()[mint]?.symbol ?? this.builtinOf(mint)?.symbol ?? shortMint(mint);
+  }
+
+  /**
+   * Cached decimals of a mint, if it was resolved before
+   */
+  getCachedDecimals(mint: string): number | undefined {
+    return this.load()[mint]?.decimals;
+  }
+
+  /**
+   * Mint a token refers to: a mint address as is, else an alias or built-in symbol
+   */
+  private findMint(token: string): string | undefined {
+    if (isMintAddress(token)) return token;
+
+    const symbol = token.toUpperCase();
+    const aliased = Object.entries(this.load()).find(([, stored]) => stored.alias && stored.symbol === symbol);
+    return aliased?.[0] ?? getBuiltinMint(symbol);
+  }
+
+  private builtinOf(mint: string) {
+    return BUILTIN_TOKENS.find((builtin) => builtin.mint === mint);
+  }
+
+  /**
+   * Decimals and program from the mint account, symbol and name from its metadata
+   */
+  private async fetch(mint: string): Promise<Omit<StoredToken, 'resolvedAt'>> {
+    if (!this.connection || !this.tokenPrograms) {
+      throw new Error(`Token ${mint} is not cached and there is no RPC connection to resolve it`);
+    }
+
+    const info = await this.tokenPrograms.getMint(mint);
+    const metadata = await this.fetchMetadata(info.address, info.programId).catch(() => null);
+    const builtin = this.builtinOf(mint);
+    // Metadata can claim any symbol; one naming another mint would mislead
+    const claimed = metadata?.symbol && this.findMint(metadata.symbol);
+    const symbol = metadata?.symbol && (!claimed || claimed === mint) ? metadata.symbol : undefined;
+    return {
+      symbol: builtin?.symbol ?? symbol ?? shortMint(mint),
+      name: metadata?.name || builtin?.name,
+      decimals: info.decimals,
+      programId: info.programId.toBase58(),
+    };
+  }
+
+  /**
+   * Token-2022 metadata extension, else the Metaplex metadata account (best effort)
+   */
+  private async fetchMetadata(
+    mint: PublicKey,
+    programId: PublicKey,
+  ): Promise<{ symbol: string; name: string } | null> {
+    if (programId.equals(TOKEN_2022_PROGRAM_ID)) {
+      const metadata = await getTokenMetadata(this.connection!, mint, 'confirmed', programId);
+      if (metadata) return { symbol: clean(metadata.symbol), name: clean(metadata.name) };
+    }
+
+    const [address] = PublicKey.findProgramAddressSync(
+      [Buffer.from('metadata'), METAPLEX_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+      METAPLEX_METADATA_PROGRAM_ID
+    );
+    const account = await this.connection!.getAccountInfo(address);
+    if (!account || !account.owner.equals(METAPLEX_METADATA_PROGRAM_ID)) return null;
+
+    // key (u8) | update authority | mint | name (borsh string) | symbol (borsh string)
+    const data = account.data;
+    let offset = 1 + 32 + 32;
+    const readString = () => {
+      const length = data.readUInt32LE(offset);
+      const value = data.subarray(offset + 4, offset + 4 + length).toString('utf8');
+      offset += 4 + length;
+      return clean(value);
+    };
+    const name = readString();
+    const symbol = readString();
+    return { symbol, name };
+  }
+
+  private toInfo(mint: string, stored: StoredToken): TokenInfo {
+    return { mint, symbol: stored.symbol, name: stored.name, decimals: stored.decimals, programId: stored.programId };
+  }
+
+  private load(): Record<string, StoredToken> {
+    if (!fs.existsSync(this.tokensFile)) {
+      return {};
+    }
+    return JSON.parse(fs.readFileSync(this.tokensFile, 'utf-8'));
+  }
+
+  private save(tokens: Record<string, StoredToken>): void {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+    writePrivateFile(this.tokensFile, JSON.stringify(tokens, null, 2));
+  }
+}
+
+/**
+ * Metaplex pads names and symbols with NULs
+ */
+function clean(value: string): string {
+  return value.replace(/\0/g, '').trim();
+}
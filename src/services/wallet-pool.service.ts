@@ -0,0 +1,160 @@
+/**
+ * Wallet Pool Service
+ *
+ * Lifecycle of per-schedule pooled ephemeral wallets: hand out the current
+ * wallet, rotate it after N uses or T days (reuse links a schedule's swaps
+ * to each other on-chain, rotation bounds how many), and sweep + close it
+ * when the schedule is cancelled or completes.
+ */
+
+import { Connection, Keypair } from '@solana/web3.js';
+import { EphemeralService, SweepResult, RECOVERY_FEE_LAMPORTS } from './ephemeral.service';
+import { PoolKeystore, DEFAULT_POOL_FILE } from './pool-keystore.service';
+import { SchedulerService } from './scheduler.service';
+import { DCASchedule } from '../types/index';
+import { Signer } from '../utils/signer';
+
+export const DEFAULT_POOL_MAX_USES = 10;
+export const DEFAULT_POOL_MAX_AGE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class WalletPoolService {
+  private connection: Connection;
+  private owner: Signer;
+  private scheduler: SchedulerService;
+  private poolFile: string;
+  private ephemeralService: EphemeralService;
+
+  constructor(
+    connection: Connection,
+    owner: Signer,
+    scheduler: SchedulerService = new SchedulerService(),
+    poolFile: string = DEFAULT_POOL_FILE
+  ) {
+    this.connection = connection;
+    this.owner = owner;
+    this.scheduler = scheduler;
+    this.poolFile = poolFile;
+    this.ephemeralService = new EphemeralService(connection, connection.rpcEndpoint);
+  }
+
+  /**
+   * Validate rotation limits
+   * @throws Error if a limit is not a positive number
+   */
+  static validateRotation(maxUses?: number, maxAgeDays?: number): void {
+    if (maxUses !== undefined && (!Number.isInteger(maxUses) || maxUses < 1)) {
+      throw new Error('Pool max uses must be a positive integer');
+    }
+    if (maxAgeDays !== undefined && (isNaN(maxAgeDays) || maxAgeDays <= 0)) {
+      throw new Error('Pool max age must be a positive number of days');
+    }
+  }
+
+  /**
+   * Whether the schedule's current pooled wallet has reached its rotation limits
+   */
+  static isRotationDue(schedule: DCASchedule, now: Date = new Date()): boolean {
+    if (!schedule.ephemeralWalletAddress) return false;
+
+    const maxUses = schedule.poolMaxUses ?? DEFAULT_POOL_MAX_USES;
+    if ((schedule.ephemeralWalletUses ?? 0) >= maxUses) return true;
+
+    const maxAgeDays = schedule.poolMaxAgeDays ?? DEFAULT_POOL_MAX_AGE_DAYS;
+    const createdAt = schedule.ephemeralWalletCreatedAt ? new Date(schedule.ephemeralWalletCreatedAt) : now;
+    return now.getTime() - createdAt.getTime() >= maxAgeDays * DAY_MS;
+  }
+
+  /**
+   * Pooled wallet to swap from, rotating (and closing) the old one when due
+   */
+  async acquire(schedule: DCASchedule): Promise<Keypair> {
+    schedule = this.current(schedule);
+    let address = schedule.ephemeralWalletAddress;
+    if (WalletPoolService.isRotationDue(schedule)) {
+      await this.release(schedule);
+      address = undefined;
+    }
+
+    const wallet = await this.ephemeralService.getOrCreatePooledWallet(
+      this.owner,
+      schedule.id,
+      address,
+      this.poolFile
+    );
+    if (wallet.isNew) {
+      this.scheduler.setPooledWallet(schedule.id, wallet.publicKey);
+    }
+    return wallet.keypair;
+  }
+
+  /**
+   * Pooled wallet the next swap would use, without rotating or creating one (dry runs)
+   * @returns undefined when the next swap would start a new wallet
+   */
+  async peek(schedule: DCASchedule): Promise<Keypair | undefined> {
+    schedule = this.current(schedule);
+    if (!schedule.ephemeralWalletAddress || WalletPoolService.isRotationDue(schedule)) {
+      return undefined;
+    }
+    const keypair = await new PoolKeystore(this.owner, this.poolFile).get(schedule.ephemeralWalletAddress);
+    return keypair ?? undefined;
+  }
+
+  /**
+   * Pooled wallet by address, due for rotation or not (resuming an execution that ran from it)
+   */
+  async get(address: string): Promise<Keypair | undefined> {
+    const keypair = await new PoolKeystore(this.owner, this.poolFile).get(address);
+    return keypair ?? undefined;
+  }
+
+  /**
+   * Book-keeping after a successful pooled swap. Must run before the scheduler
+   * records the execution: the swap that reaches totalExecutions closes the wallet.
+   * @param last - The swap completes the schedule otherwise (a sell-down sold the rest)
+   */
+  async afterExecution(schedule: DCASchedule, last: boolean = false): Promise<void> {
+    this.scheduler.recordPooledWalletUse(schedule.id);
+
+    const total = schedule.totalExecutions;
+    if (last || (total && this.scheduler.countExecutions(schedule.id) + 1 >= total)) {
+      await this.release(schedule);
+    }
+  }
+
+  /**
+   * Latest copy of a schedule: callers may hold one from before the pooled wallet changed
+   */
+  private current(schedule: DCASchedule): DCASchedule {
+    return this.scheduler.loadSchedules().find((s) => s.id === schedule.id) ?? schedule;
+  }
+
+  /**
+   * Sweep and close the schedule's pooled wallet, then forget its key.
+   * The key is kept if the sweep fails, so nothing is stranded.
+   *
+   * @returns What was swept, or null if the schedule has no (known) pooled wallet
+   */
+  async release(schedule: DCASchedule): Promise<SweepResult | null> {
+    schedule = this.current(schedule);
+    const address = schedule.ephemeralWalletAddress;
+    if (!address) return null;
+
+    const keystore = new PoolKeystore(this.owner, this.poolFile);
+    const keypair = await keystore.get(address);
+    let result: SweepResult | null = null;
+
+    if (keypair) {
+      result = await this.ephemeralService.closePooledWallet(keypair, this.owner);
+      if ((await this.connection.getBalance(keypair.publicKey)) > RECOVERY_FEE_LAMPORTS) {
+        throw new Error(`Pooled wallet ${address} still holds SOL after closing; its key was kept`);
+      }
+      keystore.remove(address);
+    }
+
+    this.scheduler.setPooledWallet(schedule.id, undefined);
+    return result;
+  }
+}
@@ -1,11 +1,148 @@
 import { PublicKey } from '@solana/web3.js';
 
+/**
+ * Exact token amount as a decimal string in token units (e.g. '0.1' SOL).
+ * Converted to base units with `toBaseUnits` only where it meets the chain.
+ */
+export type DecimalAmount = string;
+
+/**
+ * What to do with cron slots that passed while no scheduler was running:
+ *   'skip'     - record them as missed and wait for the next slot
+ *   'run-once' - execute once for the most recent missed slot
+ *   'run-all'  - execute every missed slot, up to maxCatchUpExecutions
+ */
+export type MissedExecutionPolicy = 'skip' | 'run-once' | 'run-all';
+
+/**
+ * Time-of-day / day overrides for the built-in frequencies
+ */
+export interface ScheduleTiming {
+  at?: string; // 'HH:MM' (hourly schedules only use the minute)
+  dayOfWeek?: number; // 0-6, Sunday = 0 (weekly)
+  dayOfMonth?: number; // 1-28 (monthly)
+}
+
+/**
+ * Raw timing options as accepted by the CLI and SDK
+ */
+export interface ScheduleTimingOptions extends ScheduleTiming {
+  frequency?: string;
+  cron?: string;
+  timezone?: string;
+}
+
+/**
+ * Pre-rolled jitter for a schedule's next slot. Persisted so that a restart
+ * re-arms the same run time instead of rolling a new one.
+ */
+export interface JitterPlan {
+  slot: string; // Nominal cron slot
+  runAt: string; // Slot shifted by the random time offset
+  amount: DecimalAmount; // Amount after amount jitter
+  legs?: { mint: string; runAt: string }[]; // Basket schedules: when each target is bought, earliest first
+}
+
+/**
+ * One target of a basket schedule
+ */
+export interface BasketTarget {
+  token: string; // Symbol, for display
+  mint: string;
+  weight: number; // Percent of each execution's amount; a basket's weights add up to 100
+}
+
+/**
+ * How the amount for each execution is chosen:
+ *   'fixed'           - always amountPerExecution (plain DCA)
+ *   'value-averaging' - buy enough that the position grows by targetIncrementUsd per period
+ *   'dip-weighted'    - scale amountPerExecution by the price's distance below its moving average
+ */
+export interface DCAStrategy {
+  type: 'fixed' | 'value-averaging' | 'dip-weighted';
+  targetIncrementUsd?: number; // value-averaging
+  movingAverageWindow?: number; // dip-weighted: number of past prices averaged
+  sensitivity?: number; // dip-weighted: multiplier change per 100% deviation
+  minMultiplier?: number; // Lower bound on amount / amountPerExecution
+  maxMultiplier?: number; // Upper bound on amount / amountPerExecution
+}
+
+/**
+ * Sell-down (reverse DCA) amounts, read from the fromToken balance at fire
+ * time. amountPerExecution is what 'until-depleted' sells each time, and the
+ * smallest sale of 'percent-of-balance' ('0' for none).
+ */
+export interface AmountMode {
+  type: 'fixed' | 'percent-of-balance' | 'until-depleted';
+  balancePercent?: number; // percent-of-balance: share of the balance sold each execution
+}
+
+/**
+ * Inputs and output of a strategy decision, recorded with each execution
+ */
+export interface StrategyDecision {
+  type: DCAStrategy['type'];
+  baseAmount: DecimalAmount;
+  amount: DecimalAmount; // '0' means nothing to buy this period
+  price?: number; // fromToken per 1 toToken (Jupiter quote)
+  movingAverage?: number;
+  multiplier?: number;
+  targetValueUsd?: number;
+  currentValueUsd?: number;
+  balance?: DecimalAmount; // Sell-down: spendable fromToken balance at fire time
+  depleted?: boolean; // Sell-down: nothing is left after this execution
+  reason?: string;
+}
+
+export type DCAExecutionStatus = 'success' | 'failed' | 'skipped' | 'missed';
+
+/**
+ * Every transaction an execution sent, by pipeline stage
+ */
+export interface ExecutionSignatures {
+  zkDeposit?: string;
+  zkWithdraw?: string;
+  funding?: string;
+  swap?: string;
+  sendOutput?: string;
+  closeAccounts?: string;
+  recoverSol?: string;
+  /** Token-2022 confidential balance deposit of the output (`--private`) */
+  confidentialDeposit?: string;
+}
+
+/**
+ * SOL spent by an execution, measured from its confirmed transactions
+ */
+export interface ExecutionCosts {
+  feesSol: number; // Network + priority fees
+  rentSol: number; // Rent locked in token accounts the execution created
+  reclaimedRentSol?: number; // Rent returned by closing the ephemeral's token accounts (absent on older records)
+  unrecoveredSol: number; // Left behind in the discarded ephemeral wallet
+  totalSol: number; // fees + rent - reclaimed rent + unrecovered
+}
+
+/**
+ * An ephemeral wallet's fee reserve vs. what it spent, recorded to tune the funding estimate
+ */
+export interface EphemeralFunding {
+  estimatedSol: number; // Fees + rent its transactions were expected to take
+  reserveSol: number; // What it held for them (estimate plus margin and wSOL rent)
+  spentSol?: number; // Measured from the confirmed transactions
+  surplusSol?: number; // reserveSol - spentSol; negative when it was underfunded
+}
+
 export interface DCASchedule {
   id: string;
-  fromToken: string;
-  toToken: string;
-  amountPerExecution: number;
-  frequency: 'hourly' | 'daily' | 'weekly' | 'monthly';
+  profile?: string; // Config profile whose wallet and RPC run it (absent on older schedules: 'default')
+  fromToken: string; // Symbol, for display
+  toToken: string; // Basket schedules: the targets' symbols, for display only
+  fromMint?: string; // Absent on older schedules: the built-in mint of fromToken
+  toMint?: string; // Absent on basket schedules
+  amountPerExecution: DecimalAmount;
+  frequency: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'custom';
+  cronExpression?: string; // Absent on older schedules: derived from frequency
+  timezone?: string; // IANA name, e.g. 'Europe/Berlin' (defaults to host time)
   isPrivate: boolean;
   useEphemeral?: boolean;
   useZk?: boolean;
@@ -15,10 +152,32 @@ export interface DCASchedule {
   totalExecutions?: number;
   executedCount: number;
   createdAt: string;
+  resumedAt?: string; // Last time a paused schedule was resumed
   active: boolean;
   // Account pooling: reuse ephemeral wallet across swaps
+  usePooledWallet?: boolean; // Reuse one ephemeral wallet (and its ATAs) until rotation
+  poolMaxUses?: number; // Rotate after this many swaps
+  poolMaxAgeDays?: number; // Rotate once the wallet is this old
   ephemeralWalletAddress?: string; // Current ephemeral wallet for this schedule
   ephemeralWalletCreatedAt?: string; // When the pooled wallet was created
+  ephemeralWalletUses?: number; // Swaps made with the current pooled wallet
+  // Catch-up after downtime (evaluated when schedules are restored)
+  missedExecutionPolicy?: MissedExecutionPolicy; // Defaults to 'skip'
+  maxCatchUpExecutions?: number; // Cap for 'run-all'
+  // Timing-correlation defence: randomize when and how much each execution swaps
+  timingJitterMinutes?: number; // Run up to ±N minutes around each slot
+  amountJitterPct?: number; // Vary the amount by up to ±N%
+  jitterPlan?: JitterPlan; // Managed by the scheduler
+  strategy?: DCAStrategy; // Defaults to fixed
+  amountMode?: AmountMode; // Defaults to fixed; the schedule completes once a sell-down runs out
+  maxPrice?: number; // Skip when quoted fromToken per toToken is above this
+  minPrice?: number; // Skip when quoted fromToken per toToken is below this
+  maxPriceImpactPct?: number; // Skip when Jupiter price impact exceeds this
+  lowBalanceWarning?: number; // Warn when the wallet covers fewer executions than this (default 3)
+  // Basket: split each execution across several targets, bought as separate swaps ("legs")
+  basket?: BasketTarget[];
+  legStaggerMinutes?: number; // Spread the legs over up to N minutes after the (jittered) slot
+  rebalance?: RebalanceSettings; // Rebalance schedules: restore these weights instead of buying
 }
 
 export interface DCAExecution {
@@ -26,16 +185,147 @@ export interface DCAExecution {
   scheduleId: string;
   executedAt: string;
   success: boolean;
+  status?: DCAExecutionStatus; // Absent on records written before statuses existed
+  scheduledFor?: string; // Cron slot this execution belongs to
+  manual?: boolean; // Run with `dca execute`: belongs to no slot and counts toward no limit
+  startedAt?: string; // When the execution actually started (after jitter)
   signature?: string;
-  inputAmount?: number;
-  outputAmount?: number;
+  inputAmount?: DecimalAmount;
+  fromToken?: string; // Copied from the schedule so records outlive it
+  toToken?: string;
+  toMint?: string; // Target bought; tells the legs of a basket apart
+  outputAmount?: DecimalAmount; // Actual output when known, otherwise the quote
+  quotedOutputAmount?: DecimalAmount;
+  inputValueUsd?: number; // USD value of inputAmount at execution time
+  signatures?: ExecutionSignatures;
+  ephemeralAddress?: string;
+  costs?: ExecutionCosts; // Excludes Privacy Cash protocol fees
+  ephemeralFunding?: EphemeralFunding;
+  strategy?: StrategyDecision;
+  resumedFrom?: string; // Interrupted execution this one finished instead of starting a new swap
+  trades?: RebalanceTrade[]; // Rebalance executions: the swaps made
+  skipReason?: string;
   error?: string;
 }
 
+/**
+ * Performance of a schedule, aggregated from its successful executions.
+ * Amounts are in the schedule's tokens; prices in fromToken per 1 toToken.
+ */
+export interface ScheduleReport {
+  scheduleId: string;
+  fromToken: string;
+  toToken: string;
+  executions: number;
+  untrackedExecutions: number; // Successful but recorded without amounts
+  firstExecution?: string;
+  lastExecution?: string;
+  totalSpent: number; // fromToken
+  totalAcquired: number; // toToken
+  averageEntryPrice?: number;
+  currentPrice?: number; // Undefined when no quote was available
+  currentValue?: number; // fromToken, quoted for the whole acquired amount
+  unrealizedPnl?: number; // fromToken
+  unrealizedPnlPct?: number;
+  feesSol: number; // SOL fees + rent + unrecovered dust
+  feeDrag?: number; // feesSol converted to fromToken
+  feeDragPct?: number; // feeDrag as a percentage of totalSpent
+}
+
+/**
+ * How far a basket target's share of the position's current value is from its weight
+ */
+export interface BasketDrift {
+  token: string;
+  targetWeight: number; // Percent
+  value?: number; // fromToken, quoted for everything acquired; undefined when no quote was available
+  weight?: number; // Percent of the basket's current value
+  drift?: number; // weight - targetWeight, in percentage points
+}
+
+/**
+ * Target weights a rebalance restores, and how far they may drift first
+ */
+export interface RebalanceSettings {
+  targets: BasketTarget[];
+  thresholdPct: number; // Rebalance once any target's weight is this many percentage points off
+}
+
+/**
+ * A target's spendable balance, valued in USDC at a Jupiter quote
+ */
+export interface RebalanceHolding {
+  token: string;
+  mint: string;
+  decimals: number;
+  balance: DecimalAmount; // SOL excludes the fee reserve
+  value: number; // USDC
+  weight: number; // Percent of the total value
+  targetWeight: number;
+  drift: number; // weight - targetWeight, in percentage points
+}
+
+/**
+ * One swap of a rebalance, with its outcome once executed
+ */
+export interface RebalanceTrade {
+  fromToken: string;
+  fromMint: string;
+  toToken: string;
+  toMint: string;
+  amount: DecimalAmount; // fromToken
+  value: number; // USDC
+  signature?: string;
+  outputAmount?: DecimalAmount;
+  ephemeralAddress?: string;
+  costs?: ExecutionCosts;
+  error?: string;
+}
+
+export interface RebalancePlan {
+  holdings: RebalanceHolding[];
+  totalValue: number; // USDC
+  maxDrift: number; // Largest drift either way, in percentage points
+  trades: RebalanceTrade[]; // Empty while every target is within the threshold
+}
+
+/**
+ * Outcome of making a rebalance's swaps; a failed swap ends the run
+ */
+export interface RebalanceRun {
+  trades: RebalanceTrade[]; // Attempted, in order: a failed run's last trade carries its error
+  error?: string;
+  failedExecutionId?: string; // Persisted state of the failed swap, for resuming it
+}
+
+/**
+ * Details an executor reports back to the scheduler for the execution record
+ */
+export type ExecutionReport = Partial<
+  Pick<
+    DCAExecution,
+    | 'status'
+    | 'signature'
+    | 'inputAmount'
+    | 'outputAmount'
+    | 'quotedOutputAmount'
+    | 'inputValueUsd'
+    | 'signatures'
+    | 'ephemeralAddress'
+    | 'costs'
+    | 'ephemeralFunding'
+    | 'resumedFrom'
+    | 'strategy'
+    | 'trades'
+    | 'skipReason'
+    | 'error'
+  >
+>;
+
 export interface SwapParams {
   fromToken: string;
   toToken: string;
-  amount: number;
+  amount: DecimalAmount;
   slippageBps?: number;
   isPrivate?: boolean;
   screenAddresses?: boolean;
@@ -43,8 +333,8 @@ export interface SwapParams {
 
 export interface SwapResult {
   signature: string;
-  inputAmount: number;
-  outputAmount: number;
+  inputAmount: DecimalAmount;
+  outputAmount: DecimalAmount;
   inputToken: string;
   outputToken: string;
   isPrivate: boolean;
@@ -66,25 +356,17 @@ export interface Config {
   rangeApiKey?: string;
 }
 
-export const TOKEN_MINTS: Record<string, string> = {
-  SOL: 'So11111111111111111111111111111111111111112',
-  USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-  USDT: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
-  // Popular meme/DeFi tokens for DCA use cases
-  BONK: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
-  WIF: 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm',
-  JUP: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN',
-  RAY: '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R',
-  ORCA: 'orcaEKTdK7LKz57vaAYr9QeNsVEPfiu6QeMU1kektZE',
-};
-
-export const TOKEN_DECIMALS: Record<string, number> = {
-  SOL: 9,
-  USDC: 6,
-  USDT: 6,
-  BONK: 5,
-  WIF: 6,
-  JUP: 6,
-  RAY: 6,
-  ORCA: 6,
-};
+/**
+ * A token as resolved by the token registry
+ */
+export interface TokenInfo {
+  mint: string;
+  symbol: string; // Alias, built-in or metadata symbol; a shortened mint without one
+  name?: string;
+  decimals: number; // From the mint account
+  programId: string; // Token program or Token-2022
+}
+
+// Wrapped SOL: swaps to and from it move native SOL
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+export const SOL_DECIMALS = 9;
@@ -0,0 +1,118 @@
+import { DecimalAmount } from '../types/index';
+
+const DECIMAL_PATTERN = /^(-)?(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Parse a token amount as typed on the command line or read from a file.
+ * Numbers are accepted for records written before amounts were exact.
+ * @returns The canonical decimal string ('007.50' -> '7.5')
+ * @throws Error if it is not a decimal number
+ */
+export function parseAmount(value: string | number): DecimalAmount {
+  const text = typeof value === 'number' ? numberToDecimal(value) : value.trim();
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  const whole = match[2].replace(/^0+(?=\d)/, '') || '0';
+  const fraction = (match[3] ?? '').replace(/0+$/, '');
+  const amount = fraction ? `${whole}.${fraction}` : whole;
+  return match[1] && amount !== '0' ? `-${amount}` : amount;
+}
+
+/**
+ * Amount in the token's base units (lamports for SOL). Digits beyond the
+ * token's decimals are dropped, as a transfer can't move them.
+ */
+export function toBaseUnits(amount: DecimalAmount, decimals: number): bigint {
+  const [whole, fraction = ''] = parseAmount(amount).split('.');
+  return BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, '0'));
+}
+
+/**
+ * Base units (as returned by the chain and Jupiter) as a decimal amount
+ */
+export function fromBaseUnits(raw: bigint | string | number, decimals: number): DecimalAmount {
+  const value = BigInt(raw);
+  const digits = (value < BigInt(0) ? -value : value).toString().padStart(decimals + 1, '0');
+  const sign = value < BigInt(0) ? '-' : '';
+  return parseAmount(`${sign}${digits.slice(0, digits.length - decimals)}.${digits.slice(digits.length - decimals)}`);
+}
+
+/**
+ * Whether the amount can be sent exactly with the token's decimals
+ */
+export function fitsDecimals(amount: DecimalAmount, decimals: number): boolean {
+  return (parseAmount(amount).split('.')[1] ?? '').length <= decimals;
+}
+
+/**
+ * Round a computed amount (strategies, jitter) to a decimal amount
+ */
+export function roundAmount(value: number, decimals: number): DecimalAmount {
+  return parseAmount(Math.max(0, value).toFixed(decimals));
+}
+
+export function addAmounts(a: DecimalAmount, b: DecimalAmount): DecimalAmount {
+  const decimals = Math.max(scaleOf(a), scaleOf(b));
+  return fromBaseUnits(toBaseUnits(a, decimals) + toBaseUnits(b, decimals), decimals);
+}
+
+export function subtractAmounts(a: DecimalAmount, b: DecimalAmount): DecimalAmount {
+  const decimals = Math.max(scaleOf(a), scaleOf(b));
+  return fromBaseUnits(toBaseUnits(a, decimals) - toBaseUnits(b, decimals), decimals);
+}
+
+/**
+ * Split an amount by percentage weights at the given decimals. Shares are
+ * rounded down and the last one takes the remainder, so they add up exactly.
+ */
+export function splitAmount(amount: DecimalAmount, weights: number[], decimals: number): DecimalAmount[] {
+  const basis = weights.map((weight) => BigInt(Math.round(weight * 100)));
+  const sum = basis.reduce((total, weight) => total + weight, BigInt(0));
+  const units = toBaseUnits(amount, decimals);
+  const shares = basis.slice(0, -1).map((weight) => fromBaseUnits((units * weight) / sum, decimals));
+  return [...shares, shares.reduce((rest, share) => subtractAmounts(rest, share), parseAmount(amount))];
+}
+
+/**
+ * @returns Negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareAmounts(a: DecimalAmount, b: DecimalAmount): number {
+  const decimals = Math.max(scaleOf(a), scaleOf(b));
+  const difference = toBaseUnits(a, decimals) - toBaseUnits(b, decimals);
+  return difference === BigInt(0) ? 0 : difference < BigInt(0) ? -1 : 1;
+}
+
+export function isPositiveAmount(amount: DecimalAmount): boolean {
+  return compareAmounts(amount, '0') > 0;
+}
+
+/**
+ * Approximate value, for prices, USD values and display only
+ */
+export function amountToNumber(amount: DecimalAmount): number {
+  return Number(amount);
+}
+
+function scaleOf(amount: DecimalAmount): number {
+  return (parseAmount(amount).split('.')[1] ?? '').length;
+}
+
+/**
+ * A number's shortest round-trip decimal form, without exponent notation
+ */
+function numberToDecimal(value: number): string {
+  if (!Number.isFinite(value)) return String(value);
+  const sign = value < 0 ? '-' : '';
+  const [mantissa, exponentText] = Math.abs(value).toString().split('e');
+  if (exponentText === undefined) return sign + mantissa;
+
+  const exponent = Number(exponentText);
+  const [whole, fraction = ''] = mantissa.split('.');
+  const digits = whole + fraction;
+  const point = whole.length + exponent;
+  if (point <= 0) return `${sign}0.${'0'.repeat(-point)}${digits}`;
+  if (point >= digits.length) return sign + digits + '0'.repeat(point - digits.length);
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+}
@@ -0,0 +1,107 @@
+import * as crypto from 'crypto';
+import { Keypair } from '@solana/web3.js';
+
+/**
+ * Passphrase-encrypted wallet file: scrypt-derived key, AES-256-GCM.
+ * The public key is stored in clear so the wallet can be identified
+ * (config show, balances) without unlocking it.
+ */
+export interface WalletKeystore {
+  type: typeof KEYSTORE_TYPE;
+  version: 1;
+  publicKey: string;
+  kdf: 'scrypt';
+  kdfParams: ScryptParams & { salt: string }; // salt is base64
+  cipher: 'aes-256-gcm';
+  iv: string; // base64
+  tag: string; // base64
+  ciphertext: string; // base64, encrypted 64-byte secret key
+}
+
+export interface ScryptParams {
+  n: number;
+  r: number;
+  p: number;
+}
+
+export const KEYSTORE_TYPE = 'private-dca-keystore';
+
+/** ~256 MB and ~1s per unlock on a laptop: slow enough to make offline guessing expensive */
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { n: 2 ** 18, r: 8, p: 1 };
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export function isKeystore(data: unknown): data is WalletKeystore {
+  return typeof data === 'object' && data !== null && (data as WalletKeystore).type === KEYSTORE_TYPE;
+}
+
+/**
+ * Encrypt a keypair under a passphrase
+ * @throws Error if the passphrase is too short
+ */
+export function encryptKeystore(
+  keypair: Keypair,
+  passphrase: string,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS
+): WalletKeystore {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt, params), iv);
+  const ciphertext = Buffer.concat([cipher.update(keypair.secretKey), cipher.final()]);
+
+  return {
+    type: KEYSTORE_TYPE,
+    version: 1,
+    publicKey: keypair.publicKey.toBase58(),
+    kdf: 'scrypt',
+    kdfParams: { ...params, salt: salt.toString('base64') },
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a keystore
+ * @throws Error on a wrong passphrase or a corrupted keystore
+ */
+export function decryptKeystore(keystore: WalletKeystore, passphrase: string): Keypair {
+  if (keystore.version !== 1 || keystore.kdf !== 'scrypt' || keystore.cipher !== 'aes-256-gcm') {
+    throw new Error(`Unsupported keystore format (version ${keystore.version}, ${keystore.kdf}/${keystore.cipher})`);
+  }
+
+  const { salt, ...params } = keystore.kdfParams;
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(passphrase, Buffer.from(salt, 'base64'), params),
+    Buffer.from(keystore.iv, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(keystore.tag, 'base64'));
+
+  let secretKey: Buffer;
+  try {
+    secretKey = Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, 'base64')), decipher.final()]);
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+
+  const keypair = Keypair.fromSecretKey(new Uint8Array(secretKey));
+  if (keypair.publicKey.toBase58() !== keystore.publicKey) {
+    throw new Error('Keystore is corrupted: decrypted key does not match its public key');
+  }
+  return keypair;
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptParams): Buffer {
+  return crypto.scryptSync(passphrase.normalize('NFKC'), salt, 32, {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    maxmem: 256 * params.n * params.r * params.p,
+  });
+}
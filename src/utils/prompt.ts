@@ -0,0 +1,28 @@
+import * as readline from 'readline';
+
+/**
+ * Read a line from the terminal without echoing it (passphrases)
+ * @throws Error when stdin is not a terminal
+ */
+export function promptHidden(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return Promise.reject(new Error('Cannot prompt for a passphrase: stdin is not a terminal'));
+  }
+
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+    // Suppress echo of everything typed after the question
+    const output = rl as unknown as { _writeToOutput: (text: string) => void };
+    let muted = false;
+    output._writeToOutput = (text: string) => {
+      if (!muted) process.stdout.write(text);
+    };
+
+    rl.question(question, (answer) => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
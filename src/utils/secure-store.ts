@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { Signer, KeypairSigner, KEY_DERIVATION_PREFIX } from './signer';
+
+/**
+ * AES-256-GCM ciphertext plus what is needed to open it (all base64)
+ */
+export interface SealedSecret {
+  salt: string; // Per-secret HKDF salt
+  iv: string;
+  tag: string; // GCM auth tag
+  ciphertext: string;
+}
+
+// Per-signer root secrets, so a remote signer is asked once per store and process
+const rootSecrets = new WeakMap<Signer, Map<string, Promise<Uint8Array>>>();
+
+/**
+ * Encrypt a secret with a key derived (HKDF-SHA256) from the owner's wallet.
+ * `context` separates keys between stores so one can't be replayed into another.
+ */
+export async function sealWithWallet(owner: Signer, plaintext: Uint8Array, context: string): Promise<SealedSecret> {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', await deriveKey(owner, salt, context), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return {
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a secret sealed with `sealWithWallet`. Secrets sealed before signers
+ * existed (key derived from the secret key itself) still open with a keypair
+ * signer, and are sealed again under the current key for `onResealed` to store.
+ * @throws Error if the wallet or context differ, or the ciphertext was tampered with
+ */
+export async function openWithWallet(
+  owner: Signer,
+  sealed: SealedSecret,
+  context: string,
+  onResealed?: (resealed: SealedSecret) => void
+): Promise<Buffer> {
+  const salt = Buffer.from(sealed.salt, 'base64');
+  try {
+    return decrypt(sealed, await deriveKey(owner, salt, context));
+  } catch (error) {
+    if (!(owner instanceof KeypairSigner)) throw error;
+
+    let plaintext: Buffer;
+    try {
+      plaintext = decrypt(sealed, deriveLegacyKey(owner, salt, context));
+    } catch {
+      throw error;
+    }
+    onResealed?.(await sealWithWallet(owner, plaintext, context));
+    return plaintext;
+  }
+}
+
+/**
+ * Write an owner-only file via rename, so a crash mid-write never truncates it
+ */
+export function writePrivateFile(file: string, data: string): void {
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpFile, data, { mode: 0o600 });
+  fs.renameSync(tmpFile, file);
+}
+
+/**
+ * The root secret is the wallet's signature over a fixed message: Ed25519 is
+ * deterministic, so any signer holding the same key (file, keystore, remote)
+ * derives the same keys without the secret key ever being exposed.
+ */
+async function deriveKey(owner: Signer, salt: Buffer, context: string): Promise<Buffer> {
+  let secrets = rootSecrets.get(owner);
+  if (!secrets) {
+    secrets = new Map();
+    rootSecrets.set(owner, secrets);
+  }
+  let root = secrets.get(context);
+  if (!root) {
+    root = owner.signMessage(Buffer.from(`${KEY_DERIVATION_PREFIX}${context}`));
+    secrets.set(context, root);
+    root.catch(() => secrets!.delete(context));
+  }
+  return Buffer.from(crypto.hkdfSync('sha256', await root, salt, context, 32));
+}
+
+// Sealed before signers: HKDF over the secret key, which only a local keypair has
+function deriveLegacyKey(owner: KeypairSigner, salt: Buffer, context: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', Buffer.from(owner.getKeypair().secretKey), salt, context, 32));
+}
+
+function decrypt(sealed: SealedSecret, key: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(sealed.ciphertext, 'base64')), decipher.final()]);
+}
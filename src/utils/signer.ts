@@ -0,0 +1,189 @@
+import * as crypto from 'crypto';
+import { Keypair, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+
+/** Every key-derivation message starts with this (see secure-store) */
+export const KEY_DERIVATION_PREFIX = 'private-dca key derivation: ';
+
+// Seeds for confidential transfer keys, signed over `label | token account` as the spl-token CLI does
+const CONFIDENTIAL_KEY_LABELS = ['ElGamalSecretKey', 'AeKey'];
+
+/**
+ * Something that can sign for a wallet. The funding wallet is only ever
+ * reached through this interface, so it can live in a file, an encrypted
+ * keystore, or outside the process entirely (remote signer, hardware).
+ */
+export interface Signer {
+  readonly publicKey: PublicKey;
+  /**
+   * Add this wallet's signature to a transaction. Fee payer and blockhash
+   * must already be set; signatures by other signers are kept.
+   */
+  signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T>;
+  /** Ed25519 signature over a key-derivation message (see isSignableMessage) */
+  signMessage(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Signer backed by an in-memory keypair (plaintext keypair files, unlocked
+ * keystores, ephemeral wallets)
+ */
+export class KeypairSigner implements Signer {
+  readonly publicKey: PublicKey;
+  private keypair: Keypair;
+
+  constructor(keypair: Keypair) {
+    this.keypair = keypair;
+    this.publicKey = keypair.publicKey;
+  }
+
+  async signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> {
+    if (isVersionedTransaction(transaction)) {
+      transaction.sign([this.keypair]);
+    } else {
+      transaction.partialSign(this.keypair);
+    }
+    return transaction;
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    const privateKey = crypto.createPrivateKey({
+      key: {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        d: Buffer.from(this.keypair.secretKey.slice(0, 32)).toString('base64url'),
+        x: this.publicKey.toBuffer().toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    return new Uint8Array(crypto.sign(null, message, privateKey));
+  }
+
+  /**
+   * The raw keypair, for integrations that cannot work through a signer (Privacy Cash)
+   */
+  getKeypair(): Keypair {
+    return this.keypair;
+  }
+}
+
+/**
+ * Signer that asks an HTTP service to sign, so the key never enters this process.
+ *
+ * Protocol (JSON, optional `Authorization: Bearer <token>`):
+ *   GET  {url}/public-key -> { publicKey: base58 }
+ *   POST {url}/sign       { publicKey, kind: 'transaction' | 'message', message: base64 }
+ *                         -> { signature: base64 }
+ *
+ * For transactions `message` is the serialized transaction message, so the
+ * service can decode and apply its own policy before signing. A service should
+ * sign `kind: 'message'` bytes only when isSignableMessage accepts them: anything
+ * else could be a transaction message sent past its policy. Returned signatures
+ * are verified before use.
+ */
+export class RemoteSigner implements Signer {
+  readonly publicKey: PublicKey;
+  private url: string;
+  private token?: string;
+
+  constructor(url: string, publicKey: PublicKey, token?: string) {
+    this.url = url.replace(/\/+$/, '');
+    this.publicKey = publicKey;
+    this.token = token;
+  }
+
+  /**
+   * Ask the service which wallet it signs for
+   * @throws Error if the service is unreachable or answers with an invalid key
+   */
+  static async connect(url: string, token?: string): Promise<RemoteSigner> {
+    const signer = new RemoteSigner(url, PublicKey.default, token);
+    const { publicKey } = await signer.request<{ publicKey: string }>('GET', '/public-key');
+    return new RemoteSigner(url, new PublicKey(publicKey), token);
+  }
+
+  async signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> {
+    const message = isVersionedTransaction(transaction)
+      ? transaction.message.serialize()
+      : transaction.serializeMessage();
+    const signature = await this.sign('transaction', message);
+    transaction.addSignature(this.publicKey, Buffer.from(signature));
+    return transaction;
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!isSignableMessage(message)) {
+      throw new Error('Refusing to ask the remote signer for a signature over anything but a key-derivation message');
+    }
+    return this.sign('message', message);
+  }
+
+  private async sign(kind: 'transaction' | 'message', message: Uint8Array): Promise<Uint8Array> {
+    const { signature } = await this.request<{ signature: string }>('POST', '/sign', {
+      publicKey: this.publicKey.toBase58(),
+      kind,
+      message: Buffer.from(message).toString('base64'),
+    });
+
+    const bytes = new Uint8Array(Buffer.from(signature ?? '', 'base64'));
+    if (!verifySignature(this.publicKey, message, bytes)) {
+      throw new Error(`Remote signer returned an invalid signature for ${this.publicKey.toBase58()}`);
+    }
+    return bytes;
+  }
+
+  private async request<T>(method: 'GET' | 'POST', route: string, body?: object): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+
+    const response = await fetch(`${this.url}${route}`, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Remote signer ${route} failed (${response.status}): ${error}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+}
+
+/**
+ * Duck-typed like wallet adapters do, so transactions from another copy of web3.js still match
+ */
+function isVersionedTransaction(transaction: Transaction | VersionedTransaction): transaction is VersionedTransaction {
+  return 'version' in transaction;
+}
+
+/**
+ * Check an Ed25519 signature
+ */
+export function verifySignature(publicKey: PublicKey, message: Uint8Array, signature: Uint8Array): boolean {
+  if (signature.length !== 64) return false;
+  const key = crypto.createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: publicKey.toBuffer().toString('base64url') },
+    format: 'jwk',
+  });
+  return crypto.verify(null, message, key, signature);
+}
+
+/**
+ * Whether bytes are one of the messages this tool signs outside transactions:
+ * KEY_DERIVATION_PREFIX followed by printable ASCII, or a confidential transfer
+ * key label followed by a 32-byte account. Neither fits a transaction message
+ * (their first bytes would declare far more accounts than a transaction can hold),
+ * so a signature over one can't authorize a transaction.
+ */
+export function isSignableMessage(message: Uint8Array): boolean {
+  const bytes = Buffer.from(message);
+  const prefix = Buffer.from(KEY_DERIVATION_PREFIX);
+  if (bytes.subarray(0, prefix.length).equals(prefix)) {
+    return bytes.length <= 256 && bytes.subarray(prefix.length).every((b) => b >= 0x20 && b <= 0x7e);
+  }
+  return CONFIDENTIAL_KEY_LABELS.some((label) => {
+    const labelBytes = Buffer.from(label);
+    return bytes.length === labelBytes.length + 32 && bytes.subarray(0, labelBytes.length).equals(labelBytes);
+  });
+}
@@ -1,16 +1,38 @@
-import { Keypair, Connection, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Keypair, Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { WalletKeystore, isKeystore, decryptKeystore } from './keystore';
+import { promptHidden } from './prompt';
+import { writePrivateFile } from './secure-store';
+import { Signer, KeypairSigner, RemoteSigner } from './signer';
 
 const CONFIG_DIR = path.join(os.homedir(), '.private-dca');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
 
+/** Unlocks encrypted wallets without a prompt (daemon, CI) */
+export const PASSPHRASE_ENV = 'PRIVATE_DCA_PASSPHRASE';
+
+/** Bearer token sent to a remote signer */
+export const SIGNER_TOKEN_ENV = 'PRIVATE_DCA_SIGNER_TOKEN';
+
+export const DEFAULT_KEYSTORE_PATH = path.join(CONFIG_DIR, 'wallet.keystore.json');
+
+export const DEFAULT_PROFILE = 'default';
+
+// Passphrases entered at a prompt, by resolved wallet path, kept for the rest of this process
+const sessionPassphrases = new Map<string, string>();
+
+// Profile picked with the global --profile flag
+let profileOverride: string | undefined;
+
 export interface WalletConfig {
   walletPath: string;
   rpcUrl: string;
   network: 'mainnet-beta' | 'devnet';
   rangeApiKey?: string;
+  /** Remote signer URL; when set, the wallet file is not used */
+  signerUrl?: string;
 }
 
 export function ensureConfigDir(): void {
@@ -19,36 +41,214 @@ export function ensureConfigDir(): void {
   }
 }
 
-export function loadConfig(): WalletConfig | null {
+/**
+ * config.json: named profiles, each a full wallet + RPC setup
+ */
+export interface ConfigFile {
+  activeProfile: string;
+  profiles: Record<string, WalletConfig>;
+}
+
+/**
+ * Read config.json. Files from before profiles (a single flat WalletConfig)
+ * are read as the default profile.
+ */
+export function loadConfigFile(): ConfigFile | null {
   ensureConfigDir();
   if (!fs.existsSync(CONFIG_FILE)) {
     return null;
   }
-  const data = fs.readFileSync(CONFIG_FILE, 'utf-8');
-  return JSON.parse(data);
+  const data = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
+  if (!data.profiles) {
+    return { activeProfile: DEFAULT_PROFILE, profiles: { [DEFAULT_PROFILE]: data } };
+  }
+  return data;
 }
 
-export function saveConfig(config: WalletConfig): void {
+export function saveConfigFile(file: ConfigFile): void {
   ensureConfigDir();
-  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+  fs.writeFileSync(CONFIG_FILE, JSON.stringify(file, null, 2));
+}
+
+/**
+ * Use a profile for the rest of this process instead of the active one (global --profile)
+ */
+export function setProfileOverride(profile: string | undefined): void {
+  profileOverride = profile;
+}
+
+/**
+ * Profile commands apply to: --profile if given, else the active profile
+ */
+export function getSelectedProfile(): string {
+  return selectProfile(loadConfigFile());
+}
+
+function selectProfile(file: ConfigFile | null): string {
+  return profileOverride ?? file?.activeProfile ?? DEFAULT_PROFILE;
+}
+
+/**
+ * Settings of a profile (default: the selected profile)
+ * @returns null if the profile does not exist
+ */
+export function loadConfig(profile?: string): WalletConfig | null {
+  const file = loadConfigFile();
+  return file?.profiles[profile ?? selectProfile(file)] ?? null;
+}
+
+/**
+ * Save a profile's settings (default: the selected profile), creating it if needed
+ */
+export function saveConfig(config: WalletConfig, profile?: string): void {
+  const existing = loadConfigFile();
+  const name = profile ?? selectProfile(existing);
+  const file = existing ?? { activeProfile: name, profiles: {} };
+  file.profiles[name] = config;
+  saveConfigFile(file);
+}
+
+/**
+ * Load a wallet: a Solana CLI plaintext keypair (JSON array) or an encrypted keystore.
+ * Keystores are unlocked with `passphrase`, PRIVATE_DCA_PASSPHRASE or the
+ * passphrase entered earlier via `unlockWallet`.
+ */
+export function loadKeypair(walletPath: string, passphrase?: string): Keypair {
+  const data = readWalletFile(walletPath);
+
+  if (!isKeystore(data)) {
+    return Keypair.fromSecretKey(Uint8Array.from(data as number[]));
+  }
+
+  const secret = passphrase ?? process.env[PASSPHRASE_ENV] ?? sessionPassphrases.get(resolveWalletPath(walletPath));
+  if (secret === undefined) {
+    throw new Error(`Wallet is encrypted. Set ${PASSPHRASE_ENV} or run the command in a terminal to be prompted`);
+  }
+  return decryptKeystore(data, secret);
+}
+
+/**
+ * Load a wallet, prompting for the passphrase if it is encrypted and not yet unlocked
+ */
+export async function loadWallet(walletPath: string): Promise<Keypair> {
+  await unlockWallet(walletPath);
+  return loadKeypair(walletPath);
+}
+
+/**
+ * Signer for the configured wallet: the remote signer when `signerUrl` is set,
+ * otherwise the keypair file or keystore at `walletPath` (prompting to unlock it)
+ */
+export async function loadSigner(config: WalletConfig): Promise<Signer> {
+  if (config.signerUrl) {
+    return RemoteSigner.connect(config.signerUrl, process.env[SIGNER_TOKEN_ENV]);
+  }
+  return new KeypairSigner(await loadWallet(config.walletPath));
+}
+
+/**
+ * Whether a wallet (file or remote signer) and RPC are configured
+ */
+export function hasWalletConfig(config: WalletConfig | null): config is WalletConfig {
+  return !!config && !!(config.walletPath || config.signerUrl) && !!config.rpcUrl;
+}
+
+/**
+ * Prompt for an encrypted wallet's passphrase (once per wallet and process)
+ * unless PRIVATE_DCA_PASSPHRASE is set. No-op for plaintext wallets.
+ * @throws Error on a wrong passphrase, or when no terminal is available
+ */
+export async function unlockWallet(walletPath: string): Promise<void> {
+  const data = readWalletFile(walletPath);
+  const resolvedPath = resolveWalletPath(walletPath);
+  if (!isKeystore(data) || process.env[PASSPHRASE_ENV] !== undefined || sessionPassphrases.has(resolvedPath)) {
+    return;
+  }
+
+  const passphrase = await promptHidden(`Passphrase for ${data.publicKey.slice(0, 8)}...: `);
+  decryptKeystore(data, passphrase); // Throws on a wrong passphrase
+  sessionPassphrases.set(resolvedPath, passphrase);
+}
+
+/**
+ * Hand the wallets unlocked in this process to a detached child over its stdin.
+ * The passphrases never enter the child's environment, which other processes of the user can read.
+ */
+export function sendUnlockedWallets(stdin: NodeJS.WritableStream): void {
+  stdin.end(JSON.stringify(Object.fromEntries(sessionPassphrases)));
+}
+
+/**
+ * Take the wallets a parent unlocked (see sendUnlockedWallets), then close the stream
+ * @throws Error when the stream does not carry them
+ */
+export async function receiveUnlockedWallets(stdin: NodeJS.ReadableStream & { destroy(): void }): Promise<void> {
+  const chunks: Buffer[] = [];
+  try {
+    for await (const chunk of stdin) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+  } finally {
+    stdin.destroy();
+  }
+
+  let received: Record<string, string>;
+  try {
+    received = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new Error('Unlocked wallets were not received from the parent process');
+  }
+  for (const [walletPath, passphrase] of Object.entries(received)) {
+    sessionPassphrases.set(walletPath, passphrase);
+  }
+}
+
+/**
+ * Public key of a wallet without unlocking it
+ */
+export function getWalletPublicKey(walletPath: string): PublicKey {
+  const data = readWalletFile(walletPath);
+  if (isKeystore(data)) {
+    return new PublicKey(data.publicKey);
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(data as number[])).publicKey;
+}
+
+export function isEncryptedWallet(walletPath: string): boolean {
+  return isKeystore(readWalletFile(walletPath));
+}
+
+/**
+ * Write a keystore (owner-only). Refuses to overwrite an existing file unless asked.
+ */
+export function saveKeystore(keystorePath: string, keystore: WalletKeystore, overwrite: boolean = false): void {
+  const resolvedPath = resolveWalletPath(keystorePath);
+  if (!overwrite && fs.existsSync(resolvedPath)) {
+    throw new Error(`File already exists: ${resolvedPath}`);
+  }
+  fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+  writePrivateFile(resolvedPath, JSON.stringify(keystore, null, 2));
+}
+
+export function resolveWalletPath(walletPath: string): string {
+  return walletPath.replace('~', os.homedir());
 }
 
-export function loadKeypair(walletPath: string): Keypair {
-  const resolvedPath = walletPath.replace('~', os.homedir());
+function readWalletFile(walletPath: string): unknown {
+  const resolvedPath = resolveWalletPath(walletPath);
 
   if (!fs.existsSync(resolvedPath)) {
     throw new Error(`Wallet file not found: ${resolvedPath}`);
   }
 
-  const secretKey = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
-  return Keypair.fromSecretKey(Uint8Array.from(secretKey));
+  return JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
 }
 
 export function getConnection(rpcUrl: string): Connection {
   return new Connection(rpcUrl, 'confirmed');
 }
 
-export async function getBalance(connection: Connection, keypair: Keypair): Promise<number> {
-  const balance = await connection.getBalance(keypair.publicKey);
+export async function getBalance(connection: Connection, publicKey: PublicKey): Promise<number> {
+  const balance = await connection.getBalance(publicKey);
   return balance / LAMPORTS_PER_SOL;
 }